@@ -5,9 +5,14 @@ import { User } from './src/entities/User';
 import { Collection, Request } from './src/entities/Collection';
 import { Environment } from './src/entities/Environment';
 import { History } from './src/entities/History';
+import { CollectionRun } from './src/entities/CollectionRun';
+import { Cookie } from './src/entities/Cookie';
+import { Certificate } from './src/entities/Certificate';
+import { StoredFile } from './src/entities/StoredFile';
+import { GlobalVariables } from './src/entities/GlobalVariables';
 
 export default defineConfig({
-  entities: [User, Collection, Request, Environment, History],
+  entities: [User, Collection, Request, Environment, History, CollectionRun, Cookie, Certificate, StoredFile, GlobalVariables],
   driver: SqliteDriver,
   dbName: './database.sqlite',
   debug: process.env.NODE_ENV === 'development',
@@ -0,0 +1,97 @@
+import React from 'react';
+import { Assertion, ASSERTION_OPERATORS } from '../utils/assertions';
+
+interface AssertionsEditorProps {
+  assertions: Assertion[];
+  onChange: (assertions: Assertion[]) => void;
+}
+
+export default function AssertionsEditor({ assertions, onChange }: AssertionsEditorProps) {
+  const addAssertion = () => {
+    onChange([...assertions, { type: 'status', operator: 'equals', expected: '200', enabled: true }]);
+  };
+
+  const updateAssertion = (index: number, changes: Partial<Assertion>) => {
+    onChange(assertions.map((assertion, i) => i === index ? { ...assertion, ...changes } : assertion));
+  };
+
+  const removeAssertion = (index: number) => {
+    onChange(assertions.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="flex justify-between items-center mb-3 flex-shrink-0">
+        <h3 className="heading-sm text-slate-900 dark:text-white">Assertions</h3>
+        <button
+          onClick={addAssertion}
+          className="px-3 py-1 bg-blue-600 text-white rounded text-sm button-text"
+        >
+          Add Assertion
+        </button>
+      </div>
+
+      <div className="flex-1 min-h-0 overflow-y-auto space-y-2">
+        {assertions.length === 0 && (
+          <p className="text-sm text-slate-500 dark:text-slate-400">
+            Assertions are checked when this request runs as part of a collection run.
+          </p>
+        )}
+        {assertions.map((assertion, index) => (
+          <div key={index} className="flex gap-2 items-center">
+            <input
+              type="checkbox"
+              checked={assertion.enabled}
+              onChange={(e) => updateAssertion(index, { enabled: e.target.checked })}
+              className="rounded border-slate-300 text-cyan-600 focus:ring-cyan-500"
+            />
+            <select
+              value={assertion.type}
+              onChange={(e) => updateAssertion(index, { type: e.target.value as Assertion['type'] })}
+              className="px-2 py-2 border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-700 text-slate-900 dark:text-white text-sm"
+            >
+              <option value="status">Status</option>
+              <option value="header">Header</option>
+              <option value="jsonPath">JSON Path</option>
+            </select>
+            {assertion.type !== 'status' && (
+              <input
+                type="text"
+                value={assertion.property || ''}
+                onChange={(e) => updateAssertion(index, { property: e.target.value })}
+                placeholder={assertion.type === 'header' ? 'Header name' : '$.data.id'}
+                className="flex-1 px-3 py-2 border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-700 text-slate-900 dark:text-white text-sm font-mono focus:ring-2 focus:ring-cyan-500 focus:border-transparent"
+              />
+            )}
+            <select
+              value={assertion.operator}
+              onChange={(e) => updateAssertion(index, { operator: e.target.value as Assertion['operator'] })}
+              className="px-2 py-2 border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-700 text-slate-900 dark:text-white text-sm"
+            >
+              {ASSERTION_OPERATORS.map(operator => (
+                <option key={operator.value} value={operator.value}>{operator.label}</option>
+              ))}
+            </select>
+            {assertion.operator !== 'exists' && (
+              <input
+                type="text"
+                value={assertion.expected}
+                onChange={(e) => updateAssertion(index, { expected: e.target.value })}
+                placeholder="Expected value"
+                className="flex-1 px-3 py-2 border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-700 text-slate-900 dark:text-white text-sm focus:ring-2 focus:ring-cyan-500 focus:border-transparent"
+              />
+            )}
+            <button
+              onClick={() => removeAssertion(index)}
+              className="p-2 text-red-600 hover:bg-red-100 dark:hover:bg-red-900/30 rounded"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,339 @@
+import React, { useState } from 'react';
+import { RequestAuth, AuthType, OAuth2Config, AUTH_TYPE_LABELS } from '../utils/requestAuth';
+import {
+  authorizeWithPopup,
+  clearCachedOAuth2Token,
+  defaultOAuth2RedirectUri,
+  getCachedOAuth2Token,
+  requestOAuth2Token
+} from '../utils/oauth2';
+import { ProxyRequestOptions, ProxyResponse } from '../utils/requestExecutor';
+
+interface AuthEditorProps {
+  auth: RequestAuth;
+  onChange: (auth: RequestAuth) => void;
+  // Collections cannot inherit; requests show what they would inherit
+  allowInherit: boolean;
+  inheritedAuth?: RequestAuth;
+  // Used to fetch OAuth 2.0 tokens through the proxy with variables substituted
+  send: (options: ProxyRequestOptions) => Promise<ProxyResponse>;
+  resolveConfig: (config: OAuth2Config) => OAuth2Config;
+}
+
+const DEFAULT_OAUTH2: OAuth2Config = {
+  grantType: 'client_credentials',
+  tokenUrl: '',
+  clientId: '',
+  clientSecret: '',
+  scope: '',
+  clientAuthentication: 'body',
+};
+
+const inputClass = 'w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-700 text-slate-900 dark:text-white text-sm focus:ring-2 focus:ring-cyan-500 focus:border-transparent';
+
+function Field({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <label className="block">
+      <span className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">{label}</span>
+      {children}
+    </label>
+  );
+}
+
+export default function AuthEditor({ auth, onChange, allowInherit, inheritedAuth, send, resolveConfig }: AuthEditorProps) {
+  const [tokenStatus, setTokenStatus] = useState('');
+  const [fetchingToken, setFetchingToken] = useState(false);
+  // Bumped after token changes so the cached token summary re-renders
+  const [, setTokenVersion] = useState(0);
+
+  const types = (Object.keys(AUTH_TYPE_LABELS) as AuthType[]).filter(type => allowInherit || type !== 'inherit');
+
+  const update = <K extends 'basic' | 'bearer' | 'apikey' | 'digest' | 'oauth2'>(section: K, changes: Partial<NonNullable<RequestAuth[K]>>) => {
+    const defaults: Record<string, object> = {
+      basic: { username: '', password: '' },
+      bearer: { token: '' },
+      apikey: { key: '', value: '', in: 'header' },
+      digest: { username: '', password: '' },
+      oauth2: DEFAULT_OAUTH2,
+    };
+    onChange({ ...auth, [section]: { ...defaults[section], ...auth[section], ...changes } });
+  };
+
+  const oauth2 = { ...DEFAULT_OAUTH2, ...auth.oauth2 };
+  const cachedToken = auth.type === 'oauth2' && oauth2.tokenUrl ? getCachedOAuth2Token(resolveConfig(oauth2)) : null;
+
+  const handleGetToken = async () => {
+    setFetchingToken(true);
+    setTokenStatus('');
+    try {
+      const config = resolveConfig(oauth2);
+      clearCachedOAuth2Token(config);
+      if (config.grantType === 'authorization_code') {
+        await authorizeWithPopup(config, send);
+      } else {
+        await requestOAuth2Token(config, send);
+      }
+      setTokenStatus('Access token received');
+    } catch (error: Error | unknown) {
+      setTokenStatus(error instanceof Error ? error.message : 'Failed to get access token');
+    } finally {
+      setFetchingToken(false);
+      setTokenVersion(version => version + 1);
+    }
+  };
+
+  const handleClearToken = () => {
+    clearCachedOAuth2Token(resolveConfig(oauth2));
+    setTokenStatus('');
+    setTokenVersion(version => version + 1);
+  };
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="flex items-center gap-3 mb-4 flex-shrink-0">
+        <h3 className="heading-sm text-slate-900 dark:text-white">Authorization</h3>
+        <select
+          value={auth.type}
+          onChange={(e) => onChange({ ...auth, type: e.target.value as AuthType })}
+          className="px-2 py-2 border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-700 text-slate-900 dark:text-white text-sm"
+        >
+          {types.map(type => (
+            <option key={type} value={type}>{AUTH_TYPE_LABELS[type]}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex-1 min-h-0 overflow-y-auto space-y-3 max-w-xl">
+        {auth.type === 'inherit' && (
+          <p className="text-sm text-slate-500 dark:text-slate-400">
+            This request uses the collection&apos;s authorization
+            {inheritedAuth ? ` (${AUTH_TYPE_LABELS[inheritedAuth.type]})` : ''}.
+          </p>
+        )}
+
+        {auth.type === 'none' && (
+          <p className="text-sm text-slate-500 dark:text-slate-400">This request does not use any authorization.</p>
+        )}
+
+        {(auth.type === 'basic' || auth.type === 'digest') && (
+          <>
+            <Field label="Username">
+              <input
+                type="text"
+                value={auth[auth.type]?.username || ''}
+                onChange={(e) => update(auth.type as 'basic' | 'digest', { username: e.target.value })}
+                className={inputClass}
+              />
+            </Field>
+            <Field label="Password">
+              <input
+                type="password"
+                value={auth[auth.type]?.password || ''}
+                onChange={(e) => update(auth.type as 'basic' | 'digest', { password: e.target.value })}
+                className={inputClass}
+              />
+            </Field>
+            {auth.type === 'digest' && (
+              <p className="text-xs text-slate-500 dark:text-slate-400">
+                The proxy answers the server&apos;s digest challenge and retries the request.
+              </p>
+            )}
+          </>
+        )}
+
+        {auth.type === 'bearer' && (
+          <>
+            <Field label="Token">
+              <input
+                type="text"
+                value={auth.bearer?.token || ''}
+                onChange={(e) => update('bearer', { token: e.target.value })}
+                placeholder="{{accessToken}}"
+                className={`${inputClass} font-mono`}
+              />
+            </Field>
+            <Field label="Prefix">
+              <input
+                type="text"
+                value={auth.bearer?.prefix || ''}
+                onChange={(e) => update('bearer', { prefix: e.target.value })}
+                placeholder="Bearer"
+                className={inputClass}
+              />
+            </Field>
+          </>
+        )}
+
+        {auth.type === 'apikey' && (
+          <>
+            <Field label="Key">
+              <input
+                type="text"
+                value={auth.apikey?.key || ''}
+                onChange={(e) => update('apikey', { key: e.target.value })}
+                placeholder="X-API-Key"
+                className={inputClass}
+              />
+            </Field>
+            <Field label="Value">
+              <input
+                type="text"
+                value={auth.apikey?.value || ''}
+                onChange={(e) => update('apikey', { value: e.target.value })}
+                className={`${inputClass} font-mono`}
+              />
+            </Field>
+            <Field label="Add to">
+              <select
+                value={auth.apikey?.in || 'header'}
+                onChange={(e) => update('apikey', { in: e.target.value as 'header' | 'query' })}
+                className={inputClass}
+              >
+                <option value="header">Header</option>
+                <option value="query">Query Params</option>
+              </select>
+            </Field>
+          </>
+        )}
+
+        {auth.type === 'oauth2' && (
+          <>
+            <Field label="Grant Type">
+              <select
+                value={oauth2.grantType}
+                onChange={(e) => update('oauth2', { grantType: e.target.value as OAuth2Config['grantType'] })}
+                className={inputClass}
+              >
+                <option value="client_credentials">Client Credentials</option>
+                <option value="password">Password</option>
+                <option value="authorization_code">Authorization Code</option>
+              </select>
+            </Field>
+            {oauth2.grantType === 'authorization_code' && (
+              <>
+                <Field label="Authorization URL">
+                  <input
+                    type="text"
+                    value={oauth2.authUrl || ''}
+                    onChange={(e) => update('oauth2', { authUrl: e.target.value })}
+                    className={inputClass}
+                  />
+                </Field>
+                <Field label="Redirect URI">
+                  <input
+                    type="text"
+                    value={oauth2.redirectUri || ''}
+                    onChange={(e) => update('oauth2', { redirectUri: e.target.value })}
+                    placeholder={defaultOAuth2RedirectUri()}
+                    className={inputClass}
+                  />
+                </Field>
+                <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+                  <input
+                    type="checkbox"
+                    checked={!!oauth2.usePkce}
+                    onChange={(e) => update('oauth2', { usePkce: e.target.checked })}
+                    className="rounded border-slate-300 text-cyan-600 focus:ring-cyan-500"
+                  />
+                  Use PKCE (S256)
+                </label>
+              </>
+            )}
+            <Field label="Access Token URL">
+              <input
+                type="text"
+                value={oauth2.tokenUrl}
+                onChange={(e) => update('oauth2', { tokenUrl: e.target.value })}
+                className={inputClass}
+              />
+            </Field>
+            <Field label="Client ID">
+              <input
+                type="text"
+                value={oauth2.clientId}
+                onChange={(e) => update('oauth2', { clientId: e.target.value })}
+                className={inputClass}
+              />
+            </Field>
+            <Field label="Client Secret">
+              <input
+                type="password"
+                value={oauth2.clientSecret || ''}
+                onChange={(e) => update('oauth2', { clientSecret: e.target.value })}
+                className={inputClass}
+              />
+            </Field>
+            {oauth2.grantType === 'password' && (
+              <>
+                <Field label="Username">
+                  <input
+                    type="text"
+                    value={oauth2.username || ''}
+                    onChange={(e) => update('oauth2', { username: e.target.value })}
+                    className={inputClass}
+                  />
+                </Field>
+                <Field label="Password">
+                  <input
+                    type="password"
+                    value={oauth2.password || ''}
+                    onChange={(e) => update('oauth2', { password: e.target.value })}
+                    className={inputClass}
+                  />
+                </Field>
+              </>
+            )}
+            <Field label="Scope">
+              <input
+                type="text"
+                value={oauth2.scope || ''}
+                onChange={(e) => update('oauth2', { scope: e.target.value })}
+                placeholder="read write"
+                className={inputClass}
+              />
+            </Field>
+            <Field label="Client Authentication">
+              <select
+                value={oauth2.clientAuthentication || 'body'}
+                onChange={(e) => update('oauth2', { clientAuthentication: e.target.value as 'body' | 'header' })}
+                className={inputClass}
+              >
+                <option value="body">Send credentials in body</option>
+                <option value="header">Send as Basic Auth header</option>
+              </select>
+            </Field>
+
+            <div className="flex items-center gap-3 pt-2">
+              <button
+                onClick={handleGetToken}
+                disabled={fetchingToken || !oauth2.tokenUrl}
+                className="px-3 py-1 bg-blue-600 disabled:bg-slate-400 text-white rounded text-sm button-text"
+              >
+                {fetchingToken ? 'Requesting...' : 'Get New Access Token'}
+              </button>
+              {cachedToken && (
+                <button
+                  onClick={handleClearToken}
+                  className="px-3 py-1 text-sm text-red-600 hover:bg-red-100 dark:hover:bg-red-900/30 rounded"
+                >
+                  Clear Token
+                </button>
+              )}
+            </div>
+            {tokenStatus && <p className="text-sm text-slate-600 dark:text-slate-400">{tokenStatus}</p>}
+            {cachedToken && (
+              <p className="text-xs text-slate-500 dark:text-slate-400 font-mono break-all">
+                Token: {cachedToken.accessToken.slice(0, 12)}...
+                {cachedToken.expiresAt ? ` (expires ${new Date(cachedToken.expiresAt).toLocaleString()})` : ''}
+                {cachedToken.refreshToken ? ' · refreshable' : ''}
+              </p>
+            )}
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              Tokens are cached in this browser and refreshed automatically when they expire.
+            </p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
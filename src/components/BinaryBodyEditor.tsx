@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import { BinaryFileBody, StoredFileInfo, MAX_FILE_SIZE, formatFileSize } from '../utils/storedFiles';
+
+interface BinaryBodyEditorProps {
+  value?: BinaryFileBody;
+  onChange: (binary: BinaryFileBody | undefined) => void;
+  // Text typed into binary bodies before files could be chosen; still sent while no file is
+  legacyBody: string;
+  files: StoredFileInfo[];
+  onUploadFile: (file: File) => Promise<StoredFileInfo>;
+  onDeleteFile: (id: string) => Promise<void>;
+}
+
+const inputClass = 'px-3 py-2 border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-700 text-slate-900 dark:text-white text-sm focus:ring-2 focus:ring-cyan-500 focus:border-transparent';
+
+export default function BinaryBodyEditor({ value, onChange, legacyBody, files, onUploadFile, onDeleteFile }: BinaryBodyEditorProps) {
+  const [uploading, setUploading] = useState(false);
+  const [uploadError, setUploadError] = useState('');
+
+  const selected = value ? files.find(file => file.id === value.fileId) : undefined;
+
+  const selectFile = (file: StoredFileInfo) => {
+    onChange({ fileId: file.id, fileName: file.name, contentType: file.contentType });
+  };
+
+  const handleUpload = async (file: File) => {
+    setUploading(true);
+    setUploadError('');
+    try {
+      selectFile(await onUploadFile(file));
+    } catch (error: Error | unknown) {
+      setUploadError(error instanceof Error ? error.message : 'Failed to upload file');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  return (
+    <div className="h-full overflow-auto p-3 space-y-4">
+      <div className="p-3 border border-slate-200 dark:border-slate-700 rounded space-y-3">
+        {value ? (
+          <>
+            <div className="flex items-start justify-between gap-2">
+              <div className="min-w-0">
+                <div className="font-medium text-sm text-slate-900 dark:text-white truncate">{value.fileName}</div>
+                {selected ? (
+                  <div className="text-xs text-slate-500 dark:text-slate-400">
+                    {formatFileSize(selected.size)} · uploaded {new Date(selected.createdAt).toLocaleString()}
+                  </div>
+                ) : (
+                  <div className="text-xs text-red-600 dark:text-red-400">This file has been deleted; choose another one.</div>
+                )}
+              </div>
+              <button
+                onClick={() => onChange(undefined)}
+                className="px-2 py-1 text-xs text-slate-600 dark:text-slate-400 hover:text-slate-800 dark:hover:text-slate-200"
+              >
+                Remove
+              </button>
+            </div>
+            {selected && (
+              <div className="text-xs">
+                <span className="text-slate-500 dark:text-slate-400">SHA-256 </span>
+                <code className="font-mono text-slate-700 dark:text-slate-300 break-all">{selected.sha256}</code>
+              </div>
+            )}
+            <label className="flex items-center gap-2">
+              <span className="text-sm text-slate-700 dark:text-slate-300 whitespace-nowrap">Content-Type</span>
+              <input
+                type="text"
+                value={value.contentType || ''}
+                onChange={(e) => onChange({ ...value, contentType: e.target.value || undefined })}
+                placeholder={selected?.contentType || 'application/octet-stream'}
+                className={`flex-1 ${inputClass}`}
+              />
+              {selected && value.contentType !== selected.contentType && (
+                <button
+                  onClick={() => onChange({ ...value, contentType: selected.contentType })}
+                  className="text-sm text-blue-600 hover:text-blue-700 whitespace-nowrap"
+                  title={`Detected from the file: ${selected.contentType}`}
+                >
+                  Use detected
+                </button>
+              )}
+            </label>
+            <p className="text-xs text-slate-500 dark:text-slate-400">A Content-Type header on the request takes precedence.</p>
+          </>
+        ) : (
+          <p className="text-sm text-slate-500 dark:text-slate-400">
+            {legacyBody
+              ? `No file chosen; the ${legacyBody.length} characters of text typed earlier are sent. Choose a file to send its bytes instead.`
+              : 'No file chosen. The file\'s exact bytes are sent as the request body.'}
+          </p>
+        )}
+
+        <label className="inline-flex items-center gap-2 text-sm">
+          <span className={`px-3 py-1 bg-blue-600 hover:bg-blue-700 text-white rounded button-text cursor-pointer ${uploading ? 'opacity-50' : ''}`}>
+            {uploading ? 'Uploading...' : value ? 'Choose another file...' : 'Choose file...'}
+          </span>
+          <span className="text-xs text-slate-500 dark:text-slate-400">Up to {formatFileSize(MAX_FILE_SIZE)}</span>
+          <input
+            type="file"
+            className="hidden"
+            disabled={uploading}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) handleUpload(file);
+            }}
+          />
+        </label>
+        {uploadError && <p className="text-sm text-red-600 dark:text-red-400">{uploadError}</p>}
+      </div>
+
+      <div className="space-y-1">
+        <h4 className="text-sm font-semibold text-slate-900 dark:text-white">Uploaded files</h4>
+        {files.length === 0 ? (
+          <p className="text-sm text-slate-500 dark:text-slate-400">No files uploaded yet.</p>
+        ) : (
+          files.map(file => (
+            <div key={file.id} className="flex items-center gap-2 p-2 bg-slate-50 dark:bg-slate-800 rounded text-sm">
+              <div className="flex-1 min-w-0">
+                <div className="font-medium text-slate-800 dark:text-slate-200 truncate">{file.name}</div>
+                <div className="text-xs text-slate-500 dark:text-slate-400 truncate">
+                  {formatFileSize(file.size)} · {file.contentType} · <span className="font-mono" title={file.sha256}>{file.sha256.slice(0, 12)}</span>
+                </div>
+              </div>
+              {value?.fileId === file.id ? (
+                <span className="px-2 py-1 text-xs text-green-700 dark:text-green-400">In use</span>
+              ) : (
+                <button
+                  onClick={() => selectFile(file)}
+                  className="px-2 py-1 text-xs bg-slate-200 dark:bg-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-300 dark:hover:bg-slate-600 rounded"
+                >
+                  Use
+                </button>
+              )}
+              <button
+                onClick={() => onDeleteFile(file.id).catch(() => undefined)}
+                className="p-1 text-red-600 hover:bg-red-100 dark:hover:bg-red-900/30 rounded"
+                title="Delete file; saved requests that use it can no longer be sent"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                </svg>
+              </button>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,15 +1,18 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
 import { brightLightTheme, brightDarkTheme } from '../utils/syntaxThemes';
+import type { VariableHoverHandlers } from './VariableHover';
 
 interface BodyEditorProps {
   value: string;
   onChange: (value: string) => void;
   bodyType: 'json' | 'form-data' | 'x-www-form-urlencoded' | 'raw' | 'binary';
   className?: string;
+  // Previews {{variables}} under the pointer
+  variableHover?: VariableHoverHandlers;
 }
 
-export default function BodyEditor({ value, onChange, bodyType, className = '' }: BodyEditorProps) {
+export default function BodyEditor({ value, onChange, bodyType, className = '', variableHover }: BodyEditorProps) {
   const [isValid, setIsValid] = useState(true);
   const [isDark, setIsDark] = useState(false);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
@@ -201,6 +204,7 @@ export default function BodyEditor({ value, onChange, bodyType, className = '' }
               ref={textareaRef}
               value={value}
               onChange={handleChange}
+              {...variableHover}
               placeholder={getPlaceholder()}
               className="absolute inset-0 w-full h-full p-3 font-mono text-sm resize-none border-none outline-none bg-transparent text-transparent caret-slate-900 dark:caret-white focus:ring-2 focus:ring-cyan-500 focus:ring-inset z-10"
               style={{
@@ -285,6 +289,7 @@ export default function BodyEditor({ value, onChange, bodyType, className = '' }
             ref={textareaRef}
             value={value}
             onChange={handleChange}
+            {...variableHover}
             placeholder={getPlaceholder()}
             className={`w-full h-full p-3 font-mono text-sm resize-none border-none outline-none focus:ring-2 focus:ring-cyan-500 focus:ring-inset ${
               !isValid ? 'bg-red-50 dark:bg-red-900/20' : 'bg-white dark:bg-slate-800'
@@ -0,0 +1,192 @@
+import React, { useState } from 'react';
+import { StoredCertificate, CertificateUpload } from '../hooks/useCertificates';
+
+interface CertificateManagerProps {
+  certificates: StoredCertificate[];
+  onUpload: (upload: CertificateUpload) => Promise<unknown>;
+  onDelete: (id: string) => Promise<void>;
+}
+
+const TYPE_LABELS: Record<StoredCertificate['type'], string> = {
+  ca: 'CA bundle',
+  pem: 'Client certificate (PEM)',
+  pfx: 'Client certificate (PFX/P12)',
+};
+
+const inputClass = 'w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-700 text-slate-900 dark:text-white text-sm focus:ring-2 focus:ring-cyan-500 focus:border-transparent';
+
+const EMPTY_UPLOAD: CertificateUpload = { name: '', type: 'pem', data: '', privateKey: '', passphrase: '' };
+
+async function readFile(file: File, binary: boolean): Promise<string> {
+  if (!binary) return file.text();
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let text = '';
+  bytes.forEach(byte => { text += String.fromCharCode(byte); });
+  return btoa(text);
+}
+
+function FileField({ label, loaded, binary, accept, onLoad }: {
+  label: string;
+  loaded: boolean;
+  binary: boolean;
+  accept: string;
+  onLoad: (content: string, fileName: string) => void;
+}) {
+  return (
+    <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+      <span className="px-3 py-1 bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 rounded button-text cursor-pointer">
+        {label}
+      </span>
+      {loaded && <span className="text-xs text-green-700 dark:text-green-400">Loaded</span>}
+      <input
+        type="file"
+        accept={accept}
+        className="hidden"
+        onChange={async (e) => {
+          const file = e.target.files?.[0];
+          e.target.value = '';
+          if (file) onLoad(await readFile(file, binary), file.name);
+        }}
+      />
+    </label>
+  );
+}
+
+export default function CertificateManager({ certificates, onUpload, onDelete }: CertificateManagerProps) {
+  const [upload, setUpload] = useState<CertificateUpload | null>(null);
+  const [uploadError, setUploadError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const update = (changes: Partial<CertificateUpload>) => setUpload(prev => prev && { ...prev, ...changes });
+
+  const handleUpload = async () => {
+    if (!upload) return;
+    setSaving(true);
+    setUploadError('');
+    try {
+      await onUpload(upload);
+      setUpload(null);
+    } catch (error: Error | unknown) {
+      setUploadError(error instanceof Error ? error.message : 'Failed to upload certificate');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {certificates.length === 0 ? (
+        <p className="text-sm text-slate-500 dark:text-slate-400">No certificates uploaded yet.</p>
+      ) : (
+        <div className="space-y-1">
+          {certificates.map(certificate => {
+            const expired = certificate.expiresAt !== null && certificate.expiresAt < Date.now();
+            return (
+              <div key={certificate.id} className="flex items-center gap-2 p-2 bg-slate-50 dark:bg-slate-800 rounded text-sm">
+                <div className="flex-1 min-w-0">
+                  <div className="font-medium text-slate-800 dark:text-slate-200 truncate">{certificate.name}</div>
+                  <div className="text-xs text-slate-500 dark:text-slate-400 truncate">
+                    {TYPE_LABELS[certificate.type]}
+                    {certificate.subject && ` · ${certificate.subject}`}
+                    {certificate.expiresAt !== null && (
+                      <span className={expired ? 'text-red-600 dark:text-red-400' : ''}>
+                        {` · ${expired ? 'expired' : 'expires'} ${new Date(certificate.expiresAt).toLocaleDateString()}`}
+                      </span>
+                    )}
+                  </div>
+                </div>
+                <button
+                  onClick={() => onDelete(certificate.id).catch(() => undefined)}
+                  className="p-1 text-red-600 hover:bg-red-100 dark:hover:bg-red-900/30 rounded"
+                  title="Delete certificate"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                  </svg>
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {upload ? (
+        <div className="p-3 border border-slate-200 dark:border-slate-700 rounded space-y-3">
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={upload.name}
+              onChange={(e) => update({ name: e.target.value })}
+              placeholder="Name"
+              className={inputClass}
+            />
+            <select
+              value={upload.type}
+              onChange={(e) => update({ type: e.target.value as CertificateUpload['type'], data: '', privateKey: '' })}
+              className={inputClass}
+            >
+              {(Object.keys(TYPE_LABELS) as CertificateUpload['type'][]).map(type => (
+                <option key={type} value={type}>{TYPE_LABELS[type]}</option>
+              ))}
+            </select>
+          </div>
+          <FileField
+            label={upload.type === 'ca' ? 'CA file (.pem, .crt)' : upload.type === 'pfx' ? 'PFX file (.pfx, .p12)' : 'Certificate (.pem, .crt)'}
+            loaded={!!upload.data}
+            binary={upload.type === 'pfx'}
+            accept={upload.type === 'pfx' ? '.pfx,.p12' : '.pem,.crt,.cer'}
+            onLoad={(data, fileName) => update({ data, name: upload.name || fileName })}
+          />
+          {upload.type === 'pem' && (
+            <FileField
+              label="Private key (.pem, .key)"
+              loaded={!!upload.privateKey}
+              binary={false}
+              accept=".pem,.key"
+              onLoad={(privateKey) => update({ privateKey })}
+            />
+          )}
+          {upload.type !== 'ca' && (
+            <input
+              type="password"
+              value={upload.passphrase || ''}
+              onChange={(e) => update({ passphrase: e.target.value })}
+              placeholder="Passphrase (if the key is encrypted)"
+              autoComplete="new-password"
+              className={inputClass}
+            />
+          )}
+          {uploadError && <p className="text-sm text-red-600 dark:text-red-400">{uploadError}</p>}
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setUpload(null)}
+              className="px-3 py-1 text-sm text-slate-600 dark:text-slate-400 hover:text-slate-800 dark:hover:text-slate-200"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleUpload}
+              disabled={saving || !upload.name || !upload.data}
+              className="px-3 py-1 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white rounded text-sm button-text"
+            >
+              {saving ? 'Uploading...' : 'Upload'}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={() => {
+            setUpload(EMPTY_UPLOAD);
+            setUploadError('');
+          }}
+          className="px-3 py-1 bg-slate-200 dark:bg-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-300 dark:hover:bg-slate-600 rounded text-sm button-text"
+        >
+          Add Certificate
+        </button>
+      )}
+      <p className="text-xs text-slate-500 dark:text-slate-400">
+        Certificates, keys and passphrases are encrypted on the server and never sent back to the browser.
+      </p>
+    </div>
+  );
+}
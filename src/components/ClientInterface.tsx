@@ -1,15 +1,71 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import EnvironmentManager from './EnvironmentManager';
 import RequestHistory from './RequestHistory';
 import CodeGenerator from './CodeGenerator';
 import ImportExport from './ImportExport';
 import ResponseViewer from './ResponseViewer';
 import BodyEditor from './BodyEditor';
+import ScriptEditor from './ScriptEditor';
+import AssertionsEditor from './AssertionsEditor';
+import CollectionRunner from './CollectionRunner';
+import AuthEditor from './AuthEditor';
+import GraphQLEditor from './GraphQLEditor';
+import WebSocketComposer from './WebSocketComposer';
+import WebSocketLog from './WebSocketLog';
+import GrpcServicePanel from './GrpcServicePanel';
+import GrpcMessageEditor from './GrpcMessageEditor';
+import GrpcResponseView from './GrpcResponseView';
+import RequestSettingsEditor from './RequestSettingsEditor';
+import FormDataEditor from './FormDataEditor';
+import BinaryBodyEditor from './BinaryBodyEditor';
+import VariableTable from './VariableTable';
+import { useVariableHover } from './VariableHover';
 import { useCollections } from '../hooks/useCollections';
 import { useEnvironments } from '../hooks/useEnvironments';
-import { useHistory } from '../hooks/useHistory';
+import { useGlobals } from '../hooks/useGlobals';
+import { useHistory, HistoryEntry } from '../hooks/useHistory';
 import { useApi } from '../hooks/useApi';
-import { validateUrl } from '../utils/validation';
+import { useWebSocketRelay } from '../hooks/useWebSocketRelay';
+import { useGrpc } from '../hooks/useGrpc';
+import { useFiles } from '../hooks/useFiles';
+import { validateUrl, validateWebSocketUrl, validateGrpcUrl } from '../utils/validation';
+import { ScriptTestResult } from '../utils/scriptSandbox';
+import { executeRequest, findUnresolvedVariables, prepareConnection, ResponseCookie } from '../utils/requestExecutor';
+import { createVariableResolver, redactSecrets, trackUnresolvedVariables, Variable, VariableResolverOptions } from '../utils/variables';
+import { StreamEvent, StreamFormat } from '../utils/eventStream';
+import { RequestAuth, OAuth2Config, resolveAuth, mapAuthValues } from '../utils/requestAuth';
+import { getCachedOAuth2Token } from '../utils/oauth2';
+import { Assertion } from '../utils/assertions';
+import { ImportedCollection, ImportedEnvironment } from '../utils/importFormats';
+import { isCurlCommand, parseCurlCommand } from '../utils/curlParser';
+import {
+  WebSocketSettings,
+  WEBSOCKET_METHOD,
+  DEFAULT_WEBSOCKET_SETTINGS,
+  isWebSocketRequest,
+  parseProtocols,
+  encodeWebSocketMessage
+} from '../utils/websocket';
+import {
+  GraphQLRequestBody,
+  DEFAULT_GRAPHQL_BODY,
+  INTROSPECTION_QUERY,
+  INTROSPECTION_OPERATION_NAME,
+  parseIntrospectionResponse,
+  graphqlBodyFromJson
+} from '../utils/graphql';
+import {
+  GrpcSettings,
+  GRPC_METHOD,
+  DEFAULT_GRPC_SETTINGS,
+  isGrpcRequest,
+  findGrpcMethod,
+  parseGrpcMessage
+} from '../utils/grpc';
+import { RequestSettings, hasCustomSettings, resolveRequestSettings } from '../utils/requestSettings';
+import { FormDataField, formDataFields, serializeFormDataBody } from '../utils/formData';
+import { BinaryFileBody } from '../utils/storedFiles';
+import type { GraphQLSchema } from 'graphql';
 // Only import what we need
 import { /* detectMimeType, generateFilename, createDownloadBlob, downloadBlob, getMimeTypeIcon */ } from '../utils/mimeTypes';
 
@@ -17,23 +73,38 @@ import { /* detectMimeType, generateFilename, createDownloadBlob, downloadBlob,
 interface Request {
   id: string;
   name: string;
+  folder?: string;
   method: string;
   url: string;
   headers: { key: string; value: string; enabled: boolean }[];
   body: string;
-  bodyType: 'json' | 'form-data' | 'x-www-form-urlencoded' | 'raw' | 'binary';
+  bodyType: 'json' | 'form-data' | 'x-www-form-urlencoded' | 'raw' | 'binary' | 'graphql';
+  preRequestScript?: string;
+  testScript?: string;
+  assertions?: Assertion[];
+  auth?: RequestAuth;
+  graphql?: GraphQLRequestBody;
+  formData?: FormDataField[];
+  binary?: BinaryFileBody;
+  websocket?: WebSocketSettings;
+  grpc?: GrpcSettings;
+  settings?: Partial<RequestSettings>;
+  variables?: Variable[];
 }
 
 interface Collection {
   id: string;
   name: string;
+  auth?: RequestAuth;
+  settings?: Partial<RequestSettings>;
+  variables?: Variable[];
   requests: Request[];
 }
 
 interface Environment {
   id: string;
   name: string;
-  variables: { key: string; value: string; enabled: boolean }[];
+  variables: Variable[];
 }
 
 interface ResponseData {
@@ -44,6 +115,13 @@ interface ResponseData {
   time: number;
   size: number;
   contentType?: string;
+  truncated?: boolean; // Set when restored from history with a capped body
+  cookies?: ResponseCookie[];
+  blob?: Blob;
+  streaming?: boolean;
+  incomplete?: boolean;
+  streamFormat?: StreamFormat;
+  events?: StreamEvent[];
 }
 
 interface User {
@@ -58,14 +136,29 @@ interface ClientInterfaceProps {
 }
 
 const HTTP_METHODS = ["GET", "POST", "PUT", "DELETE", "PATCH", "HEAD", "OPTIONS"];
-const BODY_TYPES = ['json', 'form-data', 'x-www-form-urlencoded', 'raw' , 'binary'] as const;
+const BODY_TYPES = ['json', 'form-data', 'x-www-form-urlencoded', 'raw' , 'binary', 'graphql'] as const;
+const HTTP_REQUEST_TABS = ['params', 'auth', 'headers', 'body', 'variables', 'pre-request', 'tests', 'assertions', 'settings'] as const;
+const WEBSOCKET_REQUEST_TABS = ['params', 'auth', 'headers', 'message', 'variables'] as const;
+const GRPC_REQUEST_TABS = ['service', 'message', 'auth', 'headers', 'variables'] as const;
+
+// Request editor tabs for a method: HTTP, WebSocket or gRPC
+const requestTabsFor = (method: string): readonly string[] =>
+  method === WEBSOCKET_METHOD ? WEBSOCKET_REQUEST_TABS : method === GRPC_METHOD ? GRPC_REQUEST_TABS : HTTP_REQUEST_TABS;
+
+// Which endpoint or uploaded files the loaded gRPC services came from
+const grpcDefinitionKey = (url: string, settings: GrpcSettings) =>
+  settings.source === 'reflection' ? `reflection:${url}` : `proto:${settings.protoFiles.map(file => `${file.name}:${file.content.length}`).join(',')}`;
 
 export default function ClientInterface({ user, onLogout }: ClientInterfaceProps) {
   // Backend hooks
-  const { collections, saveRequest, setCollections } = useCollections();
-  const { environments, activeEnvironment, setActiveEnvironment, setEnvironments } = useEnvironments();
+  const { collections, saveRequest, createCollection, updateCollection } = useCollections();
+  const { environments, activeEnvironment, setActiveEnvironment, createEnvironment, updateEnvironment, fetchEnvironments } = useEnvironments();
+  const { globals, fetchGlobals } = useGlobals();
   const { addToHistory } = useHistory();
-  const { proxyRequest } = useApi();
+  const { proxyRequest, streamProxyRequest } = useApi();
+  const webSocket = useWebSocketRelay();
+  const grpc = useGrpc();
+  const { files, uploadFile, deleteFile } = useFiles();
   
   // Main state
   // activeTab is used later in the component in loadRequest method
@@ -83,27 +176,59 @@ export default function ClientInterface({ user, onLogout }: ClientInterfaceProps
     url: '',
     headers: [{ key: 'Content-Type', value: 'application/json', enabled: true }],
     body: '',
-    bodyType: 'json'
+    bodyType: 'json',
+    preRequestScript: '',
+    testScript: '',
+    assertions: [],
+    auth: { type: 'inherit' }
   });
   
   // Response state
   const [response, setResponse] = useState<ResponseData | null>(null);
+  const [testResults, setTestResults] = useState<ScriptTestResult[] | null>(null);
+  const [scriptLogs, setScriptLogs] = useState<string[]>([]);
   const [loading, setLoading] = useState(false);
+  // Aborts the in-flight request; the proxy then cancels the upstream fetch
+  const abortControllerRef = useRef<AbortController | null>(null);
   const [error, setError] = useState('');
   const [urlError, setUrlError] = useState('');
+  const [curlWarnings, setCurlWarnings] = useState<string[]>([]);
+  // Placeholders no scope defines, found when sending; the send waits until the user goes ahead anyway
+  const [unresolvedWarning, setUnresolvedWarning] = useState<{
+    names: string[];
+    proceed: () => void;
+    dismiss: () => void;
+    // What it was found in; editing the request or switching environment makes the warning stale
+    request: Request;
+    params: typeof queryParams;
+    environment: string;
+  } | null>(null);
   
   // UI state
   const [sidebarOpen, setSidebarOpen] = useState(true);
-  const [activeRequestTab, setActiveRequestTab] = useState<'params' | 'headers' | 'body'>('headers');
-  const [activeResponseTab, setActiveResponseTab] = useState<'body' | 'headers' | 'cookies'>('body');
+  const [activeRequestTab, setActiveRequestTab] = useState<'params' | 'auth' | 'headers' | 'body' | 'variables' | 'pre-request' | 'tests' | 'assertions' | 'message' | 'service' | 'settings'>('headers');
+  const [activeResponseTab, setActiveResponseTab] = useState<'body' | 'headers' | 'cookies' | 'tests' | 'timing' | 'redirects'>('body');
   const [showEnvironmentManager, setShowEnvironmentManager] = useState(false);
   const [showHistory, setShowHistory] = useState(false);
   const [showCodeGenerator, setShowCodeGenerator] = useState(false);
   const [showImportExport, setShowImportExport] = useState(false);
+  const [runnerCollection, setRunnerCollection] = useState<Collection | null>(null);
+  const [authCollection, setAuthCollection] = useState<Collection | null>(null);
+  const [collectionAuthDraft, setCollectionAuthDraft] = useState<RequestAuth>({ type: 'none' });
+  const [collectionAuthError, setCollectionAuthError] = useState('');
+  const [collectionSettingsDraft, setCollectionSettingsDraft] = useState<Partial<RequestSettings>>({});
+  const [collectionVariablesDraft, setCollectionVariablesDraft] = useState<Variable[]>([]);
+  const [collectionModalTab, setCollectionModalTab] = useState<'auth' | 'settings' | 'variables'>('auth');
   const [queryParams, setQueryParams] = useState<{ key: string; value: string; enabled: boolean }[]>([
     { key: '', value: '', enabled: true }
   ]);
 
+  // Introspected GraphQL schema, valid for the URL it was fetched from
+  const [graphqlSchema, setGraphqlSchema] = useState<{ url: string; schema: GraphQLSchema } | null>(null);
+  const [graphqlSchemaLoading, setGraphqlSchemaLoading] = useState(false);
+  const [graphqlSchemaError, setGraphqlSchemaError] = useState('');
+  const [grpcServicesKey, setGrpcServicesKey] = useState('');
+
   // Save modal state
   const [showSaveModal, setShowSaveModal] = useState(false);
   const [saveRequestName, setSaveRequestName] = useState(currentRequest.name);
@@ -137,91 +262,353 @@ export default function ClientInterface({ user, onLogout }: ClientInterfaceProps
     document.documentElement.setAttribute('data-color-mode', isDark ? 'dark' : 'light');
   }, [isDark]);
 
-  // Replace environment variables in text
-  const replaceVariables = (text: string): string => {
-    if (!activeEnvironment) return text;
-    
+  // Variables of the active environment
+  const getActiveVariables = (): Environment['variables'] => {
+    if (!activeEnvironment) return [];
+    return environments.find(e => e.id === activeEnvironment)?.variables || [];
+  };
+
+  // The saved collection a request belongs to, for auth inheritance
+  const collectionOf = (request: Request) => collections.find(c => c.requests.some(r => r.id === request.id));
+
+  // Global and collection variables, under the environment's and the request's own
+  const lowerScopesFor = (request: Request) => ({ global: globals, collection: collectionOf(request)?.variables });
+
+  // Resolves {{variables}} of a request against every scope
+  const resolverFor = (request: Request, options?: VariableResolverOptions) => createVariableResolver({
+    ...lowerScopesFor(request),
+    environment: getActiveVariables(),
+    request: request.variables,
+  }, options);
+
+  const variableHover = useVariableHover(resolverFor(currentRequest));
+
+  // Connect or invoke right away, or hold it back with a warning listing the variables no scope defines in
+  // any part of the request that goes out, or in extras such as a message. No scripts run for these, so
+  // the check can happen up front; HTTP sends check after the pre-request script, see handleSend.
+  const sendUnlessUnresolved = (request: Request, params: typeof queryParams, send: () => void, extraTexts: string[] = []) => {
+    const resolver = resolverFor(request);
+    const { tracker, unresolved } = trackUnresolvedVariables(resolver);
+    extraTexts.forEach(text => tracker.resolve(text));
+    const auth = resolveAuth(request.auth, collectionOf(request)?.auth);
+    // gRPC calls leave the query parameters out
+    const sentParams = isGrpcRequest(request) ? [] : params;
+    const names = Array.from(new Set([...findUnresolvedVariables({ ...request, auth }, resolver, sentParams), ...unresolved()]));
+    if (names.length > 0) {
+      setUnresolvedWarning({ names, proceed: send, dismiss: () => undefined, request, params, environment: activeEnvironment });
+      return;
+    }
+    setUnresolvedWarning(null);
+    send();
+  };
+
+  const showUnresolvedWarning = unresolvedWarning && unresolvedWarning.request === currentRequest &&
+    unresolvedWarning.params === queryParams && unresolvedWarning.environment === activeEnvironment;
+
+  const resolveOAuth2Config = (config: OAuth2Config): OAuth2Config =>
+    mapAuthValues({ type: 'oauth2', oauth2: config }, resolverFor(currentRequest).resolve).oauth2!;
+
+  const effectiveAuth = resolveAuth(currentRequest.auth, collectionOf(currentRequest)?.auth);
+
+  const isWebSocket = isWebSocketRequest(currentRequest);
+  const isGrpc = isGrpcRequest(currentRequest);
+  const validateRequestUrl = isWebSocket ? validateWebSocketUrl : isGrpc ? validateGrpcUrl : validateUrl;
+  const webSocketSettings = currentRequest.websocket || DEFAULT_WEBSOCKET_SETTINGS;
+  const grpcSettings = currentRequest.grpc || DEFAULT_GRPC_SETTINGS;
+  // Services loaded for another URL or other .proto files do not apply to this request
+  const grpcServices = grpcServicesKey === grpcDefinitionKey(currentRequest.url, grpcSettings) ? grpc.services : [];
+
+  // A WebSocket connection belongs to the WebSocket editor; drop it when switching to HTTP
+  const { status: webSocketStatus, disconnect: disconnectWebSocket } = webSocket;
+  useEffect(() => {
+    if (!isWebSocket && webSocketStatus !== 'disconnected') {
+      disconnectWebSocket();
+    }
+  }, [isWebSocket, webSocketStatus, disconnectWebSocket]);
+
+  // Likewise a gRPC call in flight is cancelled when the editor switches away from gRPC
+  const { running: grpcRunning, cancel: cancelGrpc } = grpc;
+  useEffect(() => {
+    if (!isGrpc && grpcRunning) {
+      cancelGrpc();
+    }
+  }, [isGrpc, grpcRunning, cancelGrpc]);
+
+  // Persist variables changed by a script to the active environment
+  const persistScriptVariables = async (variables: Environment['variables']) => {
     const env = environments.find(e => e.id === activeEnvironment);
-    if (!env) return text;
-    
-    let result = text;
-    env.variables.forEach(variable => {
-      if (variable.enabled) {
-        result = result.replace(new RegExp(`{{${variable.key}}}`, 'g'), variable.value);
-      }
-    });
-    
-    return result;
+    if (!env) return;
+
+    await updateEnvironment(env.id, env.name, variables);
   };
 
-  const handleSend = async () => {
+  const handleSend = async (request: Request = currentRequest, params: typeof queryParams = queryParams) => {
     setLoading(true);
     setError('');
     setUrlError('');
     setResponse(null);
-    
-    try {
-      // Process URL and headers with environment variables
-      const baseUrl = replaceVariables(currentRequest.url);
-      
-      // Validate URL before processing
-      const urlValidation = validateUrl(baseUrl);
-      if (!urlValidation.canBeUsed) {
-        setUrlError(urlValidation.error || 'Invalid URL');
-        setLoading(false);
-        return;
-      }
-      
-      // Use corrected URL if available
-      const validatedUrl = urlValidation.correctedUrl || baseUrl;
-      const processedUrl = buildUrlWithParams(validatedUrl);
-      const processedHeaders: Record<string, string> = {};
+    setTestResults(null);
+    setScriptLogs([]);
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    const result = await executeRequest({
+      ...request,
+      auth: resolveAuth(request.auth, collectionOf(request)?.auth),
+      settings: resolveRequestSettings(collectionOf(request)?.settings, request.settings)
+    }, {
+      variables: getActiveVariables(),
+      scopes: lowerScopesFor(request),
+      environmentId: activeEnvironment || undefined,
+      queryParams: params,
+      send: proxyRequest,
+      // Stream the body so it renders as it arrives and large downloads never pass through JSON
+      sendRequest: (options) => streamProxyRequest(options, { signal: controller.signal, onProgress: setResponse }),
+      onVariablesChange: persistScriptVariables,
+      onLogs: setScriptLogs,
+      // Variables the pre-request script sets count as defined; the send waits on the warning, and
+      // cancelling it while it is shown counts as dismissing
+      confirmUnresolved: (names) => new Promise<boolean>(resolve => {
+        const answer = (send: boolean) => {
+          controller.signal.removeEventListener('abort', onAbort);
+          setUnresolvedWarning(null);
+          resolve(send);
+        };
+        const onAbort = () => answer(false);
+        controller.signal.addEventListener('abort', onAbort);
+        setUnresolvedWarning({
+          names,
+          proceed: () => answer(true),
+          dismiss: () => answer(false),
+          request,
+          params,
+          environment: activeEnvironment,
+        });
+      }),
+    });
+
+    abortControllerRef.current = null;
+    if (result.urlError) {
+      setUrlError(result.urlError);
+    } else if (controller.signal.aborted) {
+      setError('Request cancelled');
+    } else if (result.error) {
+      setError(result.error);
+    }
+
+    if (result.request && result.response) {
+      setResponse(result.response);
+      setTestResults(result.tests);
       
-      currentRequest.headers.forEach(header => {
-        if (header.enabled && header.key && header.value) {
-          processedHeaders[header.key] = replaceVariables(header.value);
+      // Add the exchange to history as it was sent, with the values of secret variables put back as placeholders
+      const redact = (text: string) => redactSecrets(text, result.variables);
+      // Basic credentials are base64-encoded, so they are decoded, redacted and encoded again
+      const redactHeader = (value: string) => {
+        const basic = value.match(/^Basic\s+(\S+)$/i);
+        if (!basic) return redact(value);
+        try {
+          const credentials = atob(basic[1]);
+          const redacted = redact(credentials);
+          return redacted === credentials ? value : `Basic ${btoa(redacted)}`;
+        } catch {
+          return redact(value);
         }
+      };
+      const redactHeaders = (headers: Record<string, string>) =>
+        Object.fromEntries(Object.entries(headers).map(([key, value]) => [key, redactHeader(value)]));
+      addToHistory({
+        method: result.request.method,
+        url: redact(result.request.url),
+        status: result.response.status,
+        duration: result.response.time,
+        headers: redactHeaders(result.request.headers || {}),
+        body: redact(result.request.formData ? serializeFormDataBody(result.request.formData) : result.request.body || ''),
+        bodyType: result.request.bodyType,
+        response: { ...result.response, headers: redactHeaders(result.response.headers), data: redact(result.response.data) },
       });
-      
-      // Process body
-      let processedBody: string | undefined;
-      if (['POST', 'PUT', 'PATCH'].includes(currentRequest.method)) {
-        if (currentRequest.bodyType === 'json') {
-          try {
-            // Parse and re-stringify to validate JSON
-            const jsonBody = JSON.parse(currentRequest.body);
-            processedBody = JSON.stringify(jsonBody);
-          } catch {
-            throw new Error('Invalid JSON in request body');
-          }
-        } else if (currentRequest.bodyType === 'form-data') {
-          // For form-data, we'll send the body as-is and let the backend handle it
-          processedBody = currentRequest.body;
-        } else if (currentRequest.bodyType === 'x-www-form-urlencoded') {
-          processedBody = currentRequest.body;
-        } else if (currentRequest.bodyType === 'raw' || currentRequest.bodyType === 'binary') {
-          processedBody = replaceVariables(currentRequest.body);
-        }
+    }
+
+    setLoading(false);
+  };
+
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const handleConnect = async () => {
+    setError('');
+    setUrlError('');
+
+    const prepared = await prepareConnection(
+      { ...currentRequest, auth: resolveAuth(currentRequest.auth, collectionOf(currentRequest)?.auth) },
+      {
+        variables: getActiveVariables(),
+        scopes: lowerScopesFor(currentRequest),
+        queryParams,
+        send: proxyRequest,
+        environmentId: activeEnvironment || undefined
       }
-      
-      // Use the proxy request instead of direct fetch
-      const responseObj = await proxyRequest({
-        method: currentRequest.method,
-        url: processedUrl,
-        headers: processedHeaders,
-        body: processedBody,
-        bodyType: currentRequest.bodyType,
-      });
-      
-      setResponse(responseObj);
-      
-      // Add to history
-      addToHistory(currentRequest.method, processedUrl, responseObj.status, responseObj.time);
-      
-    } catch (err: Error | unknown) {
-      setError(err instanceof Error ? err.message : 'Request failed');
+    );
+    if (prepared.urlError) {
+      setUrlError(prepared.urlError);
+      return;
+    }
+    if (!prepared.url) {
+      setError(prepared.error || 'Failed to connect');
+      return;
+    }
+
+    webSocket.connect({
+      url: prepared.url,
+      headers: prepared.headers,
+      protocols: parseProtocols(resolverFor(currentRequest).resolve(webSocketSettings.protocols)),
+    });
+  };
+
+  const handleSendMessage = () => {
+    try {
+      const frame = encodeWebSocketMessage(
+        resolverFor(currentRequest).resolve(webSocketSettings.message),
+        webSocketSettings.messageFormat
+      );
+      webSocket.send(frame.data, frame.binary);
+      setError('');
+    } catch (error: Error | unknown) {
+      setError(error instanceof Error ? error.message : 'Failed to send message');
+    }
+  };
+
+  // Resolve the URL and metadata (headers plus auth) for a gRPC call; query parameters do not apply
+  const prepareGrpcTarget = async () => {
+    const prepared = await prepareConnection(
+      { ...currentRequest, auth: resolveAuth(currentRequest.auth, collectionOf(currentRequest)?.auth) },
+      {
+        variables: getActiveVariables(),
+        scopes: lowerScopesFor(currentRequest),
+        queryParams: [],
+        send: proxyRequest,
+        environmentId: activeEnvironment || undefined
+      }
+    );
+    if (prepared.urlError) {
+      setUrlError(prepared.urlError);
+      return null;
+    }
+    if (!prepared.url) {
+      setError(prepared.error || 'Failed to prepare the call');
+      return null;
+    }
+    return { url: prepared.url, metadata: prepared.headers || {} };
+  };
+
+  const handleLoadGrpcServices = async () => {
+    setError('');
+    const key = grpcDefinitionKey(currentRequest.url, grpcSettings);
+    // .proto files describe the services without contacting the server
+    const target = grpcSettings.source === 'reflection' ? await prepareGrpcTarget() : { url: '', metadata: {} };
+    if (!target) return;
+
+    await grpc.loadServices({ ...target, source: grpcSettings.source, protoFiles: grpcSettings.protoFiles });
+    setGrpcServicesKey(key);
+  };
+
+  const handleInvokeGrpc = async () => {
+    setError('');
+    setUrlError('');
+    grpc.reset();
+
+    let message: Record<string, unknown>;
+    try {
+      message = parseGrpcMessage(resolverFor(currentRequest).resolve(grpcSettings.message));
+    } catch (error: Error | unknown) {
+      setError(error instanceof Error ? error.message : 'Invalid request message');
+      return;
+    }
+    if (!grpcSettings.service || !grpcSettings.method) {
+      setError('Select a service and method on the Service tab');
+      return;
+    }
+
+    const target = await prepareGrpcTarget();
+    if (!target) return;
+
+    await grpc.invoke({
+      ...target,
+      source: grpcSettings.source,
+      protoFiles: grpcSettings.protoFiles,
+      service: grpcSettings.service,
+      method: grpcSettings.method,
+      message,
+    });
+  };
+
+  const handleFetchGraphQLSchema = async () => {
+    const url = currentRequest.url;
+    setGraphqlSchemaLoading(true);
+    setGraphqlSchemaError('');
+
+    // Introspect through the proxy with the request's own URL, headers and auth
+    const result = await executeRequest({
+      ...currentRequest,
+      method: 'POST',
+      bodyType: 'graphql',
+      graphql: { query: INTROSPECTION_QUERY, variables: '', operationName: INTROSPECTION_OPERATION_NAME },
+      preRequestScript: '',
+      testScript: '',
+      auth: resolveAuth(currentRequest.auth, collectionOf(currentRequest)?.auth),
+      settings: resolveRequestSettings(collectionOf(currentRequest)?.settings, currentRequest.settings)
+    }, {
+      variables: getActiveVariables(),
+      scopes: lowerScopesFor(currentRequest),
+      environmentId: activeEnvironment || undefined,
+      queryParams,
+      send: proxyRequest,
+    });
+
+    try {
+      if (!result.response) {
+        throw new Error(result.urlError || result.error || 'Introspection request failed');
+      }
+      setGraphqlSchema({ url, schema: parseIntrospectionResponse(result.response.data) });
+    } catch (error: Error | unknown) {
+      setGraphqlSchemaError(error instanceof Error ? error.message : 'Failed to fetch schema');
     } finally {
-      setLoading(false);
+      setGraphqlSchemaLoading(false);
+    }
+  };
+
+  const handleBodyTypeChange = (bodyType: Request['bodyType']) => {
+    setCurrentRequest(prev => ({
+      ...prev,
+      bodyType,
+      // Carry over a hand-written {"query": ...} body when switching to GraphQL
+      ...(bodyType === 'graphql' && !prev.graphql?.query ? { graphql: graphqlBodyFromJson(prev.body) || prev.graphql } : {})
+    }));
+  };
+
+  const updateWebSocketSettings = (settings: Partial<WebSocketSettings>) => {
+    setCurrentRequest(prev => ({ ...prev, websocket: { ...(prev.websocket || DEFAULT_WEBSOCKET_SETTINGS), ...settings } }));
+  };
+
+  const updateGrpcSettings = (settings: Partial<GrpcSettings>) => {
+    setCurrentRequest(prev => ({ ...prev, grpc: { ...(prev.grpc || DEFAULT_GRPC_SETTINGS), ...settings } }));
+  };
+
+  // Keep the active tab when the new kind of request has it, otherwise open its main tab
+  const showRequestTabsFor = (method: string) => {
+    if (!requestTabsFor(method).includes(activeRequestTab)) {
+      setActiveRequestTab(method === WEBSOCKET_METHOD ? 'message' : method === GRPC_METHOD ? 'service' : 'body');
+    }
+  };
+
+  const handleMethodChange = (method: string) => {
+    setCurrentRequest(prev => ({ ...prev, method }));
+    showRequestTabsFor(method);
+    if (currentRequest.url) {
+      const validator = method === WEBSOCKET_METHOD ? validateWebSocketUrl : method === GRPC_METHOD ? validateGrpcUrl : validateUrl;
+      const validation = validator(currentRequest.url);
+      setUrlError(validation.canBeUsed ? '' : validation.error || 'Invalid URL');
     }
   };
 
@@ -258,7 +645,18 @@ export default function ClientInterface({ user, onLogout }: ClientInterfaceProps
         url: currentRequest.url,
         headers: currentRequest.headers,
         body: currentRequest.body,
-        bodyType: currentRequest.bodyType
+        bodyType: currentRequest.bodyType,
+        preRequestScript: currentRequest.preRequestScript,
+        testScript: currentRequest.testScript,
+        assertions: currentRequest.assertions,
+        auth: currentRequest.auth,
+        graphql: currentRequest.graphql,
+        formData: currentRequest.formData,
+        binary: currentRequest.binary,
+        websocket: currentRequest.websocket,
+        grpc: currentRequest.grpc,
+        settings: currentRequest.settings,
+        variables: currentRequest.variables
       });
       setShowSaveModal(false);
       setSaveError('');
@@ -270,6 +668,8 @@ export default function ClientInterface({ user, onLogout }: ClientInterfaceProps
 
   const loadRequest = (request: Request) => {
     setCurrentRequest(request);
+    setCurlWarnings([]);
+    showRequestTabsFor(request.method);
     // activeTab is used here - switching to the loaded request's tab
     setActiveTab(request.id);
     if (!tabs.find(t => t.id === request.id)) {
@@ -277,13 +677,47 @@ export default function ClientInterface({ user, onLogout }: ClientInterfaceProps
     }
   };
 
-  const loadFromHistory = (method: string, url: string) => {
-    setCurrentRequest(prev => ({
-      ...prev,
-      method,
-      url
-    }));
+  const loadFromHistory = (entry: HistoryEntry, resend: boolean) => {
+    const request: Request = {
+      ...currentRequest,
+      method: entry.method,
+      url: entry.url,
+      headers: Object.entries(entry.headers).map(([key, value]) => ({ key, value, enabled: true })),
+      body: entry.body,
+      // Entries without a body were sent without one, whatever type the open request has
+      bodyType: entry.bodyType || 'json',
+      // The stored exchange already has scripts, auth and variables applied
+      preRequestScript: '',
+      testScript: '',
+      auth: { type: 'none' },
+      // Nothing of the open request's body, settings or variables may leak into the replay: form-data
+      // fields come from the stored body, and a binary file is not kept in history
+      formData: undefined,
+      binary: undefined,
+      graphql: undefined,
+      assertions: undefined,
+      settings: undefined,
+      variables: undefined,
+      websocket: undefined,
+      grpc: undefined
+    };
+    // Query parameters are already part of the stored URL
+    const params = [{ key: '', value: '', enabled: true }];
+
+    setCurrentRequest(request);
+    setQueryParams(params);
+    setTestResults(null);
+    setScriptLogs([]);
+    // A body cut to fit in history would go out incomplete, so it is never re-sent as it is
+    setError(entry.bodyTruncated
+      ? `The request body was cut when it was stored in history${resend ? ', so it was not re-sent' : ''}. Complete it before sending.`
+      : '');
+    setResponse(entry.response || null);
     setShowHistory(false);
+
+    if (resend && !entry.bodyTruncated) {
+      handleSend(request, params);
+    }
   };
 
   const addQueryParam = () => {
@@ -300,73 +734,78 @@ export default function ClientInterface({ user, onLogout }: ClientInterfaceProps
     setQueryParams(prev => prev.filter((_, i) => i !== index));
   };
 
+  // Replace the current request with one parsed from a pasted cURL command
+  const applyCurlCommand = (command: string) => {
+    try {
+      const parsed = parseCurlCommand(command);
+      setCurrentRequest(prev => ({
+        ...prev,
+        method: parsed.method,
+        url: parsed.url,
+        headers: parsed.headers,
+        body: parsed.body,
+        bodyType: parsed.bodyType,
+        formData: parsed.formData
+      }));
+      setQueryParams([...parsed.queryParams, { key: '', value: '', enabled: true }]);
+      setUrlError('');
+      setCurlWarnings(parsed.warnings);
+    } catch (error: Error | unknown) {
+      setUrlError(error instanceof Error ? error.message : 'Failed to parse cURL command');
+    }
+  };
+
   // Handle URL input with validation
   const handleUrlChange = (value: string) => {
+    if (isCurlCommand(value)) {
+      applyCurlCommand(value);
+      return;
+    }
+
     setCurrentRequest(prev => ({ ...prev, url: value }));
     setUrlError('');
+    setCurlWarnings([]);
     
     // Real-time validation feedback (only show errors for non-empty URLs)
     if (value.trim()) {
-      const validation = validateUrl(value);
+      const validation = validateRequestUrl(value);
       if (!validation.canBeUsed) {
         setUrlError(validation.error || 'Invalid URL');
       }
     }
   };
 
-  // Build URL with query parameters
-  const buildUrlWithParams = (baseUrl: string): string => {
-    const enabledParams = queryParams.filter(p => p.enabled && p.key && p.value);
-    if (enabledParams.length === 0) return baseUrl;
-    
-    try {
-      const url = new URL(baseUrl);
-      enabledParams.forEach(param => {
-        url.searchParams.set(param.key, replaceVariables(param.value));
-      });
-      return url.toString();
-    } catch {
-      return baseUrl; // Return original if URL parsing fails
-    }
-  };
+  const handleImportData = async (data: { collections: ImportedCollection[]; environments: ImportedEnvironment[] }) => {
+    const uniqueName = (baseName: string, existingNames: string[]) => {
+      let name = baseName;
+      let counter = 1;
+      while (existingNames.includes(name)) {
+        name = `${baseName} (${counter})`;
+        counter++;
+      }
+      existingNames.push(name);
+      return name;
+    };
 
-  const handleImportData = (data: { collections?: Collection[]; environments?: Environment[] }) => {
-    if (data.collections) {
-      // Merge collections, renaming duplicates
-      const newCollections = [...collections];
-      data.collections.forEach(importedCollection => {
-        let name = importedCollection.name;
-        let counter = 1;
-        while (newCollections.find(c => c.name === name)) {
-          name = `${importedCollection.name} (${counter})`;
-          counter++;
-        }
-        newCollections.push({
-          ...importedCollection,
-          id: Date.now().toString() + Math.random().toString(36).substr(2, 9),
-          name
-        });
+    // Persist imported data, renaming duplicates and dropping ids from the source document
+    const collectionNames = collections.map(c => c.name);
+    for (const importedCollection of data.collections) {
+      const requests = importedCollection.requests.map(request => {
+        const { name, folder, method, url, headers, body, bodyType, preRequestScript, testScript, graphql, formData, binary, auth } = request;
+        return { name, folder, method, url, headers, body, bodyType, preRequestScript, testScript, graphql, formData, binary, auth };
       });
-      setCollections(newCollections);
+      await createCollection(
+        uniqueName(importedCollection.name, collectionNames),
+        requests,
+        importedCollection.auth,
+        undefined,
+        importedCollection.variables
+      );
     }
 
-    if (data.environments) {
-      // Merge environments, renaming duplicates
-      const newEnvironments = [...environments];
-      data.environments.forEach(importedEnv => {
-        let name = importedEnv.name;
-        let counter = 1;
-        while (newEnvironments.find(e => e.name === name)) {
-          name = `${importedEnv.name} (${counter})`;
-          counter++;
-        }
-        newEnvironments.push({
-          ...importedEnv,
-          id: Date.now().toString() + Math.random().toString(36).substr(2, 9),
-          name
-        });
-      });
-      setEnvironments(newEnvironments);
+    const environmentNames = environments.map(e => e.name);
+    for (const importedEnv of data.environments) {
+      await createEnvironment(uniqueName(importedEnv.name, environmentNames), importedEnv.variables);
     }
   };
 
@@ -391,7 +830,36 @@ return (
           ) : (
             collections.map(collection => (
               <div key={collection.id} className="mb-4">
-                <h3 className="heading-sm text-gray-700 dark:text-gray-300 mb-2">{collection.name}</h3>
+                <div className="flex items-center justify-between mb-2">
+                  <h3 className="heading-sm text-gray-700 dark:text-gray-300">{collection.name}</h3>
+                  <div className="flex gap-1">
+                    {(['auth', 'settings', 'variables'] as const).map(tab => (
+                      <button
+                        key={tab}
+                        onClick={() => {
+                          setAuthCollection(collection);
+                          setCollectionAuthDraft(collection.auth || { type: 'none' });
+                          setCollectionSettingsDraft(collection.settings || {});
+                          setCollectionVariablesDraft(collection.variables || []);
+                          setCollectionModalTab(tab);
+                          setCollectionAuthError('');
+                        }}
+                        className="px-2 py-1 text-xs rounded bg-slate-100 text-slate-700 hover:bg-slate-200 transition-colors"
+                        title={tab === 'auth' ? 'Collection authorization' : tab === 'settings' ? 'Collection redirect, timeout and TLS settings' : 'Collection variables'}
+                      >
+                        {tab === 'auth' ? 'Auth' : tab === 'settings' ? 'Settings' : 'Vars'}
+                      </button>
+                    ))}
+                    <button
+                      onClick={() => setRunnerCollection(collection)}
+                      disabled={collection.requests.length === 0}
+                      className="px-2 py-1 text-xs rounded bg-green-100 text-green-800 hover:bg-green-200 disabled:opacity-50 transition-colors"
+                      title="Run collection"
+                    >
+                      Run
+                    </button>
+                  </div>
+                </div>
                 <div className="ml-4 space-y-1">
                   {collection.requests.map(request => (
                     <button
@@ -404,11 +872,14 @@ return (
                         request.method === 'POST' ? 'bg-blue-100 text-blue-800' :
                         request.method === 'PUT' ? 'bg-yellow-100 text-yellow-800' :
                         request.method === 'DELETE' ? 'bg-red-100 text-red-800' :
+                        isWebSocketRequest(request) ? 'bg-purple-100 text-purple-800' :
+                        isGrpcRequest(request) ? 'bg-teal-100 text-teal-800' :
                         'bg-gray-100 text-gray-800'
                       }`}>
                         {request.method}
                       </span>
                       <span className="body-sm text-gray-600 dark:text-gray-400 truncate">
+                        {request.folder && <span className="text-gray-400 dark:text-gray-500">{request.folder}/</span>}
                         {request.name}
                       </span>
                     </button>
@@ -477,7 +948,7 @@ return (
             <button
               onClick={() => setShowCodeGenerator(true)}
               className="px-4 py-2 bg-orange-600 hover:bg-orange-700 text-white rounded-lg button-text transition-colors"
-              disabled={!currentRequest.url}
+              disabled={!currentRequest.url || isWebSocket || isGrpc}
             >
               Code
             </button>
@@ -509,12 +980,14 @@ return (
         <div className="flex gap-3 mb-8 flex-shrink-0">
           <select
             value={currentRequest.method}
-            onChange={(e) => setCurrentRequest(prev => ({ ...prev, method: e.target.value }))}
+            onChange={(e) => handleMethodChange(e.target.value)}
             className="px-4 py-3 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-white code focus:ring-2 focus:ring-cyan-500 focus:border-transparent"
           >
             {HTTP_METHODS.map(method => (
               <option key={method} value={method}>{method}</option>
             ))}
+            <option value={WEBSOCKET_METHOD}>WebSocket</option>
+            <option value={GRPC_METHOD}>gRPC</option>
           </select>
           
           <div className="flex-1 relative">
@@ -522,15 +995,28 @@ return (
               type="text"
               value={currentRequest.url}
               onChange={(e) => handleUrlChange(e.target.value)}
+              {...variableHover.handlers}
+              onPaste={(e) => {
+                // Read the clipboard directly: text inputs drop the newlines of multi-line commands
+                const text = e.clipboardData.getData('text');
+                if (isCurlCommand(text)) {
+                  e.preventDefault();
+                  applyCurlCommand(text);
+                }
+              }}
               onBlur={(e) => {
                 // Auto-correct URL on blur if possible
-                const validation = validateUrl(e.target.value);
+                const validation = validateRequestUrl(e.target.value);
                 if (validation.correctedUrl) {
                   setCurrentRequest(prev => ({ ...prev, url: validation.correctedUrl! }));
                   setUrlError('');
                 }
               }}
-              placeholder="https://api.example.com/endpoint"
+              placeholder={
+                isWebSocket ? 'wss://echo.example.com/socket' :
+                isGrpc ? 'grpcs://grpc.example.com:443' :
+                'https://api.example.com/endpoint or paste a cURL command'
+              }
               className={`w-full px-4 py-3 pr-10 border rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-white focus:ring-2 focus:border-transparent ${
                 urlError 
                   ? 'border-red-300 dark:border-red-600 focus:ring-red-500' 
@@ -541,7 +1027,7 @@ return (
             {currentRequest.url && (
               <div className="absolute right-3 top-1/2 transform -translate-y-1/2">
                 {(() => {
-                  const validation = validateUrl(currentRequest.url);
+                  const validation = validateRequestUrl(currentRequest.url);
                   if (urlError || !validation.canBeUsed) {
                     return (
                       <svg className="w-5 h-5 text-red-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -573,49 +1059,133 @@ return (
                 {urlError}
               </div>
             )}
-            {!urlError && currentRequest.url && validateUrl(currentRequest.url).correctedUrl && (
+            {!urlError && curlWarnings.length > 0 && (
+              <div className="absolute top-full left-0 mt-1 text-xs text-orange-600 dark:text-orange-400 flex items-center gap-1">
+                <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-2.5L13.732 4c-.77-.833-1.964-.833-2.732 0L4.082 16.5c-.77.833.192 2.5 1.732 2.5z" />
+                </svg>
+                Imported from cURL: {curlWarnings.join('; ')}
+              </div>
+            )}
+            {!urlError && curlWarnings.length === 0 && currentRequest.url && validateRequestUrl(currentRequest.url).correctedUrl && (
               <div className="absolute top-full left-0 mt-1 text-xs text-orange-600 dark:text-orange-400 flex items-center gap-1">
                 <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-2.5L13.732 4c-.77-.833-1.964-.833-2.732 0L4.082 16.5c-.77.833.192 2.5 1.732 2.5z" />
                 </svg>
-                Will be auto-corrected to: {validateUrl(currentRequest.url).correctedUrl}
+                Will be auto-corrected to: {validateRequestUrl(currentRequest.url).correctedUrl}
               </div>
             )}
           </div>
           
-          <button
-            onClick={handleSend}
-            disabled={loading || !currentRequest.url || !!urlError}
-            className="px-8 py-3 bg-gradient-to-r from-cyan-500 to-blue-600 hover:from-cyan-600 hover:to-blue-700 disabled:from-gray-400 disabled:to-gray-400 text-white rounded-lg button-text transition-all shadow-lg shadow-cyan-500/25 disabled:shadow-none"
-          >
-            {loading ? (
-              <span className="flex items-center gap-2">
-                <div className="animate-spin w-4 h-4 border-2 border-white border-t-transparent rounded-full"></div>
-                Sending...
-              </span>
-            ) : (
-              'Send'
-            )}
-          </button>
+          {isWebSocket ? (
+            <button
+              onClick={() => webSocket.status === 'disconnected'
+                ? sendUnlessUnresolved(currentRequest, queryParams, handleConnect, [webSocketSettings.protocols])
+                : webSocket.disconnect()}
+              disabled={webSocket.status === 'disconnected' && (!currentRequest.url || !!urlError)}
+              className="px-8 py-3 bg-gradient-to-r from-cyan-500 to-blue-600 hover:from-cyan-600 hover:to-blue-700 disabled:from-gray-400 disabled:to-gray-400 text-white rounded-lg button-text transition-all shadow-lg shadow-cyan-500/25 disabled:shadow-none"
+            >
+              {webSocket.status === 'disconnected' ? 'Connect' : (
+                <span className="flex items-center gap-2">
+                  {webSocket.status !== 'connected' && (
+                    <div className="animate-spin w-4 h-4 border-2 border-white border-t-transparent rounded-full"></div>
+                  )}
+                  Disconnect
+                </span>
+              )}
+            </button>
+          ) : isGrpc ? (
+            <button
+              onClick={() => grpc.running
+                ? grpc.cancel()
+                : sendUnlessUnresolved(currentRequest, queryParams, handleInvokeGrpc, [grpcSettings.message])}
+              disabled={!grpc.running && (!currentRequest.url || !!urlError)}
+              className="px-8 py-3 bg-gradient-to-r from-cyan-500 to-blue-600 hover:from-cyan-600 hover:to-blue-700 disabled:from-gray-400 disabled:to-gray-400 text-white rounded-lg button-text transition-all shadow-lg shadow-cyan-500/25 disabled:shadow-none"
+            >
+              {grpc.running ? (
+                <span className="flex items-center gap-2">
+                  <div className="animate-spin w-4 h-4 border-2 border-white border-t-transparent rounded-full"></div>
+                  Cancel
+                </span>
+              ) : (
+                'Invoke'
+              )}
+            </button>
+          ) : (
+            <button
+              onClick={() => loading ? handleCancel() : handleSend()}
+              disabled={!loading && (!currentRequest.url || !!urlError)}
+              className="px-8 py-3 bg-gradient-to-r from-cyan-500 to-blue-600 hover:from-cyan-600 hover:to-blue-700 disabled:from-gray-400 disabled:to-gray-400 text-white rounded-lg button-text transition-all shadow-lg shadow-cyan-500/25 disabled:shadow-none"
+            >
+              {loading ? (
+                <span className="flex items-center gap-2">
+                  <div className="animate-spin w-4 h-4 border-2 border-white border-t-transparent rounded-full"></div>
+                  Cancel
+                </span>
+              ) : (
+                'Send'
+              )}
+            </button>
+          )}
         </div>
 
+        {showUnresolvedWarning && (
+          <div className="mb-6 -mt-4 flex-shrink-0 flex items-center gap-3 px-4 py-3 rounded-lg bg-orange-50 dark:bg-orange-900/30 border border-orange-200 dark:border-orange-800 text-sm text-orange-800 dark:text-orange-200">
+            <svg className="w-4 h-4 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-2.5L13.732 4c-.77-.833-1.964-.833-2.732 0L4.082 16.5c-.77.833.192 2.5 1.732 2.5z" />
+            </svg>
+            <span className="flex-1">
+              Not defined in any scope, so {unresolvedWarning.names.length === 1 ? 'it would be' : 'they would be'} sent as written:{' '}
+              {unresolvedWarning.names.map(name => (
+                <code key={name} className="mr-1 px-1 rounded bg-orange-100 dark:bg-orange-800 font-mono">{`{{${name}}}`}</code>
+              ))}
+            </span>
+            <button
+              onClick={() => {
+                const { proceed } = unresolvedWarning;
+                setUnresolvedWarning(null);
+                proceed();
+              }}
+              className="px-3 py-1 rounded bg-orange-600 hover:bg-orange-700 text-white text-xs"
+            >
+              Send anyway
+            </button>
+            <button
+              onClick={() => {
+                const { dismiss } = unresolvedWarning;
+                setUnresolvedWarning(null);
+                dismiss();
+              }}
+              className="p-1 rounded hover:bg-orange-100 dark:hover:bg-orange-800"
+              title="Dismiss"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        )}
+
         {/* MAIN CONTENT AREA - CRITICAL HEIGHT FIXES */}
         <div className="flex-1 flex gap-6 min-h-0 overflow-hidden">
           {/* Request Details - FIXED HEIGHT CONSTRAINTS */}
           <div className="w-1/2 flex flex-col min-h-0">
             {/* Request Tabs */}
             <div className="flex border-b border-slate-200 dark:border-slate-700 mb-4 flex-shrink-0">
-              {(['params', 'headers', 'body'] as const).map(tab => (
+              {requestTabsFor(currentRequest.method).map(tab => (
                 <button
                   key={tab}
-                  onClick={() => setActiveRequestTab(tab)}
+                  onClick={() => setActiveRequestTab(tab as typeof activeRequestTab)}
                   className={`px-4 py-2 capitalize button-text ${
                     activeRequestTab === tab
                       ? 'border-b-2 border-blue-500 text-blue-600'
                       : 'text-slate-600 dark:text-slate-400 hover:text-slate-800 dark:hover:text-slate-200'
                   }`}
                 >
-                  {tab}
+                  {isGrpc && tab === 'headers' ? 'metadata' : tab}
+                  {tab === 'settings' && hasCustomSettings(currentRequest.settings) && (
+                    <span className="ml-1 inline-block w-1.5 h-1.5 rounded-full bg-cyan-500 align-middle" title="Changed from the defaults"></span>
+                  )}
                 </button>
               ))}
             </div>
@@ -647,6 +1217,7 @@ return (
                           type="text"
                           value={param.key}
                           onChange={(e) => updateQueryParam(index, 'key', e.target.value)}
+                          {...variableHover.handlers}
                           placeholder="Parameter name"
                           className="flex-1 px-3 py-2 border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-700 text-slate-900 dark:text-white text-sm focus:ring-2 focus:ring-cyan-500 focus:border-transparent"
                         />
@@ -654,6 +1225,7 @@ return (
                           type="text"
                           value={param.value}
                           onChange={(e) => updateQueryParam(index, 'value', e.target.value)}
+                          {...variableHover.handlers}
                           placeholder="Parameter value"
                           className="flex-1 px-3 py-2 border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-700 text-slate-900 dark:text-white text-sm focus:ring-2 focus:ring-cyan-500 focus:border-transparent"
                         />
@@ -674,7 +1246,7 @@ return (
               {activeRequestTab === 'headers' && (
                 <div className="h-full flex flex-col">
                   <div className="flex justify-between items-center mb-3 flex-shrink-0">
-                    <h3 className="heading-sm text-slate-900 dark:text-white">Headers</h3>
+                    <h3 className="heading-sm text-slate-900 dark:text-white">{isWebSocket ? 'Handshake Headers' : isGrpc ? 'Metadata' : 'Headers'}</h3>
                     <button
                       onClick={addHeader}
                       className="px-3 py-1 bg-blue-600 text-white rounded text-sm button-text"
@@ -682,6 +1254,19 @@ return (
                       Add Header
                     </button>
                   </div>
+
+                  {isWebSocket && (
+                    <div className="mb-3 flex-shrink-0">
+                      <label className="block text-sm text-slate-600 dark:text-slate-400 mb-1">Subprotocols</label>
+                      <input
+                        type="text"
+                        value={webSocketSettings.protocols}
+                        onChange={(e) => updateWebSocketSettings({ protocols: e.target.value })}
+                        placeholder="graphql-ws, mqtt"
+                        className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-700 text-slate-900 dark:text-white text-sm focus:ring-2 focus:ring-cyan-500 focus:border-transparent"
+                      />
+                    </div>
+                  )}
                   
                   <div className="flex-1 min-h-0 overflow-y-auto space-y-2">
                     {currentRequest.headers.map((header, index) => (
@@ -696,6 +1281,7 @@ return (
                           type="text"
                           value={header.key}
                           onChange={(e) => updateHeader(index, 'key', e.target.value)}
+                          {...variableHover.handlers}
                           placeholder="Header name"
                           className="flex-1 px-3 py-2 border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-700 text-slate-900 dark:text-white text-sm focus:ring-2 focus:ring-cyan-500 focus:border-transparent"
                         />
@@ -703,6 +1289,7 @@ return (
                           type="text"
                           value={header.value}
                           onChange={(e) => updateHeader(index, 'value', e.target.value)}
+                          {...variableHover.handlers}
                           placeholder="Header value"
                           className="flex-1 px-3 py-2 border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-700 text-slate-900 dark:text-white text-sm focus:ring-2 focus:ring-cyan-500 focus:border-transparent"
                         />
@@ -720,13 +1307,41 @@ return (
                 </div>
               )}
 
+              {activeRequestTab === 'service' && isGrpc && (
+                <GrpcServicePanel
+                  settings={grpcSettings}
+                  onChange={updateGrpcSettings}
+                  services={grpcServices}
+                  loading={grpc.servicesLoading}
+                  error={grpc.servicesError}
+                  onLoadServices={handleLoadGrpcServices}
+                />
+              )}
+
+              {activeRequestTab === 'message' && isGrpc && (
+                <GrpcMessageEditor
+                  message={grpcSettings.message}
+                  onChange={(message) => updateGrpcSettings({ message })}
+                  method={findGrpcMethod(grpcServices, grpcSettings.service, grpcSettings.method)}
+                />
+              )}
+
+              {activeRequestTab === 'message' && isWebSocket && (
+                <WebSocketComposer
+                  settings={webSocketSettings}
+                  onChange={updateWebSocketSettings}
+                  onSend={handleSendMessage}
+                  connected={webSocket.status === 'connected'}
+                />
+              )}
+
               {activeRequestTab === 'body' && ['POST', 'PUT', 'PATCH'].includes(currentRequest.method) && (
                 <div className="h-full flex flex-col">
                   <div className="flex gap-2 mb-4 flex-shrink-0">
                     {BODY_TYPES.map(type => (
                       <button
                         key={type}
-                        onClick={() => setCurrentRequest(prev => ({ ...prev, bodyType: type }))}
+                        onClick={() => handleBodyTypeChange(type)}
                         className={`px-3 py-1 rounded text-sm button-text ${
                           currentRequest.bodyType === type
                             ? 'bg-blue-600 text-white'
@@ -739,21 +1354,103 @@ return (
                   </div>
                   
                   <div className="flex-1 border border-slate-300 dark:border-slate-600 rounded overflow-hidden">
-                    <BodyEditor
-                      value={currentRequest.body}
-                      onChange={(value) => setCurrentRequest(prev => ({ ...prev, body: value }))}
-                      bodyType={currentRequest.bodyType}
-                    />
+                    {currentRequest.bodyType === 'graphql' ? (
+                      <GraphQLEditor
+                        value={currentRequest.graphql || DEFAULT_GRAPHQL_BODY}
+                        onChange={(graphql: GraphQLRequestBody) => setCurrentRequest(prev => ({ ...prev, graphql }))}
+                        schema={graphqlSchema?.url === currentRequest.url ? graphqlSchema.schema : null}
+                        schemaLoading={graphqlSchemaLoading}
+                        schemaError={graphqlSchemaError}
+                        onFetchSchema={handleFetchGraphQLSchema}
+                      />
+                    ) : currentRequest.bodyType === 'form-data' ? (
+                      <FormDataEditor
+                        fields={formDataFields(currentRequest)}
+                        onChange={(formData) => setCurrentRequest(prev => ({ ...prev, formData }))}
+                        files={files}
+                        onUploadFile={uploadFile}
+                      />
+                    ) : currentRequest.bodyType === 'binary' ? (
+                      <BinaryBodyEditor
+                        value={currentRequest.binary}
+                        onChange={(binary) => setCurrentRequest(prev => ({ ...prev, binary }))}
+                        legacyBody={currentRequest.body}
+                        files={files}
+                        onUploadFile={uploadFile}
+                        onDeleteFile={deleteFile}
+                      />
+                    ) : (
+                      <BodyEditor
+                        value={currentRequest.body}
+                        onChange={(value) => setCurrentRequest(prev => ({ ...prev, body: value }))}
+                        bodyType={currentRequest.bodyType}
+                        variableHover={variableHover.handlers}
+                      />
+                    )}
                   </div>
                 </div>
               )}
+
+              {activeRequestTab === 'pre-request' && (
+                <ScriptEditor
+                  type="pre-request"
+                  value={currentRequest.preRequestScript || ''}
+                  onChange={(value) => setCurrentRequest(prev => ({ ...prev, preRequestScript: value }))}
+                />
+              )}
+
+              {activeRequestTab === 'tests' && (
+                <ScriptEditor
+                  type="tests"
+                  value={currentRequest.testScript || ''}
+                  onChange={(value) => setCurrentRequest(prev => ({ ...prev, testScript: value }))}
+                />
+              )}
+
+              {activeRequestTab === 'auth' && (
+                <AuthEditor
+                  auth={currentRequest.auth || { type: 'inherit' }}
+                  onChange={(auth) => setCurrentRequest(prev => ({ ...prev, auth }))}
+                  allowInherit
+                  inheritedAuth={resolveAuth({ type: 'inherit' }, collectionOf(currentRequest)?.auth)}
+                  send={proxyRequest}
+                  resolveConfig={resolveOAuth2Config}
+                />
+              )}
+
+              {activeRequestTab === 'assertions' && (
+                <AssertionsEditor
+                  assertions={currentRequest.assertions || []}
+                  onChange={(assertions) => setCurrentRequest(prev => ({ ...prev, assertions }))}
+                />
+              )}
+
+              {activeRequestTab === 'variables' && (
+                <div className="h-full overflow-y-auto">
+                  <p className="text-sm text-slate-600 dark:text-slate-400 mb-3">
+                    Request variables override global, collection and environment variables with the same name.
+                  </p>
+                  <VariableTable
+                    variables={currentRequest.variables || []}
+                    onChange={(variables) => setCurrentRequest(prev => ({ ...prev, variables }))}
+                  />
+                </div>
+              )}
+
+              {activeRequestTab === 'settings' && (
+                <RequestSettingsEditor
+                  settings={currentRequest.settings}
+                  onChange={(settings) => setCurrentRequest(prev => ({ ...prev, settings }))}
+                  inherited={collectionOf(currentRequest)?.settings || {}}
+                />
+              )}
             </div>
           </div>
 
           {/* Response Section - FIXED HEIGHT CONSTRAINTS */}
           <div className="w-1/2 flex flex-col min-h-0">
             <div className="flex-shrink-0 mb-4">
-              <h3 className="heading-md text-slate-900 dark:text-white">Response</h3>
+              <h3 className="heading-md text-slate-900 dark:text-white">{isWebSocket ? 'Messages' : 'Response'}</h3>
             </div>
 
             {error && (
@@ -762,17 +1459,38 @@ return (
               </div>
             )}
 
-            {response && (
+            {isWebSocket && (
+              <div className="flex-1 min-h-0">
+                <WebSocketLog
+                  messages={webSocket.messages}
+                  status={webSocket.status}
+                  protocol={webSocket.protocol}
+                  handshakeHeaders={webSocket.handshakeHeaders}
+                  onClear={webSocket.clearMessages}
+                />
+              </div>
+            )}
+
+            {isGrpc && (
+              <div className="flex-1 min-h-0">
+                <GrpcResponseView result={grpc.result} running={grpc.running} />
+              </div>
+            )}
+
+            {!isWebSocket && !isGrpc && response && (
               <div className="flex-1 min-h-0">
                 <ResponseViewer
                   response={response}
                   activeTab={activeResponseTab}
                   onTabChange={setActiveResponseTab}
+                  testResults={testResults}
+                  scriptLogs={scriptLogs}
+                  onCancel={handleCancel}
                 />
               </div>
             )}
 
-            {!response && !error && !loading && (
+            {!isWebSocket && !isGrpc && !response && !error && !loading && (
               <div className="flex-1 flex items-center justify-center text-slate-500 dark:text-slate-400 bg-white/50 dark:bg-slate-800/50 rounded-lg">
                 <div className="text-center">
                   <svg className="w-16 h-16 mx-auto mb-4 opacity-50" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -783,7 +1501,7 @@ return (
               </div>
             )}
 
-            {loading && (
+            {!isWebSocket && !isGrpc && loading && !response && (
               <div className="flex-1 flex items-center justify-center bg-white/50 dark:bg-slate-800/50 rounded-lg">
                 <div className="text-center">
                   <div className="animate-spin w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full mx-auto mb-4"></div>
@@ -799,7 +1517,12 @@ return (
     {/* Modals */}
     {showEnvironmentManager && (
       <EnvironmentManager
-        onClose={() => setShowEnvironmentManager(false)}
+        onClose={() => {
+          setShowEnvironmentManager(false);
+          // The manager saves through its own hooks
+          fetchEnvironments();
+          fetchGlobals();
+        }}
       />
     )}
 
@@ -813,10 +1536,114 @@ return (
     {showCodeGenerator && (
       <CodeGenerator
         request={currentRequest}
+        variables={resolverFor(currentRequest, { keepSecrets: true })}
+        auth={effectiveAuth}
+        oauth2AccessToken={effectiveAuth.type === 'oauth2' && effectiveAuth.oauth2
+          ? getCachedOAuth2Token(resolveOAuth2Config(effectiveAuth.oauth2))?.accessToken
+          : undefined}
         onClose={() => setShowCodeGenerator(false)}
       />
     )}
 
+    {runnerCollection && (
+      <CollectionRunner
+        collection={runnerCollection}
+        environments={environments}
+        activeEnvironment={activeEnvironment}
+        globals={globals}
+        send={proxyRequest}
+        onVariablesChange={async (environmentId, variables) => {
+          const env = environments.find(e => e.id === environmentId);
+          if (env) await updateEnvironment(env.id, env.name, variables);
+        }}
+        onClose={() => setRunnerCollection(null)}
+      />
+    )}
+
+    {authCollection && (
+      <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-2xl h-3/4 flex flex-col">
+          <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Collection: {authCollection.name}</h2>
+            <button
+              onClick={() => setAuthCollection(null)}
+              className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+          <div className="flex border-b border-gray-200 dark:border-gray-700 px-6">
+            {(['auth', 'settings', 'variables'] as const).map(tab => (
+              <button
+                key={tab}
+                onClick={() => setCollectionModalTab(tab)}
+                className={`px-4 py-2 capitalize ${
+                  collectionModalTab === tab
+                    ? 'border-b-2 border-blue-500 text-blue-600'
+                    : 'text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200'
+                }`}
+              >
+                {tab}
+              </button>
+            ))}
+          </div>
+          <div className="flex-1 min-h-0 p-6">
+            {collectionModalTab === 'auth' ? (
+              <AuthEditor
+                auth={collectionAuthDraft}
+                onChange={setCollectionAuthDraft}
+                allowInherit={false}
+                send={proxyRequest}
+                resolveConfig={resolveOAuth2Config}
+              />
+            ) : collectionModalTab === 'settings' ? (
+              <RequestSettingsEditor settings={collectionSettingsDraft} onChange={setCollectionSettingsDraft} />
+            ) : (
+              <div className="h-full overflow-y-auto">
+                <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">
+                  Available to every request in this collection. Environment and request variables with the same name override them.
+                </p>
+                <VariableTable variables={collectionVariablesDraft} onChange={setCollectionVariablesDraft} />
+              </div>
+            )}
+          </div>
+          <div className="flex items-center justify-end gap-3 p-6 border-t border-gray-200 dark:border-gray-700">
+            {collectionAuthError && (
+              <span className="text-sm text-red-600 dark:text-red-400 mr-auto">{collectionAuthError}</span>
+            )}
+            <button
+              onClick={() => setAuthCollection(null)}
+              className="px-4 py-2 text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={async () => {
+                try {
+                  await updateCollection(
+                    authCollection.id,
+                    authCollection.name,
+                    authCollection.requests.map(r => ({ ...r, id: undefined })),
+                    collectionAuthDraft,
+                    collectionSettingsDraft,
+                    collectionVariablesDraft
+                  );
+                  setAuthCollection(null);
+                } catch (error: Error | unknown) {
+                  setCollectionAuthError(error instanceof Error ? error.message : 'Failed to save collection');
+                }
+              }}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      </div>
+    )}
+
     {showImportExport && (
       <ImportExport
         collections={collections}
@@ -876,6 +1703,8 @@ return (
         </div>
       </div>
     )}
+
+    {variableHover.tooltip}
   </div>
 );
 }
\ No newline at end of file
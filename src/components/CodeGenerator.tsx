@@ -1,16 +1,32 @@
 import React, { useState, useEffect } from 'react';
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
 import { brightLightTheme, brightDarkTheme } from '../utils/syntaxThemes';
+import { applyAuth, mapAuthValues, RequestAuth } from '../utils/requestAuth';
+import { buildGraphQLPayload, DEFAULT_GRAPHQL_BODY, GraphQLRequestBody } from '../utils/graphql';
+import { formDataFields, FormDataField } from '../utils/formData';
+import { BinaryFileBody } from '../utils/storedFiles';
+import { VariableResolver } from '../utils/variables';
+import { resolveRequestVariables } from '../utils/requestExecutor';
 
 interface Request {
   method: string;
   url: string;
   headers: { key: string; value: string; enabled: boolean }[];
   body: string;
+  bodyType?: string;
+  graphql?: GraphQLRequestBody;
+  formData?: FormDataField[];
+  binary?: BinaryFileBody;
 }
 
 interface CodeGeneratorProps {
   request: Request;
+  // Fills in {{variables}} from every scope; placeholders are left in the code without it, and for secrets
+  // when the resolver keeps them
+  variables?: VariableResolver;
+  // Resolved against the collection, so never "inherit"
+  auth?: RequestAuth;
+  oauth2AccessToken?: string;
   onClose: () => void;
 }
 
@@ -25,7 +41,10 @@ const languages = [
   'csharp-httpclient'
 ];
 
-export default function CodeGenerator({ request, onClose }: CodeGeneratorProps) {
+export default function CodeGenerator({ request: editedRequest, variables, auth: editedAuth = { type: 'none' }, oauth2AccessToken, onClose }: CodeGeneratorProps) {
+  // Variables are substituted in the same parts of the request as when it is sent
+  const request: Request = variables ? resolveRequestVariables(editedRequest, variables) : editedRequest;
+  const auth = variables ? mapAuthValues(editedAuth, variables.resolve) : editedAuth;
   const [selectedLanguage, setSelectedLanguage] = useState('curl');
   const [copied, setCopied] = useState(false);
   const [isDark, setIsDark] = useState(false);
@@ -48,19 +67,97 @@ export default function CodeGenerator({ request, onClose }: CodeGeneratorProps)
     return () => observer.disconnect();
   }, []);
 
+  // GraphQL requests are sent as a JSON payload, like the request editor does
+  const getBody = (): string => {
+    if (request.bodyType !== 'graphql') return request.body;
+    const graphql = request.graphql || DEFAULT_GRAPHQL_BODY;
+    try {
+      return buildGraphQLPayload(graphql);
+    } catch {
+      // Invalid variables JSON: still show the query
+      return buildGraphQLPayload({ ...graphql, variables: '' });
+    }
+  };
+
+  // Form-data is generated with each language's multipart support, from the same fields the proxy sends.
+  // Files are referenced by name, as if they were next to the script.
+  const getFormFields = (): FormDataField[] | null => {
+    if (request.bodyType !== 'form-data' || !['POST', 'PUT', 'PATCH'].includes(request.method)) return null;
+    const fields = formDataFields(request).filter(field => field.enabled && field.key);
+    return fields.length > 0 ? fields : null;
+  };
+
+  const fileNameOf = (field: FormDataField) => field.fileName || field.key;
+
+  // A binary body that is an uploaded file, read from disk by the generated code
+  const getBinaryFile = (): BinaryFileBody | null =>
+    request.bodyType === 'binary' && request.binary?.fileId && ['POST', 'PUT', 'PATCH'].includes(request.method) ? request.binary : null;
+
+  // Browser FormData; file fields take a File picked with an <input type="file">
+  const browserFormData = (fields: FormDataField[]) =>
+    `${fields.some(field => field.type === 'file') ? '// fileInput is an <input type="file"> element\n' : ''}const formData = new FormData();\n${fields.map(field => field.type === 'file'
+      ? `formData.append(${JSON.stringify(field.key)}, fileInput.files[0], ${JSON.stringify(fileNameOf(field))});\n`
+      : `formData.append(${JSON.stringify(field.key)}, ${JSON.stringify(field.value)});\n`).join('')}\n`;
+
   const generateCode = (language: string): string => {
-    const { method, url, headers, body } = request;
-    const enabledHeaders = headers.filter(h => h.enabled && h.key && h.value);
+    const { method, headers } = request;
+    const formFields = getFormFields();
+    const binaryFile = getBinaryFile();
+    const body = formFields || binaryFile ? '' : getBody();
+
+    const requestHeaders = Object.fromEntries(headers
+      .filter(h => h.enabled && h.key && h.value)
+      // The multipart boundary is chosen by the client library
+      .filter(h => !formFields || h.key.toLowerCase() !== 'content-type')
+      .map(h => [h.key, h.value]));
+    if (request.bodyType === 'graphql' && !Object.keys(requestHeaders).some(key => key.toLowerCase() === 'content-type')) {
+      requestHeaders['Content-Type'] = 'application/json';
+    }
+    if (binaryFile?.contentType && !Object.keys(requestHeaders).some(key => key.toLowerCase() === 'content-type')) {
+      requestHeaders['Content-Type'] = binaryFile.contentType;
+    }
+    const binaryFileName = JSON.stringify(binaryFile?.fileName || '');
+
+    // Apply auth exactly as the request editor does before sending
+    const authorized = applyAuth(
+      { url: request.url, headers: requestHeaders },
+      auth,
+      auth.type === 'oauth2' ? oauth2AccessToken || '<access_token>' : undefined
+    );
+    const url = authorized.url;
+    const enabledHeaders = Object.entries(authorized.headers).map(([key, value]) => ({ key, value }));
+    const digest = auth.type === 'digest' ? auth.digest : undefined;
+    const digestComment = digest
+      ? `// Digest auth: configure your HTTP client to answer the challenge as "${digest.username}"\n`
+      : '';
 
     switch (language) {
       case 'curl':
         let curlCmd = `curl -X ${method} "${url}"`;
+        if (digest) {
+          curlCmd += ` \\\n  --digest -u "${digest.username}:${digest.password}"`;
+        }
         enabledHeaders.forEach(header => {
           curlCmd += ` \\\n  -H "${header.key}: ${header.value}"`;
         });
         if (body && ['POST', 'PUT', 'PATCH'].includes(method)) {
-          curlCmd += ` \\\n  -d '${body}'`;
+          curlCmd += ` \\\n  -d '${body.replace(/'/g, `'\\''`)}'`;
+        }
+        if (binaryFile) {
+          curlCmd += ` \\\n  --data-binary @${binaryFileName}`;
         }
+        formFields?.forEach(field => {
+          const quote = (text: string) => `'${text.replace(/'/g, `'\\''`)}'`;
+          const type = field.contentType ? `;type=${field.contentType}` : '';
+          if (field.type === 'file') {
+            curlCmd += ` \\\n  -F ${quote(`${field.key}=@"${fileNameOf(field)}"${type}`)}`;
+          } else if (/^[@<]/.test(field.value)) {
+            // -F would read a file for these; --form-string sends the text as is
+            curlCmd += ` \\\n  --form-string ${quote(`${field.key}=${field.value}`)}`;
+          } else {
+            curlCmd += ` \\\n  -F ${quote(`${field.key}=${field.value}${type}`)}`;
+          }
+        });
         return curlCmd;
 
       case 'javascript-fetch':
@@ -69,18 +166,24 @@ export default function CodeGenerator({ request, onClose }: CodeGeneratorProps)
           return acc;
         }, {} as Record<string, string>);
 
-        let fetchCode = `fetch("${url}", {\n  method: "${method}"`;
+        let fetchCode = `${digestComment}${formFields ? browserFormData(formFields) : ''}fetch("${url}", {\n  method: "${method}"`;
         if (Object.keys(fetchHeaders).length > 0) {
           fetchCode += `,\n  headers: ${JSON.stringify(fetchHeaders, null, 4)}`;
         }
         if (body && ['POST', 'PUT', 'PATCH'].includes(method)) {
           fetchCode += `,\n  body: ${JSON.stringify(body)}`;
         }
+        if (formFields) {
+          fetchCode += `,\n  body: formData`;
+        }
+        if (binaryFile) {
+          fetchCode = `// fileInput is an <input type="file"> element\n${fetchCode},\n  body: fileInput.files[0]`;
+        }
         fetchCode += `\n})\n.then(response => response.json())\n.then(data => console.log(data))\n.catch(error => console.error('Error:', error));`;
         return fetchCode;
 
       case 'javascript-axios':
-        let axiosCode = `const axios = require('axios');\n\n`;
+        let axiosCode = `${digestComment}const axios = require('axios');\n\n${formFields ? browserFormData(formFields) : ''}`;
         axiosCode += `const config = {\n  method: '${method.toLowerCase()}',\n  url: '${url}'`;
         if (Object.keys(enabledHeaders).length > 0) {
           const axiosHeaders = enabledHeaders.reduce((acc, header) => {
@@ -92,11 +195,17 @@ export default function CodeGenerator({ request, onClose }: CodeGeneratorProps)
         if (body && ['POST', 'PUT', 'PATCH'].includes(method)) {
           axiosCode += `,\n  data: ${JSON.stringify(body)}`;
         }
+        if (formFields) {
+          axiosCode += `,\n  data: formData`;
+        }
+        if (binaryFile) {
+          axiosCode += `,\n  data: fileInput.files[0] // fileInput is an <input type="file"> element`;
+        }
         axiosCode += `\n};\n\naxios(config)\n.then(response => {\n  console.log(response.data);\n})\n.catch(error => {\n  console.log(error);\n});`;
         return axiosCode;
 
       case 'python-requests':
-        let pythonCode = `import requests\nimport json\n\n`;
+        let pythonCode = `import requests\nimport json\n${digest ? 'from requests.auth import HTTPDigestAuth\n' : ''}\n`;
         pythonCode += `url = "${url}"\n\n`;
         if (enabledHeaders.length > 0) {
           const pythonHeaders = enabledHeaders.reduce((acc, header) => {
@@ -108,25 +217,66 @@ export default function CodeGenerator({ request, onClose }: CodeGeneratorProps)
         if (body && ['POST', 'PUT', 'PATCH'].includes(method)) {
           pythonCode += `payload = ${JSON.stringify(body)}\n\n`;
         }
+        // Plain text fields go in data=; files and typed text parts in files=
+        const pythonData = formFields?.filter(field => field.type === 'text' && !field.contentType) || [];
+        const pythonFiles = formFields?.filter(field => field.type === 'file' || field.contentType) || [];
+        if (pythonData.length > 0) {
+          pythonCode += `data = [\n${pythonData.map(field => `    (${JSON.stringify(field.key)}, ${JSON.stringify(field.value)}),\n`).join('')}]\n\n`;
+        }
+        if (pythonFiles.length > 0) {
+          pythonCode += `files = [\n${pythonFiles.map(field => {
+            const contentType = field.contentType ? `, ${JSON.stringify(field.contentType)}` : '';
+            const part = field.type === 'file'
+              ? `${JSON.stringify(fileNameOf(field))}, open(${JSON.stringify(fileNameOf(field))}, "rb")${contentType}`
+              : `None, ${JSON.stringify(field.value)}${contentType}`;
+            return `    (${JSON.stringify(field.key)}, (${part})),\n`;
+          }).join('')}]\n\n`;
+        }
         pythonCode += `response = requests.request("${method}", url`;
         if (enabledHeaders.length > 0) pythonCode += `, headers=headers`;
         if (body && ['POST', 'PUT', 'PATCH'].includes(method)) pythonCode += `, data=payload`;
+        if (pythonData.length > 0) pythonCode += `, data=data`;
+        if (pythonFiles.length > 0) pythonCode += `, files=files`;
+        if (binaryFile) pythonCode += `, data=open(${binaryFileName}, "rb")`;
+        if (digest) pythonCode += `, auth=HTTPDigestAuth("${digest.username}", "${digest.password}")`;
         pythonCode += `)\n\nprint(response.text)`;
         return pythonCode;
 
       case 'node-axios':
-        let nodeCode = `const axios = require('axios');\n\n`;
-        nodeCode += `axios({\n  method: '${method.toLowerCase()}',\n  url: '${url}'`;
-        if (enabledHeaders.length > 0) {
+        let nodeCode = `${digestComment}const axios = require('axios');\n`;
+        if (formFields) {
+          nodeCode += `const FormData = require('form-data');\n`;
+          if (formFields.some(field => field.type === 'file')) nodeCode += `const fs = require('fs');\n`;
+          nodeCode += `\nconst form = new FormData();\n`;
+          formFields.forEach(field => {
+            const options = field.contentType ? `, { contentType: ${JSON.stringify(field.contentType)} }` : '';
+            const value = field.type === 'file' ? `fs.createReadStream(${JSON.stringify(fileNameOf(field))})` : JSON.stringify(field.value);
+            nodeCode += `form.append(${JSON.stringify(field.key)}, ${value}${options});\n`;
+          });
+        }
+        if (binaryFile) {
+          nodeCode += `const fs = require('fs');\n`;
+        }
+        nodeCode += `\naxios({\n  method: '${method.toLowerCase()}',\n  url: '${url}'`;
+        if (enabledHeaders.length > 0 || formFields) {
           const nodeHeaders = enabledHeaders.reduce((acc, header) => {
             acc[header.key] = header.value;
             return acc;
           }, {} as Record<string, string>);
-          nodeCode += `,\n  headers: ${JSON.stringify(nodeHeaders, null, 4)}`;
+          // form.getHeaders() adds the multipart Content-Type with its boundary
+          nodeCode += formFields
+            ? `,\n  headers: { ...form.getHeaders(), ...${JSON.stringify(nodeHeaders, null, 4)} }`
+            : `,\n  headers: ${JSON.stringify(nodeHeaders, null, 4)}`;
         }
         if (body && ['POST', 'PUT', 'PATCH'].includes(method)) {
           nodeCode += `,\n  data: ${JSON.stringify(body)}`;
         }
+        if (formFields) {
+          nodeCode += `,\n  data: form`;
+        }
+        if (binaryFile) {
+          nodeCode += `,\n  data: fs.createReadStream(${binaryFileName})`;
+        }
         nodeCode += `\n})\n.then(response => {\n  console.log(response.data);\n})\n.catch(error => {\n  console.error(error);\n});`;
         return nodeCode;
 
@@ -138,19 +288,49 @@ export default function CodeGenerator({ request, onClose }: CodeGeneratorProps)
           phpCode += `,\n  CURLOPT_HTTPHEADER => array(\n    ${phpHeaders.join(',\n    ')}\n  )`;
         }
         if (body && ['POST', 'PUT', 'PATCH'].includes(method)) {
-          phpCode += `,\n  CURLOPT_POSTFIELDS => '${body}'`;
+          phpCode += `,\n  CURLOPT_POSTFIELDS => '${body.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+        }
+        if (formFields) {
+          const phpString = (text: string) => `'${text.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+          const phpFields = formFields.map(field => field.type === 'file'
+            ? `${phpString(field.key)} => new CURLFile(${phpString(fileNameOf(field))}, ${phpString(field.contentType || '')}, ${phpString(fileNameOf(field))})`
+            : `${phpString(field.key)} => ${phpString(field.value)}`);
+          phpCode += `,\n  CURLOPT_POSTFIELDS => array(\n    ${phpFields.join(',\n    ')}\n  )`;
+        }
+        if (binaryFile) {
+          phpCode += `,\n  CURLOPT_POSTFIELDS => file_get_contents(${binaryFileName})`;
+        }
+        if (digest) {
+          phpCode += `,\n  CURLOPT_HTTPAUTH => CURLAUTH_DIGEST,\n  CURLOPT_USERPWD => '${digest.username}:${digest.password}'`;
         }
         phpCode += `\n));\n\n$response = curl_exec($curl);\n\ncurl_close($curl);\necho $response;\n?>`;
         return phpCode;
 
       case 'java-okhttp':
-        let javaCode = `OkHttpClient client = new OkHttpClient().newBuilder().build();\n`;
+        let javaCode = `${digestComment}OkHttpClient client = new OkHttpClient().newBuilder().build();\n`;
         if (body && ['POST', 'PUT', 'PATCH'].includes(method)) {
           javaCode += `MediaType mediaType = MediaType.parse("application/json");\n`;
-          javaCode += `RequestBody body = RequestBody.create(mediaType, "${body.replace(/"/g, '\\"')}");\n`;
+          javaCode += `RequestBody body = RequestBody.create(mediaType, ${JSON.stringify(body)});\n`;
+        }
+        if (formFields) {
+          javaCode += `RequestBody body = new MultipartBody.Builder().setType(MultipartBody.FORM)\n`;
+          formFields.forEach(field => {
+            const mediaType = `MediaType.parse(${JSON.stringify(field.contentType || 'application/octet-stream')})`;
+            if (field.type === 'file') {
+              javaCode += `  .addFormDataPart(${JSON.stringify(field.key)}, ${JSON.stringify(fileNameOf(field))}, RequestBody.create(${mediaType}, new File(${JSON.stringify(fileNameOf(field))})))\n`;
+            } else if (field.contentType) {
+              javaCode += `  .addFormDataPart(${JSON.stringify(field.key)}, null, RequestBody.create(${mediaType}, ${JSON.stringify(field.value)}))\n`;
+            } else {
+              javaCode += `  .addFormDataPart(${JSON.stringify(field.key)}, ${JSON.stringify(field.value)})\n`;
+            }
+          });
+          javaCode += `  .build();\n`;
+        }
+        if (binaryFile) {
+          javaCode += `RequestBody body = RequestBody.create(MediaType.parse(${JSON.stringify(binaryFile.contentType || 'application/octet-stream')}), new File(${binaryFileName}));\n`;
         }
         javaCode += `Request request = new Request.Builder()\n  .url("${url}")\n  .method("${method}"`;
-        if (body && ['POST', 'PUT', 'PATCH'].includes(method)) {
+        if ((body && ['POST', 'PUT', 'PATCH'].includes(method)) || formFields || binaryFile) {
           javaCode += `, body`;
         } else {
           javaCode += `, null`;
@@ -163,13 +343,36 @@ export default function CodeGenerator({ request, onClose }: CodeGeneratorProps)
         return javaCode;
 
       case 'csharp-httpclient':
-        let csharpCode = `var client = new HttpClient();\n`;
+        let csharpCode = `${digestComment}var client = new HttpClient();\n`;
         csharpCode += `var request = new HttpRequestMessage(HttpMethod.${method.charAt(0) + method.slice(1).toLowerCase()}, "${url}");\n`;
         enabledHeaders.forEach(header => {
           csharpCode += `request.Headers.Add("${header.key}", "${header.value}");\n`;
         });
         if (body && ['POST', 'PUT', 'PATCH'].includes(method)) {
-          csharpCode += `var content = new StringContent("${body.replace(/"/g, '\\"')}", Encoding.UTF8, "application/json");\n`;
+          csharpCode += `var content = new StringContent(${JSON.stringify(body)}, Encoding.UTF8, "application/json");\n`;
+          csharpCode += `request.Content = content;\n`;
+        }
+        if (formFields) {
+          csharpCode += `var content = new MultipartFormDataContent();\n`;
+          formFields.forEach((field, index) => {
+            if (field.type === 'file') {
+              csharpCode += `var file${index} = new ByteArrayContent(File.ReadAllBytes(${JSON.stringify(fileNameOf(field))}));\n`;
+              if (field.contentType) {
+                csharpCode += `file${index}.Headers.ContentType = new MediaTypeHeaderValue(${JSON.stringify(field.contentType)});\n`;
+              }
+              csharpCode += `content.Add(file${index}, ${JSON.stringify(field.key)}, ${JSON.stringify(fileNameOf(field))});\n`;
+            } else {
+              const stringContent = field.contentType
+                ? `new StringContent(${JSON.stringify(field.value)}, Encoding.UTF8, ${JSON.stringify(field.contentType)})`
+                : `new StringContent(${JSON.stringify(field.value)})`;
+              csharpCode += `content.Add(${stringContent}, ${JSON.stringify(field.key)});\n`;
+            }
+          });
+          csharpCode += `request.Content = content;\n`;
+        }
+        if (binaryFile) {
+          csharpCode += `var content = new ByteArrayContent(File.ReadAllBytes(${binaryFileName}));\n`;
+          csharpCode += `content.Headers.ContentType = new MediaTypeHeaderValue(${JSON.stringify(binaryFile.contentType || 'application/octet-stream')});\n`;
           csharpCode += `request.Content = content;\n`;
         }
         csharpCode += `var response = await client.SendAsync(request);\nresponse.EnsureSuccessStatusCode();\nconsole.WriteLine(await response.Content.ReadAsStringAsync());`;
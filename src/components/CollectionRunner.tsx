@@ -0,0 +1,309 @@
+import React, { useState, useRef } from 'react';
+import { useCollectionRuns } from '../hooks/useCollectionRuns';
+import { runCollection, toJUnitXml, RunnableRequest, RunReport, RequestRunResult } from '../utils/collectionRunner';
+import { ProxyRequestOptions, ProxyResponse, Variable } from '../utils/requestExecutor';
+import { downloadBlob } from '../utils/mimeTypes';
+import { resolveAuth, RequestAuth } from '../utils/requestAuth';
+import { isWebSocketRequest } from '../utils/websocket';
+import { isGrpcRequest } from '../utils/grpc';
+import { resolveRequestSettings, RequestSettings } from '../utils/requestSettings';
+
+interface Collection {
+  id: string;
+  name: string;
+  requests: RunnableRequest[];
+  auth?: RequestAuth;
+  settings?: Partial<RequestSettings>;
+  variables?: Variable[];
+}
+
+interface Environment {
+  id: string;
+  name: string;
+  variables: Variable[];
+}
+
+interface CollectionRunnerProps {
+  collection: Collection;
+  environments: Environment[];
+  activeEnvironment: string;
+  globals: Variable[];
+  send: (options: ProxyRequestOptions) => Promise<ProxyResponse>;
+  onVariablesChange: (environmentId: string, variables: Variable[]) => Promise<void>;
+  onClose: () => void;
+}
+
+export default function CollectionRunner({
+  collection,
+  environments,
+  activeEnvironment,
+  globals,
+  send,
+  onVariablesChange,
+  onClose
+}: CollectionRunnerProps) {
+  const { runs, saveRun, deleteRun } = useCollectionRuns();
+  const [environmentId, setEnvironmentId] = useState(activeEnvironment);
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState<RequestRunResult[]>([]);
+  const [report, setReport] = useState<RunReport | null>(null);
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const [saveStatus, setSaveStatus] = useState('');
+  const stopRequested = useRef(false);
+
+  const collectionRuns = runs.filter(run => run.collectionName === collection.name);
+  const displayedResults = running ? progress : report?.results || [];
+  const runnableCount = collection.requests.filter(request => !isWebSocketRequest(request) && !isGrpcRequest(request)).length;
+  const skippedCount = collection.requests.length - runnableCount;
+
+  const handleRun = async () => {
+    const environment = environments.find(e => e.id === environmentId);
+
+    stopRequested.current = false;
+    setRunning(true);
+    setProgress([]);
+    setReport(null);
+    setExpanded(null);
+    setSaveStatus('');
+
+    try {
+      // Requests that inherit auth pick up the collection's default, and settings are layered the same way
+      const requests = collection.requests.map(request => ({
+        ...request,
+        auth: resolveAuth(request.auth, collection.auth),
+        settings: resolveRequestSettings(collection.settings, request.settings),
+      }));
+      const result = await runCollection(requests, {
+        collectionName: collection.name,
+        environmentName: environment?.name,
+        environmentId: environment?.id,
+        variables: environment?.variables || [],
+        scopes: { global: globals, collection: collection.variables },
+        send,
+        onVariablesChange: environment ? (variables) => onVariablesChange(environment.id, variables) : undefined,
+        onProgress: setProgress,
+        shouldStop: () => stopRequested.current,
+      });
+      setReport(result);
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!report) return;
+
+    try {
+      const savedRun = await saveRun(report);
+      setReport(savedRun);
+      setSaveStatus('Report saved');
+    } catch (error: Error | unknown) {
+      setSaveStatus(error instanceof Error ? error.message : 'Failed to save report');
+    }
+  };
+
+  const exportReport = (format: 'json' | 'junit') => {
+    if (!report) return;
+
+    const date = new Date(report.startedAt).toISOString().split('T')[0];
+    const baseName = `${collection.name.replace(/[^a-z0-9-_]+/gi, '-')}-run-${date}`;
+    const blob = format === 'json'
+      ? new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' })
+      : new Blob([toJUnitXml(report)], { type: 'application/xml' });
+
+    downloadBlob(blob, `${baseName}.${format === 'json' ? 'json' : 'xml'}`);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-5xl h-3/4 flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Run Collection: {collection.name}</h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex flex-1 overflow-hidden">
+          {/* Run Settings and Saved Runs */}
+          <div className="w-1/3 border-r border-gray-200 dark:border-gray-700 p-4 flex flex-col gap-4 overflow-y-auto">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Environment</label>
+              <select
+                value={environmentId}
+                onChange={(e) => setEnvironmentId(e.target.value)}
+                disabled={running}
+                className="w-full p-2 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              >
+                <option value="">No Environment</option>
+                {environments.map(env => (
+                  <option key={env.id} value={env.id}>{env.name}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="text-sm text-gray-600 dark:text-gray-400">
+              {runnableCount} request{runnableCount === 1 ? '' : 's'} will run in order.
+              {skippedCount > 0 && ` ${skippedCount} WebSocket or gRPC request${skippedCount === 1 ? ' is' : 's are'} skipped.`}
+            </div>
+
+            {running ? (
+              <button
+                onClick={() => { stopRequested.current = true; }}
+                className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded"
+              >
+                Stop
+              </button>
+            ) : (
+              <button
+                onClick={handleRun}
+                disabled={runnableCount === 0}
+                className="px-4 py-2 bg-green-600 hover:bg-green-700 disabled:bg-gray-400 text-white rounded"
+              >
+                Run
+              </button>
+            )}
+
+            <div>
+              <h3 className="font-medium text-gray-900 dark:text-white mb-2">Saved Runs</h3>
+              {collectionRuns.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">No saved runs</p>
+              ) : (
+                <div className="space-y-2">
+                  {collectionRuns.map(run => (
+                    <div
+                      key={run.id}
+                      onClick={() => { if (!running) { setReport(run); setSaveStatus(''); } }}
+                      className={`flex items-center justify-between p-2 rounded cursor-pointer text-sm ${
+                        report?.id === run.id
+                          ? 'bg-blue-100 dark:bg-blue-900/30'
+                          : 'hover:bg-gray-100 dark:hover:bg-gray-700'
+                      }`}
+                    >
+                      <div className="min-w-0">
+                        <div className="text-gray-900 dark:text-white">{new Date(run.startedAt).toLocaleString()}</div>
+                        <div className={run.failed > 0 ? 'text-red-600' : 'text-green-600'}>
+                          {run.passed}/{run.total} passed
+                        </div>
+                      </div>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          if (run.id) deleteRun(run.id).catch(() => undefined);
+                          if (report?.id === run.id) setReport(null);
+                        }}
+                        className="p-1 text-red-600 hover:bg-red-100 rounded"
+                      >
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                        </svg>
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Results */}
+          <div className="flex-1 flex flex-col p-4 min-w-0">
+            {report && !running && (
+              <div className="flex items-center justify-between mb-4 p-3 bg-gray-50 dark:bg-gray-900 rounded">
+                <div className="flex items-center gap-4 text-sm">
+                  <span className="text-green-600 font-medium">{report.passed} passed</span>
+                  <span className="text-red-600 font-medium">{report.failed} failed</span>
+                  <span className="text-gray-600 dark:text-gray-400">{report.duration}ms</span>
+                  {saveStatus && <span className="text-gray-600 dark:text-gray-400">{saveStatus}</span>}
+                </div>
+                <div className="flex gap-2">
+                  {!report.id && (
+                    <button
+                      onClick={handleSave}
+                      className="px-3 py-1 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded"
+                    >
+                      Save Report
+                    </button>
+                  )}
+                  <button
+                    onClick={() => exportReport('json')}
+                    className="px-3 py-1 text-sm bg-gray-600 hover:bg-gray-700 text-white rounded"
+                  >
+                    Export JSON
+                  </button>
+                  <button
+                    onClick={() => exportReport('junit')}
+                    className="px-3 py-1 text-sm bg-gray-600 hover:bg-gray-700 text-white rounded"
+                  >
+                    Export JUnit XML
+                  </button>
+                </div>
+              </div>
+            )}
+
+            <div className="flex-1 overflow-y-auto space-y-2">
+              {displayedResults.length === 0 && !running && (
+                <div className="flex items-center justify-center h-full text-gray-500 dark:text-gray-400">
+                  Run the collection to see results
+                </div>
+              )}
+              {displayedResults.map((result, index) => (
+                <div key={index} className="bg-gray-50 dark:bg-gray-700 rounded">
+                  <div
+                    onClick={() => setExpanded(expanded === index ? null : index)}
+                    className="flex items-center gap-3 p-3 cursor-pointer"
+                  >
+                    <span className={`px-2 py-0.5 text-xs rounded font-medium ${
+                      result.passed ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+                    }`}>
+                      {result.passed ? 'PASS' : 'FAIL'}
+                    </span>
+                    <span className="px-2 py-0.5 text-xs rounded font-mono bg-gray-200 dark:bg-gray-600 text-gray-800 dark:text-gray-200">
+                      {result.method}
+                    </span>
+                    <span className="text-gray-900 dark:text-white truncate flex-1">{result.name}</span>
+                    {result.status !== undefined && (
+                      <span className="text-sm text-gray-600 dark:text-gray-400">{result.status}</span>
+                    )}
+                    {result.time !== undefined && (
+                      <span className="text-sm text-gray-600 dark:text-gray-400">{result.time}ms</span>
+                    )}
+                  </div>
+                  {expanded === index && (
+                    <div className="px-3 pb-3 space-y-1 text-sm">
+                      <div className="font-mono text-xs text-gray-500 dark:text-gray-400 break-all">{result.url}</div>
+                      {result.error && <div className="text-red-600 dark:text-red-400">{result.error}</div>}
+                      {result.assertions.map((assertion, i) => (
+                        <div key={`a-${i}`} className={assertion.passed ? 'text-green-700 dark:text-green-400' : 'text-red-600 dark:text-red-400'}>
+                          {assertion.passed ? '✓' : '✗'} {assertion.message}
+                        </div>
+                      ))}
+                      {result.tests.map((test, i) => (
+                        <div key={`t-${i}`} className={test.passed ? 'text-green-700 dark:text-green-400' : 'text-red-600 dark:text-red-400'}>
+                          {test.passed ? '✓' : '✗'} {test.name}{test.error ? ` — ${test.error}` : ''}
+                        </div>
+                      ))}
+                      {!result.error && result.assertions.length === 0 && result.tests.length === 0 && (
+                        <div className="text-gray-500 dark:text-gray-400">No assertions or tests defined</div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              ))}
+              {running && (
+                <div className="flex items-center gap-2 p-3 text-gray-600 dark:text-gray-400">
+                  <div className="animate-spin w-4 h-4 border-2 border-blue-600 border-t-transparent rounded-full"></div>
+                  Running {progress.length + 1} of {runnableCount}...
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
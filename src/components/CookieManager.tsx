@@ -0,0 +1,256 @@
+import React, { useState, useEffect } from 'react';
+import { useCookies, JarCookie, CookieInput } from '../hooks/useCookies';
+import { domainMatches } from '../lib/cookieJar';
+import { ResponseCookie } from '../utils/requestExecutor';
+
+interface CookieManagerProps {
+  // URL of the request the response belongs to, used to pick the relevant domain
+  url?: string;
+  receivedCookies?: ResponseCookie[];
+}
+
+const inputClass = 'w-full px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm';
+
+const toDateTimeLocal = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const hostOf = (url?: string) => {
+  try {
+    return url ? new URL(url).hostname.toLowerCase() : '';
+  } catch {
+    return '';
+  }
+};
+
+export default function CookieManager({ url, receivedCookies }: CookieManagerProps) {
+  const { cookies, fetchCookies, createCookie, updateCookie, deleteCookie, clearCookies } = useCookies();
+  const [showAllDomains, setShowAllDomains] = useState(false);
+  const [editing, setEditing] = useState<{ id: string | null; cookie: CookieInput } | null>(null);
+  const [saveError, setSaveError] = useState('');
+
+  const host = hostOf(url);
+
+  // The proxy stores cookies as responses arrive, so reload the jar for each new response
+  useEffect(() => {
+    if (receivedCookies && receivedCookies.length > 0) {
+      fetchCookies();
+    }
+  }, [receivedCookies, fetchCookies]);
+
+  const visibleCookies = cookies.filter(cookie =>
+    showAllDomains || !host || domainMatches(host, cookie.domain) || domainMatches(cookie.domain, host)
+  );
+
+  const isReceived = (cookie: JarCookie) =>
+    !!receivedCookies?.some(received =>
+      received.name === cookie.name && received.domain === cookie.domain && received.path === cookie.path
+    );
+
+  const startAdd = () => {
+    setSaveError('');
+    setEditing({
+      id: null,
+      cookie: {
+        name: '',
+        value: '',
+        domain: host,
+        path: '/',
+        expires: null,
+        httpOnly: false,
+        secure: false,
+        sameSite: null,
+        hostOnly: true,
+      },
+    });
+  };
+
+  const startEdit = (cookie: JarCookie) => {
+    setSaveError('');
+    const { id, ...fields } = cookie;
+    setEditing({ id, cookie: fields });
+  };
+
+  const updateDraft = (changes: Partial<CookieInput>) => {
+    setEditing(prev => prev && { ...prev, cookie: { ...prev.cookie, ...changes } });
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+    if (!editing.cookie.name.trim() || !editing.cookie.domain.trim()) {
+      setSaveError('Name and domain are required');
+      return;
+    }
+
+    try {
+      if (editing.id) {
+        await updateCookie(editing.id, editing.cookie);
+      } else {
+        await createCookie(editing.cookie);
+      }
+      setEditing(null);
+    } catch (error: Error | unknown) {
+      setSaveError(error instanceof Error ? error.message : 'Failed to save cookie');
+    }
+  };
+
+  const handleClear = async () => {
+    const target = showAllDomains || !host ? 'all domains' : host;
+    if (!confirm(`Delete all cookies for ${target}?`)) return;
+    await clearCookies(showAllDomains || !host ? undefined : host).catch(() => undefined);
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex items-center gap-2 mb-3 flex-shrink-0">
+        <span className="text-sm text-gray-600 dark:text-gray-400">
+          {receivedCookies && receivedCookies.length > 0
+            ? `${receivedCookies.length} cookie${receivedCookies.length === 1 ? '' : 's'} set by this response`
+            : 'No cookies set by this response'}
+        </span>
+        <div className="ml-auto flex items-center gap-2">
+          {host && (
+            <label className="flex items-center gap-1 text-sm text-gray-600 dark:text-gray-400">
+              <input
+                type="checkbox"
+                checked={showAllDomains}
+                onChange={(e) => setShowAllDomains(e.target.checked)}
+                className="rounded border-gray-300"
+              />
+              All domains
+            </label>
+          )}
+          <button
+            onClick={startAdd}
+            className="px-3 py-1 bg-blue-600 text-white rounded text-sm"
+          >
+            Add Cookie
+          </button>
+          <button
+            onClick={handleClear}
+            disabled={visibleCookies.length === 0}
+            className="px-3 py-1 text-sm text-red-600 hover:bg-red-100 dark:hover:bg-red-900/30 rounded disabled:opacity-50"
+          >
+            Clear
+          </button>
+        </div>
+      </div>
+
+      {editing && (
+        <div className="mb-3 p-3 border rounded bg-gray-50 dark:bg-gray-800 flex-shrink-0">
+          <div className="grid grid-cols-2 gap-2">
+            <label className="text-xs text-gray-600 dark:text-gray-400">
+              Name
+              <input type="text" value={editing.cookie.name} onChange={(e) => updateDraft({ name: e.target.value })} className={inputClass} />
+            </label>
+            <label className="text-xs text-gray-600 dark:text-gray-400">
+              Value
+              <input type="text" value={editing.cookie.value} onChange={(e) => updateDraft({ value: e.target.value })} className={`${inputClass} font-mono`} />
+            </label>
+            <label className="text-xs text-gray-600 dark:text-gray-400">
+              Domain
+              <input type="text" value={editing.cookie.domain} onChange={(e) => updateDraft({ domain: e.target.value })} className={inputClass} />
+            </label>
+            <label className="text-xs text-gray-600 dark:text-gray-400">
+              Path
+              <input type="text" value={editing.cookie.path} onChange={(e) => updateDraft({ path: e.target.value })} className={inputClass} />
+            </label>
+            <label className="text-xs text-gray-600 dark:text-gray-400">
+              Expires (empty for a session cookie)
+              <input
+                type="datetime-local"
+                value={editing.cookie.expires ? toDateTimeLocal(editing.cookie.expires) : ''}
+                onChange={(e) => updateDraft({ expires: e.target.value ? new Date(e.target.value).getTime() : null })}
+                className={inputClass}
+              />
+            </label>
+            <label className="text-xs text-gray-600 dark:text-gray-400">
+              SameSite
+              <select
+                value={editing.cookie.sameSite || ''}
+                onChange={(e) => updateDraft({ sameSite: (e.target.value || null) as CookieInput['sameSite'] })}
+                className={inputClass}
+              >
+                <option value="">Not set</option>
+                <option value="Strict">Strict</option>
+                <option value="Lax">Lax</option>
+                <option value="None">None</option>
+              </select>
+            </label>
+          </div>
+          <div className="flex items-center gap-4 mt-2 text-sm text-gray-700 dark:text-gray-300">
+            <label className="flex items-center gap-1">
+              <input type="checkbox" checked={editing.cookie.httpOnly} onChange={(e) => updateDraft({ httpOnly: e.target.checked })} />
+              HttpOnly
+            </label>
+            <label className="flex items-center gap-1">
+              <input type="checkbox" checked={editing.cookie.secure} onChange={(e) => updateDraft({ secure: e.target.checked })} />
+              Secure
+            </label>
+            <label className="flex items-center gap-1" title="Only send to this exact host, not its subdomains">
+              <input type="checkbox" checked={editing.cookie.hostOnly} onChange={(e) => updateDraft({ hostOnly: e.target.checked })} />
+              Host only
+            </label>
+            {saveError && <span className="text-red-600 dark:text-red-400">{saveError}</span>}
+            <div className="ml-auto flex gap-2">
+              <button onClick={() => setEditing(null)} className="px-3 py-1 text-gray-600 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-700 rounded">
+                Cancel
+              </button>
+              <button onClick={handleSave} className="px-3 py-1 bg-blue-600 text-white rounded">
+                Save
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="flex-1 min-h-0 overflow-auto border rounded bg-gray-100 dark:bg-gray-900">
+        {visibleCookies.length === 0 ? (
+          <div className="text-center text-gray-500 dark:text-gray-400 py-8">
+            {host && !showAllDomains ? `No cookies stored for ${host}` : 'The cookie jar is empty'}
+          </div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="text-left text-gray-600 dark:text-gray-400">
+              <tr>
+                <th className="p-2">Name</th>
+                <th className="p-2">Value</th>
+                <th className="p-2">Domain</th>
+                <th className="p-2">Path</th>
+                <th className="p-2">Expires</th>
+                <th className="p-2">HttpOnly</th>
+                <th className="p-2">Secure</th>
+                <th className="p-2">SameSite</th>
+                <th className="p-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {visibleCookies.map(cookie => (
+                <tr key={cookie.id} className="border-t border-gray-200 dark:border-gray-700 text-gray-800 dark:text-gray-200">
+                  <td className="p-2 font-medium">
+                    {cookie.name}
+                    {isReceived(cookie) && (
+                      <span className="ml-2 px-1 text-xs rounded bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300">new</span>
+                    )}
+                  </td>
+                  <td className="p-2 font-mono break-all max-w-xs">{cookie.value}</td>
+                  <td className="p-2">{cookie.hostOnly ? cookie.domain : `.${cookie.domain}`}</td>
+                  <td className="p-2">{cookie.path}</td>
+                  <td className="p-2 whitespace-nowrap">{cookie.expires ? new Date(cookie.expires).toLocaleString() : 'Session'}</td>
+                  <td className="p-2">{cookie.httpOnly ? '✓' : ''}</td>
+                  <td className="p-2">{cookie.secure ? '✓' : ''}</td>
+                  <td className="p-2">{cookie.sameSite || ''}</td>
+                  <td className="p-2 whitespace-nowrap text-right">
+                    <button onClick={() => startEdit(cookie)} className="px-2 text-blue-600 hover:underline">Edit</button>
+                    <button onClick={() => deleteCookie(cookie.id).catch(() => undefined)} className="px-2 text-red-600 hover:underline">Delete</button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,10 +1,15 @@
 import React, { useState } from 'react';
 import { useEnvironments } from '../hooks/useEnvironments';
+import { useGlobals } from '../hooks/useGlobals';
+import EnvironmentProxyEditor from './EnvironmentProxyEditor';
+import VariableTable from './VariableTable';
 
 interface Variable {
   key: string;
   value: string;
   enabled: boolean;
+  secret?: boolean;
+  unreadable?: boolean;
 }
 
 // Environment interface is used from useEnvironments hook
@@ -13,10 +18,16 @@ interface EnvironmentManagerProps {
   onClose: () => void;
 }
 
+// Selection key of the global variables, listed above the environments
+const GLOBALS = 'globals';
+
 export default function EnvironmentManager({ onClose }: EnvironmentManagerProps) {
   const { environments, createEnvironment, updateEnvironment, deleteEnvironment } = useEnvironments();
+  const { globals, updateGlobals } = useGlobals();
   const [selectedEnv, setSelectedEnv] = useState<string>(environments[0]?.id || '');
   const [newEnvName, setNewEnvName] = useState('');
+  // Secret values shown in clear text, as "<environment id>:<index>"
+  const [revealed, setRevealed] = useState<Set<string>>(new Set());
 
   const currentEnv = environments.find(env => env.id === selectedEnv);
 
@@ -58,8 +69,9 @@ export default function EnvironmentManager({ onClose }: EnvironmentManagerProps)
   const handleUpdateVariable = async (index: number, field: keyof Variable, value: string | boolean) => {
     if (!currentEnv) return;
     
-    const updatedVariables = currentEnv.variables.map((variable, i) => 
-      i === index ? { ...variable, [field]: value } : variable
+    // A new value replaces one that could not be decrypted
+    const updatedVariables = currentEnv.variables.map((variable, i) =>
+      i === index ? { ...variable, [field]: value, ...(field === 'value' ? { unreadable: undefined } : {}) } : variable
     );
     
     try {
@@ -69,10 +81,20 @@ export default function EnvironmentManager({ onClose }: EnvironmentManagerProps)
     }
   };
 
+  const toggleRevealed = (index: number) => {
+    const revealKey = `${selectedEnv}:${index}`;
+    setRevealed(prev => {
+      const next = new Set(prev);
+      if (!next.delete(revealKey)) next.add(revealKey);
+      return next;
+    });
+  };
+
   const handleRemoveVariable = async (index: number) => {
     if (!currentEnv) return;
     
     const updatedVariables = currentEnv.variables.filter((_, i) => i !== index);
+    setRevealed(new Set());
     
     try {
       await updateEnvironment(currentEnv.id, currentEnv.name, updatedVariables);
@@ -117,6 +139,17 @@ export default function EnvironmentManager({ onClose }: EnvironmentManagerProps)
             </div>
 
             <div className="space-y-2">
+              <div
+                className={`flex items-center justify-between p-3 rounded cursor-pointer ${
+                  selectedEnv === GLOBALS
+                    ? 'bg-blue-100 dark:bg-blue-900/30 border border-blue-300 dark:border-blue-700'
+                    : 'hover:bg-gray-100 dark:hover:bg-gray-700'
+                }`}
+                onClick={() => setSelectedEnv(GLOBALS)}
+              >
+                <span className="text-gray-900 dark:text-white font-medium">Globals</span>
+                <span className="text-xs text-gray-500 dark:text-gray-400">All environments</span>
+              </div>
               {environments.map(env => (
                 <div
                   key={env.id}
@@ -145,8 +178,25 @@ export default function EnvironmentManager({ onClose }: EnvironmentManagerProps)
           </div>
 
           {/* Variables Editor */}
-          <div className="flex-1 p-4">
-            {currentEnv ? (
+          <div className="flex-1 p-4 overflow-y-auto">
+            {selectedEnv === GLOBALS ? (
+              <div>
+                <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">Global Variables</h3>
+                <VariableTable
+                  variables={globals}
+                  onChange={(variables) => {
+                    updateGlobals(variables).catch(error => console.error('Failed to update global variables:', error));
+                  }}
+                />
+
+                <div className="mt-6 p-4 bg-blue-50 dark:bg-blue-900/30 rounded">
+                  <h4 className="font-medium text-blue-900 dark:text-blue-100 mb-2">Precedence</h4>
+                  <p className="text-sm text-blue-700 dark:text-blue-300">
+                    Globals apply to every request. A collection, environment or request variable with the same name overrides them, in that order.
+                  </p>
+                </div>
+              </div>
+            ) : currentEnv ? (
               <div>
                 <div className="flex items-center justify-between mb-4">
                   <h3 className="text-lg font-medium text-gray-900 dark:text-white">
@@ -176,13 +226,44 @@ export default function EnvironmentManager({ onClose }: EnvironmentManagerProps)
                         placeholder="Variable name"
                         className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-sm"
                       />
-                      <input
-                        type="text"
-                        value={variable.value}
-                        onChange={(e) => handleUpdateVariable(index, 'value', e.target.value)}
-                        placeholder="Variable value"
-                        className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-sm"
-                      />
+                      <div className="flex-1 flex gap-1">
+                        <input
+                          type={variable.secret && !revealed.has(`${selectedEnv}:${index}`) ? 'password' : 'text'}
+                          value={variable.value}
+                          onChange={(e) => handleUpdateVariable(index, 'value', e.target.value)}
+                          placeholder={variable.unreadable ? 'Could not be decrypted; enter the value again' : 'Variable value'}
+                          title={variable.unreadable ? 'The stored value could not be decrypted, e.g. after ENCRYPTION_KEY changed. It is kept until you enter a new one.' : undefined}
+                          autoComplete="off"
+                          className={`flex-1 px-3 py-2 border ${variable.unreadable ? 'border-red-400 dark:border-red-600' : 'border-gray-300 dark:border-gray-600'} rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-sm`}
+                        />
+                        {variable.secret && (
+                          <button
+                            onClick={() => toggleRevealed(index)}
+                            className="p-2 text-gray-500 hover:bg-gray-200 dark:hover:bg-gray-600 rounded"
+                            title={revealed.has(`${selectedEnv}:${index}`) ? 'Hide value' : 'Reveal value'}
+                          >
+                            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              {revealed.has(`${selectedEnv}:${index}`) ? (
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.875 18.825A10.05 10.05 0 0112 19c-4.478 0-8.268-2.943-9.543-7a9.97 9.97 0 011.563-3.029m5.858.908a3 3 0 114.243 4.243M9.878 9.878l4.242 4.242M9.88 9.88l-3.29-3.29m7.532 7.532l3.29 3.29M3 3l3.59 3.59m0 0A9.953 9.953 0 0112 5c4.478 0 8.268 2.943 9.543 7a10.025 10.025 0 01-4.132 5.411m0 0L21 21" />
+                              ) : (
+                                <>
+                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
+                                </>
+                              )}
+                            </svg>
+                          </button>
+                        )}
+                      </div>
+                      <label className="flex items-center gap-1 text-xs text-gray-600 dark:text-gray-300" title="Encrypted at rest, masked here and left out of history, generated code and exports">
+                        <input
+                          type="checkbox"
+                          checked={Boolean(variable.secret)}
+                          onChange={(e) => handleUpdateVariable(index, 'secret', e.target.checked)}
+                          className="rounded"
+                        />
+                        Secret
+                      </label>
                       <button
                         onClick={() => handleRemoveVariable(index)}
                         className="p-2 text-red-600 hover:bg-red-100 rounded"
@@ -200,6 +281,23 @@ export default function EnvironmentManager({ onClose }: EnvironmentManagerProps)
                   <p className="text-sm text-blue-700 dark:text-blue-300">
                     Use variables in your requests with double curly braces: <code className="bg-blue-100 dark:bg-blue-800 px-1 rounded">{'{{variable_name}}'}</code>
                   </p>
+                  <p className="text-sm text-blue-700 dark:text-blue-300 mt-2">
+                    Built-in variables get a new value on every send: <code className="bg-blue-100 dark:bg-blue-800 px-1 rounded">{'{{$guid}}'}</code>, <code className="bg-blue-100 dark:bg-blue-800 px-1 rounded">{'{{$timestamp}}'}</code>, <code className="bg-blue-100 dark:bg-blue-800 px-1 rounded">{'{{$isoTimestamp}}'}</code>, <code className="bg-blue-100 dark:bg-blue-800 px-1 rounded">{'{{$randomEmail}}'}</code> and <code className="bg-blue-100 dark:bg-blue-800 px-1 rounded">{'{{$randomInt 1 100}}'}</code>.
+                  </p>
+                  <p className="text-sm text-blue-700 dark:text-blue-300 mt-2">
+                    Secret values are encrypted on the server, masked here and replaced by their placeholder in history and generated code.
+                  </p>
+                </div>
+
+                <div className="mt-6">
+                  <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-3">Upstream Proxy</h3>
+                  <EnvironmentProxyEditor
+                    key={currentEnv.id}
+                    value={currentEnv.proxy}
+                    onSave={async (proxy) => {
+                      await updateEnvironment(currentEnv.id, currentEnv.name, currentEnv.variables, proxy);
+                    }}
+                  />
                 </div>
               </div>
             ) : (
@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { EnvironmentProxySettings, DEFAULT_PROXY_SETTINGS, validateProxyUrl } from '../utils/proxySettings';
+
+interface EnvironmentProxyEditorProps {
+  value?: EnvironmentProxySettings;
+  onSave: (proxy: EnvironmentProxySettings) => Promise<void>;
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-sm';
+
+const MODES: { value: EnvironmentProxySettings['mode']; label: string }[] = [
+  { value: 'inherit', label: 'Instance default' },
+  { value: 'none', label: 'No proxy' },
+  { value: 'custom', label: 'Custom proxy' },
+];
+
+// Edited as a draft and saved with a button, unlike variables, so the password is not sent on every keystroke
+export default function EnvironmentProxyEditor({ value = DEFAULT_PROXY_SETTINGS, onSave }: EnvironmentProxyEditorProps) {
+  const [draft, setDraft] = useState<EnvironmentProxySettings>({ ...value, password: undefined });
+  const [saving, setSaving] = useState(false);
+  const [status, setStatus] = useState<{ error: boolean; message: string } | null>(null);
+
+  const update = (changes: Partial<EnvironmentProxySettings>) => {
+    setDraft(prev => ({ ...prev, ...changes }));
+    setStatus(null);
+  };
+
+  const handleSave = async () => {
+    const urlError = draft.mode === 'custom' ? validateProxyUrl(draft.url) : null;
+    if (urlError) {
+      setStatus({ error: true, message: urlError });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await onSave(draft);
+      setDraft(prev => ({ ...prev, password: undefined, hasPassword: prev.password === undefined ? prev.hasPassword : !!prev.password }));
+      setStatus({ error: false, message: 'Proxy settings saved' });
+    } catch (error: Error | unknown) {
+      setStatus({ error: true, message: error instanceof Error ? error.message : 'Failed to save proxy settings' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-4">
+        {MODES.map(mode => (
+          <label key={mode.value} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="radio"
+              checked={draft.mode === mode.value}
+              onChange={() => update({ mode: mode.value })}
+            />
+            {mode.label}
+          </label>
+        ))}
+      </div>
+
+      {draft.mode === 'inherit' && (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Requests use the proxy set for this AnMost instance with HTTP_PROXY, HTTPS_PROXY and NO_PROXY, if there is one.
+        </p>
+      )}
+      {draft.mode === 'none' && (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Requests connect directly, even if the instance has a proxy.</p>
+      )}
+      {draft.mode === 'custom' && (
+        <div className="grid grid-cols-2 gap-3">
+          <label className="col-span-2 block">
+            <span className="block text-sm text-gray-700 dark:text-gray-300 mb-1">Proxy URL</span>
+            <input
+              type="text"
+              value={draft.url}
+              onChange={(e) => update({ url: e.target.value })}
+              placeholder="http://proxy.example.com:3128 or socks5://proxy.example.com:1080"
+              className={inputClass}
+            />
+          </label>
+          <label className="block">
+            <span className="block text-sm text-gray-700 dark:text-gray-300 mb-1">Username</span>
+            <input
+              type="text"
+              value={draft.username}
+              onChange={(e) => update({ username: e.target.value })}
+              autoComplete="off"
+              className={inputClass}
+            />
+          </label>
+          <label className="block">
+            <span className="block text-sm text-gray-700 dark:text-gray-300 mb-1">Password</span>
+            <div className="flex gap-2">
+              <input
+                type="password"
+                value={draft.password || ''}
+                onChange={(e) => update({ password: e.target.value || (draft.hasPassword ? undefined : '') })}
+                placeholder={draft.hasPassword && draft.password === undefined ? 'Saved (unchanged)' : ''}
+                autoComplete="new-password"
+                className={inputClass}
+              />
+              {draft.hasPassword && (
+                <button
+                  onClick={() => update({ password: '', hasPassword: false })}
+                  className="px-2 text-sm text-red-600 hover:text-red-700 whitespace-nowrap"
+                >
+                  Remove
+                </button>
+              )}
+            </div>
+          </label>
+          <label className="col-span-2 block">
+            <span className="block text-sm text-gray-700 dark:text-gray-300 mb-1">No proxy for</span>
+            <input
+              type="text"
+              value={draft.noProxy}
+              onChange={(e) => update({ noProxy: e.target.value })}
+              placeholder="localhost, .internal.example.com, 10.0.0.0/8"
+              className={inputClass}
+            />
+          </label>
+        </div>
+      )}
+
+      <div className="flex items-center gap-3">
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded text-sm disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : 'Save Proxy'}
+        </button>
+        {status && (
+          <span className={`text-sm ${status.error ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}>
+            {status.message}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
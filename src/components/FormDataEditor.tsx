@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { FormDataField, EMPTY_FORM_DATA_FIELD } from '../utils/formData';
+import { StoredFileInfo, MAX_FILE_SIZE, formatFileSize } from '../utils/storedFiles';
+
+interface FormDataEditorProps {
+  fields: FormDataField[];
+  onChange: (fields: FormDataField[]) => void;
+  files: StoredFileInfo[];
+  onUploadFile: (file: File) => Promise<StoredFileInfo>;
+}
+
+const inputClass = 'px-3 py-2 border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-700 text-slate-900 dark:text-white text-sm focus:ring-2 focus:ring-cyan-500 focus:border-transparent';
+
+export default function FormDataEditor({ fields, onChange, files, onUploadFile }: FormDataEditorProps) {
+  const [uploading, setUploading] = useState<number | null>(null);
+  const [uploadError, setUploadError] = useState('');
+
+  const updateField = (index: number, changes: Partial<FormDataField>) => {
+    onChange(fields.map((field, i) => i === index ? { ...field, ...changes } : field));
+  };
+
+  const handleFile = async (index: number, file: File) => {
+    setUploading(index);
+    setUploadError('');
+    try {
+      const stored = await onUploadFile(file);
+      updateField(index, { fileId: stored.id, fileName: stored.name, key: fields[index].key || stored.name });
+    } catch (error: Error | unknown) {
+      setUploadError(error instanceof Error ? error.message : 'Failed to upload file');
+    } finally {
+      setUploading(null);
+    }
+  };
+
+  return (
+    <div className="h-full flex flex-col p-3">
+      <div className="flex justify-between items-center mb-3 flex-shrink-0">
+        <span className="text-sm text-slate-500 dark:text-slate-400">
+          Text and file parts, sent as multipart/form-data. Files can be up to {formatFileSize(MAX_FILE_SIZE)}.
+        </span>
+        <button
+          onClick={() => onChange([...fields, EMPTY_FORM_DATA_FIELD])}
+          className="px-3 py-1 bg-blue-600 text-white rounded text-sm button-text"
+        >
+          Add Field
+        </button>
+      </div>
+
+      {uploadError && <p className="mb-2 text-sm text-red-600 dark:text-red-400 flex-shrink-0">{uploadError}</p>}
+
+      <div className="flex-1 min-h-0 overflow-y-auto space-y-2">
+        {fields.map((field, index) => {
+          const stored = files.find(file => file.id === field.fileId);
+          return (
+            <div key={index} className="flex gap-2 items-center">
+              <input
+                type="checkbox"
+                checked={field.enabled}
+                onChange={(e) => updateField(index, { enabled: e.target.checked })}
+                className="rounded border-slate-300 text-cyan-600 focus:ring-cyan-500"
+              />
+              <input
+                type="text"
+                value={field.key}
+                onChange={(e) => updateField(index, { key: e.target.value })}
+                placeholder="Field name"
+                className={`flex-1 min-w-0 ${inputClass}`}
+              />
+              <select
+                value={field.type}
+                onChange={(e) => updateField(index, { type: e.target.value as FormDataField['type'] })}
+                className={inputClass}
+              >
+                <option value="text">Text</option>
+                <option value="file">File</option>
+              </select>
+              {field.type === 'text' ? (
+                <input
+                  type="text"
+                  value={field.value}
+                  onChange={(e) => updateField(index, { value: e.target.value })}
+                  placeholder="Value"
+                  className={`flex-1 min-w-0 ${inputClass}`}
+                />
+              ) : (
+                <label className={`flex-1 min-w-0 flex items-center gap-2 cursor-pointer ${inputClass}`}>
+                  <span className="truncate text-slate-700 dark:text-slate-300">
+                    {uploading === index
+                      ? 'Uploading...'
+                      : field.fileId
+                        ? `${field.fileName || stored?.name || 'File'}${stored ? ` (${formatFileSize(stored.size)})` : ''}`
+                        : 'Choose file...'}
+                  </span>
+                  <input
+                    type="file"
+                    className="hidden"
+                    disabled={uploading !== null}
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      e.target.value = '';
+                      if (file) handleFile(index, file);
+                    }}
+                  />
+                </label>
+              )}
+              <input
+                type="text"
+                value={field.contentType || ''}
+                onChange={(e) => updateField(index, { contentType: e.target.value || undefined })}
+                placeholder={field.type === 'file' ? stored?.contentType || 'Content-Type' : 'Content-Type'}
+                className={`w-40 ${inputClass}`}
+                title="Content-Type of this part"
+              />
+              <button
+                onClick={() => onChange(fields.filter((_, i) => i !== index))}
+                className="p-2 text-red-600 hover:bg-red-100 dark:hover:bg-red-900/30 rounded"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+          );
+        })}
+        {fields.length === 0 && (
+          <p className="text-sm text-slate-500 dark:text-slate-400">No fields yet.</p>
+        )}
+      </div>
+    </div>
+  );
+}
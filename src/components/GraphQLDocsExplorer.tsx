@@ -0,0 +1,189 @@
+import React, { useState } from 'react';
+import {
+  GraphQLSchema,
+  GraphQLArgument,
+  GraphQLNamedType,
+  GraphQLType,
+  getNamedType,
+  isEnumType,
+  isInputObjectType,
+  isInterfaceType,
+  isObjectType,
+  isUnionType,
+} from 'graphql';
+
+interface GraphQLDocsExplorerProps {
+  schema: GraphQLSchema;
+  onClose: () => void;
+}
+
+function TypeLink({ type, onOpen }: { type: GraphQLType; onOpen: (name: string) => void }) {
+  const named = getNamedType(type);
+  const [before, after] = type.toString().split(named.name);
+  return (
+    <span className="font-mono">
+      {before}
+      <button onClick={() => onOpen(named.name)} className="text-orange-600 dark:text-orange-400 hover:underline">
+        {named.name}
+      </button>
+      {after}
+    </span>
+  );
+}
+
+export default function GraphQLDocsExplorer({ schema, onClose }: GraphQLDocsExplorerProps) {
+  const [history, setHistory] = useState<string[]>([]);
+  const [search, setSearch] = useState('');
+
+  const current = history.length > 0 ? schema.getType(history[history.length - 1]) : null;
+  const openType = (name: string) => {
+    setHistory(prev => [...prev, name]);
+    setSearch('');
+  };
+
+  const rootTypes = [
+    { label: 'query', type: schema.getQueryType() },
+    { label: 'mutation', type: schema.getMutationType() },
+    { label: 'subscription', type: schema.getSubscriptionType() },
+  ].filter((root): root is { label: string; type: NonNullable<typeof root.type> } => !!root.type);
+
+  const searchResults = search
+    ? Object.values(schema.getTypeMap())
+        .filter(type => !type.name.startsWith('__') && type.name.toLowerCase().includes(search.toLowerCase()))
+        .slice(0, 50)
+    : [];
+
+  const renderType = (type: GraphQLNamedType) => (
+    <div className="space-y-3">
+      <div>
+        <h4 className="font-mono text-base text-slate-900 dark:text-white">{type.name}</h4>
+        {type.description && <p className="text-sm text-slate-600 dark:text-slate-400 mt-1 whitespace-pre-wrap">{type.description}</p>}
+      </div>
+
+      {(isObjectType(type) || isInterfaceType(type)) && type.getInterfaces().length > 0 && (
+        <div className="text-sm text-slate-600 dark:text-slate-400">
+          Implements{' '}
+          {type.getInterfaces().map((iface, index) => (
+            <span key={iface.name}>
+              {index > 0 && ', '}
+              <TypeLink type={iface} onOpen={openType} />
+            </span>
+          ))}
+        </div>
+      )}
+
+      {(isObjectType(type) || isInterfaceType(type) || isInputObjectType(type)) && (
+        <div>
+          <h5 className="text-xs uppercase text-slate-500 dark:text-slate-400 mb-1">Fields</h5>
+          {Object.values(type.getFields()).map(field => {
+            // Input object fields take no arguments
+            const args: readonly GraphQLArgument[] = 'args' in field ? field.args : [];
+            return (
+              <div key={field.name} className="py-1 text-sm border-b border-slate-100 dark:border-slate-700">
+                <span className="font-mono text-blue-700 dark:text-blue-300">{field.name}</span>
+                {args.length > 0 && (
+                  <span className="font-mono text-slate-500">
+                    (
+                    {args.map((arg, index) => (
+                      <span key={arg.name}>
+                        {index > 0 && ', '}
+                        {arg.name}: <TypeLink type={arg.type} onOpen={openType} />
+                      </span>
+                    ))}
+                    )
+                  </span>
+                )}
+                <span className="font-mono">: </span>
+                <TypeLink type={field.type} onOpen={openType} />
+                {field.deprecationReason && (
+                  <span className="ml-2 text-xs text-yellow-700 dark:text-yellow-400">deprecated</span>
+                )}
+                {field.description && <p className="text-xs text-slate-500 dark:text-slate-400 mt-0.5">{field.description}</p>}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {(isUnionType(type) || isInterfaceType(type)) && (
+        <div>
+          <h5 className="text-xs uppercase text-slate-500 dark:text-slate-400 mb-1">Possible types</h5>
+          {schema.getPossibleTypes(type).map(possible => (
+            <div key={possible.name} className="py-1 text-sm">
+              <TypeLink type={possible} onOpen={openType} />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {isEnumType(type) && (
+        <div>
+          <h5 className="text-xs uppercase text-slate-500 dark:text-slate-400 mb-1">Values</h5>
+          {type.getValues().map(value => (
+            <div key={value.name} className="py-1 text-sm">
+              <span className="font-mono text-blue-700 dark:text-blue-300">{value.name}</span>
+              {value.description && <p className="text-xs text-slate-500 dark:text-slate-400">{value.description}</p>}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="h-full flex flex-col border-l border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-800">
+      <div className="flex items-center gap-2 p-2 border-b border-slate-200 dark:border-slate-600 flex-shrink-0">
+        {history.length > 0 && (
+          <button
+            onClick={() => setHistory(prev => prev.slice(0, -1))}
+            className="px-2 py-1 text-xs bg-slate-200 dark:bg-slate-700 text-slate-700 dark:text-slate-300 rounded"
+          >
+            ← {history.length > 1 ? history[history.length - 2] : 'Schema'}
+          </button>
+        )}
+        <span className="text-sm font-medium text-slate-700 dark:text-slate-300">Docs</span>
+        <button onClick={onClose} className="ml-auto p-1 hover:bg-slate-100 dark:hover:bg-slate-700 rounded" title="Close docs">
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      <div className="flex-1 min-h-0 overflow-y-auto p-3">
+        {current ? renderType(current) : (
+          <div className="space-y-3">
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search types..."
+              className="w-full px-3 py-1 text-sm border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-700 text-slate-900 dark:text-white"
+            />
+            {search ? (
+              searchResults.length === 0 ? (
+                <p className="text-sm text-slate-500 dark:text-slate-400">No types match your search</p>
+              ) : (
+                searchResults.map(type => (
+                  <div key={type.name} className="text-sm">
+                    <TypeLink type={type} onOpen={openType} />
+                  </div>
+                ))
+              )
+            ) : (
+              <div>
+                <h5 className="text-xs uppercase text-slate-500 dark:text-slate-400 mb-1">Root types</h5>
+                {rootTypes.map(root => (
+                  <div key={root.label} className="py-1 text-sm">
+                    <span className="font-mono text-blue-700 dark:text-blue-300">{root.label}</span>
+                    <span className="font-mono">: </span>
+                    <TypeLink type={root.type} onOpen={openType} />
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,262 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { GraphQLSchema, parse, print } from 'graphql';
+import GraphQLDocsExplorer from './GraphQLDocsExplorer';
+import {
+  GraphQLRequestBody,
+  GraphQLCompletion,
+  getOperationNames,
+  getGraphQLCompletions,
+  validateGraphQLQuery,
+} from '../utils/graphql';
+
+interface GraphQLEditorProps {
+  value: GraphQLRequestBody;
+  onChange: (value: GraphQLRequestBody) => void;
+  schema: GraphQLSchema | null;
+  schemaLoading: boolean;
+  schemaError: string;
+  onFetchSchema: () => void;
+}
+
+// Matches the textarea's text-sm / leading 1.5 / p-3 so the suggestion list sits under the cursor
+const LINE_HEIGHT = 21;
+const PADDING = 12;
+
+const COMPLETION_KIND_STYLES: Record<GraphQLCompletion['kind'], string> = {
+  field: 'text-blue-600 dark:text-blue-400',
+  argument: 'text-purple-600 dark:text-purple-400',
+  type: 'text-orange-600 dark:text-orange-400',
+  keyword: 'text-pink-600 dark:text-pink-400',
+  value: 'text-green-600 dark:text-green-400',
+};
+
+export default function GraphQLEditor({ value, onChange, schema, schemaLoading, schemaError, onFetchSchema }: GraphQLEditorProps) {
+  const [completions, setCompletions] = useState<{ from: number; items: GraphQLCompletion[] } | null>(null);
+  const [selected, setSelected] = useState(0);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [showDocs, setShowDocs] = useState(false);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const pendingCursorRef = useRef<number | null>(null);
+
+  const diagnostics = validateGraphQLQuery(value.query, schema);
+  const operationNames = getOperationNames(value.query);
+
+  let variablesError = '';
+  if (value.variables.trim()) {
+    try {
+      JSON.parse(value.variables);
+    } catch {
+      variablesError = 'Invalid JSON';
+    }
+  }
+
+  // Restore the cursor after inserting a completion
+  useEffect(() => {
+    if (pendingCursorRef.current !== null && textareaRef.current) {
+      textareaRef.current.setSelectionRange(pendingCursorRef.current, pendingCursorRef.current);
+      pendingCursorRef.current = null;
+    }
+  }, [value.query]);
+
+  const updateCompletions = (query: string, cursor: number, force = false) => {
+    const typedName = /[_A-Za-z]$/.test(query.slice(0, cursor));
+    if (!force && !typedName) {
+      setCompletions(null);
+      return;
+    }
+    const result = getGraphQLCompletions(schema, query, cursor);
+    setCompletions(result.items.length > 0 ? result : null);
+    setSelected(0);
+  };
+
+  const applyCompletion = (item: GraphQLCompletion) => {
+    const textarea = textareaRef.current;
+    if (!textarea || !completions) return;
+
+    const cursor = textarea.selectionStart;
+    const query = value.query.slice(0, completions.from) + item.label + value.query.slice(cursor);
+    pendingCursorRef.current = completions.from + item.label.length;
+    onChange({ ...value, query });
+    setCompletions(null);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === ' ' && e.ctrlKey) {
+      e.preventDefault();
+      updateCompletions(value.query, e.currentTarget.selectionStart, true);
+      return;
+    }
+    if (!completions) return;
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setSelected(prev => (prev + 1) % completions.items.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setSelected(prev => (prev - 1 + completions.items.length) % completions.items.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      applyCompletion(completions.items[selected]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      setCompletions(null);
+    }
+  };
+
+  const prettify = () => {
+    try {
+      onChange({ ...value, query: print(parse(value.query)) });
+    } catch {
+      // Leave documents with syntax errors untouched
+    }
+  };
+
+  // Place the suggestion list under the word being completed
+  const completionPosition = () => {
+    if (!completions) return {};
+    const lines = value.query.slice(0, completions.from).split('\n');
+    return {
+      top: `${lines.length * LINE_HEIGHT + PADDING - scrollTop}px`,
+      left: `calc(${lines[lines.length - 1].length}ch + ${PADDING}px)`,
+    };
+  };
+
+  return (
+    <div className="flex h-full">
+      <div className="flex-1 min-w-0 flex flex-col">
+        {/* Toolbar */}
+        <div className="flex items-center gap-2 p-2 bg-slate-50 dark:bg-slate-700 border-b border-slate-200 dark:border-slate-600 flex-shrink-0">
+          <span className="text-sm font-medium text-slate-700 dark:text-slate-300">GraphQL</span>
+          {value.query.trim() && (
+            diagnostics.length === 0 ? (
+              <span className="text-xs text-green-600 dark:text-green-400">{schema ? 'Valid against schema' : 'Valid syntax'}</span>
+            ) : (
+              <span className="text-xs text-red-600 dark:text-red-400">
+                {diagnostics.length} error{diagnostics.length === 1 ? '' : 's'}
+              </span>
+            )
+          )}
+          {operationNames.length > 1 && (
+            <select
+              value={value.operationName && operationNames.includes(value.operationName) ? value.operationName : ''}
+              onChange={(e) => onChange({ ...value, operationName: e.target.value || undefined })}
+              className="px-2 py-1 text-xs border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-800 text-slate-900 dark:text-white"
+              title="Operation to run"
+            >
+              <option value="">Select operation...</option>
+              {operationNames.map(name => (
+                <option key={name} value={name}>{name}</option>
+              ))}
+            </select>
+          )}
+          <div className="ml-auto flex gap-1">
+            <button
+              onClick={prettify}
+              disabled={!value.query.trim()}
+              className="px-2 py-1 text-xs bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white rounded transition-colors"
+            >
+              Prettify
+            </button>
+            <button
+              onClick={onFetchSchema}
+              disabled={schemaLoading}
+              className="px-2 py-1 text-xs bg-gray-600 hover:bg-gray-700 disabled:bg-gray-400 text-white rounded transition-colors"
+              title="Fetch the schema with an introspection query"
+            >
+              {schemaLoading ? 'Fetching...' : schema ? 'Refresh Schema' : 'Fetch Schema'}
+            </button>
+            <button
+              onClick={() => setShowDocs(!showDocs)}
+              disabled={!schema}
+              className={`px-2 py-1 text-xs rounded transition-colors disabled:opacity-50 ${
+                showDocs ? 'bg-orange-600 text-white' : 'bg-slate-200 dark:bg-slate-600 text-slate-700 dark:text-slate-200'
+              }`}
+            >
+              Docs
+            </button>
+          </div>
+        </div>
+
+        {schemaError && (
+          <div className="px-3 py-1 text-xs text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/20 flex-shrink-0">{schemaError}</div>
+        )}
+
+        {/* Query */}
+        <div className="flex-[2] min-h-0 relative font-mono text-sm">
+          <textarea
+            ref={textareaRef}
+            value={value.query}
+            onChange={(e) => {
+              onChange({ ...value, query: e.target.value });
+              updateCompletions(e.target.value, e.target.selectionStart);
+            }}
+            onKeyDown={handleKeyDown}
+            onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+            onBlur={() => setCompletions(null)}
+            placeholder={'query {\n  \n}\n\nCtrl+Space for suggestions'}
+            className="w-full h-full p-3 font-mono text-sm resize-none border-none outline-none bg-white dark:bg-slate-800 text-slate-900 dark:text-white focus:ring-2 focus:ring-cyan-500 focus:ring-inset"
+            style={{ lineHeight: '1.5', tabSize: 2 }}
+            spellCheck={false}
+          />
+          {completions && (
+            <div
+              className="absolute z-20 min-w-48 max-w-md max-h-56 overflow-y-auto bg-white dark:bg-slate-800 border border-slate-300 dark:border-slate-600 rounded shadow-lg"
+              style={completionPosition()}
+            >
+              {completions.items.map((item, index) => (
+                <button
+                  key={item.label}
+                  // Keep focus in the textarea so the cursor position survives
+                  onMouseDown={(e) => {
+                    e.preventDefault();
+                    applyCompletion(item);
+                  }}
+                  className={`w-full text-left px-2 py-1 flex items-baseline gap-2 ${
+                    index === selected ? 'bg-blue-100 dark:bg-blue-900/40' : 'hover:bg-slate-100 dark:hover:bg-slate-700'
+                  }`}
+                  title={item.description}
+                >
+                  <span className={COMPLETION_KIND_STYLES[item.kind]}>{item.label}</span>
+                  {item.detail && <span className="ml-auto text-xs text-slate-500 dark:text-slate-400">{item.detail}</span>}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {diagnostics.length > 0 && (
+          <div className="max-h-20 overflow-y-auto px-3 py-1 border-t border-slate-200 dark:border-slate-600 bg-red-50 dark:bg-red-900/20 flex-shrink-0">
+            {diagnostics.map((diagnostic, index) => (
+              <div key={index} className="text-xs text-red-700 dark:text-red-300">
+                {diagnostic.line !== undefined && <span className="font-mono mr-2">{diagnostic.line}:{diagnostic.column}</span>}
+                {diagnostic.message}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Variables */}
+        <div className="flex items-center gap-2 px-2 py-1 bg-slate-50 dark:bg-slate-700 border-y border-slate-200 dark:border-slate-600 flex-shrink-0">
+          <span className="text-xs font-medium text-slate-700 dark:text-slate-300">Variables</span>
+          {variablesError && <span className="text-xs text-red-600 dark:text-red-400">{variablesError}</span>}
+        </div>
+        <textarea
+          value={value.variables}
+          onChange={(e) => onChange({ ...value, variables: e.target.value })}
+          placeholder={'{\n  "id": "1"\n}'}
+          className={`flex-1 min-h-0 w-full p-3 font-mono text-sm resize-none border-none outline-none focus:ring-2 focus:ring-cyan-500 focus:ring-inset ${
+            variablesError ? 'bg-red-50 dark:bg-red-900/20' : 'bg-white dark:bg-slate-800'
+          } text-slate-900 dark:text-white`}
+          style={{ lineHeight: '1.5', tabSize: 2 }}
+          spellCheck={false}
+        />
+      </div>
+
+      {showDocs && schema && (
+        <div className="w-72 flex-shrink-0">
+          <GraphQLDocsExplorer schema={schema} onClose={() => setShowDocs(false)} />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+import React from 'react';
+import { GrpcMethodInfo, parseGrpcMessage } from '../utils/grpc';
+
+interface GrpcMessageEditorProps {
+  message: string;
+  onChange: (message: string) => void;
+  method?: GrpcMethodInfo;
+}
+
+export default function GrpcMessageEditor({ message, onChange, method }: GrpcMessageEditorProps) {
+  let messageError = '';
+  try {
+    // Variables are substituted on send, so unquoted {{placeholders}} are not flagged
+    if (!/{{[^}]+}}/.test(message)) parseGrpcMessage(message);
+  } catch (error: Error | unknown) {
+    messageError = error instanceof Error ? error.message : 'Invalid message';
+  }
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="flex items-center gap-2 mb-3 flex-shrink-0">
+        <h3 className="heading-sm text-slate-900 dark:text-white">Request Message</h3>
+        {method && <span className="text-xs font-mono text-slate-500 dark:text-slate-400">{method.requestType}</span>}
+        {messageError && <span className="text-xs text-red-600 dark:text-red-400">{messageError}</span>}
+        <button
+          onClick={() => method && onChange(JSON.stringify(method.example, null, 2))}
+          disabled={!method}
+          className="ml-auto px-3 py-1 bg-slate-200 dark:bg-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-300 dark:hover:bg-slate-600 disabled:opacity-50 rounded text-sm button-text"
+          title={method ? 'Replace the message with every field set to its default' : 'Load services to get an example'}
+        >
+          Example
+        </button>
+      </div>
+
+      <textarea
+        value={message}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={'{\n  "name": "{{name}}"\n}'}
+        className={`flex-1 min-h-0 w-full p-3 border rounded font-mono text-sm resize-none focus:ring-2 focus:ring-cyan-500 focus:border-transparent text-slate-900 dark:text-white ${
+          messageError ? 'border-red-300 dark:border-red-600 bg-red-50 dark:bg-red-900/20' : 'border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700'
+        }`}
+        spellCheck={false}
+      />
+      <p className="text-xs text-slate-500 dark:text-slate-400 mt-2 flex-shrink-0">
+        64-bit integers may be given as strings, enums by name and bytes as base64.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import type { GrpcCallResult } from '../hooks/useGrpc';
+
+interface GrpcResponseViewProps {
+  result: GrpcCallResult | null;
+  running: boolean;
+}
+
+type GrpcResponseTab = 'messages' | 'metadata' | 'trailers';
+
+function MetadataTable({ entries, empty }: { entries: [string, string][]; empty: string }) {
+  if (entries.length === 0) {
+    return <div className="text-center text-gray-500 dark:text-gray-400 py-8">{empty}</div>;
+  }
+  return (
+    <div className="space-y-1">
+      {entries.map(([key, value]) => (
+        <div key={key} className="text-sm font-mono text-gray-700 dark:text-gray-300 break-all">
+          <span className="text-gray-500 dark:text-gray-400">{key}:</span> {value}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function GrpcResponseView({ result, running }: GrpcResponseViewProps) {
+  const [activeTab, setActiveTab] = useState<GrpcResponseTab>('messages');
+
+  if (!result) {
+    return (
+      <div className="h-full flex items-center justify-center text-slate-500 dark:text-slate-400 bg-white/50 dark:bg-slate-800/50 rounded-lg">
+        {running ? 'Calling...' : 'Invoke a method to see the response'}
+      </div>
+    );
+  }
+
+  const { status, messages } = result;
+  const trailers = Object.entries(status?.trailers || {});
+  const counts: Record<GrpcResponseTab, number> = {
+    messages: messages.length,
+    metadata: Object.keys(result.metadata).length,
+    trailers: trailers.length,
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex items-center gap-3 mb-3 flex-shrink-0">
+        {status ? (
+          <span className={`px-2 py-1 rounded text-sm font-mono ${
+            status.code === 0 ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+          }`}>
+            {status.code} {status.name}
+          </span>
+        ) : (
+          <span className="inline-flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+            <span className="w-2 h-2 rounded-full bg-yellow-500 animate-pulse"></span>
+            Streaming
+          </span>
+        )}
+        {status && <span className="text-sm text-gray-500 dark:text-gray-400">{status.time} ms</span>}
+        <span className="text-sm text-gray-500 dark:text-gray-400">
+          {messages.length} message{messages.length === 1 ? '' : 's'}
+        </span>
+      </div>
+
+      {status && status.code !== 0 && status.details && (
+        <div className="mb-3 p-2 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded text-sm text-red-700 dark:text-red-300 flex-shrink-0">
+          {status.details}
+        </div>
+      )}
+
+      <div className="flex border-b border-gray-200 dark:border-gray-700 mb-3 flex-shrink-0">
+        {(['messages', 'metadata', 'trailers'] as const).map(tab => (
+          <button
+            key={tab}
+            onClick={() => setActiveTab(tab)}
+            className={`px-4 py-2 capitalize text-sm ${
+              activeTab === tab
+                ? 'border-b-2 border-blue-500 text-blue-600'
+                : 'text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200'
+            }`}
+          >
+            {tab} ({counts[tab]})
+          </button>
+        ))}
+      </div>
+
+      <div className="flex-1 min-h-0 overflow-auto border rounded bg-gray-100 dark:bg-gray-900 p-2">
+        {activeTab === 'messages' && (
+          messages.length === 0 ? (
+            <div className="text-center text-gray-500 dark:text-gray-400 py-8">
+              {status ? 'The call returned no messages' : 'Waiting for messages...'}
+            </div>
+          ) : (
+            messages.map((message, index) => (
+              <div key={index} className="p-2 rounded mb-2 bg-gray-50 dark:bg-gray-800">
+                {/* Unary calls have a single message, so only streams need the position and timing */}
+                {messages.length > 1 && (
+                  <div className="text-xs text-gray-500 dark:text-gray-400 mb-1">
+                    #{index + 1} · {message.time} ms
+                  </div>
+                )}
+                <pre className="text-sm font-mono whitespace-pre-wrap break-words text-gray-800 dark:text-gray-200">
+                  {JSON.stringify(message.data, null, 2)}
+                </pre>
+              </div>
+            ))
+          )
+        )}
+        {activeTab === 'metadata' && (
+          <MetadataTable entries={Object.entries(result.metadata)} empty="No response metadata" />
+        )}
+        {activeTab === 'trailers' && (
+          <MetadataTable entries={trailers} empty={status ? 'No trailers' : 'Trailers arrive when the call ends'} />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+import React from 'react';
+import { GrpcSettings, GrpcDefinitionSource, GrpcServiceInfo, GRPC_SOURCE_LABELS, findGrpcMethod } from '../utils/grpc';
+
+interface GrpcServicePanelProps {
+  settings: GrpcSettings;
+  onChange: (settings: Partial<GrpcSettings>) => void;
+  services: GrpcServiceInfo[];
+  loading: boolean;
+  error: string;
+  onLoadServices: () => void;
+}
+
+export default function GrpcServicePanel({ settings, onChange, services, loading, error, onLoadServices }: GrpcServicePanelProps) {
+  const selectedService = services.find(service => service.name === settings.service);
+  const selectedMethod = findGrpcMethod(services, settings.service, settings.method);
+
+  const handleFiles = async (fileList: FileList | null) => {
+    if (!fileList) return;
+    const uploads = await Promise.all(Array.from(fileList).map(async file => ({ name: file.name, content: await file.text() })));
+    // Re-uploading a file replaces the earlier copy
+    const kept = settings.protoFiles.filter(file => !uploads.some(upload => upload.name === file.name));
+    onChange({ protoFiles: [...kept, ...uploads] });
+  };
+
+  const selectMethod = (service: string, method: string) => {
+    const info = findGrpcMethod(services, service, method);
+    // Start an untouched message from the method's example
+    const untouched = !settings.message.trim() || settings.message.trim() === '{}';
+    onChange({
+      service,
+      method,
+      ...(info && untouched ? { message: JSON.stringify(info.example, null, 2) } : {}),
+    });
+  };
+
+  return (
+    <div className="h-full flex flex-col gap-4 overflow-y-auto">
+      <div>
+        <h3 className="heading-sm text-slate-900 dark:text-white mb-2">Service Definition</h3>
+        <div className="flex gap-2">
+          {(Object.keys(GRPC_SOURCE_LABELS) as GrpcDefinitionSource[]).map(source => (
+            <button
+              key={source}
+              onClick={() => onChange({ source })}
+              className={`px-3 py-1 rounded text-sm button-text ${
+                settings.source === source
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-slate-200 dark:bg-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-300 dark:hover:bg-slate-600'
+              }`}
+            >
+              {GRPC_SOURCE_LABELS[source]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {settings.source === 'proto' ? (
+        <div>
+          <label className="inline-block px-3 py-1 bg-slate-200 dark:bg-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-300 dark:hover:bg-slate-600 rounded text-sm button-text cursor-pointer">
+            Upload .proto files
+            <input
+              type="file"
+              accept=".proto"
+              multiple
+              className="hidden"
+              onChange={(e) => {
+                handleFiles(e.target.files);
+                e.target.value = '';
+              }}
+            />
+          </label>
+          <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+            Upload imported files too; google/protobuf well-known types are built in.
+          </p>
+          <div className="mt-2 space-y-1">
+            {settings.protoFiles.map(file => (
+              <div key={file.name} className="flex items-center gap-2 text-sm">
+                <span className="font-mono text-slate-700 dark:text-slate-300">{file.name}</span>
+                <span className="text-xs text-slate-500 dark:text-slate-400">{file.content.length} chars</span>
+                <button
+                  onClick={() => onChange({ protoFiles: settings.protoFiles.filter(other => other.name !== file.name) })}
+                  className="p-1 text-red-600 hover:bg-red-100 dark:hover:bg-red-900/30 rounded"
+                  title="Remove file"
+                >
+                  <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-slate-600 dark:text-slate-400">
+          Services are listed by the server&apos;s reflection service, using the URL, metadata and auth of this request.
+        </p>
+      )}
+
+      <div className="flex items-center gap-2">
+        <button
+          onClick={onLoadServices}
+          disabled={loading || (settings.source === 'proto' && settings.protoFiles.length === 0)}
+          className="px-3 py-1 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white rounded text-sm button-text"
+        >
+          {loading ? 'Loading...' : services.length > 0 ? 'Reload Services' : 'Load Services'}
+        </button>
+        {error && <span className="text-sm text-red-600 dark:text-red-400">{error}</span>}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="block text-sm text-slate-600 dark:text-slate-400 mb-1">Service</label>
+          <select
+            value={settings.service}
+            onChange={(e) => selectMethod(e.target.value, services.find(service => service.name === e.target.value)?.methods[0]?.name || '')}
+            className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-700 text-slate-900 dark:text-white text-sm"
+          >
+            <option value="">Select service...</option>
+            {/* Keep a saved selection visible before services are loaded */}
+            {settings.service && !selectedService && <option value={settings.service}>{settings.service}</option>}
+            {services.map(service => (
+              <option key={service.name} value={service.name}>{service.name}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm text-slate-600 dark:text-slate-400 mb-1">Method</label>
+          <select
+            value={settings.method}
+            onChange={(e) => selectMethod(settings.service, e.target.value)}
+            className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-700 text-slate-900 dark:text-white text-sm"
+          >
+            <option value="">Select method...</option>
+            {settings.method && !selectedMethod && <option value={settings.method}>{settings.method}</option>}
+            {selectedService?.methods.map(method => (
+              <option key={method.name} value={method.name}>
+                {method.name}{method.serverStreaming ? ' (server streaming)' : ''}{method.clientStreaming ? ' (client streaming, unsupported)' : ''}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {selectedMethod && (
+        <div className="text-sm font-mono text-slate-600 dark:text-slate-400">
+          {selectedMethod.name}({selectedMethod.clientStreaming && 'stream '}{selectedMethod.requestType}) returns ({selectedMethod.serverStreaming && 'stream '}{selectedMethod.responseType})
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,31 +1,50 @@
 import React, { useState } from 'react';
+import { Assertion } from '../utils/assertions';
+import { GraphQLRequestBody } from '../utils/graphql';
+import { FormDataField } from '../utils/formData';
+import { BinaryFileBody } from '../utils/storedFiles';
+import { RequestAuth } from '../utils/requestAuth';
+import { parseImportData, ImportPreview, IMPORT_FORMAT_LABELS, importedScripts, withoutScripts } from '../utils/importFormats';
+import { exportPostmanCollection, exportPostmanEnvironment } from '../utils/postman';
+import { exportInsomnia } from '../utils/insomnia';
+import { downloadBlob } from '../utils/mimeTypes';
 
 interface Request {
   id: string;
   name: string;
+  folder?: string;
   method: string;
   url: string;
   headers: { key: string; value: string; enabled: boolean }[];
   body: string;
-  bodyType: 'json' | 'form-data' | 'x-www-form-urlencoded' | 'raw' | 'binary';
+  bodyType: 'json' | 'form-data' | 'x-www-form-urlencoded' | 'raw' | 'binary' | 'graphql';
+  preRequestScript?: string;
+  testScript?: string;
+  assertions?: Assertion[];
+  graphql?: GraphQLRequestBody;
+  formData?: FormDataField[];
+  binary?: BinaryFileBody;
+  auth?: RequestAuth;
 }
 
 interface Collection {
   id: string;
   name: string;
   requests: Request[];
+  auth?: RequestAuth;
+  variables?: { key: string; value: string; enabled: boolean }[];
 }
 
 interface Environment {
   id: string;
   name: string;
-  variables: { key: string; value: string; enabled: boolean }[];
+  variables: { key: string; value: string; enabled: boolean; secret?: boolean }[];
 }
 
 interface ImportExportProps {
   collections: Collection[];
   environments: Environment[];
-  onImport: (data: { collections?: Collection[]; environments?: Environment[] }) => void;
+  onImport: (data: Pick<ImportPreview, 'collections' | 'environments'>) => Promise<void>;
   onClose: () => void;
 }
 
@@ -33,55 +52,114 @@ export default function ImportExport({ collections, environments, onImport, onCl
   const [activeTab, setActiveTab] = useState<'export' | 'import'>('export');
   const [importData, setImportData] = useState('');
   const [exportType, setExportType] = useState<'collections' | 'environments' | 'all'>('all');
+  const [exportFormat, setExportFormat] = useState<'anmost' | 'postman' | 'insomnia'>('anmost');
+  const [postmanSource, setPostmanSource] = useState('');
+  const [includeSecrets, setIncludeSecrets] = useState(false);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [importError, setImportError] = useState('');
+  const [importing, setImporting] = useState(false);
+  // Imported scripts run on the next send, so they stay off unless the user enables them after reading them
+  const [enableScripts, setEnableScripts] = useState(false);
+
+  const fileSafeName = (name: string) => name.replace(/[^a-z0-9-_]+/gi, '-');
+
+  const downloadJson = (data: unknown, filename: string) => {
+    downloadBlob(new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' }), filename);
+  };
+
+  // Secret variables are exported with empty values unless their values are asked for
+  const exportableEnvironments = includeSecrets
+    ? environments
+    : environments.map(environment => ({
+        ...environment,
+        variables: environment.variables.map(variable => variable.secret ? { ...variable, value: '' } : variable),
+      }));
+  const hasSecrets = environments.some(environment => environment.variables.some(variable => variable.secret));
+  const exportsEnvironments = exportFormat === 'postman' ? postmanSource.startsWith('environment:') : exportType !== 'collections';
 
   const handleExport = () => {
+    const date = new Date().toISOString().split('T')[0];
+
+    if (exportFormat === 'postman') {
+      // Postman keeps each collection and environment in its own file
+      const [kind, id] = postmanSource.split(':');
+      if (kind === 'collection') {
+        const collection = collections.find(c => c.id === id);
+        if (collection) {
+          downloadJson(exportPostmanCollection(collection), `${fileSafeName(collection.name)}.postman_collection.json`);
+        }
+      } else if (kind === 'environment') {
+        const environment = exportableEnvironments.find(e => e.id === id);
+        if (environment) {
+          downloadJson(exportPostmanEnvironment(environment), `${fileSafeName(environment.name)}.postman_environment.json`);
+        }
+      }
+      return;
+    }
+
+    const exportedCollections = exportType === 'collections' || exportType === 'all' ? collections : [];
+    const exportedEnvironments = exportType === 'environments' || exportType === 'all' ? exportableEnvironments : [];
+
+    if (exportFormat === 'insomnia') {
+      downloadJson(exportInsomnia(exportedCollections, exportedEnvironments), `insomnia-${exportType}-${date}.json`);
+      return;
+    }
+
     const dataToExport: {
       collections?: Collection[];
       environments?: Environment[];
     } = {};
     
     if (exportType === 'collections' || exportType === 'all') {
-      dataToExport.collections = collections;
+      dataToExport.collections = exportedCollections;
     }
     
     if (exportType === 'environments' || exportType === 'all') {
-      dataToExport.environments = environments;
+      dataToExport.environments = exportedEnvironments;
     }
     
-    const jsonString = JSON.stringify(dataToExport, null, 2);
-    const blob = new Blob([jsonString], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `rest-client-${exportType}-${new Date().toISOString().split('T')[0]}.json`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    downloadJson(dataToExport, `rest-client-${exportType}-${date}.json`);
   };
 
-  const handleImport = () => {
+  const handlePreview = () => {
     try {
-      const data = JSON.parse(importData);
-      
-      // Validate the data structure
-      if (data.collections && !Array.isArray(data.collections)) {
-        throw new Error('Invalid collections format');
-      }
-      
-      if (data.environments && !Array.isArray(data.environments)) {
-        throw new Error('Invalid environments format');
-      }
-      
-      onImport(data);
+      setPreview(parseImportData(importData));
+      setEnableScripts(false);
+      setImportError('');
+    } catch (error: Error | unknown) {
+      setPreview(null);
+      setImportError(error instanceof Error ? error.message : 'Failed to read import data');
+    }
+  };
+
+  const handleImport = async () => {
+    if (!preview) return;
+
+    setImporting(true);
+    try {
+      await onImport({
+        collections: enableScripts ? preview.collections : withoutScripts(preview.collections),
+        environments: preview.environments,
+      });
       setImportData('');
+      setPreview(null);
       onClose();
-    } catch {
-      alert('Invalid JSON format. Please check your data and try again.');
+    } catch (error: Error | unknown) {
+      setImportError(error instanceof Error ? error.message : 'Import failed');
+    } finally {
+      setImporting(false);
     }
   };
 
+  const previewScripts = preview ? importedScripts(preview.collections) : [];
+
+  const resetImport = (content: string) => {
+    setImportData(content);
+    setPreview(null);
+    setEnableScripts(false);
+    setImportError('');
+  };
+
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
@@ -89,7 +167,7 @@ export default function ImportExport({ collections, environments, onImport, onCl
     const reader = new FileReader();
     reader.onload = (e) => {
       const content = e.target?.result as string;
-      setImportData(content);
+      resetImport(content);
     };
     reader.readAsText(file);
   };
@@ -137,6 +215,46 @@ export default function ImportExport({ collections, environments, onImport, onCl
             <div className="space-y-6">
               <div>
                 <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">Export Data</h3>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Format</label>
+                <select
+                  value={exportFormat}
+                  onChange={(e) => setExportFormat(e.target.value as 'anmost' | 'postman' | 'insomnia')}
+                  className="w-full p-2 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                >
+                  <option value="anmost">AnMost JSON</option>
+                  <option value="postman">Postman v2.1</option>
+                  <option value="insomnia">Insomnia v4</option>
+                </select>
+              </div>
+
+              {exportFormat === 'postman' ? (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Collection or Environment
+                  </label>
+                  <select
+                    value={postmanSource}
+                    onChange={(e) => setPostmanSource(e.target.value)}
+                    className="w-full p-2 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                  >
+                    <option value="">Select...</option>
+                    {collections.length > 0 && (
+                      <optgroup label="Collections">
+                        {collections.map(collection => (
+                          <option key={collection.id} value={`collection:${collection.id}`}>{collection.name}</option>
+                        ))}
+                      </optgroup>
+                    )}
+                    {environments.length > 0 && (
+                      <optgroup label="Environments">
+                        {environments.map(env => (
+                          <option key={env.id} value={`environment:${env.id}`}>{env.name}</option>
+                        ))}
+                      </optgroup>
+                    )}
+                  </select>
+                </div>
+              ) : (
                 <div className="space-y-3">
                   <label className="flex items-center">
                     <input
@@ -172,28 +290,48 @@ export default function ImportExport({ collections, environments, onImport, onCl
                     <span className="text-gray-700 dark:text-gray-300">Environments Only</span>
                   </label>
                 </div>
-              </div>
+              )}
+
+              {hasSecrets && exportsEnvironments && (
+                <label className="flex items-start gap-3 p-3 bg-yellow-50 dark:bg-yellow-900/30 rounded">
+                  <input
+                    type="checkbox"
+                    checked={includeSecrets}
+                    onChange={(e) => setIncludeSecrets(e.target.checked)}
+                    className="mt-1"
+                  />
+                  <span className="text-sm text-yellow-800 dark:text-yellow-200">
+                    Include secret values
+                    <span className="block text-xs">
+                      Left unchecked, secret variables are exported with empty values. The file holds them in plain text.
+                    </span>
+                  </span>
+                </label>
+              )}
 
               <div className="flex justify-end">
                 <button
                   onClick={handleExport}
-                  className="px-6 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded"
+                  disabled={exportFormat === 'postman' && !postmanSource}
+                  className="px-6 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white rounded"
                 >
                   Download JSON
                 </button>
               </div>
 
-              <div className="p-4 bg-blue-50 dark:bg-blue-900/30 rounded">
-                <h4 className="font-medium text-blue-900 dark:text-blue-100 mb-2">Export Summary</h4>
-                <div className="text-sm text-blue-700 dark:text-blue-300 space-y-1">
-                  {(exportType === 'collections' || exportType === 'all') && (
-                    <div>Collections: {collections.length}</div>
-                  )}
-                  {(exportType === 'environments' || exportType === 'all') && (
-                    <div>Environments: {environments.length}</div>
-                  )}
+              {exportFormat !== 'postman' && (
+                <div className="p-4 bg-blue-50 dark:bg-blue-900/30 rounded">
+                  <h4 className="font-medium text-blue-900 dark:text-blue-100 mb-2">Export Summary</h4>
+                  <div className="text-sm text-blue-700 dark:text-blue-300 space-y-1">
+                    {(exportType === 'collections' || exportType === 'all') && (
+                      <div>Collections: {collections.length}</div>
+                    )}
+                    {(exportType === 'environments' || exportType === 'all') && (
+                      <div>Environments: {environments.length}</div>
+                    )}
+                  </div>
                 </div>
-              </div>
+              )}
             </div>
           )}
 
@@ -204,11 +342,11 @@ export default function ImportExport({ collections, environments, onImport, onCl
                 
                 <div className="mb-4">
                   <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                    Upload JSON File
+                    Upload File (AnMost, Postman collection or environment, Insomnia v4, OpenAPI/Swagger JSON or YAML)
                   </label>
                   <input
                     type="file"
-                    accept=".json"
+                    accept=".json,.yaml,.yml"
                     onChange={handleFileUpload}
                     className="block w-full text-sm text-gray-500 dark:text-gray-400 file:mr-4 file:py-2 file:px-4 file:rounded file:border-0 file:text-sm file:font-semibold file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
                   />
@@ -216,12 +354,12 @@ export default function ImportExport({ collections, environments, onImport, onCl
 
                 <div className="mb-4">
                   <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                    Or Paste JSON Data
+                    Or Paste Exported JSON or YAML
                   </label>
                   <textarea
                     value={importData}
-                    onChange={(e) => setImportData(e.target.value)}
-                    placeholder="Paste your JSON data here..."
+                    onChange={(e) => resetImport(e.target.value)}
+                    placeholder="Paste your JSON or YAML data here..."
                     className="w-full h-64 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white font-mono text-sm"
                   />
                 </div>
@@ -229,24 +367,111 @@ export default function ImportExport({ collections, environments, onImport, onCl
 
               <div className="flex justify-end gap-3">
                 <button
-                  onClick={() => setImportData('')}
+                  onClick={() => resetImport('')}
                   className="px-4 py-2 text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200"
                 >
                   Clear
                 </button>
-                <button
-                  onClick={handleImport}
-                  disabled={!importData.trim()}
-                  className="px-6 py-2 bg-green-600 hover:bg-green-700 disabled:bg-gray-400 text-white rounded"
-                >
-                  Import
-                </button>
+                {preview ? (
+                  <button
+                    onClick={handleImport}
+                    disabled={importing}
+                    className="px-6 py-2 bg-green-600 hover:bg-green-700 disabled:bg-gray-400 text-white rounded"
+                  >
+                    {importing ? 'Importing...' : 'Import'}
+                  </button>
+                ) : (
+                  <button
+                    onClick={handlePreview}
+                    disabled={!importData.trim()}
+                    className="px-6 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white rounded"
+                  >
+                    Preview
+                  </button>
+                )}
               </div>
 
+              {importError && (
+                <div className="p-3 bg-red-50 dark:bg-red-900/30 text-sm text-red-700 dark:text-red-300 rounded">
+                  {importError}
+                </div>
+              )}
+
+              {preview && (
+                <div className="p-4 bg-blue-50 dark:bg-blue-900/30 rounded">
+                  <h4 className="font-medium text-blue-900 dark:text-blue-100 mb-2">
+                    Import Preview ({IMPORT_FORMAT_LABELS[preview.format]})
+                  </h4>
+                  <div className="text-sm text-blue-700 dark:text-blue-300 space-y-1">
+                    {preview.collections.map((collection, index) => (
+                      <div key={`c-${index}`}>
+                        Collection &quot;{collection.name}&quot;: {collection.requests.length} request{collection.requests.length === 1 ? '' : 's'}
+                        {!!collection.variables?.length && `, ${collection.variables.length} variable${collection.variables.length === 1 ? '' : 's'}`}
+                      </div>
+                    ))}
+                    {preview.environments.map((env, index) => (
+                      <div key={`e-${index}`}>
+                        Environment &quot;{env.name}&quot;: {env.variables.length} variable{env.variables.length === 1 ? '' : 's'}
+                      </div>
+                    ))}
+                    {preview.collections.length === 0 && preview.environments.length === 0 && (
+                      <div>Nothing to import</div>
+                    )}
+                  </div>
+                  {previewScripts.length > 0 && (
+                    <div className="mt-3">
+                      <h5 className="font-medium text-yellow-900 dark:text-yellow-100 mb-1">
+                        Scripts ({previewScripts.length} request{previewScripts.length === 1 ? '' : 's'})
+                      </h5>
+                      <p className="text-sm text-yellow-700 dark:text-yellow-300 mb-2">
+                        Scripts run every time their request is sent. Read them before enabling them; otherwise they are left out.
+                      </p>
+                      <div className="space-y-2 max-h-60 overflow-y-auto">
+                        {previewScripts.map(({ collection, request }, index) => (
+                          <details key={index} className="text-sm bg-white dark:bg-gray-800 rounded border border-gray-200 dark:border-gray-700">
+                            <summary className="px-3 py-2 cursor-pointer text-gray-800 dark:text-gray-200">
+                              {collection} / {request.folder ? `${request.folder} / ` : ''}{request.name}
+                            </summary>
+                            {[['Pre-request', request.preRequestScript], ['Test', request.testScript]].map(([label, script]) => script?.trim() && (
+                              <div key={label} className="px-3 pb-2">
+                                <div className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">{label}</div>
+                                <pre className="p-2 text-xs font-mono bg-gray-50 dark:bg-gray-900 text-gray-800 dark:text-gray-200 rounded overflow-x-auto whitespace-pre-wrap">{script}</pre>
+                              </div>
+                            ))}
+                          </details>
+                        ))}
+                      </div>
+                      <label className="flex items-center gap-2 mt-2 text-sm text-yellow-800 dark:text-yellow-200">
+                        <input
+                          type="checkbox"
+                          checked={enableScripts}
+                          onChange={(e) => setEnableScripts(e.target.checked)}
+                        />
+                        Import and enable these scripts
+                      </label>
+                    </div>
+                  )}
+                  {preview.warnings.length > 0 && (
+                    <div className="mt-3">
+                      <h5 className="font-medium text-yellow-900 dark:text-yellow-100 mb-1">
+                        Warnings ({preview.warnings.length})
+                      </h5>
+                      <ul className="text-sm text-yellow-700 dark:text-yellow-300 space-y-1 list-disc list-inside max-h-40 overflow-y-auto">
+                        {preview.warnings.map((warning, index) => (
+                          <li key={index}>{warning}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                </div>
+              )}
+
               <div className="p-4 bg-yellow-50 dark:bg-yellow-900/30 rounded">
                 <h4 className="font-medium text-yellow-900 dark:text-yellow-100 mb-2">Import Notes</h4>
                 <ul className="text-sm text-yellow-700 dark:text-yellow-300 space-y-1 list-disc list-inside">
                   <li>Importing will merge with existing data</li>
+                  <li>Pre-request and test scripts are left out unless you enable them in the preview</li>
+                  <li>Postman collection variables and auth are imported into the collection; folder auth is copied onto its requests</li>
                   <li>Duplicate collections/environments will be renamed</li>
                   <li>Make sure to backup your current data before importing</li>
                 </ul>
@@ -0,0 +1,65 @@
+import React from 'react';
+import { RedirectHop } from '../utils/requestSettings';
+
+interface RedirectChainProps {
+  redirects: RedirectHop[];
+  // The response the chain ended in
+  finalStatus: number;
+  finalStatusText: string;
+  finalTime: number;
+}
+
+const statusClass = (status: number) =>
+  status >= 400 ? 'bg-red-100 text-red-800' :
+  status >= 300 ? 'bg-yellow-100 text-yellow-800' :
+  'bg-green-100 text-green-800';
+
+// The Location header may be relative to the URL of the hop that sent it
+function resolveLocation(hop: RedirectHop): string {
+  try {
+    return new URL(hop.headers.location, hop.url).toString();
+  } catch {
+    return hop.headers.location || '';
+  }
+}
+
+export default function RedirectChain({ redirects, finalStatus, finalStatusText, finalTime }: RedirectChainProps) {
+  if (redirects.length === 0) {
+    return (
+      <div className="text-center text-gray-500 dark:text-gray-400 py-8">
+        No redirects were followed
+      </div>
+    );
+  }
+
+  const finalUrl = resolveLocation(redirects[redirects.length - 1]);
+
+  return (
+    <ol className="space-y-2">
+      {redirects.map((hop, index) => (
+        <li key={index} className="p-3 bg-gray-50 dark:bg-gray-800 rounded">
+          <details>
+            <summary className="flex items-center gap-3 cursor-pointer text-sm">
+              <span className={`px-2 py-0.5 rounded font-mono ${statusClass(hop.status)}`}>{hop.status}</span>
+              <span className="font-mono text-gray-500 dark:text-gray-400">{hop.method}</span>
+              <span className="flex-1 min-w-0 truncate font-mono text-gray-800 dark:text-gray-200" title={hop.url}>{hop.url}</span>
+              <span className="flex-shrink-0 text-gray-500 dark:text-gray-400">{Math.round(hop.time)} ms</span>
+            </summary>
+            <div className="mt-2 space-y-1">
+              {Object.entries(hop.headers).map(([key, value]) => (
+                <div key={key} className="text-xs font-mono text-gray-700 dark:text-gray-300 break-all whitespace-pre-wrap">
+                  <span className="text-gray-500 dark:text-gray-400">{key}:</span> {value}
+                </div>
+              ))}
+            </div>
+          </details>
+        </li>
+      ))}
+      <li className="p-3 bg-gray-50 dark:bg-gray-800 rounded flex items-center gap-3 text-sm">
+        <span className={`px-2 py-0.5 rounded font-mono ${statusClass(finalStatus)}`}>{finalStatus}</span>
+        <span className="flex-1 min-w-0 truncate font-mono text-gray-800 dark:text-gray-200" title={finalUrl}>{finalUrl}</span>
+        <span className="flex-shrink-0 text-gray-500 dark:text-gray-400">{finalStatusText} · {finalTime} ms total</span>
+      </li>
+    </ol>
+  );
+}
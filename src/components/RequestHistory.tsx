@@ -1,15 +1,17 @@
 import React, { useState } from 'react';
-import { useHistory } from '../hooks/useHistory';
+import { useHistory, HistoryEntry } from '../hooks/useHistory';
+import TimingWaterfall from './TimingWaterfall';
 
 interface RequestHistoryProps {
-  onLoadRequest: (method: string, url: string) => void;
+  onLoadRequest: (entry: HistoryEntry, resend: boolean) => void;
   onClose: () => void;
 }
 
 export default function RequestHistory({ onLoadRequest, onClose }: RequestHistoryProps) {
-  const { history, deleteHistoryItem, clearHistory } = useHistory();
+  const { history, hasMore, loading, loadMoreHistory, getHistoryEntry, deleteHistoryItem, clearHistory } = useHistory();
   const [searchTerm, setSearchTerm] = useState('');
   const [filterMethod, setFilterMethod] = useState('');
+  const [openingId, setOpeningId] = useState<string | null>(null);
 
   const filteredHistory = history.filter(item => {
     const matchesSearch = item.url.toLowerCase().includes(searchTerm.toLowerCase());
@@ -35,6 +37,18 @@ export default function RequestHistory({ onLoadRequest, onClose }: RequestHistor
     }
   };
 
+  const handleOpenHistoryItem = async (id: string, resend: boolean) => {
+    setOpeningId(id);
+    try {
+      const entry = await getHistoryEntry(id);
+      onLoadRequest(entry, resend);
+    } catch (error) {
+      console.error('Failed to load history item:', error);
+    } finally {
+      setOpeningId(null);
+    }
+  };
+
   const formatTimestamp = (timestamp: number) => {
     return new Date(timestamp).toLocaleString();
   };
@@ -119,7 +133,7 @@ export default function RequestHistory({ onLoadRequest, onClose }: RequestHistor
                 <div
                   key={item.id}
                   className="flex items-center justify-between p-4 bg-gray-50 dark:bg-gray-700 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-600 cursor-pointer"
-                  onClick={() => onLoadRequest(item.method, item.url)}
+                  onClick={() => handleOpenHistoryItem(item.id, false)}
                 >
                   <div className="flex items-center gap-4 flex-1 min-w-0">
                     <span className={`px-2 py-1 text-xs rounded font-mono ${getMethodColor(item.method)}`}>
@@ -137,17 +151,32 @@ export default function RequestHistory({ onLoadRequest, onClose }: RequestHistor
                     </span>
                     
                     <div className="flex items-center gap-4 text-xs text-gray-500 dark:text-gray-400">
+                      {item.timings && <TimingWaterfall timings={item.timings} compact />}
                       {item.duration && <span>{item.duration}ms</span>}
                       <span>{formatTimestamp(item.timestamp)}</span>
                     </div>
                   </div>
                   
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleOpenHistoryItem(item.id, true);
+                    }}
+                    disabled={openingId === item.id}
+                    className="p-2 text-cyan-600 hover:bg-cyan-100 dark:hover:bg-cyan-900/30 rounded ml-4"
+                    title="Re-send request"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                    </svg>
+                  </button>
+
                   <button
                     onClick={(e) => {
                       e.stopPropagation();
                       handleDeleteHistoryItem(item.id);
                     }}
-                    className="p-2 text-red-600 hover:bg-red-100 rounded ml-4"
+                    className="p-2 text-red-600 hover:bg-red-100 rounded"
                   >
                     <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
@@ -155,6 +184,17 @@ export default function RequestHistory({ onLoadRequest, onClose }: RequestHistor
                   </button>
                 </div>
               ))}
+              {hasMore && (
+                <div className="flex justify-center pt-2">
+                  <button
+                    onClick={loadMoreHistory}
+                    disabled={loading}
+                    className="px-4 py-2 bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 text-gray-800 dark:text-gray-200 rounded text-sm"
+                  >
+                    {loading ? 'Loading...' : 'Load More'}
+                  </button>
+                </div>
+              )}
             </div>
           )}
         </div>
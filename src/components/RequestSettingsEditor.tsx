@@ -0,0 +1,171 @@
+import React, { useState } from 'react';
+import { RequestSettings, BodyCompression, BODY_COMPRESSIONS, MAX_REDIRECTS_LIMIT, resolveRequestSettings } from '../utils/requestSettings';
+import { useCertificates } from '../hooks/useCertificates';
+import CertificateManager from './CertificateManager';
+
+interface RequestSettingsEditorProps {
+  // Only the fields that were changed; everything else comes from `inherited` or the defaults
+  settings?: Partial<RequestSettings>;
+  onChange: (settings: Partial<RequestSettings>) => void;
+  // The collection's settings when editing a request; unset when editing a collection
+  inherited?: Partial<RequestSettings>;
+}
+
+const inputClass = 'px-3 py-2 border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-700 text-slate-900 dark:text-white text-sm focus:ring-2 focus:ring-cyan-500 focus:border-transparent disabled:opacity-50';
+
+function Toggle({ label, description, checked, disabled = false, onChange }: {
+  label: string;
+  description: string;
+  checked: boolean;
+  disabled?: boolean;
+  onChange: (checked: boolean) => void;
+}) {
+  return (
+    <label className={`flex items-start gap-3 ${disabled ? 'opacity-50' : ''}`}>
+      <input
+        type="checkbox"
+        checked={checked}
+        disabled={disabled}
+        onChange={(e) => onChange(e.target.checked)}
+        className="mt-1 rounded border-slate-300 text-cyan-600 focus:ring-cyan-500"
+      />
+      <span>
+        <span className="block text-sm font-medium text-slate-700 dark:text-slate-300">{label}</span>
+        <span className="block text-xs text-slate-500 dark:text-slate-400">{description}</span>
+      </span>
+    </label>
+  );
+}
+
+export default function RequestSettingsEditor({ settings = {}, onChange, inherited }: RequestSettingsEditorProps) {
+  const { certificates, uploadCertificate, deleteCertificate } = useCertificates();
+  const [showCertificates, setShowCertificates] = useState(false);
+  const resolved = resolveRequestSettings(inherited, settings);
+  const update = (changes: Partial<RequestSettings>) => onChange({ ...settings, ...changes });
+
+  const caCertificates = certificates.filter(certificate => certificate.type === 'ca');
+  const clientCertificates = certificates.filter(certificate => certificate.type !== 'ca');
+  // A selected certificate that has since been deleted still shows, so the request is not silently changed
+  const missing = (id: string | null) => !!id && !certificates.some(certificate => certificate.id === id);
+
+  return (
+    <div className="h-full overflow-auto space-y-6">
+      <div className="flex items-center justify-between">
+        <h3 className="heading-sm text-slate-900 dark:text-white">Settings</h3>
+        <button
+          onClick={() => onChange({})}
+          className="px-3 py-1 bg-slate-200 dark:bg-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-300 dark:hover:bg-slate-600 rounded text-sm button-text"
+        >
+          {inherited ? 'Use Collection Settings' : 'Restore Defaults'}
+        </button>
+      </div>
+
+      <div className="space-y-3">
+        <h4 className="text-sm font-semibold text-slate-900 dark:text-white">Redirects</h4>
+        <Toggle
+          label="Follow redirects"
+          description="When off, a 3xx response is shown as is, with its Location header."
+          checked={resolved.followRedirects}
+          onChange={(followRedirects) => update({ followRedirects })}
+        />
+        <label className={`flex items-center gap-3 ${resolved.followRedirects ? '' : 'opacity-50'}`}>
+          <input
+            type="number"
+            min={1}
+            max={MAX_REDIRECTS_LIMIT}
+            value={resolved.maxRedirects}
+            disabled={!resolved.followRedirects}
+            onChange={(e) => update({ maxRedirects: Number(e.target.value) })}
+            className={`w-24 ${inputClass}`}
+          />
+          <span className="text-sm text-slate-700 dark:text-slate-300">Maximum number of redirects</span>
+        </label>
+        <Toggle
+          label="Keep method and body on 307/308"
+          description="As the HTTP spec requires. When off, 307 and 308 are followed with GET like 301 and 302."
+          checked={resolved.keepMethodOnRedirect}
+          disabled={!resolved.followRedirects}
+          onChange={(keepMethodOnRedirect) => update({ keepMethodOnRedirect })}
+        />
+      </div>
+
+      <div className="space-y-3">
+        <h4 className="text-sm font-semibold text-slate-900 dark:text-white">Timeout</h4>
+        <label className="flex items-center gap-3">
+          <input
+            type="number"
+            min={0}
+            step={1}
+            value={resolved.timeout / 1000}
+            onChange={(e) => update({ timeout: Math.round(Number(e.target.value) * 1000) })}
+            className={`w-24 ${inputClass}`}
+          />
+          <span className="text-sm text-slate-700 dark:text-slate-300">Seconds to wait for the response headers (0 waits indefinitely)</span>
+        </label>
+      </div>
+
+      <div className="space-y-3">
+        <h4 className="text-sm font-semibold text-slate-900 dark:text-white">Body compression</h4>
+        <label className="flex items-center gap-3">
+          <select
+            value={resolved.compressBody}
+            onChange={(e) => update({ compressBody: e.target.value as BodyCompression })}
+            className={`w-40 ${inputClass}`}
+          >
+            {BODY_COMPRESSIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <span className="text-sm text-slate-700 dark:text-slate-300">Compress the request body and send it with a matching Content-Encoding header</span>
+        </label>
+      </div>
+
+      <div className="space-y-3">
+        <h4 className="text-sm font-semibold text-slate-900 dark:text-white">TLS</h4>
+        <Toggle
+          label="Verify server certificates"
+          description="When off, invalid, expired and self-signed certificates are accepted."
+          checked={resolved.verifyTls}
+          onChange={(verifyTls) => update({ verifyTls })}
+        />
+        <label className="block">
+          <span className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">CA certificates</span>
+          <select
+            value={resolved.caCertificateId || ''}
+            onChange={(e) => update({ caCertificateId: e.target.value || null })}
+            className={`w-full ${inputClass}`}
+          >
+            <option value="">System CAs only</option>
+            {caCertificates.map(certificate => (
+              <option key={certificate.id} value={certificate.id}>System CAs and {certificate.name}</option>
+            ))}
+            {missing(resolved.caCertificateId) && <option value={resolved.caCertificateId || ''}>Deleted certificate</option>}
+          </select>
+        </label>
+        <label className="block">
+          <span className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Client certificate</span>
+          <select
+            value={resolved.clientCertificateId || ''}
+            onChange={(e) => update({ clientCertificateId: e.target.value || null })}
+            className={`w-full ${inputClass}`}
+          >
+            <option value="">None</option>
+            {clientCertificates.map(certificate => (
+              <option key={certificate.id} value={certificate.id}>{certificate.name}</option>
+            ))}
+            {missing(resolved.clientCertificateId) && <option value={resolved.clientCertificateId || ''}>Deleted certificate</option>}
+          </select>
+        </label>
+        <button
+          onClick={() => setShowCertificates(prev => !prev)}
+          className="text-sm text-blue-600 hover:text-blue-700"
+        >
+          {showCertificates ? 'Hide certificates' : 'Manage certificates'}
+        </button>
+        {showCertificates && (
+          <CertificateManager certificates={certificates} onUpload={uploadCertificate} onDelete={deleteCertificate} />
+        )}
+      </div>
+    </div>
+  );
+}
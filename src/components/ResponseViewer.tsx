@@ -2,6 +2,17 @@ import React, { useState, useEffect, useCallback } from 'react';
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
 import { brightLightTheme, brightDarkTheme } from '../utils/syntaxThemes';
 import { detectMimeType, generateFilename, createDownloadBlob, downloadBlob, getMimeTypeIcon } from '../utils/mimeTypes';
+import { ScriptTestResult } from '../utils/scriptSandbox';
+import { ResponseCookie } from '../utils/requestExecutor';
+import { StreamEvent, StreamFormat } from '../utils/eventStream';
+import CookieManager from './CookieManager';
+import StreamEventsView from './StreamEventsView';
+import TimingWaterfall from './TimingWaterfall';
+import RedirectChain from './RedirectChain';
+import TransferSizeTable from './TransferSizeTable';
+import { RequestTimings } from '../utils/timings';
+import { RedirectHop, AppliedSettings, describeAppliedSettings } from '../utils/requestSettings';
+import { TransferSize, summarizeResponseSize } from '../utils/transferSize';
 
 interface ResponseData {
   status: number;
@@ -9,19 +20,36 @@ interface ResponseData {
   headers: Record<string, string>;
   data: string;
   time: number;
+  timings?: RequestTimings;
+  redirects?: RedirectHop[];
+  appliedSettings?: AppliedSettings;
   size: number;
+  transfer?: TransferSize; // Bytes on the wire, as measured by the proxy
   contentType?: string;
+  truncated?: boolean; // Set when restored from history with a capped body
+  cookies?: ResponseCookie[];
+  blob?: Blob; // Raw body of a streamed response
+  streaming?: boolean; // Body is still arriving
+  incomplete?: boolean; // Transfer was cancelled or interrupted
+  streamFormat?: StreamFormat;
+  events?: StreamEvent[];
 }
 
+type ResponseTab = 'body' | 'headers' | 'cookies' | 'tests' | 'timing' | 'redirects';
+
 interface ResponseViewerProps {
   response: ResponseData;
-  activeTab: 'body' | 'headers' | 'cookies';
-  onTabChange: (tab: 'body' | 'headers' | 'cookies') => void;
+  activeTab: ResponseTab;
+  onTabChange: (tab: ResponseTab) => void;
+  testResults?: ScriptTestResult[] | null;
+  scriptLogs?: string[];
+  onCancel?: () => void;
 }
 
-export default function ResponseViewer({ response, activeTab, onTabChange }: ResponseViewerProps) {
+export default function ResponseViewer({ response, activeTab, onTabChange, testResults, scriptLogs = [], onCancel }: ResponseViewerProps) {
   const [bodyFormat, setBodyFormat] = useState<'pretty' | 'raw' | 'rendered'>('pretty');
   const [searchTerm, setSearchTerm] = useState('');
+  const [showRawStream, setShowRawStream] = useState(false);
   const [isDark, setIsDark] = useState(false);
 
   // Detect theme changes
@@ -156,6 +184,12 @@ export default function ResponseViewer({ response, activeTab, onTabChange }: Res
     return text.replace(regex, '<mark class="bg-yellow-200 dark:bg-yellow-800">$1</mark>');
   };
 
+  // Event streams are shown event by event unless the raw body is requested
+  // Body sizes are only known once the whole body has arrived
+  const transfer = response.streaming || response.incomplete ? undefined : response.transfer;
+
+  const showEvents = !!response.streamFormat && !!response.events && !showRawStream;
+
   const filteredHeaders = Object.entries(response.headers).filter(([key, value]) =>
     key.toLowerCase().includes(searchTerm.toLowerCase()) ||
     value.toLowerCase().includes(searchTerm.toLowerCase())
@@ -188,11 +222,14 @@ export default function ResponseViewer({ response, activeTab, onTabChange }: Res
   const handleDownload = () => {
     const mimeInfo = getMimeTypeInfo();
     const filename = generateFilename(response.headers['x-original-url'] || 'download', mimeInfo);
-    const blob = createDownloadBlob(response.data, mimeInfo);
+    const blob = response.blob || createDownloadBlob(response.data, mimeInfo);
     downloadBlob(blob, filename);
   };
 
   const isDownloadable = () => {
+    // Streamed responses keep the exact bytes, so any of them can be saved once complete
+    if (response.blob) return !response.streaming;
+
     const mimeInfo = getMimeTypeInfo();
     return mimeInfo.isDownloadable && (
       mimeInfo.category === 'document' || 
@@ -215,8 +252,12 @@ export default function ResponseViewer({ response, activeTab, onTabChange }: Res
           <span className="text-sm text-gray-600 dark:text-gray-400">
             {response.time}ms
           </span>
-          <span className="text-sm text-gray-600 dark:text-gray-400">
-            {(response.size / 1024).toFixed(2)}KB
+          <span
+            className="text-sm text-gray-600 dark:text-gray-400"
+            title={transfer ? `Headers: ${transfer.response.headers} B, body on the wire: ${transfer.response.body} B, decoded: ${transfer.response.decoded} B` : undefined}
+          >
+            {transfer ? summarizeResponseSize(transfer.response) : `${(response.size / 1024).toFixed(2)}KB`}
+            {response.streaming && ' received...'}
           </span>
           {/* MIME Type Info */}
           {(() => {
@@ -231,6 +272,14 @@ export default function ResponseViewer({ response, activeTab, onTabChange }: Res
         </div>
         
         <div className="flex items-center gap-2">
+          {response.streaming && onCancel && (
+            <button
+              onClick={onCancel}
+              className="px-3 py-1 text-sm bg-red-600 hover:bg-red-700 text-white rounded"
+            >
+              Cancel
+            </button>
+          )}
           {isDownloadable() && (
             <button
               onClick={handleDownload}
@@ -252,9 +301,29 @@ export default function ResponseViewer({ response, activeTab, onTabChange }: Res
         </div>
       </div>
 
+      {response.appliedSettings && describeAppliedSettings(response.appliedSettings).length > 0 && (
+        <div className="mb-4 flex flex-wrap items-center gap-2 text-xs" title="Settings the proxy sent this request with">
+          {describeAppliedSettings(response.appliedSettings).map(note => (
+            <span key={note} className="px-2 py-1 rounded bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300">{note}</span>
+          ))}
+        </div>
+      )}
+
+      {response.incomplete && (
+        <div className="mb-4 p-2 text-sm bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded text-yellow-800 dark:text-yellow-200">
+          The transfer was cancelled or interrupted. Only the part of the body received so far is shown.
+        </div>
+      )}
+
+      {response.truncated && (
+        <div className="mb-4 p-2 text-sm bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded text-yellow-800 dark:text-yellow-200">
+          This response was restored from history and its body was truncated when it was stored.
+        </div>
+      )}
+
       {/* Response Tabs */}
       <div className="flex border-b border-gray-200 dark:border-gray-700 mb-4">
-        {(['body', 'headers', 'cookies'] as const).map(tab => (
+        {(['body', 'headers', 'cookies', 'tests', 'timing', 'redirects'] as const).map(tab => (
           <button
             key={tab}
             onClick={() => onTabChange(tab)}
@@ -270,17 +339,65 @@ export default function ResponseViewer({ response, activeTab, onTabChange }: Res
                 {Object.keys(response.headers).length}
               </span>
             )}
+            {tab === 'cookies' && response.cookies && response.cookies.length > 0 && (
+              <span className="ml-2 px-2 py-1 text-xs bg-gray-200 dark:bg-gray-700 rounded">
+                {response.cookies.length}
+              </span>
+            )}
+            {tab === 'redirects' && response.redirects && response.redirects.length > 0 && (
+              <span className="ml-2 px-2 py-1 text-xs bg-gray-200 dark:bg-gray-700 rounded">
+                {response.redirects.length}
+              </span>
+            )}
+            {tab === 'tests' && testResults && testResults.length > 0 && (
+              <span className={`ml-2 px-2 py-1 text-xs rounded ${
+                testResults.every(t => t.passed)
+                  ? 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300'
+                  : 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300'
+              }`}>
+                {testResults.filter(t => t.passed).length}/{testResults.length}
+              </span>
+            )}
           </button>
         ))}
       </div>
 
       {/* Response Content - Flexible height container */}
       <div className="flex-1 min-h-0 overflow-hidden response-container">
-        {activeTab === 'body' && (
+        {activeTab === 'body' && showEvents && (
+          <div className="flex flex-col h-full">
+            <div className="flex-1 min-h-0">
+              <StreamEventsView
+                events={response.events || []}
+                format={response.streamFormat!}
+                streaming={!!response.streaming}
+                onStop={onCancel}
+              />
+            </div>
+            <div className="mt-2 flex-shrink-0">
+              <button
+                onClick={() => setShowRawStream(true)}
+                className="px-3 py-1 text-sm bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded"
+              >
+                Show raw body
+              </button>
+            </div>
+          </div>
+        )}
+
+        {activeTab === 'body' && !showEvents && (
           <div className="flex flex-col h-full">
             {/* Body Controls */}
             <div className="flex items-center justify-between mb-3 flex-shrink-0">
               <div className="flex items-center gap-3">
+                {response.streamFormat && response.events && (
+                  <button
+                    onClick={() => setShowRawStream(false)}
+                    className="px-3 py-1 text-sm rounded bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300"
+                  >
+                    Events
+                  </button>
+                )}
                 {(detectLanguage() !== 'text' || isHtmlResponse()) && (
                   <div className="flex items-center gap-2">
                     {detectLanguage() !== 'text' && (
@@ -333,7 +450,14 @@ export default function ResponseViewer({ response, activeTab, onTabChange }: Res
             {/* Response Body - Scrollable container */}
             <div className="flex-1 min-h-0 border rounded bg-gray-100 dark:bg-gray-900 overflow-hidden"
                  style={{ minHeight: '300px' }}>
-              {bodyFormat === 'rendered' && isHtmlResponse() ? (
+              {response.streaming ? (
+                <div className="h-full bg-gray-100 dark:bg-gray-900">
+                  {/* Plain text while the body arrives; highlighting runs once it is complete */}
+                  <pre className="h-full p-4 overflow-auto text-sm font-mono whitespace-pre-wrap break-words text-gray-800 dark:text-gray-200">
+                    {response.data}
+                  </pre>
+                </div>
+              ) : bodyFormat === 'rendered' && isHtmlResponse() ? (
                 <div className="h-full flex flex-col bg-gray-100 dark:bg-gray-900">
                   <div className="p-3 bg-yellow-50 dark:bg-yellow-900/20 border-b border-yellow-200 dark:border-yellow-800 text-sm text-yellow-800 dark:text-yellow-200 flex-shrink-0">
                     <div className="flex items-center justify-between">
@@ -458,14 +582,80 @@ export default function ResponseViewer({ response, activeTab, onTabChange }: Res
         )}
 
         {activeTab === 'cookies' && (
-          <div className="flex flex-col h-full">
-            <div className="flex-1 min-h-0 overflow-auto border rounded bg-gray-100 dark:bg-gray-900 flex items-center justify-center">
-              <div className="text-center">
-                <svg className="w-16 h-16 mx-auto mb-4 opacity-50" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1} d="M12 6V4m0 2a2 2 0 100 4m0-4a2 2 0 110 4m-6 8a2 2 0 100-4m0 4a2 2 0 100 4m0-4v2m0-6V4m6 6v10m6-2a2 2 0 100-4m0 4a2 2 0 100 4m0-4v2m0-6V4" />
-                </svg>
-                <p>Cookie management coming soon</p>
+          <CookieManager url={response.headers['x-original-url']} receivedCookies={response.cookies} />
+        )}
+
+        {activeTab === 'timing' && (
+          <div className="h-full overflow-auto p-2">
+            {response.timings ? (
+              <>
+                <TimingWaterfall timings={response.timings} pending={response.streaming} />
+                {response.streaming && (
+                  <p className="mt-3 text-xs text-gray-500 dark:text-gray-400">The download phase is known once the body has arrived.</p>
+                )}
+              </>
+            ) : (
+              <div className="text-center text-gray-500 dark:text-gray-400 py-8">
+                No timing breakdown was recorded for this response
+              </div>
+            )}
+            {transfer && (
+              <div className="mt-6">
+                <h4 className="text-sm font-medium text-gray-900 dark:text-white mb-2">Size</h4>
+                <TransferSizeTable transfer={transfer} />
               </div>
+            )}
+          </div>
+        )}
+
+        {activeTab === 'redirects' && (
+          <div className="h-full overflow-auto p-2">
+            <RedirectChain
+              redirects={response.redirects || []}
+              finalStatus={response.status}
+              finalStatusText={response.statusText}
+              finalTime={response.time}
+            />
+          </div>
+        )}
+
+        {activeTab === 'tests' && (
+          <div className="flex flex-col h-full">
+            <div className="flex-1 min-h-0 overflow-auto border rounded bg-gray-100 dark:bg-gray-900 p-2">
+              {(!testResults || testResults.length === 0) && scriptLogs.length === 0 ? (
+                <div className="text-center text-gray-500 dark:text-gray-400 py-8">
+                  No tests were run. Add a test script to check the response.
+                </div>
+              ) : (
+                <>
+                  {testResults?.map((result, index) => (
+                    <div key={index} className="flex gap-3 p-3 bg-gray-50 dark:bg-gray-800 rounded mb-2">
+                      <span className={`px-2 py-0.5 text-xs rounded font-medium flex-shrink-0 ${
+                        result.passed
+                          ? 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300'
+                          : 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300'
+                      }`}>
+                        {result.passed ? 'PASS' : 'FAIL'}
+                      </span>
+                      <div className="min-w-0 flex-1">
+                        <div className="text-gray-800 dark:text-gray-200">{result.name}</div>
+                        {result.error && (
+                          <div className="text-sm text-red-600 dark:text-red-400 break-words">{result.error}</div>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+
+                  {scriptLogs.length > 0 && (
+                    <div className="mt-3">
+                      <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Console</h4>
+                      <pre className="p-3 text-xs font-mono whitespace-pre-wrap break-words bg-gray-50 dark:bg-gray-800 rounded text-gray-800 dark:text-gray-200">
+                        {scriptLogs.join('\n')}
+                      </pre>
+                    </div>
+                  )}
+                </>
+              )}
             </div>
           </div>
         )}
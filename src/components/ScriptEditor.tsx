@@ -0,0 +1,79 @@
+import React from 'react';
+
+interface ScriptEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  type: 'pre-request' | 'tests';
+}
+
+const SNIPPETS: Record<'pre-request' | 'tests', { label: string; code: string }[]> = {
+  'pre-request': [
+    { label: 'Get variable', code: `const token = am.environment.get('token');` },
+    { label: 'Set variable', code: `am.environment.set('timestamp', Date.now().toString());` },
+    { label: 'Set header', code: `am.request.headers.set('X-Request-Id', am.crypto.randomUUID());` },
+    {
+      label: 'HMAC signature',
+      code: `const signature = await am.crypto.hmacSha256(am.environment.get('secret'), am.request.body);\nam.request.headers.set('X-Signature', signature);`
+    },
+  ],
+  tests: [
+    { label: 'Status is 200', code: `am.test('Status is 200', () => {\n  am.expect(am.response.code).toBe(200);\n});` },
+    {
+      label: 'Response time',
+      code: `am.test('Response time is below 500ms', () => {\n  am.expect(am.response.responseTime).toBeLessThan(500);\n});`
+    },
+    {
+      label: 'JSON property',
+      code: `am.test('Body has id', () => {\n  am.expect(am.response.json()).toHaveProperty('id');\n});`
+    },
+    {
+      label: 'Save token',
+      code: `const { token } = am.response.json();\nam.environment.set('token', token);`
+    },
+  ],
+};
+
+export default function ScriptEditor({ value, onChange, type }: ScriptEditorProps) {
+  const insertSnippet = (code: string) => {
+    onChange(value.trim() ? `${value.replace(/\s+$/, '')}\n\n${code}` : code);
+  };
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="flex items-center justify-between mb-3 flex-shrink-0">
+        <h3 className="heading-sm text-slate-900 dark:text-white">
+          {type === 'pre-request' ? 'Pre-request Script' : 'Test Script'}
+        </h3>
+        <span className="text-xs text-slate-500 dark:text-slate-400">
+          {type === 'pre-request' ? 'Runs before the request is sent' : 'Runs after the response is received'}
+        </span>
+      </div>
+
+      <div className="flex-1 flex gap-3 min-h-0">
+        <textarea
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={type === 'pre-request'
+            ? "// am.environment.set('key', 'value');"
+            : "// am.test('Status is 200', () => am.expect(am.response.code).toBe(200));"}
+          className="flex-1 p-3 font-mono text-sm resize-none border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-800 text-slate-900 dark:text-white focus:ring-2 focus:ring-cyan-500 focus:border-transparent"
+          style={{ lineHeight: '1.5', tabSize: 2 }}
+          spellCheck={false}
+        />
+
+        <div className="w-40 flex-shrink-0 overflow-y-auto space-y-1">
+          <p className="text-xs font-medium text-slate-600 dark:text-slate-400 mb-2">Snippets</p>
+          {SNIPPETS[type].map(snippet => (
+            <button
+              key={snippet.label}
+              onClick={() => insertSnippet(snippet.code)}
+              className="w-full text-left px-2 py-1 text-xs rounded text-cyan-700 dark:text-cyan-300 hover:bg-slate-100 dark:hover:bg-slate-700"
+            >
+              {snippet.label}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
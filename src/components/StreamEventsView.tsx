@@ -0,0 +1,128 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { StreamEvent, StreamFormat, exportStreamEvents } from '../utils/eventStream';
+import { downloadBlob } from '../utils/mimeTypes';
+
+interface StreamEventsViewProps {
+  events: StreamEvent[];
+  format: StreamFormat;
+  streaming: boolean;
+  onStop?: () => void;
+}
+
+const formatTime = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return `${date.toLocaleTimeString([], { hour12: false })}.${String(date.getMilliseconds()).padStart(3, '0')}`;
+};
+
+const formatData = (data: string) => {
+  try {
+    return JSON.stringify(JSON.parse(data), null, 2);
+  } catch {
+    return data;
+  }
+};
+
+export default function StreamEventsView({ events, format, streaming, onStop }: StreamEventsViewProps) {
+  const [filter, setFilter] = useState('');
+  const [autoScroll, setAutoScroll] = useState(true);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Follow new events while they arrive
+  useEffect(() => {
+    if (autoScroll && listRef.current) {
+      listRef.current.scrollTop = listRef.current.scrollHeight;
+    }
+  }, [events.length, autoScroll]);
+
+  const firstReceivedAt = events[0]?.receivedAt || 0;
+  const filteredEvents = filter
+    ? events.filter(event =>
+        event.data.toLowerCase().includes(filter.toLowerCase()) ||
+        (event.event || '').toLowerCase().includes(filter.toLowerCase())
+      )
+    : events;
+
+  const handleExport = () => {
+    const content = exportStreamEvents(events, format);
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    downloadBlob(
+      new Blob([content], { type: format === 'ndjson' ? 'application/x-ndjson' : 'application/json' }),
+      `events-${stamp}.${format === 'ndjson' ? 'ndjson' : 'json'}`
+    );
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex items-center gap-3 mb-3 flex-shrink-0">
+        <span className="text-sm text-gray-600 dark:text-gray-400">
+          {format === 'sse' ? 'Server-Sent Events' : 'NDJSON'} · {events.length} {format === 'sse' ? 'event' : 'line'}{events.length === 1 ? '' : 's'}
+          {streaming && (
+            <span className="ml-2 inline-flex items-center gap-1 text-green-600 dark:text-green-400">
+              <span className="w-2 h-2 rounded-full bg-green-500 animate-pulse"></span>
+              live
+            </span>
+          )}
+        </span>
+        <label className="flex items-center gap-1 text-sm text-gray-600 dark:text-gray-400">
+          <input
+            type="checkbox"
+            checked={autoScroll}
+            onChange={(e) => setAutoScroll(e.target.checked)}
+            className="rounded border-gray-300"
+          />
+          Auto-scroll
+        </label>
+        <div className="ml-auto flex items-center gap-2">
+          <input
+            type="text"
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            placeholder="Filter events..."
+            className="px-3 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+          />
+          {streaming && onStop && (
+            <button
+              onClick={onStop}
+              className="px-3 py-1 text-sm bg-red-600 hover:bg-red-700 text-white rounded"
+            >
+              Stop
+            </button>
+          )}
+          <button
+            onClick={handleExport}
+            disabled={events.length === 0}
+            className="px-3 py-1 text-sm bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded disabled:opacity-50"
+          >
+            Export
+          </button>
+        </div>
+      </div>
+
+      <div ref={listRef} className="flex-1 min-h-0 overflow-auto border rounded bg-gray-100 dark:bg-gray-900 p-2">
+        {filteredEvents.length === 0 ? (
+          <div className="text-center text-gray-500 dark:text-gray-400 py-8">
+            {events.length === 0 ? 'Waiting for events...' : 'No events match your filter'}
+          </div>
+        ) : (
+          filteredEvents.map(event => (
+            <div key={event.index} className="p-2 bg-gray-50 dark:bg-gray-800 rounded mb-2">
+              <div className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400 mb-1">
+                <span className="font-mono">{formatTime(event.receivedAt)}</span>
+                <span className="font-mono">+{event.receivedAt - firstReceivedAt}ms</span>
+                <span>#{event.index + 1}</span>
+                {event.event && (
+                  <span className="px-1 rounded bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300">{event.event}</span>
+                )}
+                {event.id !== undefined && <span>id: {event.id}</span>}
+                {event.retry !== undefined && <span>retry: {event.retry}ms</span>}
+              </div>
+              <pre className="text-sm font-mono whitespace-pre-wrap break-words text-gray-800 dark:text-gray-200">
+                {formatData(event.data)}
+              </pre>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
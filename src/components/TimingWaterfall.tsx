@@ -0,0 +1,59 @@
+import React from 'react';
+import { RequestTimings, formatTiming, getTimingWaterfall } from '../utils/timings';
+
+interface TimingWaterfallProps {
+  timings: RequestTimings;
+  // A single stacked bar without labels, for history rows
+  compact?: boolean;
+  // Set while the body is still arriving, before the download phase is known
+  pending?: boolean;
+}
+
+export default function TimingWaterfall({ timings, compact = false, pending = false }: TimingWaterfallProps) {
+  const phases = getTimingWaterfall(timings);
+  // Guard against zero-length requests so the bars still render
+  const total = Math.max(timings.total, 0.001);
+
+  if (compact) {
+    return (
+      <div
+        className="flex w-24 h-1.5 rounded overflow-hidden bg-gray-200 dark:bg-gray-600"
+        title={phases.filter(entry => entry.duration > 0).map(entry => `${entry.label}: ${formatTiming(entry.duration)}`).join('\n')}
+      >
+        {phases.map(entry => entry.duration > 0 && (
+          <div key={entry.phase} className={entry.color} style={{ width: `${(entry.duration / total) * 100}%` }} />
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {phases.map(entry => (
+        <div key={entry.phase} className="flex items-center gap-3 text-sm">
+          <span className="w-36 flex-shrink-0 text-gray-700 dark:text-gray-300">{entry.label}</span>
+          <div className="flex-1 relative h-4 bg-gray-100 dark:bg-gray-800 rounded">
+            {entry.duration > 0 && (
+              <div
+                className={`absolute top-0 h-4 rounded ${entry.color}`}
+                style={{
+                  left: `${(entry.start / total) * 100}%`,
+                  // Keep very short phases visible
+                  width: `max(2px, ${(entry.duration / total) * 100}%)`,
+                }}
+              />
+            )}
+          </div>
+          <span className="w-20 flex-shrink-0 text-right font-mono text-gray-600 dark:text-gray-400">
+            {entry.phase === 'download' && pending ? '...' : formatTiming(entry.duration)}
+          </span>
+        </div>
+      ))}
+      <div className="flex items-center gap-3 pt-2 border-t border-gray-200 dark:border-gray-700 text-sm font-medium">
+        <span className="w-36 flex-shrink-0 text-gray-900 dark:text-white">Total</span>
+        <div className="flex-1" />
+        <span className="w-20 flex-shrink-0 text-right font-mono text-gray-900 dark:text-white">{formatTiming(timings.total)}</span>
+      </div>
+    </div>
+  );
+}
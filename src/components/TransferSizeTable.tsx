@@ -0,0 +1,64 @@
+import React from 'react';
+import { TransferSize, describeCompression } from '../utils/transferSize';
+import { formatFileSize } from '../utils/storedFiles';
+
+interface TransferSizeTableProps {
+  transfer: TransferSize;
+}
+
+interface SizeRow {
+  label: string;
+  bytes: number;
+  note?: string;
+}
+
+export default function TransferSizeTable({ transfer }: TransferSizeTableProps) {
+  const { request, response } = transfer;
+
+  const rows: SizeRow[] = [
+    { label: 'Response headers', bytes: response.headers },
+    response.encoding
+      ? {
+          label: 'Response body (wire)',
+          bytes: response.body,
+          note: [response.encoding, describeCompression(response.body, response.decoded)].filter(Boolean).join(', '),
+        }
+      : { label: 'Response body', bytes: response.body },
+  ];
+  if (response.encoding) {
+    rows.push({ label: 'Response body (decoded)', bytes: response.decoded });
+  }
+  if (request.uncompressed > 0) {
+    rows.push(request.encoding
+      ? {
+          label: 'Request body (sent)',
+          bytes: request.body,
+          note: [request.encoding, describeCompression(request.body, request.uncompressed)].filter(Boolean).join(', '),
+        }
+      : { label: 'Request body', bytes: request.body });
+    if (request.encoding) {
+      rows.push({ label: 'Request body (uncompressed)', bytes: request.uncompressed });
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      {rows.map(row => (
+        <div key={row.label} className="flex items-center gap-3 text-sm">
+          <span className="w-48 flex-shrink-0 text-gray-700 dark:text-gray-300">{row.label}</span>
+          <span className="flex-1 text-gray-500 dark:text-gray-400">{row.note}</span>
+          <span className="w-20 flex-shrink-0 text-right font-mono text-gray-600 dark:text-gray-400" title={`${row.bytes} bytes`}>
+            {formatFileSize(row.bytes)}
+          </span>
+        </div>
+      ))}
+      <div className="flex items-center gap-3 pt-2 border-t border-gray-200 dark:border-gray-700 text-sm font-medium">
+        <span className="w-48 flex-shrink-0 text-gray-900 dark:text-white">Received</span>
+        <div className="flex-1" />
+        <span className="w-20 flex-shrink-0 text-right font-mono text-gray-900 dark:text-white" title={`${response.headers + response.body} bytes`}>
+          {formatFileSize(response.headers + response.body)}
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { findVariableReferences, SCOPE_LABELS, VariableResolver } from '../utils/variables';
+
+type TextField = HTMLInputElement | HTMLTextAreaElement;
+
+export interface VariableHoverHandlers {
+  onMouseMove: (event: React.MouseEvent<TextField>) => void;
+  onMouseLeave: () => void;
+}
+
+interface HoveredPlaceholder {
+  name: string;
+  // Where the placeholder is drawn, for placing the preview under it
+  left: number;
+  bottom: number;
+}
+
+// Longer texts are not laid out again on every mouse move
+const MAX_MEASURED_LENGTH = 100000;
+
+const MIRRORED_STYLES = [
+  'boxSizing', 'width', 'height',
+  'borderTopWidth', 'borderRightWidth', 'borderBottomWidth', 'borderLeftWidth', 'borderStyle',
+  'paddingTop', 'paddingRight', 'paddingBottom', 'paddingLeft',
+  'fontStyle', 'fontVariant', 'fontWeight', 'fontStretch', 'fontSize', 'fontFamily', 'lineHeight',
+  'textAlign', 'textTransform', 'textIndent', 'letterSpacing', 'wordSpacing', 'tabSize',
+] as const;
+
+/**
+ * Find the {{name}} placeholder under the pointer. Inputs and textareas do not expose where their
+ * characters are drawn, so the text is laid out again in an invisible copy of the field.
+ */
+function placeholderAt(field: TextField, x: number, y: number): HoveredPlaceholder | null {
+  const text = field.value;
+  if (text.length > MAX_MEASURED_LENGTH) return null;
+  const references = findVariableReferences(text);
+  if (references.length === 0) return null;
+
+  const singleLine = field instanceof HTMLInputElement;
+  const style = window.getComputedStyle(field);
+  const rect = field.getBoundingClientRect();
+  const mirror = document.createElement('div');
+  MIRRORED_STYLES.forEach(property => {
+    mirror.style[property] = style[property];
+  });
+  Object.assign(mirror.style, {
+    position: 'fixed',
+    left: `${rect.left}px`,
+    top: `${rect.top}px`,
+    visibility: 'hidden',
+    overflowX: 'hidden',
+    // A scrolling textarea loses the width of its scrollbar to the text
+    overflowY: !singleLine && field.scrollHeight > field.clientHeight ? 'scroll' : 'hidden',
+    whiteSpace: singleLine ? 'pre' : 'pre-wrap',
+    overflowWrap: singleLine ? 'normal' : 'break-word',
+  });
+
+  let offset = 0;
+  const spans = references.map(reference => {
+    mirror.append(text.slice(offset, reference.start));
+    const span = document.createElement('span');
+    span.textContent = text.slice(reference.start, reference.end);
+    mirror.append(span);
+    offset = reference.end;
+    return span;
+  });
+  mirror.append(text.slice(offset));
+
+  document.body.append(mirror);
+  mirror.scrollTop = field.scrollTop;
+  mirror.scrollLeft = field.scrollLeft;
+  let hovered: HoveredPlaceholder | null = null;
+  for (let index = 0; index < spans.length && !hovered; index++) {
+    // Inputs center their single line vertically, so only the horizontal position counts
+    const box = Array.from(spans[index].getClientRects()).find(line =>
+      x >= line.left && x <= line.right && (singleLine || (y >= line.top && y <= line.bottom)));
+    if (box) {
+      hovered = { name: references[index].name, left: box.left, bottom: singleLine ? rect.bottom : box.bottom };
+    }
+  }
+  mirror.remove();
+  return hovered;
+}
+
+/**
+ * Preview of the value and scope of the {{variable}} under the pointer. Spread the handlers onto
+ * any number of inputs and textareas, and render the tooltip once.
+ */
+export function useVariableHover(resolver: VariableResolver): { handlers: VariableHoverHandlers; tooltip: React.ReactNode } {
+  const [hovered, setHovered] = useState<HoveredPlaceholder | null>(null);
+
+  const handlers: VariableHoverHandlers = {
+    onMouseMove: (event) => {
+      const next = placeholderAt(event.currentTarget, event.clientX, event.clientY);
+      // Keep the same state while the pointer stays on one placeholder, so moving it does not re-render
+      setHovered(prev =>
+        prev && next && prev.name === next.name && prev.left === next.left && prev.bottom === next.bottom ? prev : next);
+    },
+    onMouseLeave: () => setHovered(null),
+  };
+
+  const variable = hovered ? resolver.lookup(hovered.name) : undefined;
+  const tooltip = hovered && (
+    <div
+      className="fixed z-50 max-w-sm px-3 py-2 rounded shadow-lg bg-slate-900 text-white text-xs pointer-events-none"
+      style={{ left: hovered.left, top: hovered.bottom + 4 }}
+    >
+      <div className="flex items-center gap-2">
+        <span className="font-mono">{`{{${hovered.name}}}`}</span>
+        {variable && (
+          <span className="px-1.5 py-0.5 rounded bg-cyan-700 text-cyan-50">{SCOPE_LABELS[variable.scope]}</span>
+        )}
+        {variable?.secret && (
+          <span className="px-1.5 py-0.5 rounded bg-amber-700 text-amber-50">Secret</span>
+        )}
+      </div>
+      {variable?.scope === 'dynamic' ? (
+        <div className="mt-1 text-slate-200">
+          New value on every send, e.g. <span className="font-mono break-all">{variable.value}</span>
+        </div>
+      ) : variable?.secret ? (
+        <div className="mt-1 font-mono text-slate-200">{variable.value ? '••••••••' : <em className="text-slate-400">empty</em>}</div>
+      ) : variable ? (
+        <div className="mt-1 font-mono break-all text-slate-200">{variable.value || <em className="text-slate-400">empty</em>}</div>
+      ) : (
+        <div className="mt-1 text-red-300">Not defined in any scope; sent as written</div>
+      )}
+    </div>
+  );
+
+  return { handlers, tooltip };
+}
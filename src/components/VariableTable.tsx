@@ -0,0 +1,64 @@
+import React from 'react';
+
+interface Variable {
+  key: string;
+  value: string;
+  enabled: boolean;
+}
+
+interface VariableTableProps {
+  variables: Variable[];
+  onChange: (variables: Variable[]) => void;
+}
+
+const inputClass = 'flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-sm';
+
+// Editable list of variables for the global, collection and request scopes
+export default function VariableTable({ variables, onChange }: VariableTableProps) {
+  const update = (index: number, changes: Partial<Variable>) => {
+    onChange(variables.map((variable, i) => i === index ? { ...variable, ...changes } : variable));
+  };
+
+  return (
+    <div className="space-y-3">
+      {variables.map((variable, index) => (
+        <div key={index} className="flex gap-3 items-center p-3 bg-gray-50 dark:bg-gray-700 rounded">
+          <input
+            type="checkbox"
+            checked={variable.enabled}
+            onChange={(e) => update(index, { enabled: e.target.checked })}
+            className="rounded"
+          />
+          <input
+            type="text"
+            value={variable.key}
+            onChange={(e) => update(index, { key: e.target.value })}
+            placeholder="Variable name"
+            className={inputClass}
+          />
+          <input
+            type="text"
+            value={variable.value}
+            onChange={(e) => update(index, { value: e.target.value })}
+            placeholder="Variable value"
+            className={inputClass}
+          />
+          <button
+            onClick={() => onChange(variables.filter((_, i) => i !== index))}
+            className="p-2 text-red-600 hover:bg-red-100 rounded"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+      ))}
+      <button
+        onClick={() => onChange([...variables, { key: '', value: '', enabled: true }])}
+        className="px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded text-sm"
+      >
+        Add Variable
+      </button>
+    </div>
+  );
+}
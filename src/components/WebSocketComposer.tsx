@@ -0,0 +1,65 @@
+import React from 'react';
+import { WebSocketSettings, WebSocketMessageFormat, WEBSOCKET_MESSAGE_FORMAT_LABELS } from '../utils/websocket';
+
+interface WebSocketComposerProps {
+  settings: WebSocketSettings;
+  onChange: (settings: WebSocketSettings) => void;
+  onSend: () => void;
+  connected: boolean;
+}
+
+const PLACEHOLDERS: Record<WebSocketMessageFormat, string> = {
+  text: 'Message text, {{variables}} allowed',
+  json: '{\n  "type": "subscribe"\n}',
+  base64: 'SGVsbG8=',
+  hex: '48 65 6c 6c 6f',
+};
+
+export default function WebSocketComposer({ settings, onChange, onSend, connected }: WebSocketComposerProps) {
+  return (
+    <div className="h-full flex flex-col">
+      <div className="flex gap-2 mb-4 flex-shrink-0">
+        {(Object.keys(WEBSOCKET_MESSAGE_FORMAT_LABELS) as WebSocketMessageFormat[]).map(format => (
+          <button
+            key={format}
+            onClick={() => onChange({ ...settings, messageFormat: format })}
+            className={`px-3 py-1 rounded text-sm button-text ${
+              settings.messageFormat === format
+                ? 'bg-blue-600 text-white'
+                : 'bg-slate-200 dark:bg-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-300 dark:hover:bg-slate-600'
+            }`}
+          >
+            {WEBSOCKET_MESSAGE_FORMAT_LABELS[format]}
+          </button>
+        ))}
+      </div>
+
+      <textarea
+        value={settings.message}
+        onChange={(e) => onChange({ ...settings, message: e.target.value })}
+        onKeyDown={(e) => {
+          // Ctrl/Cmd+Enter sends without leaving the keyboard
+          if (e.key === 'Enter' && (e.ctrlKey || e.metaKey) && connected) {
+            e.preventDefault();
+            onSend();
+          }
+        }}
+        placeholder={PLACEHOLDERS[settings.messageFormat]}
+        className="flex-1 min-h-0 w-full p-3 border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-700 text-slate-900 dark:text-white font-mono text-sm resize-none focus:ring-2 focus:ring-cyan-500 focus:border-transparent"
+      />
+
+      <div className="flex items-center justify-between mt-3 flex-shrink-0">
+        <span className="text-xs text-slate-500 dark:text-slate-400">
+          {connected ? 'Ctrl+Enter to send' : 'Connect to send messages'}
+        </span>
+        <button
+          onClick={onSend}
+          disabled={!connected || !settings.message}
+          className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white rounded text-sm button-text"
+        >
+          Send Message
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { WebSocketLogEntry, WebSocketStatus } from '../hooks/useWebSocketRelay';
+import { formatBinaryFrame } from '../utils/websocket';
+
+interface WebSocketLogProps {
+  messages: WebSocketLogEntry[];
+  status: WebSocketStatus;
+  protocol: string;
+  handshakeHeaders: Record<string, string>;
+  onClear: () => void;
+}
+
+type DirectionFilter = 'all' | 'sent' | 'received';
+
+const STATUS_STYLES: Record<WebSocketStatus, { label: string; dot: string }> = {
+  disconnected: { label: 'Disconnected', dot: 'bg-gray-400' },
+  connecting: { label: 'Connecting...', dot: 'bg-yellow-500 animate-pulse' },
+  connected: { label: 'Connected', dot: 'bg-green-500' },
+  closing: { label: 'Closing...', dot: 'bg-yellow-500 animate-pulse' },
+};
+
+const formatTime = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return `${date.toLocaleTimeString([], { hour12: false })}.${String(date.getMilliseconds()).padStart(3, '0')}`;
+};
+
+const formatSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  return `${(bytes / 1024).toFixed(1)} KB`;
+};
+
+const formatText = (data: string) => {
+  try {
+    return JSON.stringify(JSON.parse(data), null, 2);
+  } catch {
+    return data;
+  }
+};
+
+export default function WebSocketLog({ messages, status, protocol, handshakeHeaders, onClear }: WebSocketLogProps) {
+  const [filter, setFilter] = useState('');
+  const [direction, setDirection] = useState<DirectionFilter>('all');
+  const [autoScroll, setAutoScroll] = useState(true);
+  const [showHandshake, setShowHandshake] = useState(false);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Follow new messages while they arrive
+  useEffect(() => {
+    if (autoScroll && listRef.current) {
+      listRef.current.scrollTop = listRef.current.scrollHeight;
+    }
+  }, [messages.length, autoScroll]);
+
+  const filteredMessages = messages.filter(message => {
+    if (direction !== 'all' && message.direction !== direction) return false;
+    if (!filter) return true;
+    const text = message.binary ? formatBinaryFrame(message.data) : message.data;
+    return text.toLowerCase().includes(filter.toLowerCase());
+  });
+
+  const sentCount = messages.filter(message => message.direction === 'sent').length;
+  const receivedCount = messages.filter(message => message.direction === 'received').length;
+  const statusStyle = STATUS_STYLES[status];
+  const handshakeEntries = Object.entries(handshakeHeaders);
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex items-center gap-3 mb-3 flex-shrink-0">
+        <span className="inline-flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+          <span className={`w-2 h-2 rounded-full ${statusStyle.dot}`}></span>
+          {statusStyle.label}
+          {protocol && <span className="text-xs text-gray-500 dark:text-gray-400">({protocol})</span>}
+        </span>
+        <span className="text-sm text-gray-500 dark:text-gray-400">
+          ↑ {sentCount} · ↓ {receivedCount}
+        </span>
+        {handshakeEntries.length > 0 && (
+          <button
+            onClick={() => setShowHandshake(!showHandshake)}
+            className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            {showHandshake ? 'Hide' : 'Show'} handshake headers
+          </button>
+        )}
+        <div className="ml-auto flex items-center gap-2">
+          <label className="flex items-center gap-1 text-sm text-gray-600 dark:text-gray-400">
+            <input
+              type="checkbox"
+              checked={autoScroll}
+              onChange={(e) => setAutoScroll(e.target.checked)}
+              className="rounded border-gray-300"
+            />
+            Auto-scroll
+          </label>
+          <select
+            value={direction}
+            onChange={(e) => setDirection(e.target.value as DirectionFilter)}
+            className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+          >
+            <option value="all">All</option>
+            <option value="sent">Sent</option>
+            <option value="received">Received</option>
+          </select>
+          <input
+            type="text"
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            placeholder="Filter messages..."
+            className="px-3 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+          />
+          <button
+            onClick={onClear}
+            disabled={messages.length === 0}
+            className="px-3 py-1 text-sm bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded disabled:opacity-50"
+          >
+            Clear
+          </button>
+        </div>
+      </div>
+
+      {showHandshake && handshakeEntries.length > 0 && (
+        <div className="mb-3 p-2 border rounded bg-gray-50 dark:bg-gray-800 flex-shrink-0 max-h-40 overflow-auto">
+          {handshakeEntries.map(([key, value]) => (
+            <div key={key} className="text-xs font-mono text-gray-700 dark:text-gray-300">
+              <span className="text-gray-500 dark:text-gray-400">{key}:</span> {value}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div ref={listRef} className="flex-1 min-h-0 overflow-auto border rounded bg-gray-100 dark:bg-gray-900 p-2">
+        {filteredMessages.length === 0 ? (
+          <div className="text-center text-gray-500 dark:text-gray-400 py-8">
+            {messages.length === 0 ? 'Connect to start exchanging messages' : 'No messages match your filter'}
+          </div>
+        ) : (
+          filteredMessages.map(message => message.direction === 'system' ? (
+            <div
+              key={message.id}
+              className={`flex items-center gap-2 px-2 py-1 mb-2 text-xs ${message.error ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'}`}
+            >
+              <span className="font-mono">{formatTime(message.timestamp)}</span>
+              <span>{message.data}</span>
+            </div>
+          ) : (
+            <div
+              key={message.id}
+              className={`p-2 rounded mb-2 ${message.direction === 'sent' ? 'bg-blue-50 dark:bg-blue-900/20' : 'bg-gray-50 dark:bg-gray-800'}`}
+            >
+              <div className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400 mb-1">
+                <span className={message.direction === 'sent' ? 'text-blue-600 dark:text-blue-400' : 'text-green-600 dark:text-green-400'}>
+                  {message.direction === 'sent' ? '↑ Sent' : '↓ Received'}
+                </span>
+                <span className="font-mono">{formatTime(message.timestamp)}</span>
+                <span>{formatSize(message.size)}</span>
+                {message.binary && (
+                  <span className="px-1 rounded bg-purple-100 text-purple-800 dark:bg-purple-900/30 dark:text-purple-300">binary</span>
+                )}
+              </div>
+              <pre className="text-sm font-mono whitespace-pre-wrap break-words text-gray-800 dark:text-gray-200">
+                {message.binary ? formatBinaryFrame(message.data) : formatText(message.data)}
+              </pre>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
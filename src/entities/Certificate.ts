@@ -0,0 +1,44 @@
+import 'reflect-metadata';
+import { Entity, PrimaryKey, Property, ManyToOne, Unique } from '@mikro-orm/core';
+import { User } from './User';
+
+@Entity()
+@Unique({ properties: ['user', 'name'] })
+export class Certificate {
+  @PrimaryKey({ autoincrement: true })
+  id!: number;
+
+  @Property()
+  name!: string;
+
+  // "ca" bundles verify servers; "pem" and "pfx" are client certificates for mutual TLS
+  @Property()
+  type!: 'ca' | 'pem' | 'pfx';
+
+  // The fields below are encrypted with lib/crypto. PEM text, or base64 for PFX archives.
+  @Property({ type: 'text' })
+  data!: string;
+
+  // Private key of a PEM client certificate
+  @Property({ type: 'text', nullable: true })
+  privateKey?: string;
+
+  @Property({ type: 'text', nullable: true })
+  passphrase?: string;
+
+  // Read from the certificate when it is uploaded, for the list
+  @Property({ nullable: true })
+  subject?: string;
+
+  @Property({ nullable: true })
+  expiresAt?: Date;
+
+  @ManyToOne(() => User)
+  user!: User;
+
+  @Property()
+  createdAt = new Date();
+
+  @Property({ onUpdate: () => new Date() })
+  updatedAt = new Date();
+}
@@ -1,6 +1,13 @@
 import 'reflect-metadata';
 import { Entity, PrimaryKey, Property, ManyToOne, OneToMany, Collection as MikroCollection, Unique } from '@mikro-orm/core';
 import { User } from './User';
+import type { RequestAuth } from '../utils/requestAuth';
+import type { WebSocketSettings } from '../utils/websocket';
+import type { GraphQLRequestBody } from '../utils/graphql';
+import type { FormDataField } from '../utils/formData';
+import type { BinaryFileBody } from '../utils/storedFiles';
+import type { GrpcSettings } from '../utils/grpc';
+import type { RequestSettings } from '../utils/requestSettings';
 
 @Entity()
 @Unique({ properties: ['name', 'user'] })
@@ -14,6 +21,18 @@ export class Collection {
   @ManyToOne(() => User)
   user!: User;
 
+  // Default auth for requests that inherit from the collection
+  @Property({ type: 'json', nullable: true })
+  auth?: RequestAuth;
+
+  // Transport settings requests start from; each request can override single fields
+  @Property({ type: 'json', nullable: true })
+  settings?: Partial<RequestSettings>;
+
+  // Variables shared by the collection's requests; environment and request variables override them
+  @Property({ type: 'json', nullable: true })
+  variables?: { key: string; value: string; enabled: boolean }[];
+
   @OneToMany(() => Request, request => request.collection, { orphanRemoval: true })
   requests = new MikroCollection<Request>(this);
 
@@ -32,6 +51,10 @@ export class Request {
   @Property()
   name!: string;
 
+  // Slash-separated folder path inside the collection, e.g. "Users/Admin"
+  @Property({ nullable: true })
+  folder?: string;
+
   @Property()
   method!: string;
 
@@ -45,7 +68,53 @@ export class Request {
   body!: string;
 
   @Property()
-  bodyType!: 'json' | 'form-data' | 'x-www-form-urlencoded' | 'raw' | 'binary';
+  bodyType!: 'json' | 'form-data' | 'x-www-form-urlencoded' | 'raw' | 'binary' | 'graphql';
+
+  @Property({ type: 'text', nullable: true })
+  preRequestScript?: string;
+
+  @Property({ type: 'text', nullable: true })
+  testScript?: string;
+
+  @Property({ type: 'json', nullable: true })
+  assertions?: {
+    type: 'status' | 'header' | 'jsonPath';
+    property?: string;
+    operator: 'equals' | 'notEquals' | 'contains' | 'exists' | 'lessThan' | 'greaterThan' | 'matches';
+    expected: string;
+    enabled: boolean;
+  }[];
+
+  @Property({ type: 'json', nullable: true })
+  auth?: RequestAuth;
+
+  // Query, variables and operation name for the "graphql" body type
+  @Property({ type: 'json', nullable: true })
+  graphql?: GraphQLRequestBody;
+
+  // Text and file fields for the "form-data" body type; older requests keep key=value lines in body
+  @Property({ type: 'json', nullable: true })
+  formData?: FormDataField[];
+
+  // Uploaded file sent by the "binary" body type; older requests send the text in body
+  @Property({ type: 'json', nullable: true })
+  binary?: BinaryFileBody;
+
+  // Subprotocols and composer draft for WebSocket requests (method "WS")
+  @Property({ type: 'json', nullable: true })
+  websocket?: WebSocketSettings;
+
+  // Definition source, uploaded .proto files, method and message for gRPC requests (method "GRPC")
+  @Property({ type: 'json', nullable: true })
+  grpc?: GrpcSettings;
+
+  // Redirect, timeout and TLS settings that differ from the collection's
+  @Property({ type: 'json', nullable: true })
+  settings?: Partial<RequestSettings>;
+
+  // Request-local variables, which override those of every other scope
+  @Property({ type: 'json', nullable: true })
+  variables?: { key: string; value: string; enabled: boolean }[];
 
   @ManyToOne(() => Collection)
   collection!: Collection;
@@ -0,0 +1,39 @@
+import 'reflect-metadata';
+import { Entity, PrimaryKey, Property, ManyToOne } from '@mikro-orm/core';
+import { User } from './User';
+
+@Entity()
+export class CollectionRun {
+  @PrimaryKey({ autoincrement: true })
+  id!: number;
+
+  @Property()
+  collectionName!: string;
+
+  @Property({ nullable: true })
+  environmentName?: string;
+
+  @Property()
+  total!: number;
+
+  @Property()
+  passed!: number;
+
+  @Property()
+  failed!: number;
+
+  @Property()
+  duration!: number;
+
+  @Property({ type: 'json' })
+  results!: unknown[];
+
+  @ManyToOne(() => User)
+  user!: User;
+
+  @Property()
+  startedAt!: Date;
+
+  @Property()
+  createdAt = new Date();
+}
@@ -0,0 +1,47 @@
+import 'reflect-metadata';
+import { Entity, PrimaryKey, Property, ManyToOne, Unique } from '@mikro-orm/core';
+import { User } from './User';
+
+@Entity()
+@Unique({ properties: ['user', 'domain', 'path', 'name'] })
+export class Cookie {
+  @PrimaryKey({ autoincrement: true })
+  id!: number;
+
+  @Property()
+  name!: string;
+
+  @Property({ type: 'text' })
+  value!: string;
+
+  @Property()
+  domain!: string;
+
+  @Property()
+  path!: string;
+
+  // Session cookies have no expiry and are kept until deleted
+  @Property({ nullable: true })
+  expires?: Date;
+
+  @Property({ type: 'boolean' })
+  httpOnly = false;
+
+  @Property({ type: 'boolean' })
+  secure = false;
+
+  @Property({ nullable: true })
+  sameSite?: 'Strict' | 'Lax' | 'None';
+
+  @Property({ type: 'boolean' })
+  hostOnly = true;
+
+  @ManyToOne(() => User)
+  user!: User;
+
+  @Property()
+  createdAt = new Date();
+
+  @Property({ onUpdate: () => new Date() })
+  updatedAt = new Date();
+}
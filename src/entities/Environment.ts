@@ -1,6 +1,7 @@
 import 'reflect-metadata';
 import { Entity, PrimaryKey, Property, ManyToOne } from '@mikro-orm/core';
 import { User } from './User';
+import type { EnvironmentProxySettings } from '../utils/proxySettings';
 
 @Entity()
 export class Environment {
@@ -10,8 +11,13 @@ export class Environment {
   @Property()
   name!: string;
 
+  // Values of secret variables are encrypted with lib/crypto
   @Property({ type: 'json' })
-  variables!: { key: string; value: string; enabled: boolean }[];
+  variables!: { key: string; value: string; enabled: boolean; secret?: boolean }[];
+
+  // Upstream proxy for requests sent with this environment; the password is encrypted with lib/crypto
+  @Property({ type: 'json', nullable: true })
+  proxy?: Omit<EnvironmentProxySettings, 'hasPassword'>;
 
   @ManyToOne(() => User)
   user!: User;
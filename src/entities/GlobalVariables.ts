@@ -0,0 +1,23 @@
+import 'reflect-metadata';
+import { Entity, PrimaryKey, Property, ManyToOne, Unique } from '@mikro-orm/core';
+import { User } from './User';
+
+// Variables available to every request of a user, under collection, environment and request variables
+@Entity()
+@Unique({ properties: ['user'] })
+export class GlobalVariables {
+  @PrimaryKey({ autoincrement: true })
+  id!: number;
+
+  @Property({ type: 'json' })
+  variables!: { key: string; value: string; enabled: boolean }[];
+
+  @ManyToOne(() => User)
+  user!: User;
+
+  @Property()
+  createdAt = new Date();
+
+  @Property({ onUpdate: () => new Date() })
+  updatedAt = new Date();
+}
@@ -1,6 +1,7 @@
 import 'reflect-metadata';
 import { Entity, PrimaryKey, Property, ManyToOne } from '@mikro-orm/core';
 import { User } from './User';
+import type { RequestTimings } from '../utils/timings';
 
 @Entity()
 export class History {
@@ -19,9 +20,38 @@ export class History {
   @Property({ nullable: true })
   duration?: number;
 
+  // Kept outside the response so the history list can show it without loading bodies
+  @Property({ type: 'json', nullable: true })
+  timings?: RequestTimings;
+
+  @Property({ type: 'json', nullable: true })
+  headers?: Record<string, string>;
+
+  @Property({ type: 'text', nullable: true })
+  body?: string;
+
+  // Set when the request body was cut to fit; such a request cannot be re-sent as it was
+  @Property({ nullable: true })
+  bodyTruncated?: boolean;
+
+  @Property({ nullable: true })
+  bodyType?: 'json' | 'form-data' | 'x-www-form-urlencoded' | 'raw' | 'binary';
+
+  @Property({ type: 'json', nullable: true })
+  response?: {
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    data: string;
+    time: number;
+    size: number;
+    contentType?: string;
+    truncated?: boolean;
+  };
+
   @ManyToOne(() => User)
   user!: User;
 
   @Property()
   createdAt = new Date();
-}
\ No newline at end of file
+}
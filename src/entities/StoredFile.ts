@@ -0,0 +1,35 @@
+import 'reflect-metadata';
+import { Entity, PrimaryKey, Property, ManyToOne } from '@mikro-orm/core';
+import { User } from './User';
+
+@Entity()
+export class StoredFile {
+  @PrimaryKey({ autoincrement: true })
+  id!: number;
+
+  // Original file name, sent as the filename of multipart parts
+  @Property()
+  name!: string;
+
+  @Property()
+  contentType!: string;
+
+  @Property()
+  size!: number;
+
+  @Property()
+  sha256!: string;
+
+  // Only loaded when the file is sent, not when files are listed
+  @Property({ type: 'blob', lazy: true })
+  data!: Buffer;
+
+  @ManyToOne(() => User)
+  user!: User;
+
+  @Property()
+  createdAt = new Date();
+
+  @Property({ onUpdate: () => new Date() })
+  updatedAt = new Date();
+}
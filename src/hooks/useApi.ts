@@ -1,4 +1,11 @@
 import { useState, useCallback } from 'react';
+import { RequestAuth } from '../utils/requestAuth';
+import { readProxyStream } from '../utils/proxyStream';
+import { RequestTimings } from '../utils/timings';
+import { RequestSettings, RedirectHop, AppliedSettings } from '../utils/requestSettings';
+import { FormDataField } from '../utils/formData';
+import { BinaryFileBody } from '../utils/storedFiles';
+import { TransferSize } from '../utils/transferSize';
 
 interface ApiOptions {
   method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
@@ -12,6 +19,11 @@ interface ProxyRequestOptions {
   headers?: Record<string, string>;
   body?: string;
   bodyType?: 'json' | 'form-data' | 'x-www-form-urlencoded' | 'raw' | 'binary';
+  formData?: FormDataField[];
+  binary?: BinaryFileBody;
+  auth?: RequestAuth;
+  settings?: Partial<RequestSettings>;
+  environmentId?: string;
 }
 
 interface ProxyResponse {
@@ -20,8 +32,31 @@ interface ProxyResponse {
   headers: Record<string, string>;
   data: string;
   time: number;
+  timings?: RequestTimings;
+  redirects?: RedirectHop[];
+  appliedSettings?: AppliedSettings;
   size: number;
+  transfer?: TransferSize;
   contentType?: string;
+  cookies?: {
+    name: string;
+    value: string;
+    domain: string;
+    path: string;
+    expires: number | null;
+    httpOnly: boolean;
+    secure: boolean;
+    sameSite?: 'Strict' | 'Lax' | 'None';
+    hostOnly: boolean;
+  }[];
+  blob?: Blob;
+  streaming?: boolean;
+  incomplete?: boolean;
+}
+
+interface StreamOptions {
+  signal?: AbortSignal;
+  onProgress?: (partial: ProxyResponse) => void;
 }
 
 export function useApi() {
@@ -35,14 +70,17 @@ export function useApi() {
     try {
       const token = localStorage.getItem('token');
       
+      // Files are uploaded as their raw bytes, everything else as JSON
+      const isFile = options.body instanceof Blob;
+
       const response = await fetch(url, {
         method: options.method || 'GET',
         headers: {
-          'Content-Type': 'application/json',
+          'Content-Type': isFile ? (options.body as Blob).type || 'application/octet-stream' : 'application/json',
           ...(token && { Authorization: `Bearer ${token}` }),
           ...options.headers,
         },
-        ...(options.body ? { body: JSON.stringify(options.body) } : {}),
+        ...(options.body ? { body: isFile ? options.body as Blob : JSON.stringify(options.body) } : {}),
       });
 
       if (!response.ok) {
@@ -68,10 +106,14 @@ export function useApi() {
     setError(null);
 
     try {
+      // The token identifies whose cookie jar the proxy uses
+      const token = localStorage.getItem('token');
+
       const response = await fetch('/api/proxy', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...(token && { Authorization: `Bearer ${token}` }),
         },
         body: JSON.stringify(options),
       });
@@ -90,5 +132,37 @@ export function useApi() {
     }
   }, []);
 
-  return { apiCall, proxyRequest, loading, error };
+  // Like proxyRequest, but the proxy pipes the body through so it can be shown while it arrives and cancelled
+  const streamProxyRequest = useCallback(async (options: ProxyRequestOptions, streamOptions: StreamOptions = {}): Promise<ProxyResponse> => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const token = localStorage.getItem('token');
+
+      const response = await fetch('/api/proxy', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token && { Authorization: `Bearer ${token}` }),
+        },
+        body: JSON.stringify({ ...options, stream: true }),
+        signal: streamOptions.signal,
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: 'Proxy request failed' }));
+        throw new Error(errorData.error || `HTTP ${response.status}`);
+      }
+
+      return await readProxyStream(response, streamOptions.onProgress);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  return { apiCall, proxyRequest, streamProxyRequest, loading, error };
 }
\ No newline at end of file
@@ -1,4 +1,5 @@
 import { useState, useEffect } from 'react';
+import { clearOAuth2TokenCache } from '../utils/oauth2';
 
 interface User {
   id: number;
@@ -95,6 +96,7 @@ export function useAuth() {
     localStorage.removeItem('rest-client-environments');
     localStorage.removeItem('rest-client-history');
     localStorage.removeItem('rest-client-active-environment');
+    clearOAuth2TokenCache();
     
     setAuthState({
       user: null,
@@ -0,0 +1,72 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useApi } from './useApi';
+
+export interface StoredCertificate {
+  id: string;
+  name: string;
+  type: 'ca' | 'pem' | 'pfx';
+  subject: string | null;
+  expiresAt: number | null;
+  hasPassphrase: boolean;
+  createdAt: number;
+}
+
+export interface CertificateUpload {
+  name: string;
+  type: 'ca' | 'pem' | 'pfx';
+  // PEM text, or base64 for PFX archives
+  data: string;
+  privateKey?: string;
+  passphrase?: string;
+}
+
+export function useCertificates() {
+  const [certificates, setCertificates] = useState<StoredCertificate[]>([]);
+  const { apiCall, loading, error } = useApi();
+
+  const fetchCertificates = useCallback(async () => {
+    try {
+      const data = await apiCall<StoredCertificate[]>('/api/certificates');
+      setCertificates(data);
+    } catch (err) {
+      console.error('Failed to fetch certificates:', err);
+    }
+  }, [apiCall]);
+
+  const uploadCertificate = useCallback(async (upload: CertificateUpload) => {
+    try {
+      const saved = await apiCall<StoredCertificate>('/api/certificates', {
+        method: 'POST',
+        body: upload
+      });
+      setCertificates(prev => [...prev, saved].sort((a, b) => a.name.localeCompare(b.name)));
+      return saved;
+    } catch (err) {
+      console.error('Failed to upload certificate:', err);
+      throw err;
+    }
+  }, [apiCall]);
+
+  const deleteCertificate = useCallback(async (id: string) => {
+    try {
+      await apiCall(`/api/certificates/${id}`, { method: 'DELETE' });
+      setCertificates(prev => prev.filter(c => c.id !== id));
+    } catch (err) {
+      console.error('Failed to delete certificate:', err);
+      throw err;
+    }
+  }, [apiCall]);
+
+  useEffect(() => {
+    fetchCertificates();
+  }, [fetchCertificates]);
+
+  return {
+    certificates,
+    loading,
+    error,
+    fetchCertificates,
+    uploadCertificate,
+    deleteCertificate
+  };
+}
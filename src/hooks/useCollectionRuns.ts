@@ -0,0 +1,54 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useApi } from './useApi';
+import { RunReport } from '../utils/collectionRunner';
+
+export function useCollectionRuns() {
+  const [runs, setRuns] = useState<RunReport[]>([]);
+  const { apiCall, loading, error } = useApi();
+
+  const fetchRuns = useCallback(async () => {
+    try {
+      const data = await apiCall<RunReport[]>('/api/runs');
+      setRuns(data);
+    } catch (err) {
+      console.error('Failed to fetch runs:', err);
+    }
+  }, [apiCall]);
+
+  const saveRun = useCallback(async (report: RunReport) => {
+    try {
+      const savedRun = await apiCall<RunReport>('/api/runs', {
+        method: 'POST',
+        body: report
+      });
+      setRuns(prev => [savedRun, ...prev]);
+      return savedRun;
+    } catch (err) {
+      console.error('Failed to save run:', err);
+      throw err;
+    }
+  }, [apiCall]);
+
+  const deleteRun = useCallback(async (id: string) => {
+    try {
+      await apiCall(`/api/runs/${id}`, { method: 'DELETE' });
+      setRuns(prev => prev.filter(run => run.id !== id));
+    } catch (err) {
+      console.error('Failed to delete run:', err);
+      throw err;
+    }
+  }, [apiCall]);
+
+  useEffect(() => {
+    fetchRuns();
+  }, [fetchRuns]);
+
+  return {
+    runs,
+    loading,
+    error,
+    fetchRuns,
+    saveRun,
+    deleteRun
+  };
+}
@@ -1,19 +1,48 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useApi } from './useApi';
+import { Assertion } from '../utils/assertions';
+import { RequestAuth } from '../utils/requestAuth';
+import { WebSocketSettings } from '../utils/websocket';
+import { GraphQLRequestBody } from '../utils/graphql';
+import { FormDataField } from '../utils/formData';
+import { BinaryFileBody } from '../utils/storedFiles';
+import { GrpcSettings } from '../utils/grpc';
+import { RequestSettings } from '../utils/requestSettings';
+
+interface Variable {
+  key: string;
+  value: string;
+  enabled: boolean;
+}
 
 interface Request {
   id: string;
   name: string;
+  folder?: string;
   method: string;
   url: string;
   headers: { key: string; value: string; enabled: boolean }[];
   body: string;
-  bodyType: 'json' | 'form-data' | 'x-www-form-urlencoded' | 'raw' | 'binary';
+  bodyType: 'json' | 'form-data' | 'x-www-form-urlencoded' | 'raw' | 'binary' | 'graphql';
+  preRequestScript?: string;
+  testScript?: string;
+  assertions?: Assertion[];
+  auth?: RequestAuth;
+  graphql?: GraphQLRequestBody;
+  formData?: FormDataField[];
+  binary?: BinaryFileBody;
+  websocket?: WebSocketSettings;
+  grpc?: GrpcSettings;
+  settings?: Partial<RequestSettings>;
+  variables?: Variable[];
 }
 
 interface Collection {
   id: string;
   name: string;
+  auth?: RequestAuth;
+  settings?: Partial<RequestSettings>;
+  variables?: Variable[];
   requests: Request[];
 }
 
@@ -30,11 +59,11 @@ export function useCollections() {
     }
   }, [apiCall]);
 
-  const createCollection = useCallback(async (name: string, requests: Omit<Request, 'id'>[] = []) => {
+  const createCollection = useCallback(async (name: string, requests: Omit<Request, 'id'>[] = [], auth?: RequestAuth, settings?: Partial<RequestSettings>, variables?: Variable[]) => {
     try {
       const newCollection = await apiCall<Collection>('/api/collections', {
         method: 'POST',
-        body: { name, requests }
+        body: { name, requests, auth, settings, variables }
       });
       setCollections(prev => [...prev, newCollection]);
       return newCollection;
@@ -44,11 +73,11 @@ export function useCollections() {
     }
   }, [apiCall]);
 
-  const updateCollection = useCallback(async (id: string, name: string, requests: Omit<Request, 'id'>[]) => {
+  const updateCollection = useCallback(async (id: string, name: string, requests: Omit<Request, 'id'>[], auth?: RequestAuth, settings?: Partial<RequestSettings>, variables?: Variable[]) => {
     try {
       const updatedCollection = await apiCall<Collection>(`/api/collections/${id}`, {
         method: 'PUT',
-        body: { name, requests }
+        body: { name, requests, auth, settings, variables }
       });
       setCollections(prev => prev.map(c => c.id === id ? updatedCollection : c));
       return updatedCollection;
@@ -77,7 +106,7 @@ export function useCollections() {
         collection = await createCollection(collectionName, [{ ...request, name: requestName }]);
       } else {
         // Check if request name already exists in this collection
-        const existingRequest = collection.requests.find(r => r.name === requestName);
+        const existingRequest = collection.requests.find(r => r.name === requestName && !r.folder);
         if (existingRequest) {
           throw new Error(`Request "${requestName}" already exists in collection "${collectionName}"`);
         }
@@ -0,0 +1,98 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useApi } from './useApi';
+
+export interface JarCookie {
+  id: string;
+  name: string;
+  value: string;
+  domain: string;
+  path: string;
+  expires: number | null;
+  httpOnly: boolean;
+  secure: boolean;
+  sameSite: 'Strict' | 'Lax' | 'None' | null;
+  hostOnly: boolean;
+}
+
+export type CookieInput = Omit<JarCookie, 'id'>;
+
+export function useCookies() {
+  const [cookies, setCookies] = useState<JarCookie[]>([]);
+  const { apiCall, loading, error } = useApi();
+
+  const fetchCookies = useCallback(async () => {
+    try {
+      const data = await apiCall<JarCookie[]>('/api/cookies');
+      setCookies(data);
+    } catch (err) {
+      console.error('Failed to fetch cookies:', err);
+    }
+  }, [apiCall]);
+
+  const createCookie = useCallback(async (cookie: CookieInput) => {
+    try {
+      const savedCookie = await apiCall<JarCookie>('/api/cookies', {
+        method: 'POST',
+        body: cookie
+      });
+      // Creating replaces a cookie with the same name, domain and path
+      setCookies(prev => [
+        ...prev.filter(c => c.id !== savedCookie.id),
+        savedCookie
+      ]);
+      return savedCookie;
+    } catch (err) {
+      console.error('Failed to create cookie:', err);
+      throw err;
+    }
+  }, [apiCall]);
+
+  const updateCookie = useCallback(async (id: string, cookie: CookieInput) => {
+    try {
+      const updatedCookie = await apiCall<JarCookie>(`/api/cookies/${id}`, {
+        method: 'PUT',
+        body: cookie
+      });
+      setCookies(prev => prev.map(c => c.id === id ? updatedCookie : c));
+      return updatedCookie;
+    } catch (err) {
+      console.error('Failed to update cookie:', err);
+      throw err;
+    }
+  }, [apiCall]);
+
+  const deleteCookie = useCallback(async (id: string) => {
+    try {
+      await apiCall(`/api/cookies/${id}`, { method: 'DELETE' });
+      setCookies(prev => prev.filter(c => c.id !== id));
+    } catch (err) {
+      console.error('Failed to delete cookie:', err);
+      throw err;
+    }
+  }, [apiCall]);
+
+  const clearCookies = useCallback(async (domain?: string) => {
+    try {
+      await apiCall(`/api/cookies${domain ? `?domain=${encodeURIComponent(domain)}` : ''}`, { method: 'DELETE' });
+      setCookies(prev => domain ? prev.filter(c => c.domain !== domain) : []);
+    } catch (err) {
+      console.error('Failed to clear cookies:', err);
+      throw err;
+    }
+  }, [apiCall]);
+
+  useEffect(() => {
+    fetchCookies();
+  }, [fetchCookies]);
+
+  return {
+    cookies,
+    loading,
+    error,
+    fetchCookies,
+    createCookie,
+    updateCookie,
+    deleteCookie,
+    clearCookies
+  };
+}
@@ -1,10 +1,12 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useApi } from './useApi';
+import { EnvironmentProxySettings } from '../utils/proxySettings';
 
 interface Environment {
   id: string;
   name: string;
-  variables: { key: string; value: string; enabled: boolean }[];
+  variables: { key: string; value: string; enabled: boolean; secret?: boolean; unreadable?: boolean }[];
+  proxy?: EnvironmentProxySettings;
 }
 
 export function useEnvironments() {
@@ -27,7 +29,7 @@ export function useEnvironments() {
     }
   }, [apiCall]);
 
-  const createEnvironment = useCallback(async (name: string, variables: { key: string; value: string; enabled: boolean }[] = []) => {
+  const createEnvironment = useCallback(async (name: string, variables: { key: string; value: string; enabled: boolean; secret?: boolean; unreadable?: boolean }[] = []) => {
     try {
       const newEnvironment = await apiCall<Environment>('/api/environments', {
         method: 'POST',
@@ -41,11 +43,12 @@ export function useEnvironments() {
     }
   }, [apiCall]);
 
-  const updateEnvironment = useCallback(async (id: string, name: string, variables: { key: string; value: string; enabled: boolean }[]) => {
+  const updateEnvironment = useCallback(async (id: string, name: string, variables: { key: string; value: string; enabled: boolean; secret?: boolean; unreadable?: boolean }[], proxy?: EnvironmentProxySettings) => {
     try {
       const updatedEnvironment = await apiCall<Environment>(`/api/environments/${id}`, {
         method: 'PUT',
-        body: { name, variables }
+        // The proxy settings are only sent when they change, so the stored password is kept otherwise
+        body: proxy ? { name, variables, proxy } : { name, variables }
       });
       setEnvironments(prev => prev.map(e => e.id === id ? updatedEnvironment : e));
       return updatedEnvironment;
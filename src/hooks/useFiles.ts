@@ -0,0 +1,60 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useApi } from './useApi';
+import { StoredFileInfo, MAX_FILE_SIZE, formatFileSize } from '../utils/storedFiles';
+import { mimeTypeFromFileName } from '../utils/mimeTypes';
+
+export function useFiles() {
+  const [files, setFiles] = useState<StoredFileInfo[]>([]);
+  const { apiCall, loading, error } = useApi();
+
+  const fetchFiles = useCallback(async () => {
+    try {
+      const data = await apiCall<StoredFileInfo[]>('/api/files');
+      setFiles(data);
+    } catch (err) {
+      console.error('Failed to fetch files:', err);
+    }
+  }, [apiCall]);
+
+  const uploadFile = useCallback(async (file: File) => {
+    if (file.size > MAX_FILE_SIZE) {
+      throw new Error(`Files can be at most ${formatFileSize(MAX_FILE_SIZE)}`);
+    }
+    try {
+      const saved = await apiCall<StoredFileInfo>(`/api/files?name=${encodeURIComponent(file.name)}`, {
+        method: 'POST',
+        body: file,
+        // Browsers leave the type empty for extensions they do not know
+        headers: { 'Content-Type': file.type || mimeTypeFromFileName(file.name) }
+      });
+      setFiles(prev => [saved, ...prev]);
+      return saved;
+    } catch (err) {
+      console.error('Failed to upload file:', err);
+      throw err;
+    }
+  }, [apiCall]);
+
+  const deleteFile = useCallback(async (id: string) => {
+    try {
+      await apiCall(`/api/files/${id}`, { method: 'DELETE' });
+      setFiles(prev => prev.filter(f => f.id !== id));
+    } catch (err) {
+      console.error('Failed to delete file:', err);
+      throw err;
+    }
+  }, [apiCall]);
+
+  useEffect(() => {
+    fetchFiles();
+  }, [fetchFiles]);
+
+  return {
+    files,
+    loading,
+    error,
+    fetchFiles,
+    uploadFile,
+    deleteFile
+  };
+}
@@ -0,0 +1,49 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useApi } from './useApi';
+
+interface Variable {
+  key: string;
+  value: string;
+  enabled: boolean;
+}
+
+export function useGlobals() {
+  const [globals, setGlobals] = useState<Variable[]>([]);
+  const { apiCall, loading, error } = useApi();
+
+  const fetchGlobals = useCallback(async () => {
+    try {
+      const data = await apiCall<{ variables: Variable[] }>('/api/globals');
+      setGlobals(data.variables);
+    } catch (err) {
+      console.error('Failed to fetch global variables:', err);
+    }
+  }, [apiCall]);
+
+  const updateGlobals = useCallback(async (variables: Variable[]) => {
+    // Shown right away, like environment variables, while the save is in flight
+    setGlobals(variables);
+    try {
+      const data = await apiCall<{ variables: Variable[] }>('/api/globals', {
+        method: 'PUT',
+        body: { variables }
+      });
+      setGlobals(data.variables);
+    } catch (err) {
+      console.error('Failed to update global variables:', err);
+      throw err;
+    }
+  }, [apiCall]);
+
+  useEffect(() => {
+    fetchGlobals();
+  }, [fetchGlobals]);
+
+  return {
+    globals,
+    loading,
+    error,
+    fetchGlobals,
+    updateGlobals
+  };
+}
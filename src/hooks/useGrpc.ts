@@ -0,0 +1,149 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { createStreamParser } from '../utils/eventStream';
+import { GrpcCallEvent, GrpcDefinitionSource, GrpcProtoFile, GrpcServiceInfo } from '../utils/grpc';
+
+export interface GrpcCallResult {
+  // Response headers; empty until the server sends them
+  metadata: Record<string, string>;
+  messages: { data: unknown; time: number }[];
+  // Set once the call has finished
+  status?: Extract<GrpcCallEvent, { type: 'status' }>;
+}
+
+interface DescribeOptions {
+  url: string;
+  source: GrpcDefinitionSource;
+  protoFiles: GrpcProtoFile[];
+  metadata?: Record<string, string>;
+}
+
+interface InvokeOptions extends DescribeOptions {
+  service: string;
+  method: string;
+  message: Record<string, unknown>;
+}
+
+async function readError(response: Response, fallback: string): Promise<string> {
+  try {
+    const { error } = await response.json();
+    return error || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+export function useGrpc() {
+  const [services, setServices] = useState<GrpcServiceInfo[]>([]);
+  const [servicesLoading, setServicesLoading] = useState(false);
+  const [servicesError, setServicesError] = useState('');
+  const [result, setResult] = useState<GrpcCallResult | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState('');
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const loadServices = useCallback(async ({ url, source, protoFiles, metadata }: DescribeOptions) => {
+    setServicesLoading(true);
+    setServicesError('');
+    try {
+      const response = await fetch('/api/grpc/describe', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ url, source, protoFiles, metadata }),
+      });
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to load services'));
+      }
+      const data: { services: GrpcServiceInfo[] } = await response.json();
+      setServices(data.services);
+      if (data.services.length === 0) {
+        setServicesError('No services found');
+      }
+      return data.services;
+    } catch (error: Error | unknown) {
+      setServices([]);
+      setServicesError(error instanceof Error ? error.message : 'Failed to load services');
+      return null;
+    } finally {
+      setServicesLoading(false);
+    }
+  }, []);
+
+  const invoke = useCallback(async (options: InvokeOptions) => {
+    if (controllerRef.current) return;
+
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setRunning(true);
+    setError('');
+    setResult(null);
+
+    try {
+      const response = await fetch('/api/grpc/invoke', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(options),
+        signal: controller.signal,
+      });
+      if (!response.ok || !response.body) {
+        throw new Error(await readError(response, 'gRPC call failed'));
+      }
+
+      setResult({ metadata: {}, messages: [] });
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      const parser = createStreamParser('ndjson');
+      const apply = (lines: { data: string }[]) => {
+        const events: GrpcCallEvent[] = lines.map(line => JSON.parse(line.data));
+        if (events.length === 0) return;
+        setResult(prev => events.reduce<GrpcCallResult>((current, event) => {
+          if (event.type === 'metadata') return { ...current, metadata: event.metadata };
+          if (event.type === 'message') return { ...current, messages: [...current.messages, { data: event.data, time: event.time }] };
+          return { ...current, status: event };
+        }, prev || { metadata: {}, messages: [] }));
+      };
+
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        apply(parser.push(decoder.decode(value, { stream: true })));
+      }
+      apply(parser.end());
+    } catch (error: Error | unknown) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        setError('Call cancelled');
+      } else {
+        setError(error instanceof Error ? error.message : 'gRPC call failed');
+      }
+    } finally {
+      controllerRef.current = null;
+      setRunning(false);
+    }
+  }, []);
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+  }, []);
+
+  const reset = useCallback(() => {
+    setResult(null);
+    setError('');
+  }, []);
+
+  // Cancel a streaming call still in flight when the tab goes away
+  useEffect(() => {
+    return () => controllerRef.current?.abort();
+  }, []);
+
+  return {
+    services,
+    servicesLoading,
+    servicesError,
+    loadServices,
+    result,
+    running,
+    error,
+    invoke,
+    cancel,
+    reset,
+  };
+}
@@ -1,5 +1,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useApi } from './useApi';
+import { RequestTimings } from '../utils/timings';
+import { capHistoryBody } from '../utils/historyBody';
 
 interface HistoryItem {
   id: string;
@@ -8,28 +10,84 @@ interface HistoryItem {
   status?: number;
   timestamp: number;
   duration?: number;
+  timings?: RequestTimings;
+}
+
+interface HistoryResponse {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  data: string;
+  time: number;
+  timings?: RequestTimings;
+  size: number;
+  contentType?: string;
+  truncated?: boolean;
+}
+
+export interface HistoryEntry extends HistoryItem {
+  headers: Record<string, string>;
+  body: string;
+  bodyTruncated?: boolean;
+  bodyType?: 'json' | 'form-data' | 'x-www-form-urlencoded' | 'raw' | 'binary';
+  response?: HistoryResponse;
+}
+
+interface HistoryPage {
+  items: HistoryItem[];
+  nextCursor: string | null;
 }
 
 export function useHistory() {
   const [history, setHistory] = useState<HistoryItem[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const { apiCall, loading, error } = useApi();
 
   const fetchHistory = useCallback(async () => {
     try {
-      const data = await apiCall<HistoryItem[]>('/api/history');
-      setHistory(data);
+      const data = await apiCall<HistoryPage>('/api/history');
+      setHistory(data.items);
+      setNextCursor(data.nextCursor);
     } catch (err) {
       console.error('Failed to fetch history:', err);
     }
   }, [apiCall]);
 
-  const addToHistory = useCallback(async (method: string, url: string, status?: number, duration?: number) => {
+  const loadMoreHistory = useCallback(async () => {
+    if (!nextCursor) return;
+
+    try {
+      const data = await apiCall<HistoryPage>(`/api/history?cursor=${encodeURIComponent(nextCursor)}`);
+      setHistory(prev => [...prev, ...data.items]);
+      setNextCursor(data.nextCursor);
+    } catch (err) {
+      console.error('Failed to load more history:', err);
+    }
+  }, [apiCall, nextCursor]);
+
+  const getHistoryEntry = useCallback(async (id: string) => {
+    return apiCall<HistoryEntry>(`/api/history/${id}`);
+  }, [apiCall]);
+
+  const addToHistory = useCallback(async (entry: Omit<HistoryEntry, 'id' | 'timestamp'>) => {
+    // Capped here as well as on the server, so a large exchange is stored cut rather than refused
+    const body = capHistoryBody(entry.body);
+    const responseData = capHistoryBody(entry.response?.data);
     try {
       const newHistoryItem = await apiCall<HistoryItem>('/api/history', {
         method: 'POST',
-        body: { method, url, status, duration }
+        body: {
+          ...entry,
+          body: body.value,
+          bodyTruncated: body.truncated,
+          response: entry.response && {
+            ...entry.response,
+            data: responseData.value,
+            truncated: responseData.truncated,
+          },
+        }
       });
-      setHistory(prev => [newHistoryItem, ...prev.slice(0, 99)]); // Keep only last 100 items
+      setHistory(prev => [newHistoryItem, ...prev]);
     } catch (err) {
       console.error('Failed to add to history:', err);
     }
@@ -49,6 +107,7 @@ export function useHistory() {
     try {
       await apiCall('/api/history', { method: 'DELETE' });
       setHistory([]);
+      setNextCursor(null);
     } catch (err) {
       console.error('Failed to clear history:', err);
       throw err;
@@ -61,11 +120,14 @@ export function useHistory() {
 
   return {
     history,
+    hasMore: nextCursor !== null,
     loading,
     error,
     fetchHistory,
+    loadMoreHistory,
+    getHistoryEntry,
     addToHistory,
     deleteHistoryItem,
     clearHistory
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,157 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { frameSize } from '../utils/websocket';
+
+export type WebSocketStatus = 'disconnected' | 'connecting' | 'connected' | 'closing';
+
+export interface WebSocketLogEntry {
+  id: number;
+  direction: 'sent' | 'received' | 'system';
+  data: string;
+  binary: boolean;
+  size: number;
+  timestamp: number;
+  error?: boolean;
+}
+
+interface ConnectOptions {
+  url: string;
+  headers?: Record<string, string>;
+  protocols?: string[];
+}
+
+type RelayMessage =
+  | { type: 'open'; protocol: string; headers: Record<string, string> }
+  | { type: 'message'; data: string; binary: boolean }
+  | { type: 'close'; code: number; reason: string }
+  | { type: 'error'; message: string };
+
+export function useWebSocketRelay() {
+  const [status, setStatus] = useState<WebSocketStatus>('disconnected');
+  const [messages, setMessages] = useState<WebSocketLogEntry[]>([]);
+  const [protocol, setProtocol] = useState('');
+  const [handshakeHeaders, setHandshakeHeaders] = useState<Record<string, string>>({});
+  const socketRef = useRef<WebSocket | null>(null);
+  const upstreamOpenRef = useRef(false);
+  const nextIdRef = useRef(0);
+
+  const log = useCallback((entry: Omit<WebSocketLogEntry, 'id' | 'timestamp' | 'size'>) => {
+    const logged = {
+      ...entry,
+      id: nextIdRef.current++,
+      timestamp: Date.now(),
+      size: entry.direction === 'system' ? 0 : frameSize(entry.data, entry.binary),
+    };
+    setMessages(prev => [...prev, logged]);
+  }, []);
+
+  const connect = useCallback(async ({ url, headers, protocols }: ConnectOptions) => {
+    if (socketRef.current) return;
+
+    setStatus('connecting');
+    setProtocol('');
+    setHandshakeHeaders({});
+    log({ direction: 'system', data: `Connecting to ${url}`, binary: false });
+
+    try {
+      // Starts the relay on the server and tells us where it listens
+      const relayResponse = await fetch('/api/ws-relay');
+      if (!relayResponse.ok) {
+        throw new Error('WebSocket relay is unavailable');
+      }
+      const { path } = await relayResponse.json();
+
+      const scheme = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+      const socket = new WebSocket(`${scheme}//${window.location.host}${path}`);
+      socketRef.current = socket;
+
+      socket.onopen = () => {
+        socket.send(JSON.stringify({ type: 'connect', url, headers, protocols }));
+      };
+
+      socket.onmessage = (event: MessageEvent<string>) => {
+        let message: RelayMessage;
+        try {
+          message = JSON.parse(event.data);
+        } catch {
+          return;
+        }
+
+        switch (message.type) {
+          case 'open':
+            upstreamOpenRef.current = true;
+            setStatus('connected');
+            setProtocol(message.protocol);
+            setHandshakeHeaders(message.headers);
+            log({ direction: 'system', data: `Connected${message.protocol ? ` (subprotocol: ${message.protocol})` : ''}`, binary: false });
+            break;
+          case 'message':
+            log({ direction: 'received', data: message.data, binary: message.binary });
+            break;
+          case 'close':
+            log({ direction: 'system', data: `Disconnected: ${message.code}${message.reason ? ` ${message.reason}` : ''}`, binary: false });
+            break;
+          case 'error':
+            log({ direction: 'system', data: message.message, binary: false, error: true });
+            break;
+        }
+      };
+
+      socket.onclose = () => {
+        if (socketRef.current === socket) {
+          socketRef.current = null;
+          upstreamOpenRef.current = false;
+        }
+        setStatus('disconnected');
+      };
+    } catch (error: Error | unknown) {
+      socketRef.current = null;
+      setStatus('disconnected');
+      log({ direction: 'system', data: error instanceof Error ? error.message : 'Connection failed', binary: false, error: true });
+    }
+  }, [log]);
+
+  const send = useCallback((data: string, binary: boolean) => {
+    const socket = socketRef.current;
+    if (!socket || socket.readyState !== WebSocket.OPEN) return false;
+
+    socket.send(JSON.stringify({ type: 'send', data, binary }));
+    log({ direction: 'sent', data, binary });
+    return true;
+  }, [log]);
+
+  const disconnect = useCallback((code = 1000, reason = '') => {
+    const socket = socketRef.current;
+    if (!socket) return;
+
+    setStatus('closing');
+    // Before the upstream handshake completes there is nothing to close gracefully
+    if (socket.readyState === WebSocket.OPEN && upstreamOpenRef.current) {
+      socket.send(JSON.stringify({ type: 'close', code, reason }));
+    } else {
+      socket.close();
+    }
+  }, []);
+
+  const clearMessages = useCallback(() => {
+    setMessages([]);
+  }, []);
+
+  // Drop the relay connection (and with it the upstream socket) when the tab goes away
+  useEffect(() => {
+    return () => {
+      socketRef.current?.close();
+      socketRef.current = null;
+    };
+  }, []);
+
+  return {
+    status,
+    messages,
+    protocol,
+    handshakeHeaders,
+    connect,
+    send,
+    disconnect,
+    clearMessages,
+  };
+}
@@ -0,0 +1,84 @@
+// CA bundles and client certificates uploaded by users: checked when uploaded, and turned into
+// TLS options for /api/proxy. The stored fields are encrypted, see lib/crypto.
+
+import tls from 'tls';
+import { X509Certificate } from 'crypto';
+import { decryptSecret } from './crypto';
+import type { Certificate } from '../entities/Certificate';
+
+export interface CertificateInput {
+  type: 'ca' | 'pem' | 'pfx';
+  // PEM text, or base64 for PFX archives
+  data: string;
+  privateKey?: string;
+  passphrase?: string;
+}
+
+export interface TlsOptions {
+  rejectUnauthorized?: boolean;
+  ca?: string[];
+  cert?: string;
+  key?: string;
+  pfx?: Buffer;
+  passphrase?: string;
+}
+
+/**
+ * Check that a certificate can be used and read its subject and expiry; throws a readable error otherwise
+ */
+export function inspectCertificate(input: CertificateInput): { subject?: string; expiresAt?: Date } {
+  const { type, data, privateKey, passphrase } = input;
+  if (!data) {
+    throw new Error('A certificate file is required');
+  }
+  if (type === 'pem' && !privateKey) {
+    throw new Error('A private key is required for a PEM client certificate');
+  }
+
+  let x509: X509Certificate | null = null;
+  try {
+    if (type === 'pfx') {
+      tls.createSecureContext({ pfx: Buffer.from(data, 'base64'), passphrase: passphrase || undefined });
+    } else {
+      // Only the first certificate of a bundle or chain is described
+      x509 = new X509Certificate(data);
+      if (type === 'pem') {
+        tls.createSecureContext({ cert: data, key: privateKey, passphrase: passphrase || undefined });
+      }
+    }
+  } catch (error: Error | unknown) {
+    const message = error instanceof Error ? error.message : 'unreadable file';
+    throw new Error(`Invalid certificate: ${message}`);
+  }
+
+  if (!x509) return {};
+  const commonName = x509.subject.split('\n').find(part => part.startsWith('CN='));
+  return {
+    subject: commonName ? commonName.slice(3) : x509.subject.replace(/\n/g, ', '),
+    expiresAt: new Date(x509.validTo),
+  };
+}
+
+/**
+ * TLS options for a request, from the user's CA bundle and client certificate
+ */
+export function buildTlsOptions(verifyTls: boolean, ca: Certificate | null, client: Certificate | null): TlsOptions {
+  const options: TlsOptions = { rejectUnauthorized: verifyTls };
+
+  if (ca) {
+    // Node replaces the built-in roots when `ca` is set, so they are kept alongside the custom bundle
+    options.ca = [...tls.rootCertificates, decryptSecret(ca.data)];
+  }
+
+  if (client?.type === 'pfx') {
+    options.pfx = Buffer.from(decryptSecret(client.data), 'base64');
+  } else if (client) {
+    options.cert = decryptSecret(client.data);
+    options.key = client.privateKey ? decryptSecret(client.privateKey) : undefined;
+  }
+  if (client?.passphrase) {
+    options.passphrase = decryptSecret(client.passphrase);
+  }
+
+  return options;
+}
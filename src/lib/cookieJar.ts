@@ -0,0 +1,151 @@
+// Set-Cookie parsing and cookie matching for the proxy's per-user cookie jar (RFC 6265)
+
+export interface ParsedCookie {
+  name: string;
+  value: string;
+  domain: string;
+  path: string;
+  expires?: Date;
+  httpOnly: boolean;
+  secure: boolean;
+  sameSite?: 'Strict' | 'Lax' | 'None';
+  // Without a Domain attribute the cookie is only sent back to the exact host that set it
+  hostOnly: boolean;
+}
+
+/**
+ * Directory of the request path, used when Set-Cookie has no Path attribute
+ */
+export function defaultCookiePath(pathname: string): string {
+  if (!pathname.startsWith('/')) return '/';
+  const lastSlash = pathname.lastIndexOf('/');
+  return lastSlash <= 0 ? '/' : pathname.slice(0, lastSlash);
+}
+
+/**
+ * Whether a host falls under a cookie domain ("api.example.com" matches "example.com")
+ */
+export function domainMatches(host: string, domain: string): boolean {
+  const normalizedHost = host.toLowerCase();
+  const normalizedDomain = domain.toLowerCase();
+  if (normalizedHost === normalizedDomain) return true;
+  // IP addresses only ever match exactly
+  if (/^[\d.]+$/.test(normalizedHost) || normalizedHost.includes(':')) return false;
+  return normalizedHost.endsWith(`.${normalizedDomain}`);
+}
+
+/**
+ * Whether a request path falls under a cookie path
+ */
+export function pathMatches(requestPath: string, cookiePath: string): boolean {
+  if (requestPath === cookiePath) return true;
+  if (!requestPath.startsWith(cookiePath)) return false;
+  return cookiePath.endsWith('/') || requestPath[cookiePath.length] === '/';
+}
+
+/**
+ * Parse a single Set-Cookie header value received for the given URL.
+ * Returns null for malformed cookies and for cookies the server is not allowed to set.
+ */
+export function parseSetCookie(header: string, requestUrl: URL, now = new Date()): ParsedCookie | null {
+  const [pair, ...attributes] = header.split(';');
+  const separator = pair.indexOf('=');
+  if (separator <= 0) return null;
+
+  const name = pair.slice(0, separator).trim();
+  const value = pair.slice(separator + 1).trim().replace(/^"(.*)"$/, '$1');
+  if (!name) return null;
+
+  const host = requestUrl.hostname.toLowerCase();
+  const cookie: ParsedCookie = {
+    name,
+    value,
+    domain: host,
+    path: defaultCookiePath(requestUrl.pathname),
+    httpOnly: false,
+    secure: false,
+    hostOnly: true,
+  };
+
+  let maxAge: number | undefined;
+  for (const attribute of attributes) {
+    const [rawKey, ...rest] = attribute.split('=');
+    const key = rawKey.trim().toLowerCase();
+    const attributeValue = rest.join('=').trim();
+
+    switch (key) {
+      case 'domain': {
+        const domain = attributeValue.replace(/^\./, '').toLowerCase();
+        if (!domain) break;
+        // A server may only set cookies for its own domain or a parent of it, and never for a bare TLD
+        if (!domainMatches(host, domain) || (!domain.includes('.') && domain !== host)) return null;
+        cookie.domain = domain;
+        cookie.hostOnly = false;
+        break;
+      }
+      case 'path':
+        if (attributeValue.startsWith('/')) cookie.path = attributeValue;
+        break;
+      case 'expires': {
+        const expires = new Date(attributeValue);
+        if (!isNaN(expires.getTime())) cookie.expires = expires;
+        break;
+      }
+      case 'max-age':
+        if (/^-?\d+$/.test(attributeValue)) maxAge = parseInt(attributeValue, 10);
+        break;
+      case 'httponly':
+        cookie.httpOnly = true;
+        break;
+      case 'secure':
+        cookie.secure = true;
+        break;
+      case 'samesite': {
+        const sameSite = attributeValue.toLowerCase();
+        if (sameSite === 'strict') cookie.sameSite = 'Strict';
+        else if (sameSite === 'lax') cookie.sameSite = 'Lax';
+        else if (sameSite === 'none') cookie.sameSite = 'None';
+        break;
+      }
+    }
+  }
+
+  // Max-Age takes precedence over Expires
+  if (maxAge !== undefined) {
+    cookie.expires = new Date(now.getTime() + maxAge * 1000);
+  }
+
+  return cookie;
+}
+
+/**
+ * Whether a stored cookie should be sent with a request to the given URL
+ */
+export function cookieMatchesUrl(
+  cookie: Pick<ParsedCookie, 'domain' | 'path' | 'expires' | 'secure' | 'hostOnly'>,
+  url: URL,
+  now = new Date()
+): boolean {
+  if (cookie.expires && cookie.expires.getTime() <= now.getTime()) return false;
+  if (cookie.secure && url.protocol !== 'https:') return false;
+
+  const host = url.hostname.toLowerCase();
+  const hostMatches = cookie.hostOnly ? host === cookie.domain.toLowerCase() : domainMatches(host, cookie.domain);
+  return hostMatches && pathMatches(url.pathname || '/', cookie.path);
+}
+
+/**
+ * Merge jar cookies into an existing Cookie header; cookies typed by the user win over the jar
+ */
+export function mergeCookieHeader(existing: string | undefined, cookies: Pick<ParsedCookie, 'name' | 'value' | 'path'>[]): string {
+  const explicit = (existing || '').split(';').map(part => part.trim()).filter(Boolean);
+  const explicitNames = new Set(explicit.map(part => part.split('=')[0].trim()));
+
+  // More specific paths first, as browsers do
+  const fromJar = [...cookies]
+    .sort((a, b) => b.path.length - a.path.length)
+    .filter(cookie => !explicitNames.has(cookie.name))
+    .map(cookie => `${cookie.name}=${cookie.value}`);
+
+  return [...explicit, ...fromJar].join('; ');
+}
@@ -0,0 +1,42 @@
+// Encryption at rest for secrets kept in the database, such as uploaded certificates and private keys.
+// AES-256-GCM with a key derived from ENCRYPTION_KEY, or JWT_SECRET when that is not set.
+
+import crypto from 'crypto';
+
+const SECRET = process.env.ENCRYPTION_KEY || process.env.JWT_SECRET || 'your-secret-key';
+
+// Bumped if the format changes, so older values can still be told apart
+const VERSION = 'v1';
+
+let key: Buffer | null = null;
+
+function getKey(): Buffer {
+  if (!key) {
+    key = crypto.scryptSync(SECRET, 'anmost-encryption', 32);
+  }
+  return key;
+}
+
+/**
+ * Encrypt a string; the result holds the IV and auth tag and is safe to store as text
+ */
+export function encryptSecret(plaintext: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', getKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  return [VERSION, iv.toString('base64'), cipher.getAuthTag().toString('base64'), encrypted.toString('base64')].join(':');
+}
+
+/**
+ * Decrypt a value from encryptSecret; throws if it was tampered with or the key has changed
+ */
+export function decryptSecret(value: string): string {
+  const [version, iv, tag, encrypted] = value.split(':');
+  if (version !== VERSION || !iv || !tag || encrypted === undefined) {
+    throw new Error('Unrecognized encrypted value');
+  }
+
+  const decipher = crypto.createDecipheriv('aes-256-gcm', getKey(), Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(encrypted, 'base64')), decipher.final()]).toString('utf8');
+}
@@ -5,6 +5,11 @@ import { User } from '../entities/User.entity';
 import { Collection, Request } from '../entities/Collection';
 import { Environment } from '../entities/Environment';
 import { History } from '../entities/History';
+import { CollectionRun } from '../entities/CollectionRun';
+import { Cookie } from '../entities/Cookie';
+import { Certificate } from '../entities/Certificate';
+import { StoredFile } from '../entities/StoredFile';
+import { GlobalVariables } from '../entities/GlobalVariables';
 
 let orm: MikroORM | null = null;
 
@@ -15,7 +20,7 @@ export async function getORM() {
 
   try {
     orm = await MikroORM.init({
-      entities: [User, Collection, Request, Environment, History],
+      entities: [User, Collection, Request, Environment, History, CollectionRun, Cookie, Certificate, StoredFile, GlobalVariables],
       driver: SqliteDriver,
       dbName: './database.sqlite',
       debug: process.env.NODE_ENV === 'development',
@@ -0,0 +1,396 @@
+// gRPC relay support: service definitions from uploaded .proto files or server reflection,
+// and dynamic clients that encode JSON messages with the loaded definitions
+
+import * as grpc from '@grpc/grpc-js';
+import { isIP } from 'net';
+import protobuf from 'protobufjs';
+import * as descriptor from 'protobufjs/ext/descriptor';
+
+export interface ProtoFile {
+  name: string;
+  content: string;
+}
+
+export interface GrpcTarget {
+  address: string;
+  hostname: string;
+  port: string;
+  secure: boolean;
+  // IP address the hostname was checked at; set, connections go there instead of resolving the name again
+  pinnedAddress?: string;
+}
+
+export interface GrpcMethodInfo {
+  name: string;
+  requestType: string;
+  responseType: string;
+  clientStreaming: boolean;
+  serverStreaming: boolean;
+  // Request message with every field set to its default, as a starting point for the editor
+  example: Record<string, unknown>;
+}
+
+export interface GrpcServiceInfo {
+  name: string;
+  methods: GrpcMethodInfo[];
+}
+
+const REFLECTION_TIMEOUT = 10000;
+
+// Only the parts of reflection.proto needed to list services and fetch their files
+const reflectionMessages = {
+  ServerReflectionRequest: {
+    fields: {
+      host: { type: 'string', id: 1 },
+      fileByFilename: { type: 'string', id: 3 },
+      fileContainingSymbol: { type: 'string', id: 4 },
+      listServices: { type: 'string', id: 7 },
+    },
+  },
+  ServerReflectionResponse: {
+    fields: {
+      validHost: { type: 'string', id: 1 },
+      fileDescriptorResponse: { type: 'FileDescriptorResponse', id: 4 },
+      listServicesResponse: { type: 'ListServiceResponse', id: 6 },
+      errorResponse: { type: 'ErrorResponse', id: 7 },
+    },
+  },
+  FileDescriptorResponse: { fields: { fileDescriptorProto: { rule: 'repeated', type: 'bytes', id: 1 } } },
+  ListServiceResponse: { fields: { service: { rule: 'repeated', type: 'ServiceResponse', id: 1 } } },
+  ServiceResponse: { fields: { name: { type: 'string', id: 1 } } },
+  ErrorResponse: { fields: { errorCode: { type: 'int32', id: 1 }, errorMessage: { type: 'string', id: 2 } } },
+};
+
+// Servers implement v1, v1alpha or both
+const REFLECTION_VERSIONS = ['v1', 'v1alpha'] as const;
+
+const reflectionRoot = protobuf.Root.fromJSON({
+  nested: {
+    grpc: {
+      nested: {
+        reflection: {
+          nested: Object.fromEntries(REFLECTION_VERSIONS.map(version => [version, { nested: reflectionMessages }])),
+        },
+      },
+    },
+  },
+});
+
+interface ReflectionResponse {
+  fileDescriptorResponse?: { fileDescriptorProto: Uint8Array[] };
+  listServicesResponse?: { service: { name: string }[] };
+  errorResponse?: { errorCode: number; errorMessage: string };
+}
+
+/**
+ * Parse grpc://host:port (plaintext) or grpcs://host:port (TLS)
+ */
+export function parseGrpcUrl(url: string): GrpcTarget {
+  const match = /^(grpcs?):\/\/([^/?#]+)\/?$/i.exec(url.trim());
+  if (!match) {
+    throw new Error('gRPC URLs look like grpc://host:port or grpcs://host:port');
+  }
+
+  const secure = match[1].toLowerCase() === 'grpcs';
+  const parsed = new URL(`http://${match[2]}`);
+  const port = parsed.port || (secure ? '443' : '80');
+  return { address: `${parsed.hostname}:${port}`, hostname: parsed.hostname.replace(/^\[|\]$/g, ''), port, secure };
+}
+
+export function createClient(target: GrpcTarget): grpc.Client {
+  const credentials = target.secure ? grpc.credentials.createSsl() : grpc.credentials.createInsecure();
+  if (!target.pinnedAddress) {
+    return new grpc.Client(target.address, credentials);
+  }
+
+  // Connect to the pinned IP; the server still sees the original name as :authority, SNI and certificate name
+  const host = isIP(target.pinnedAddress) === 6 ? `[${target.pinnedAddress}]` : target.pinnedAddress;
+  return new grpc.Client(`${host}:${target.port}`, credentials, {
+    'grpc.default_authority': target.address,
+    ...(target.secure ? { 'grpc.ssl_target_name_override': target.hostname } : {}),
+  });
+}
+
+/**
+ * Build call metadata from request headers; -bin keys carry base64 values
+ */
+export function toMetadata(headers: Record<string, string>): grpc.Metadata {
+  const metadata = new grpc.Metadata();
+  Object.entries(headers).forEach(([key, value]) => {
+    const name = key.toLowerCase();
+    if (name.endsWith('-bin')) {
+      metadata.add(name, Buffer.from(value, 'base64'));
+    } else {
+      metadata.add(name, value);
+    }
+  });
+  return metadata;
+}
+
+export function metadataToRecord(metadata: grpc.Metadata): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(metadata.getMap()).map(([key, value]) => [key, Buffer.isBuffer(value) ? value.toString('base64') : value])
+  );
+}
+
+/**
+ * Load uploaded .proto files; imports resolve against the other uploads or the well-known google/protobuf types
+ */
+export function loadProtoFiles(files: ProtoFile[]): protobuf.Root {
+  if (files.length === 0) {
+    throw new Error('Upload at least one .proto file');
+  }
+
+  const root = new protobuf.Root();
+  const loaded = new Set<string>();
+  const findFile = (name: string) =>
+    files.find(file => file.name === name) ||
+    // Uploads lose their directories, so "foo/bar.proto" matches an upload named "bar.proto"
+    files.find(file => file.name === name.split('/').pop());
+
+  const load = (name: string) => {
+    if (loaded.has(name)) return;
+    loaded.add(name);
+
+    const file = findFile(name);
+    if (!file) {
+      const common = protobuf.common.get(name);
+      if (!common) {
+        throw new Error(`Missing imported file "${name}"; upload it together with the files that import it`);
+      }
+      root.addJSON(common.nested!);
+      return;
+    }
+
+    try {
+      const parsed = protobuf.parse(file.content, root);
+      [...(parsed.imports || []), ...(parsed.weakImports || [])].forEach(load);
+    } catch (error: Error | unknown) {
+      throw new Error(`${file.name}: ${error instanceof Error ? error.message : 'parse error'}`);
+    }
+  };
+
+  files.forEach(file => load(file.name));
+  root.resolveAll();
+  return root;
+}
+
+function openReflectionStream(client: grpc.Client, version: typeof REFLECTION_VERSIONS[number], metadata: grpc.Metadata) {
+  const requestType = reflectionRoot.lookupType(`grpc.reflection.${version}.ServerReflectionRequest`);
+  const responseType = reflectionRoot.lookupType(`grpc.reflection.${version}.ServerReflectionResponse`);
+
+  const call = client.makeBidiStreamRequest(
+    `/grpc.reflection.${version}.ServerReflection/ServerReflectionInfo`,
+    (message: object) => Buffer.from(requestType.encode(requestType.fromObject(message)).finish()),
+    (buffer: Buffer) => responseType.toObject(responseType.decode(buffer), { arrays: true }) as ReflectionResponse,
+    metadata,
+    { deadline: Date.now() + REFLECTION_TIMEOUT }
+  );
+
+  // Reflection answers requests in order, one response each
+  const pending: { resolve: (response: ReflectionResponse) => void; reject: (error: Error) => void }[] = [];
+  call.on('data', (response: ReflectionResponse) => pending.shift()?.resolve(response));
+  call.on('error', (error: Error) => pending.splice(0).forEach(request => request.reject(error)));
+  call.on('end', () => pending.splice(0).forEach(request => request.reject(new Error('Reflection stream closed'))));
+
+  return {
+    send(message: object): Promise<ReflectionResponse> {
+      return new Promise((resolve, reject) => {
+        pending.push({ resolve, reject });
+        call.write(message);
+      }).then(response => {
+        const { errorResponse } = response as ReflectionResponse;
+        if (errorResponse) {
+          throw new Error(`Reflection error ${errorResponse.errorCode}: ${errorResponse.errorMessage}`);
+        }
+        return response as ReflectionResponse;
+      });
+    },
+    close() {
+      call.end();
+    },
+  };
+}
+
+async function fetchReflectionFiles(client: grpc.Client, version: typeof REFLECTION_VERSIONS[number], metadata: grpc.Metadata) {
+  const stream = openReflectionStream(client, version, metadata);
+  try {
+    const list = await stream.send({ listServices: '*' });
+    const services = (list.listServicesResponse?.service || [])
+      .map(service => service.name)
+      .filter(name => !name.startsWith('grpc.reflection.'));
+
+    const files = new Map<string, descriptor.IFileDescriptorProto>();
+    const addFiles = (response: ReflectionResponse) => {
+      (response.fileDescriptorResponse?.fileDescriptorProto || []).forEach(bytes => {
+        const file = descriptor.FileDescriptorProto.decode(bytes) as descriptor.IFileDescriptorProto;
+        files.set(file.name || '', file);
+      });
+    };
+
+    for (const service of services) {
+      addFiles(await stream.send({ fileContainingSymbol: service }));
+    }
+
+    // Servers may leave out dependencies they expect the client to have already
+    const missing = () => Array.from(files.values())
+      .flatMap(file => file.dependency || [])
+      .filter(dependency => !files.has(dependency));
+    for (let dependencies = missing(); dependencies.length > 0; dependencies = missing()) {
+      for (const dependency of dependencies) {
+        const common = protobuf.common.get(dependency);
+        try {
+          addFiles(await stream.send({ fileByFilename: dependency }));
+        } catch (error: Error | unknown) {
+          if (!common) throw error;
+        }
+        if (!files.has(dependency)) {
+          // Keep the loop finite when a server cannot provide a well-known file either
+          files.set(dependency, { name: dependency });
+        }
+      }
+    }
+
+    return Array.from(files.values());
+  } finally {
+    stream.close();
+  }
+}
+
+/**
+ * Load service definitions from the server reflection service
+ */
+export async function loadReflection(target: GrpcTarget, metadata: grpc.Metadata): Promise<protobuf.Root> {
+  const client = createClient(target);
+  try {
+    let lastError: Error | undefined;
+    for (const version of REFLECTION_VERSIONS) {
+      try {
+        const files = await fetchReflectionFiles(client, version, metadata);
+        const root = protobuf.Root.fromDescriptor({ file: files });
+        root.resolveAll();
+        return root;
+      } catch (error: Error | unknown) {
+        lastError = error instanceof Error ? error : new Error('Reflection failed');
+        // Only an unimplemented version is worth retrying with the older one
+        if ((error as grpc.ServiceError).code !== grpc.status.UNIMPLEMENTED) break;
+      }
+    }
+    throw new Error(`Server reflection failed: ${lastError?.message}`);
+  } finally {
+    client.close();
+  }
+}
+
+const exampleValue = (field: protobuf.Field, parents: protobuf.Type[]): unknown => {
+  const { resolvedType } = field;
+  if (resolvedType instanceof protobuf.Type) {
+    // Recursive messages are left empty the second time round
+    return parents.includes(resolvedType) ? {} : exampleMessage(resolvedType, parents);
+  }
+  if (resolvedType instanceof protobuf.Enum) {
+    return Object.keys(resolvedType.values)[0];
+  }
+  switch (field.type) {
+    case 'string':
+    case 'bytes':
+      return '';
+    case 'bool':
+      return false;
+    default:
+      return 0;
+  }
+};
+
+function exampleMessage(type: protobuf.Type, parents: protobuf.Type[] = []): Record<string, unknown> {
+  const path = [...parents, type];
+  const example: Record<string, unknown> = {};
+  type.fieldsArray.forEach(field => {
+    // Only the first member of a oneof can be set
+    if (field.partOf && field.partOf.fieldsArray[0] !== field) return;
+    if (field.map) {
+      example[field.name] = {};
+    } else if (field.repeated) {
+      example[field.name] = [exampleValue(field, path)];
+    } else {
+      example[field.name] = exampleValue(field, path);
+    }
+  });
+  return example;
+}
+
+/**
+ * Services and methods defined in a loaded root
+ */
+export function listServices(root: protobuf.Root): GrpcServiceInfo[] {
+  const services: GrpcServiceInfo[] = [];
+  const visit = (namespace: protobuf.NamespaceBase) => {
+    namespace.nestedArray.forEach(nested => {
+      if (nested instanceof protobuf.Service) {
+        if (nested.fullName.startsWith('.grpc.reflection.')) return;
+        services.push({
+          name: nested.fullName.slice(1),
+          methods: nested.methodsArray.map(method => {
+            method.resolve();
+            return {
+              name: method.name,
+              requestType: method.resolvedRequestType!.fullName.slice(1),
+              responseType: method.resolvedResponseType!.fullName.slice(1),
+              clientStreaming: !!method.requestStream,
+              serverStreaming: !!method.responseStream,
+              example: exampleMessage(method.resolvedRequestType!),
+            };
+          }),
+        });
+      } else if (nested instanceof protobuf.Namespace) {
+        visit(nested);
+      }
+    });
+  };
+  visit(root);
+  return services.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Find a method and build the (de)serializers that map JSON messages to protobuf
+ */
+export function resolveMethod(root: protobuf.Root, serviceName: string, methodName: string) {
+  let service: protobuf.Service;
+  try {
+    service = root.lookupService(serviceName);
+  } catch {
+    throw new Error(`Service "${serviceName}" not found`);
+  }
+
+  const method = service.methods[methodName];
+  if (!method) {
+    throw new Error(`Method "${methodName}" not found in ${serviceName}`);
+  }
+  method.resolve();
+  const requestType = method.resolvedRequestType!;
+  const responseType = method.resolvedResponseType!;
+
+  return {
+    path: `/${serviceName}/${methodName}`,
+    clientStreaming: !!method.requestStream,
+    serverStreaming: !!method.responseStream,
+    encode: (message: Record<string, unknown>) => Buffer.from(requestType.encode(requestType.fromObject(message)).finish()),
+    decode: (buffer: Buffer) =>
+      responseType.toObject(responseType.decode(buffer), { longs: String, enums: String, bytes: String, defaults: true, json: true }),
+  };
+}
+
+/**
+ * Load the definitions a gRPC request points at: its uploaded files or the server's reflection service
+ */
+export function loadDefinitions(
+  source: 'reflection' | 'proto',
+  target: GrpcTarget,
+  protoFiles: ProtoFile[] | undefined,
+  metadata: grpc.Metadata
+): Promise<protobuf.Root> {
+  if (source === 'proto') {
+    return Promise.resolve().then(() => loadProtoFiles(protoFiles || []));
+  }
+  return loadReflection(target, metadata);
+}
@@ -0,0 +1,529 @@
+// Outbound HTTP client for /api/proxy. Built on node:http(s) instead of fetch so each phase of a
+// request (DNS lookup, TCP connect, TLS handshake, time to first byte, download) can be measured.
+// Requests can go through an upstream proxy, see lib/upstreamProxy.
+
+import http, { ClientRequest, IncomingMessage } from 'http';
+import https from 'https';
+import { connect as connectTls } from 'tls';
+import zlib from 'zlib';
+import { randomBytes } from 'crypto';
+import { isIP, LookupFunction, Socket } from 'net';
+import { performance } from 'perf_hooks';
+import { PassThrough, Readable, Transform, pipeline } from 'stream';
+import type { RequestTimings } from '../utils/timings';
+import type { RedirectHop, BodyCompression } from '../utils/requestSettings';
+import type { ResponseSize } from '../utils/transferSize';
+import type { TlsOptions } from './certificates';
+import { isSocksProxy, openTunnel, proxyAuthorization, proxyError, connectToProxy, UpstreamProxy } from './upstreamProxy';
+
+// A body written to the upstream request as a stream. open() is called once per hop, so redirects and
+// retries can send it again; length becomes the Content-Length.
+export interface StreamBody {
+  length: number;
+  open: () => Readable;
+}
+
+export type RequestBody = string | Buffer | StreamBody;
+
+export interface HttpRequestOptions {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: RequestBody;
+  signal?: AbortSignal;
+  // Resolves hostnames for every hop, including redirects; throwing from it refuses the connection
+  lookup?: LookupFunction;
+  // Redirect handling; the defaults match fetch
+  followRedirects?: boolean;
+  maxRedirects?: number;
+  // When false, 307/308 switch to GET and drop the body like 301/302
+  keepMethodOnRedirect?: boolean;
+  // Certificate verification, CAs and client certificate for https hops
+  tls?: TlsOptions;
+  // Upstream proxy for each hop, or null to connect directly
+  proxyFor?: (url: URL) => UpstreamProxy | null;
+  // Cookie jar, consulted on every hop: the Cookie header to send to a URL given the one from the request
+  // (dropped after a redirect to another origin), and the Set-Cookie headers each hop answered with
+  cookieHeader?: (url: URL, requestCookie: string | undefined) => Promise<string | undefined>;
+  onSetCookies?: (url: URL, setCookies: string[]) => Promise<void>;
+}
+
+export interface HttpResponse {
+  status: number;
+  statusText: string;
+  // URL of the final hop after redirects
+  url: string;
+  headers: Record<string, string>;
+  // Set-Cookie headers of the final hop; onSetCookies sees those of every hop
+  setCookies: string[];
+  // Redirects that were followed to get here, in order
+  redirects: RedirectHop[];
+  // Decompressed body; it must be consumed for the download phase to be measured
+  body: Readable;
+  // download and total are filled in once the body has been read
+  timings: RequestTimings;
+  // Header and body bytes as received; body and decoded are filled in once the body has been read
+  size: ResponseSize;
+  // Upstream proxy the final hop went through
+  proxy: UpstreamProxy | null;
+}
+
+// Same limit as fetch
+const DEFAULT_MAX_REDIRECTS = 20;
+
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308];
+
+// Headers fetch would have sent, so upstream servers see the same request as before
+const DEFAULT_HEADERS: Record<string, string> = {
+  accept: '*/*',
+  'accept-encoding': 'gzip, deflate, br',
+  'user-agent': 'node',
+};
+
+// Request body headers dropped when a redirect turns the request into a GET
+const BODY_HEADERS = ['content-type', 'content-length', 'content-encoding', 'content-language', 'content-location'];
+
+// Credentials are not forwarded to another origin
+const CREDENTIAL_HEADERS = ['authorization', 'proxy-authorization', 'cookie'];
+
+const hasHeader = (headers: Record<string, string>, name: string) =>
+  Object.keys(headers).some(key => key.toLowerCase() === name);
+
+// Repeated headers are joined like fetch does, except Set-Cookie which keeps one cookie per line
+function flattenHeaders(headers: IncomingMessage['headers']): Record<string, string> {
+  const flattened: Record<string, string> = {};
+  Object.entries(headers).forEach(([key, value]) => {
+    if (value === undefined) return;
+    flattened[key] = Array.isArray(value) ? value.join(key === 'set-cookie' ? '\n' : ', ') : value;
+  });
+  return flattened;
+}
+
+const withoutHeaders = (headers: Record<string, string>, names: string[]) =>
+  Object.fromEntries(Object.entries(headers).filter(([key]) => !names.includes(key.toLowerCase())));
+
+function abortError(): Error {
+  const error = new Error('This operation was aborted');
+  error.name = 'AbortError';
+  return error;
+}
+
+interface HopResult {
+  response: IncomingMessage;
+  dns: number;
+  tcp: number;
+  tls: number;
+  ttfb: number;
+}
+
+const stripBrackets = (hostname: string) => hostname.replace(/^\[|\]$/g, '');
+
+/**
+ * Start a request through an upstream proxy. Plain http:// requests are sent to HTTP(S) proxies in
+ * absolute form; everything else goes through a tunnel, with TLS to the target on top for https://.
+ * `onTunnel` is called with the proxy connection and again once the tunnel is ready.
+ */
+function requestViaProxy(
+  url: URL,
+  method: string,
+  headers: Record<string, string>,
+  proxy: UpstreamProxy,
+  options: Pick<HttpRequestOptions, 'lookup' | 'tls'>,
+  onTunnel: (socket: Socket | null) => void
+): ClientRequest {
+  const secure = url.protocol === 'https:';
+  const hostname = stripBrackets(url.hostname);
+  const port = Number(url.port) || (secure ? 443 : 80);
+  // The Host header names the target, not the proxy the connection goes to
+  const targetHeaders = { host: url.host, ...headers };
+
+  if (!secure && !isSocksProxy(proxy)) {
+    const authorization = proxyAuthorization(proxy);
+    return http.request({
+      method,
+      path: url.href,
+      headers: authorization ? { ...targetHeaders, 'proxy-authorization': authorization } : targetHeaders,
+      createConnection: () => connectToProxy(proxy),
+    });
+  }
+
+  return http.request({
+    method,
+    host: hostname,
+    port,
+    path: `${url.pathname}${url.search}`,
+    headers: targetHeaders,
+    createConnection: (_options, callback) => {
+      openTunnel(proxy, hostname, port, { lookup: options.lookup, onSocket: onTunnel })
+        .then(socket => {
+          onTunnel(null);
+          callback(null, secure
+            ? connectTls({ ...options.tls, socket, host: hostname, servername: isIP(hostname) ? undefined : hostname })
+            : socket);
+        })
+        .catch(error => callback(error, undefined as unknown as Socket));
+      return undefined;
+    },
+  });
+}
+
+/**
+ * Send one request on a fresh connection, so every phase is measured rather than hidden by keep-alive
+ */
+function sendHop(url: URL, method: string, headers: Record<string, string>, body: RequestBody | undefined, proxy: UpstreamProxy | null, options: Pick<HttpRequestOptions, 'signal' | 'lookup' | 'tls'>): Promise<HopResult> {
+  const { signal, lookup, tls } = options;
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+
+    const start = performance.now();
+    let lookupAt: number | undefined;
+    let connectAt: number | undefined;
+    let secureAt: number | undefined;
+
+    const secure = url.protocol === 'https:';
+    const tunnel = proxy !== null && (secure || isSocksProxy(proxy));
+    // Connection to the proxy while a tunnel is being opened, so cancelling can close it
+    let tunnelSocket: Socket | null = null;
+
+    let request: ClientRequest;
+    if (!proxy) {
+      const transport = secure ? https : http;
+      request = transport.request(url, { method, headers, agent: false, lookup, ...(secure ? tls : {}) });
+    } else {
+      request = requestViaProxy(url, method, headers, proxy, options, socket => {
+        tunnelSocket = socket;
+        // Opening the tunnel, CONNECT or SOCKS handshake included, counts as connecting
+        if (socket) socket.once('lookup', () => { lookupAt = performance.now(); });
+        else connectAt = performance.now();
+      });
+    }
+
+    request.once('socket', socket => {
+      if (!tunnel) {
+        socket.once('lookup', () => { lookupAt = performance.now(); });
+        socket.once('connect', () => { connectAt = performance.now(); });
+      }
+      socket.once('secureConnect', () => { secureAt = performance.now(); });
+    });
+
+    const onAbort = () => {
+      tunnelSocket?.destroy(abortError());
+      request.destroy(abortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    request.once('response', response => {
+      const responseAt = performance.now();
+      // Hostnames that are IP addresses skip the lookup
+      const connectStart = lookupAt ?? start;
+      const tcpDone = connectAt ?? connectStart;
+      const tlsDone = secureAt ?? tcpDone;
+      signal?.removeEventListener('abort', onAbort);
+      resolve({
+        response,
+        dns: connectStart - start,
+        tcp: tcpDone - connectStart,
+        tls: tlsDone - tcpDone,
+        ttfb: responseAt - tlsDone,
+      });
+    });
+
+    // Not once: a cancelled request can still report its failed tunnel afterwards.
+    // Tunnel errors already name the proxy; failing to reach it for an absolute-form request does not.
+    request.on('error', error => {
+      signal?.removeEventListener('abort', onAbort);
+      reject(proxy && !tunnel && connectAt === undefined ? proxyError(proxy, error) : error);
+    });
+
+    if (isStreamBody(body)) {
+      const stream = body.open();
+      stream.once('error', error => request.destroy(error));
+      stream.pipe(request);
+    } else {
+      request.end(body);
+    }
+  });
+}
+
+// Status line and header block as received; Node only exposes them parsed, so they are reassembled
+function headerBlockSize(response: IncomingMessage): number {
+  let size = Buffer.byteLength(`HTTP/${response.httpVersion} ${response.statusCode} ${response.statusMessage || ''}\r\n`, 'latin1');
+  for (let index = 0; index < response.rawHeaders.length; index += 2) {
+    size += Buffer.byteLength(`${response.rawHeaders[index]}: ${response.rawHeaders[index + 1]}\r\n`, 'latin1');
+  }
+  return size + 2;
+}
+
+const countBytes = (onChunk: (length: number) => void) => new Transform({
+  transform(chunk: Buffer, _encoding, callback) {
+    onChunk(chunk.length);
+    callback(null, chunk);
+  },
+});
+
+// fetch decodes these transparently; other encodings are passed through as received.
+// The body is counted before and after decoding for the transfer size.
+function decodeBody(response: IncomingMessage, size: ResponseSize, onError: (error: Error) => void): Readable {
+  const encoding = (response.headers['content-encoding'] || '').trim().toLowerCase();
+  // Be as lenient as browsers with bodies that end mid-stream
+  const options = { flush: zlib.constants.Z_SYNC_FLUSH, finishFlush: zlib.constants.Z_SYNC_FLUSH };
+  let decoder: zlib.Gunzip | zlib.Inflate | zlib.BrotliDecompress | null = null;
+  if (encoding === 'gzip' || encoding === 'x-gzip') decoder = zlib.createGunzip(options);
+  else if (encoding === 'deflate') decoder = zlib.createInflate(options);
+  else if (encoding === 'br') decoder = zlib.createBrotliDecompress();
+
+  const output = countBytes(length => { size.decoded += length; });
+  pipeline(response, countBytes(length => { size.body += length; }), decoder || new PassThrough(), output, error => {
+    if (error) onError(error);
+  });
+  return output;
+}
+
+// Node connects to IP literals without a lookup, so they are passed through it here to get the same checks
+function lookupLiteral(url: URL, lookup: LookupFunction): Promise<void> {
+  const hostname = stripBrackets(url.hostname);
+  if (!isIP(hostname)) return Promise.resolve();
+  return new Promise((resolve, reject) => {
+    lookup(hostname, {}, error => (error ? reject(error) : resolve()));
+  });
+}
+
+// Lookup failures that only mean the name does not resolve from here
+const DNS_FAILURES = ['ENOTFOUND', 'EAI_AGAIN', 'ENODATA'];
+
+// A proxy resolves the target itself, but the name is still checked here so the proxy cannot be used to
+// reach addresses the lookup refuses. Names that do not resolve from here are left to the proxy.
+function lookupProxiedTarget(url: URL, lookup: LookupFunction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    lookup(stripBrackets(url.hostname), {}, error => {
+      if (error && !DNS_FAILURES.includes(error.code || '')) reject(error);
+      else resolve();
+    });
+  });
+}
+
+/**
+ * Send a request, following redirects the way fetch does unless told otherwise, and measure its phases
+ */
+export async function sendHttpRequest(options: HttpRequestOptions): Promise<HttpResponse> {
+  const start = performance.now();
+  let url = new URL(options.url);
+  let method = options.method.toUpperCase();
+  let body = options.body;
+  let headers: Record<string, string> = { ...options.headers };
+  const maxRedirects = options.maxRedirects ?? DEFAULT_MAX_REDIRECTS;
+  const redirects: RedirectHop[] = [];
+
+  Object.entries(DEFAULT_HEADERS).forEach(([name, value]) => {
+    if (!hasHeader(headers, name)) headers[name] = value;
+  });
+  if (body !== undefined && !hasHeader(headers, 'content-length')) {
+    headers['content-length'] = String(bodyLength(body));
+  }
+
+  for (;;) {
+    const hopStart = performance.now();
+    const proxy = options.proxyFor?.(url) || null;
+    if (options.lookup) {
+      await (proxy ? lookupProxiedTarget(url, options.lookup) : lookupLiteral(url, options.lookup));
+    }
+    if (proxy?.lookup) await lookupLiteral(proxy.url, proxy.lookup);
+
+    // Jar cookies are added per hop rather than to headers, so they never carry over to another hop
+    let hopHeaders = headers;
+    if (options.cookieHeader) {
+      const cookieKey = Object.keys(headers).find(key => key.toLowerCase() === 'cookie');
+      const cookie = await options.cookieHeader(url, cookieKey ? headers[cookieKey] : undefined);
+      hopHeaders = withoutHeaders(headers, ['cookie']);
+      if (cookie) hopHeaders[cookieKey || 'cookie'] = cookie;
+    }
+
+    const hop = await sendHop(url, method, hopHeaders, body, proxy, options);
+    const { response } = hop;
+    const location = response.headers.location;
+
+    const status = response.statusCode || 0;
+
+    // Stored before the next hop is sent, so a login that redirects with Set-Cookie is signed in on arrival
+    const setCookies = response.headers['set-cookie'] || [];
+    if (options.onSetCookies && setCookies.length > 0) {
+      try {
+        await options.onSetCookies(url, setCookies);
+      } catch (error: Error | unknown) {
+        response.destroy();
+        throw error;
+      }
+    }
+
+    if (options.followRedirects !== false && REDIRECT_STATUSES.includes(status) && location) {
+      // Discard the redirect body and move on to the next hop
+      response.resume();
+      redirects.push({
+        url: url.toString(),
+        method,
+        status,
+        statusText: response.statusMessage || '',
+        headers: flattenHeaders(response.headers),
+        time: performance.now() - hopStart,
+      });
+      if (redirects.length > maxRedirects) {
+        throw new Error(`Too many redirects (more than ${maxRedirects})`);
+      }
+
+      const next = new URL(location, url);
+      const switchToGet =
+        (status === 303 && method !== 'HEAD') ||
+        ([301, 302].includes(status) && method === 'POST') ||
+        (options.keepMethodOnRedirect === false && [307, 308].includes(status) && !['GET', 'HEAD'].includes(method));
+      if (switchToGet) {
+        method = 'GET';
+        body = undefined;
+        headers = withoutHeaders(headers, BODY_HEADERS);
+      }
+      if (next.origin !== url.origin) {
+        headers = withoutHeaders(headers, CREDENTIAL_HEADERS);
+      }
+      url = next;
+      continue;
+    }
+
+    // Set-Cookie is returned separately, one entry per cookie
+    const responseHeaders = flattenHeaders(response.headers);
+    delete responseHeaders['set-cookie'];
+
+    const timings: RequestTimings = {
+      redirect: redirects.length > 0 ? hopStart - start : 0,
+      dns: hop.dns,
+      tcp: hop.tcp,
+      tls: hop.tls,
+      ttfb: hop.ttfb,
+      download: 0,
+      total: performance.now() - start,
+    };
+
+    const bodyStart = performance.now();
+    response.once('end', () => {
+      timings.download = performance.now() - bodyStart;
+      timings.total = performance.now() - start;
+    });
+
+    // Cancelling also stops a body that is still downloading
+    const onAbort = () => response.destroy(abortError());
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+    response.once('close', () => options.signal?.removeEventListener('abort', onAbort));
+
+    const encoding = (response.headers['content-encoding'] || '').trim().toLowerCase();
+    const size: ResponseSize = {
+      headers: headerBlockSize(response),
+      body: 0,
+      decoded: 0,
+      encoding: encoding && encoding !== 'identity' ? encoding : null,
+    };
+    const decoded = decodeBody(response, size, error => decoded.destroy(error));
+
+    return {
+      status,
+      statusText: response.statusMessage || '',
+      url: url.toString(),
+      headers: responseHeaders,
+      setCookies,
+      redirects,
+      body: decoded,
+      timings,
+      size,
+      proxy,
+    };
+  }
+}
+
+/**
+ * Read a whole response body
+ */
+export async function readBody(body: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of body) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
+
+export function isStreamBody(body: RequestBody | undefined): body is StreamBody {
+  return typeof body === 'object' && !Buffer.isBuffer(body);
+}
+
+/**
+ * Size of a request body in bytes
+ */
+export function bodyLength(body: RequestBody): number {
+  return isStreamBody(body) ? body.length : Buffer.byteLength(body);
+}
+
+/**
+ * Compress a request body with the given Content-Encoding. A streamed body is compressed as it is read,
+ * so only the compressed bytes are held.
+ */
+export async function compressBody(body: RequestBody, encoding: Exclude<BodyCompression, 'none'>): Promise<Buffer> {
+  if (isStreamBody(body)) {
+    const compressor = encoding === 'gzip' ? zlib.createGzip() : encoding === 'br' ? zlib.createBrotliCompress() : zlib.createDeflate();
+    const output = new PassThrough();
+    const compressed = readBody(output);
+    await new Promise<void>((resolve, reject) => {
+      pipeline(body.open(), compressor, output, error => (error ? reject(error) : resolve()));
+    });
+    return compressed;
+  }
+  if (encoding === 'gzip') return zlib.gzipSync(body);
+  if (encoding === 'br') return zlib.brotliCompressSync(body);
+  return zlib.deflateSync(body);
+}
+
+export interface MultipartPart {
+  name: string;
+  content: string | Buffer;
+  // Set for file parts
+  fileName?: string;
+  contentType?: string;
+}
+
+// Names and file names are escaped the way browsers do, so quotes and newlines cannot break the part headers
+const escapePartName = (name: string) =>
+  name.replace(/\r/g, '%0D').replace(/\n/g, '%0A').replace(/"/g, '%22');
+
+/**
+ * Serialize parts into a streamed multipart/form-data body and its Content-Type (with the boundary).
+ * Parts are written one after another rather than copied into a single buffer.
+ */
+export function encodeMultipart(parts: MultipartPart[]): { body: StreamBody; contentType: string } {
+  const boundary = `----AnMostFormBoundary${randomBytes(12).toString('hex')}`;
+  const lineBreak = Buffer.from('\r\n');
+  const encoded = parts.map(part => {
+    let head = `--${boundary}\r\nContent-Disposition: form-data; name="${escapePartName(part.name)}"`;
+    if (part.fileName !== undefined) {
+      head += `; filename="${escapePartName(part.fileName)}"`;
+    }
+    head += '\r\n';
+    if (part.contentType) {
+      head += `Content-Type: ${part.contentType}\r\n`;
+    }
+    return { head: Buffer.from(`${head}\r\n`), content: typeof part.content === 'string' ? Buffer.from(part.content) : part.content };
+  });
+  const end = Buffer.from(`--${boundary}--\r\n`);
+
+  return {
+    body: {
+      length: encoded.reduce((total, part) => total + part.head.length + part.content.length + lineBreak.length, end.length),
+      open: () => Readable.from((function* () {
+        for (const part of encoded) {
+          yield part.head;
+          yield part.content;
+          yield lineBreak;
+        }
+        yield end;
+      })()),
+    },
+    contentType: `multipart/form-data; boundary=${boundary}`,
+  };
+}
@@ -0,0 +1,214 @@
+// Which upstream addresses the proxy, the WebSocket relay and the gRPC relay are allowed to reach.
+// Hostnames are resolved and every resolved address is checked against CIDR lists, so names that
+// point at internal hosts are caught as well as literal IPs. Self-hosters can adjust the lists with:
+//   NETWORK_POLICY_DENY  - comma-separated CIDRs blocked in addition to the private ranges below
+//   NETWORK_POLICY_ALLOW - comma-separated CIDRs that are always reachable, even inside a denied range
+
+import dns, { LookupAddress, LookupOptions } from 'dns';
+import { BlockList, isIP } from 'net';
+
+export type NetworkPolicyErrorCode = 'ADDRESS_BLOCKED' | 'HOST_UNRESOLVED' | 'INVALID_POLICY';
+
+// HTTP status the API routes answer with; a broken policy is a server problem, not the caller's
+const ERROR_STATUS: Record<NetworkPolicyErrorCode, number> = {
+  ADDRESS_BLOCKED: 403,
+  HOST_UNRESOLVED: 400,
+  INVALID_POLICY: 500,
+};
+
+export class NetworkPolicyError extends Error {
+  code: NetworkPolicyErrorCode;
+  status: number;
+
+  constructor(code: NetworkPolicyErrorCode, message: string) {
+    super(message);
+    this.name = 'NetworkPolicyError';
+    this.code = code;
+    this.status = ERROR_STATUS[code];
+  }
+}
+
+// Loopback, private, link-local (including cloud metadata endpoints), shared, multicast and reserved ranges
+const DEFAULT_DENY = [
+  '0.0.0.0/8',
+  '10.0.0.0/8',
+  '100.64.0.0/10',
+  '127.0.0.0/8',
+  '169.254.0.0/16',
+  '172.16.0.0/12',
+  '192.0.0.0/24',
+  '192.168.0.0/16',
+  '198.18.0.0/15',
+  '224.0.0.0/4',
+  '240.0.0.0/4',
+  '::/128',
+  '::1/128',
+  // Local-use NAT64 (RFC 8215) and Teredo, whose embedded IPv4 addresses cannot be checked reliably
+  '64:ff9b:1::/48',
+  '2001::/32',
+  'fc00::/7',
+  'fe80::/10',
+  'ff00::/8',
+];
+
+interface CidrRule {
+  cidr: string;
+  list: BlockList;
+}
+
+interface Policy {
+  allow: CidrRule[];
+  deny: CidrRule[];
+}
+
+let policy: Policy | null = null;
+
+function parseCidr(cidr: string, setting: string): CidrRule {
+  const [address, prefixText] = cidr.split('/');
+  const type = isIP(address);
+  const maxPrefix = type === 6 ? 128 : 32;
+  const prefix = prefixText === undefined ? maxPrefix : Number(prefixText);
+  if (!type || (prefixText !== undefined && !/^\d+$/.test(prefixText)) || !Number.isInteger(prefix) || prefix < 0 || prefix > maxPrefix) {
+    throw new NetworkPolicyError('INVALID_POLICY', `Invalid CIDR "${cidr}" in ${setting}`);
+  }
+
+  const list = new BlockList();
+  list.addSubnet(address, prefix, type === 6 ? 'ipv6' : 'ipv4');
+  return { cidr: prefixText === undefined ? `${address}/${prefix}` : cidr, list };
+}
+
+function parseCidrList(value: string | undefined, setting: string): CidrRule[] {
+  return (value || '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => parseCidr(entry, setting));
+}
+
+// Built once per server process; a bad setting fails every check rather than silently opening the proxy
+function getPolicy(): Policy {
+  if (!policy) {
+    policy = {
+      allow: parseCidrList(process.env.NETWORK_POLICY_ALLOW, 'NETWORK_POLICY_ALLOW'),
+      deny: [
+        ...DEFAULT_DENY.map(cidr => parseCidr(cidr, 'the default deny list')),
+        ...parseCidrList(process.env.NETWORK_POLICY_DENY, 'NETWORK_POLICY_DENY'),
+      ],
+    };
+  }
+  return policy;
+}
+
+// The eight 16-bit groups of a canonical IPv6 address
+function ipv6Groups(canonical: string): number[] {
+  const [head, tail] = canonical.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail ? tail.split(':') : [];
+  const groups = tail === undefined
+    ? headGroups
+    : [...headGroups, ...Array(8 - headGroups.length - tailGroups.length).fill('0'), ...tailGroups];
+  return groups.map(group => parseInt(group, 16));
+}
+
+/**
+ * Reduce an address to the form it is matched in: IPv6 addresses that carry an IPv4 address are
+ * treated as that IPv4 address. These are IPv4-mapped, -translated and -compatible addresses
+ * (::ffff:127.0.0.1, ::ffff:0:7f00:1, ::7f00:1), NAT64 (64:ff9b::7f00:1) and 6to4 (2002:7f00:1::)
+ */
+export function normalizeAddress(address: string): string {
+  const bare = address.replace(/^\[|\]$/g, '');
+  if (isIP(bare) !== 6) return bare;
+
+  // The URL parser prints IPv6 in its canonical compressed form, with embedded IPv4 as hex groups
+  const canonical = new URL(`http://[${bare}]`).hostname.slice(1, -1);
+  const groups = ipv6Groups(canonical);
+  let embedded: number[] | null = null;
+  if (/^::(?:ffff:(?:0:)?)?[0-9a-f]{1,4}:[0-9a-f]{1,4}$/.test(canonical)) {
+    embedded = groups.slice(6);
+  } else if (groups[0] === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every(group => group === 0)) {
+    embedded = groups.slice(6);
+  } else if (groups[0] === 0x2002) {
+    embedded = groups.slice(1, 3);
+  }
+  if (!embedded) return canonical;
+
+  const [high, low] = embedded;
+  return [high >> 8, high & 0xff, low >> 8, low & 0xff].join('.');
+}
+
+/**
+ * Throw if an IP address may not be reached; the allow list wins over the deny list
+ */
+export function checkAddress(address: string, hostname = address): void {
+  const normalized = normalizeAddress(address);
+  const type = isIP(normalized) === 6 ? 'ipv6' : 'ipv4';
+  const { allow, deny } = getPolicy();
+  if (allow.some(rule => rule.list.check(normalized, type))) return;
+
+  const blocked = deny.find(rule => rule.list.check(normalized, type));
+  if (blocked) {
+    const target = normalizeAddress(hostname) === normalized ? normalized : `${hostname} (${normalized})`;
+    throw new NetworkPolicyError('ADDRESS_BLOCKED', `Requests to private networks are not allowed: ${target} is in ${blocked.cidr}`);
+  }
+}
+
+/**
+ * Check a URL hostname if it is an IP literal, which connections reach without a lookup.
+ * Returns false for names, which are left to policyLookup or assertHostAllowed
+ */
+export function checkIpLiteral(hostname: string): boolean {
+  const host = hostname.replace(/^\[|\]$/g, '');
+  if (!isIP(host)) return false;
+  checkAddress(host);
+  return true;
+}
+
+/**
+ * Resolve a hostname and throw unless every address it resolves to may be reached. Used where
+ * the connection cannot be hooked; the proxy and WebSocket relay check at connect time with policyLookup.
+ * Returns the first checked address, so the caller can connect to it rather than resolve the name again.
+ */
+export async function assertHostAllowed(hostname: string): Promise<string> {
+  const host = hostname.replace(/^\[|\]$/g, '');
+  if (checkIpLiteral(host)) return host;
+
+  let addresses: LookupAddress[];
+  try {
+    addresses = await dns.promises.lookup(host, { all: true });
+  } catch {
+    throw new NetworkPolicyError('HOST_UNRESOLVED', `Could not resolve ${host}`);
+  }
+  addresses.forEach(({ address }) => checkAddress(address, host));
+  return addresses[0].address;
+}
+
+/**
+ * Drop-in for dns.lookup that rejects hostnames resolving to a blocked address. Passed as the
+ * `lookup` option of outgoing connections, so the address that is checked is the one connected to
+ */
+export function policyLookup(
+  hostname: string,
+  options: LookupOptions,
+  callback: (error: NodeJS.ErrnoException | null, address: string | LookupAddress[], family?: number) => void
+): void {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, []);
+      return;
+    }
+
+    try {
+      // Refuse the host if any of its addresses is blocked, so a mix of public and internal records cannot be used
+      addresses.forEach(({ address }) => checkAddress(address, hostname));
+    } catch (policyError: Error | unknown) {
+      callback(policyError as NodeJS.ErrnoException, []);
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+}
@@ -0,0 +1,43 @@
+// Environment variables marked secret have their values encrypted with lib/crypto before they are stored.
+// The owner gets them back in plain text: placeholders are substituted in the browser.
+
+import { decryptSecret, encryptSecret } from './crypto';
+import type { Variable } from '../utils/variables';
+
+/**
+ * Variables as stored on the entity, with the values of secret variables encrypted. A secret sent back
+ * still unreadable and empty keeps its previously stored value, so saving does not destroy it.
+ */
+export function storeVariables(input: unknown, previous: Variable[] = []): Variable[] {
+  if (!Array.isArray(input)) return [];
+  return input.map((variable: Partial<Variable>) => {
+    const key = String(variable?.key ?? '');
+    const value = String(variable?.value ?? '');
+    const enabled = variable?.enabled !== false;
+    const stored = variable?.secret && variable.unreadable && !value
+      ? previous.find(existing => existing.secret && existing.key === key)
+      : undefined;
+    if (stored) {
+      return { key, value: stored.value, enabled, secret: true };
+    }
+    return variable?.secret
+      ? { key, value: value ? encryptSecret(value) : '', enabled, secret: true }
+      : { key, value, enabled };
+  });
+}
+
+/**
+ * Variables as returned to their owner, with secret values decrypted. A value that no longer decrypts,
+ * e.g. after ENCRYPTION_KEY changed, comes back empty and marked unreadable rather than failing the
+ * whole environment.
+ */
+export function readVariables(stored: Variable[] | null | undefined): Variable[] {
+  return (stored || []).map(variable => {
+    if (!variable.secret || !variable.value) return variable;
+    try {
+      return { ...variable, value: decryptSecret(variable.value) };
+    } catch {
+      return { ...variable, value: '', unreadable: true };
+    }
+  });
+}
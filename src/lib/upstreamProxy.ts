@@ -0,0 +1,397 @@
+// Upstream (egress) proxies for /api/proxy. The instance-wide proxy comes from the standard variables,
+// lowercase forms first as curl reads them:
+//   HTTP_PROXY / HTTPS_PROXY - proxy for http:// and https:// targets; ALL_PROXY covers both when they are unset
+//   NO_PROXY                 - comma-separated hosts, domains, IPs and CIDRs reached directly; "*" turns the proxy off
+// Environments can replace it with their own proxy or connect directly. HTTP(S) proxies get plain http://
+// requests in absolute form and a CONNECT tunnel for https://; SOCKS5 proxies always tunnel, socks5h://
+// leaving the hostname lookup to the proxy.
+
+import dns from 'dns';
+import net, { BlockList, isIP, LookupFunction, Socket } from 'net';
+import tls from 'tls';
+import { decryptSecret, encryptSecret } from './crypto';
+import { NetworkPolicyError, normalizeAddress } from './networkPolicy';
+import { DEFAULT_PROXY_SETTINGS, EnvironmentProxySettings } from '../utils/proxySettings';
+
+export interface UpstreamProxy {
+  // Protocol, host and port only; credentials are kept apart so they never end up in messages
+  url: URL;
+  username: string;
+  password: string;
+  source: 'instance' | 'environment';
+  // Resolves the proxy's own hostname. Set for environment proxies so they are held to the network policy;
+  // the instance proxy is configured by the administrator and usually sits on an internal network.
+  lookup?: LookupFunction;
+}
+
+// Environment proxy settings as stored on the entity, with the password encrypted
+export type StoredProxySettings = Omit<EnvironmentProxySettings, 'hasPassword'>;
+
+const DEFAULT_PORTS: Record<string, number> = { 'http:': 80, 'https:': 443, 'socks5:': 1080, 'socks5h:': 1080 };
+
+// Longest CONNECT response head accepted from a proxy
+const MAX_CONNECT_RESPONSE = 16 * 1024;
+
+const SOCKS_REPLIES: Record<number, string> = {
+  1: 'general failure',
+  2: 'connection not allowed by ruleset',
+  3: 'network unreachable',
+  4: 'host unreachable',
+  5: 'connection refused',
+  6: 'TTL expired',
+  7: 'command not supported',
+  8: 'address type not supported',
+};
+
+const stripBrackets = (hostname: string) => hostname.replace(/^\[|\]$/g, '');
+
+/**
+ * Proxy URL without credentials, for messages and the response metadata
+ */
+export const describeProxy = (proxy: UpstreamProxy) => `${proxy.url.protocol}//${proxy.url.host}`;
+
+export const isSocksProxy = (proxy: UpstreamProxy) => proxy.url.protocol.startsWith('socks');
+
+/**
+ * Proxy-Authorization header value for HTTP(S) proxies with credentials
+ */
+export function proxyAuthorization(proxy: UpstreamProxy): string | undefined {
+  if (!proxy.username && !proxy.password) return undefined;
+  return `Basic ${Buffer.from(`${proxy.username}:${proxy.password}`).toString('base64')}`;
+}
+
+// Entries can carry a port (host:port, [v6]:port), which then has to match as well
+function parseNoProxyEntry(entry: string): { host: string; port?: string } {
+  const bracketed = entry.match(/^\[([^\]]+)\](?::(\d+))?$/);
+  if (bracketed) return { host: bracketed[1], port: bracketed[2] };
+  const withPort = entry.match(/^([^:]+):(\d+)$/);
+  if (withPort) return { host: withPort[1], port: withPort[2] };
+  return { host: entry };
+}
+
+function inCidr(address: string, cidr: string): boolean {
+  const [network, prefix] = cidr.split('/');
+  const type = isIP(network);
+  if (!type || !/^\d+$/.test(prefix) || isIP(address) !== type) return false;
+  try {
+    const list = new BlockList();
+    list.addSubnet(network, Number(prefix), type === 6 ? 'ipv6' : 'ipv4');
+    return list.check(address, type === 6 ? 'ipv6' : 'ipv4');
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Whether a target is on a NO_PROXY list. "example.com" and ".example.com" both cover the domain and
+ * its subdomains, as in curl
+ */
+export function bypassesProxy(target: URL, noProxy: string): boolean {
+  const hostname = normalizeAddress(stripBrackets(target.hostname).toLowerCase());
+  const port = target.port || String(DEFAULT_PORTS[target.protocol] || '');
+
+  return noProxy.split(/[\s,]+/).filter(Boolean).some(entry => {
+    if (entry === '*') return true;
+    const { host, port: entryPort } = parseNoProxyEntry(entry.toLowerCase());
+    if (entryPort && entryPort !== port) return false;
+    if (host.includes('/')) return inCidr(hostname, host);
+    if (isIP(host)) return normalizeAddress(host) === hostname;
+    const domain = host.replace(/^\*?\./, '');
+    return hostname === domain || hostname.endsWith(`.${domain}`);
+  });
+}
+
+const readVariable = (name: string) => process.env[name.toLowerCase()] || process.env[name] || '';
+
+// The instance proxy variables are read once per server process, like the network policy
+let instanceProxies: { 'http:': UpstreamProxy | null; 'https:': UpstreamProxy | null; noProxy: string } | null = null;
+
+function parseInstanceProxy(names: string[]): UpstreamProxy | null {
+  const name = names.find(candidate => readVariable(candidate));
+  if (!name) return null;
+
+  const value = readVariable(name).trim();
+  let url: URL;
+  try {
+    // A bare host:port means an HTTP proxy, as in curl
+    url = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(value) ? value : `http://${value}`);
+  } catch {
+    throw new Error(`Invalid proxy URL in ${name}`);
+  }
+  if (!(url.protocol in DEFAULT_PORTS) || !url.hostname) {
+    throw new Error(`Unsupported proxy URL in ${name}; use http://, https://, socks5:// or socks5h://`);
+  }
+
+  return {
+    url: new URL(`${url.protocol}//${url.host}`),
+    username: decodeURIComponent(url.username),
+    password: decodeURIComponent(url.password),
+    source: 'instance',
+  };
+}
+
+/**
+ * The instance-wide proxy for a target, or null when there is none or NO_PROXY covers the target
+ */
+export function instanceProxyFor(target: URL): UpstreamProxy | null {
+  if (!instanceProxies) {
+    instanceProxies = {
+      'http:': parseInstanceProxy(['HTTP_PROXY', 'ALL_PROXY']),
+      'https:': parseInstanceProxy(['HTTPS_PROXY', 'ALL_PROXY']),
+      noProxy: readVariable('NO_PROXY'),
+    };
+  }
+  const proxy = target.protocol === 'https:' ? instanceProxies['https:'] : instanceProxies['http:'];
+  return proxy && !bypassesProxy(target, instanceProxies.noProxy) ? proxy : null;
+}
+
+/**
+ * Pick the proxy for each hop of a request sent with an environment's settings. `lookup` resolves
+ * the environment's own proxy host, so users cannot point it at addresses the policy blocks.
+ */
+export function createProxySelector(settings: StoredProxySettings | null | undefined, lookup?: LookupFunction): (target: URL) => UpstreamProxy | null {
+  if (settings?.mode === 'none') return () => null;
+  if (settings?.mode !== 'custom') return instanceProxyFor;
+
+  const url = new URL(settings.url.trim());
+  const proxy: UpstreamProxy = {
+    url: new URL(`${url.protocol}//${url.host}`),
+    username: settings.username,
+    password: settings.password ? decryptSecret(settings.password) : '',
+    source: 'environment',
+    lookup,
+  };
+  return target => (bypassesProxy(target, settings.noProxy) ? null : proxy);
+}
+
+/**
+ * Proxy settings to store from what the environment editor sent. The password is encrypted, and
+ * left as it was when none is sent; an empty string removes it.
+ */
+export function storeProxySettings(input: Partial<EnvironmentProxySettings> | undefined, existing?: StoredProxySettings | null): StoredProxySettings {
+  const mode = input?.mode && ['inherit', 'none', 'custom'].includes(input.mode) ? input.mode : 'inherit';
+  const password = input?.password === undefined
+    ? existing?.password
+    : input.password ? encryptSecret(input.password) : undefined;
+  return {
+    mode,
+    url: (input?.url || '').trim(),
+    username: (input?.username || '').trim(),
+    noProxy: (input?.noProxy || '').trim(),
+    ...(password ? { password } : {}),
+  };
+}
+
+/**
+ * Proxy settings as returned by the API: the password is replaced by whether one is stored
+ */
+export function publicProxySettings(stored: StoredProxySettings | null | undefined): EnvironmentProxySettings {
+  const { password, ...settings } = stored || DEFAULT_PROXY_SETTINGS;
+  return { ...settings, hasPassword: Boolean(password) };
+}
+
+/**
+ * Describe a failure to reach or talk to the proxy; policy refusals and cancellations keep their own error
+ */
+export function proxyError(proxy: UpstreamProxy, error: Error | unknown): Error {
+  if (error instanceof NetworkPolicyError || (error instanceof Error && error.name === 'AbortError')) {
+    return error;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  const wrapped: NodeJS.ErrnoException = new Error(`Proxy ${describeProxy(proxy)}: ${message}`);
+  wrapped.code = (error as NodeJS.ErrnoException | undefined)?.code;
+  return wrapped;
+}
+
+/**
+ * Open a connection to the proxy itself: TCP, or TLS for https:// proxies
+ */
+export function connectToProxy(proxy: UpstreamProxy): Socket {
+  const host = stripBrackets(proxy.url.hostname);
+  const port = Number(proxy.url.port) || DEFAULT_PORTS[proxy.url.protocol];
+  if (proxy.url.protocol === 'https:') {
+    return tls.connect({ host, port, servername: isIP(host) ? undefined : host, lookup: proxy.lookup });
+  }
+  return net.connect({ host, port, lookup: proxy.lookup });
+}
+
+// Reads the handshake replies off the socket in paused mode, so nothing meant for the tunnel is consumed
+function handshakeReader(socket: Socket) {
+  let buffered = Buffer.alloc(0);
+  let failure: Error | null = null;
+  let wake: (() => void) | null = null;
+
+  const onReadable = () => {
+    let chunk: Buffer | null;
+    while ((chunk = socket.read()) !== null) {
+      buffered = Buffer.concat([buffered, chunk]);
+    }
+    wake?.();
+  };
+  const onEnd = () => {
+    failure = failure || new Error('closed the connection during the handshake');
+    wake?.();
+  };
+  const onError = (error: Error) => {
+    failure = error;
+    wake?.();
+  };
+  socket.on('readable', onReadable);
+  socket.on('end', onEnd);
+  socket.on('close', onEnd);
+  socket.on('error', onError);
+
+  const waitFor = async (ready: () => number) => {
+    let end = ready();
+    while (end < 0) {
+      if (failure) throw failure;
+      await new Promise<void>(resolve => { wake = resolve; });
+      wake = null;
+      end = ready();
+    }
+    const chunk = buffered.subarray(0, end);
+    buffered = buffered.subarray(end);
+    return chunk;
+  };
+
+  return {
+    read: (size: number) => waitFor(() => (buffered.length >= size ? size : -1)),
+    readUntil: (delimiter: string, limit: number) => waitFor(() => {
+      const index = buffered.indexOf(delimiter);
+      if (index < 0 && buffered.length > limit) throw new Error('sent a response that is too large');
+      return index < 0 ? -1 : index + delimiter.length;
+    }),
+    // Hand the socket over to the tunnel, with anything read past the handshake put back
+    release: () => {
+      socket.off('readable', onReadable);
+      socket.off('end', onEnd);
+      socket.off('close', onEnd);
+      socket.off('error', onError);
+      if (buffered.length > 0) socket.unshift(buffered);
+    },
+  };
+}
+
+type HandshakeReader = ReturnType<typeof handshakeReader>;
+
+const formatAuthority = (host: string, port: number) => (isIP(host) === 6 ? `[${host}]:${port}` : `${host}:${port}`);
+
+async function connectHandshake(socket: Socket, reader: HandshakeReader, proxy: UpstreamProxy, host: string, port: number): Promise<void> {
+  const authority = formatAuthority(host, port);
+  const authorization = proxyAuthorization(proxy);
+  socket.write(`CONNECT ${authority} HTTP/1.1\r\nHost: ${authority}\r\n${authorization ? `Proxy-Authorization: ${authorization}\r\n` : ''}\r\n`);
+
+  const head = (await reader.readUntil('\r\n\r\n', MAX_CONNECT_RESPONSE)).toString('latin1');
+  const status = head.match(/^HTTP\/1\.[01] (\d{3})[^\S\r\n]*([^\r\n]*)/);
+  if (!status) {
+    throw new Error('sent an invalid response to CONNECT');
+  }
+  if (!status[1].startsWith('2')) {
+    throw new Error(`refused the tunnel to ${authority} (${status[1]}${status[2] ? ` ${status[2]}` : ''})`);
+  }
+}
+
+function ipv6Bytes(address: string): Buffer {
+  // The URL parser prints IPv6 compressed, with any embedded IPv4 as hex groups
+  const canonical = new URL(`http://[${address}]`).hostname.slice(1, -1);
+  const [head, tail] = canonical.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail ? tail.split(':') : [];
+  const groups = tail === undefined
+    ? headGroups
+    : [...headGroups, ...Array(8 - headGroups.length - tailGroups.length).fill('0'), ...tailGroups];
+
+  const bytes = Buffer.alloc(16);
+  groups.forEach((group, index) => bytes.writeUInt16BE(parseInt(group, 16), index * 2));
+  return bytes;
+}
+
+// SOCKS5 (RFC 1928) CONNECT, with username/password authentication (RFC 1929) when credentials are set
+async function socksHandshake(socket: Socket, reader: HandshakeReader, proxy: UpstreamProxy, host: string, port: number): Promise<void> {
+  const hasCredentials = Boolean(proxy.username || proxy.password);
+  socket.write(Buffer.from(hasCredentials ? [5, 2, 0, 2] : [5, 1, 0]));
+
+  const [version, method] = await reader.read(2);
+  if (version !== 5) {
+    throw new Error('is not a SOCKS5 proxy');
+  }
+  if (method === 2 && hasCredentials) {
+    const username = Buffer.from(proxy.username);
+    const password = Buffer.from(proxy.password);
+    if (username.length > 255 || password.length > 255) {
+      throw new Error('SOCKS usernames and passwords can be at most 255 bytes');
+    }
+    socket.write(Buffer.concat([Buffer.from([1, username.length]), username, Buffer.from([password.length]), password]));
+    const [, status] = await reader.read(2);
+    if (status !== 0) {
+      throw new Error('rejected the username or password');
+    }
+  } else if (method !== 0) {
+    throw new Error(hasCredentials ? 'accepts none of the offered authentication methods' : 'requires a username and password');
+  }
+
+  let address: Buffer;
+  const type = isIP(host);
+  if (type === 4) {
+    address = Buffer.from([1, ...host.split('.').map(Number)]);
+  } else if (type === 6) {
+    address = Buffer.concat([Buffer.from([4]), ipv6Bytes(host)]);
+  } else {
+    const name = Buffer.from(host);
+    if (name.length > 255) {
+      throw new Error('cannot connect to hostnames longer than 255 bytes');
+    }
+    address = Buffer.concat([Buffer.from([3, name.length]), name]);
+  }
+  const portBytes = Buffer.alloc(2);
+  portBytes.writeUInt16BE(port);
+  socket.write(Buffer.concat([Buffer.from([5, 1, 0]), address, portBytes]));
+
+  const [, reply, , addressType] = await reader.read(4);
+  if (reply !== 0) {
+    throw new Error(`could not connect to ${formatAuthority(host, port)} (${SOCKS_REPLIES[reply] || `error ${reply}`})`);
+  }
+  // Skip the address and port the proxy bound for the connection
+  const addressLength = addressType === 1 ? 4 : addressType === 4 ? 16 : (await reader.read(1))[0];
+  await reader.read(addressLength + 2);
+}
+
+function resolveHost(hostname: string, lookup: LookupFunction): Promise<string> {
+  return new Promise((resolve, reject) => {
+    lookup(hostname, {}, (error, address) => (error ? reject(error) : resolve(address as string)));
+  });
+}
+
+/**
+ * Open a tunnel through the proxy to host:port and resolve with the socket once it is ready for the
+ * target's bytes. `lookup` resolves the target for socks5:// proxies, which expect an address;
+ * `onSocket` is given the connection to the proxy as soon as it is opened, e.g. to time it or cancel it.
+ */
+export async function openTunnel(
+  proxy: UpstreamProxy,
+  hostname: string,
+  port: number,
+  options: { lookup?: LookupFunction; onSocket?: (socket: Socket) => void } = {}
+): Promise<Socket> {
+  const host = stripBrackets(hostname);
+  let target = host;
+  if (proxy.url.protocol === 'socks5:' && !isIP(host)) {
+    target = await resolveHost(host, options.lookup || (dns.lookup as LookupFunction));
+  }
+
+  const socket = connectToProxy(proxy);
+  options.onSocket?.(socket);
+  const reader = handshakeReader(socket);
+  try {
+    if (isSocksProxy(proxy)) {
+      await socksHandshake(socket, reader, proxy, target, port);
+    } else {
+      await connectHandshake(socket, reader, proxy, target, port);
+    }
+  } catch (error: Error | unknown) {
+    socket.destroy();
+    throw proxyError(proxy, error);
+  }
+  reader.release();
+  return socket;
+}
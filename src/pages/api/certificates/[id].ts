@@ -0,0 +1,61 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { withORM } from '../../../lib/db';
+import { Certificate } from '../../../entities/Certificate';
+import { User } from '../../../entities/User.entity';
+import jwt from 'jsonwebtoken';
+
+const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key';
+
+async function getUserFromToken(token: string) {
+  try {
+    const decoded = jwt.verify(token, JWT_SECRET) as { userId: number };
+    return await withORM(async (em) => {
+      return em.findOne(User, { id: decoded.userId });
+    });
+  } catch {
+    return null;
+  }
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const token = req.headers.authorization?.replace('Bearer ', '');
+  if (!token) {
+    return res.status(401).json({ error: 'No token provided' });
+  }
+
+  const user = await getUserFromToken(token);
+  if (!user) {
+    return res.status(401).json({ error: 'Invalid token' });
+  }
+
+  const { id } = req.query;
+  const certificateId = parseInt(id as string);
+
+  // Certificates are replaced rather than edited, so their secrets are only ever written once
+  if (req.method === 'DELETE') {
+    try {
+      const deleted = await withORM(async (em) => {
+        const certificate = await em.findOne(Certificate, { id: certificateId, user });
+
+        if (!certificate) {
+          return false;
+        }
+
+        await em.removeAndFlush(certificate);
+        return true;
+      });
+
+      if (!deleted) {
+        return res.status(404).json({ error: 'Certificate not found' });
+      }
+
+      res.status(204).end();
+    } catch (error) {
+      console.error('Error deleting certificate:', error);
+      res.status(500).json({ error: 'Failed to delete certificate' });
+    }
+  } else {
+    res.setHeader('Allow', ['DELETE']);
+    res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+}
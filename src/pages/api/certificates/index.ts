@@ -0,0 +1,118 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { withORM } from '../../../lib/db';
+import { encryptSecret } from '../../../lib/crypto';
+import { inspectCertificate, CertificateInput } from '../../../lib/certificates';
+import { Certificate } from '../../../entities/Certificate';
+import { User } from '../../../entities/User.entity';
+import jwt from 'jsonwebtoken';
+
+const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key';
+
+const CERTIFICATE_TYPES = ['ca', 'pem', 'pfx'];
+
+// PFX archives and CA bundles arrive base64 or PEM encoded in the JSON body
+export const config = {
+  api: {
+    bodyParser: {
+      sizeLimit: '5mb',
+    },
+  },
+};
+
+async function getUserFromToken(token: string) {
+  try {
+    const decoded = jwt.verify(token, JWT_SECRET) as { userId: number };
+    return await withORM(async (em) => {
+      return em.findOne(User, { id: decoded.userId });
+    });
+  } catch {
+    return null;
+  }
+}
+
+// Secrets never leave the server; the list only describes each certificate
+function formatCertificate(certificate: Certificate) {
+  return {
+    id: certificate.id.toString(),
+    name: certificate.name,
+    type: certificate.type,
+    subject: certificate.subject || null,
+    expiresAt: certificate.expiresAt ? certificate.expiresAt.getTime() : null,
+    hasPassphrase: !!certificate.passphrase,
+    createdAt: certificate.createdAt.getTime()
+  };
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const token = req.headers.authorization?.replace('Bearer ', '');
+  if (!token) {
+    return res.status(401).json({ error: 'No token provided' });
+  }
+
+  const user = await getUserFromToken(token);
+  if (!user) {
+    return res.status(401).json({ error: 'Invalid token' });
+  }
+
+  if (req.method === 'GET') {
+    try {
+      const certificates = await withORM(async (em) => {
+        return em.find(Certificate, { user }, { orderBy: { name: 'ASC' } });
+      });
+
+      res.json(certificates.map(formatCertificate));
+    } catch (error) {
+      console.error('Error fetching certificates:', error);
+      res.status(500).json({ error: 'Failed to fetch certificates' });
+    }
+  } else if (req.method === 'POST') {
+    const { name, type, data, privateKey, passphrase } = req.body as CertificateInput & { name?: string };
+
+    if (!name || !CERTIFICATE_TYPES.includes(type)) {
+      return res.status(400).json({ error: 'Certificate name and type are required' });
+    }
+
+    let details: { subject?: string; expiresAt?: Date };
+    try {
+      details = inspectCertificate({ type, data, privateKey, passphrase });
+    } catch (error: Error | unknown) {
+      return res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid certificate' });
+    }
+
+    try {
+      const certificate = await withORM(async (em) => {
+        const existing = await em.findOne(Certificate, { user, name });
+        if (existing) {
+          return null;
+        }
+
+        const created = em.create(Certificate, {
+          name,
+          type,
+          data: encryptSecret(data),
+          privateKey: type === 'pem' && privateKey ? encryptSecret(privateKey) : undefined,
+          passphrase: passphrase ? encryptSecret(passphrase) : undefined,
+          ...details,
+          user,
+          createdAt: new Date(),
+          updatedAt: new Date()
+        });
+
+        await em.persistAndFlush(created);
+        return created;
+      });
+
+      if (!certificate) {
+        return res.status(409).json({ error: 'A certificate with this name already exists' });
+      }
+
+      res.status(201).json(formatCertificate(certificate));
+    } catch (error) {
+      console.error('Error saving certificate:', error);
+      res.status(500).json({ error: 'Failed to save certificate' });
+    }
+  } else {
+    res.setHeader('Allow', ['GET', 'POST']);
+    res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+}
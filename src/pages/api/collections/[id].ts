@@ -34,7 +34,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
   if (req.method === 'PUT') {
     try {
-      const { name, requests = [] } = req.body;
+      const { name, requests = [], auth, settings, variables } = req.body;
 
       const collection = await withORM(async (em) => {
         const existingCollection = await em.findOne(Collection, { id: collectionId, user }, { populate: ['requests'] });
@@ -52,12 +52,21 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         }
 
         existingCollection.name = name;
+        if (auth !== undefined) {
+          existingCollection.auth = auth;
+        }
+        if (settings !== undefined) {
+          existingCollection.settings = settings;
+        }
+        if (variables !== undefined) {
+          existingCollection.variables = variables;
+        }
 
-        // Check for duplicate request names
-        const requestNames = requests.map((r: { name: string }) => r.name);
+        // Check for duplicate request names within the same folder
+        const requestNames = requests.map((r: { name: string; folder?: string }) => `${r.folder || ''}/${r.name}`);
         const uniqueNames = new Set(requestNames);
         if (requestNames.length !== uniqueNames.size) {
-          throw new Error('Duplicate request names are not allowed within the same collection');
+          throw new Error('Duplicate request names are not allowed within the same collection folder');
         }
 
         // Remove existing requests (orphanRemoval will handle deletion)
@@ -84,14 +93,29 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       const formattedCollection = {
         id: collection.id.toString(),
         name: collection.name,
+        auth: collection.auth || { type: 'none' },
+        settings: collection.settings || {},
+        variables: collection.variables || [],
         requests: collection.requests.getItems().map(request => ({
           id: request.id.toString(),
           name: request.name,
+          folder: request.folder || '',
           method: request.method,
           url: request.url,
           headers: request.headers,
           body: request.body,
-          bodyType: request.bodyType
+          bodyType: request.bodyType,
+          preRequestScript: request.preRequestScript || '',
+          testScript: request.testScript || '',
+          assertions: request.assertions || [],
+          auth: request.auth || { type: 'inherit' },
+          graphql: request.graphql,
+          formData: request.formData,
+          binary: request.binary,
+          websocket: request.websocket,
+          grpc: request.grpc,
+          settings: request.settings,
+          variables: request.variables || []
         }))
       };
 
@@ -38,14 +38,29 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       const formattedCollections = collections.map(collection => ({
         id: collection.id.toString(),
         name: collection.name,
+        auth: collection.auth || { type: 'none' },
+        settings: collection.settings || {},
+        variables: collection.variables || [],
         requests: collection.requests.getItems().map(request => ({
           id: request.id.toString(),
           name: request.name,
+          folder: request.folder || '',
           method: request.method,
           url: request.url,
           headers: request.headers,
           body: request.body,
-          bodyType: request.bodyType
+          bodyType: request.bodyType,
+          preRequestScript: request.preRequestScript || '',
+          testScript: request.testScript || '',
+          assertions: request.assertions || [],
+          auth: request.auth || { type: 'inherit' },
+          graphql: request.graphql,
+          formData: request.formData,
+          binary: request.binary,
+          websocket: request.websocket,
+          grpc: request.grpc,
+          settings: request.settings,
+          variables: request.variables || []
         }))
       }));
 
@@ -56,7 +71,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     }
   } else if (req.method === 'POST') {
     try {
-      const { name, requests = [] } = req.body;
+      const { name, requests = [], auth, settings, variables } = req.body;
 
       if (!name) {
         return res.status(400).json({ error: 'Collection name is required' });
@@ -75,6 +90,9 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         const newCollection = em.create(Collection, {
           name: name as string,
           user,
+          auth,
+          settings,
+          variables,
           createdAt: new Date(),
           updatedAt: new Date()
         });
@@ -98,14 +116,29 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       const formattedCollection = {
         id: collection.id.toString(),
         name: collection.name,
+        auth: collection.auth || { type: 'none' },
+        settings: collection.settings || {},
+        variables: collection.variables || [],
         requests: collection.requests.getItems().map(request => ({
           id: request.id.toString(),
           name: request.name,
+          folder: request.folder || '',
           method: request.method,
           url: request.url,
           headers: request.headers,
           body: request.body,
-          bodyType: request.bodyType
+          bodyType: request.bodyType,
+          preRequestScript: request.preRequestScript || '',
+          testScript: request.testScript || '',
+          assertions: request.assertions || [],
+          auth: request.auth || { type: 'inherit' },
+          graphql: request.graphql,
+          formData: request.formData,
+          binary: request.binary,
+          websocket: request.websocket,
+          grpc: request.grpc,
+          settings: request.settings,
+          variables: request.variables || []
         }))
       };
 
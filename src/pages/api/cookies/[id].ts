@@ -0,0 +1,111 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { withORM } from '../../../lib/db';
+import { Cookie } from '../../../entities/Cookie';
+import { User } from '../../../entities/User.entity';
+import jwt from 'jsonwebtoken';
+
+const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key';
+
+async function getUserFromToken(token: string) {
+  try {
+    const decoded = jwt.verify(token, JWT_SECRET) as { userId: number };
+    return await withORM(async (em) => {
+      return em.findOne(User, { id: decoded.userId });
+    });
+  } catch {
+    return null;
+  }
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const token = req.headers.authorization?.replace('Bearer ', '');
+  if (!token) {
+    return res.status(401).json({ error: 'No token provided' });
+  }
+
+  const user = await getUserFromToken(token);
+  if (!user) {
+    return res.status(401).json({ error: 'Invalid token' });
+  }
+
+  const { id } = req.query;
+  const cookieId = parseInt(id as string);
+
+  if (req.method === 'PUT') {
+    try {
+      const { name, value, domain, path, expires, httpOnly, secure, sameSite, hostOnly } = req.body;
+
+      if (!name || !domain) {
+        return res.status(400).json({ error: 'Cookie name and domain are required' });
+      }
+
+      const cookie = await withORM(async (em) => {
+        const existingCookie = await em.findOne(Cookie, { id: cookieId, user });
+
+        if (!existingCookie) {
+          return null;
+        }
+
+        existingCookie.name = name as string;
+        existingCookie.value = (value as string) || '';
+        existingCookie.domain = (domain as string).replace(/^\./, '').toLowerCase();
+        existingCookie.path = (path as string) || '/';
+        existingCookie.expires = expires ? new Date(expires) : undefined;
+        existingCookie.httpOnly = !!httpOnly;
+        existingCookie.secure = !!secure;
+        existingCookie.sameSite = sameSite || undefined;
+        if (hostOnly !== undefined) {
+          existingCookie.hostOnly = !!hostOnly;
+        }
+
+        await em.persistAndFlush(existingCookie);
+        return existingCookie;
+      });
+
+      if (!cookie) {
+        return res.status(404).json({ error: 'Cookie not found' });
+      }
+
+      res.json({
+        id: cookie.id.toString(),
+        name: cookie.name,
+        value: cookie.value,
+        domain: cookie.domain,
+        path: cookie.path,
+        expires: cookie.expires ? cookie.expires.getTime() : null,
+        httpOnly: cookie.httpOnly,
+        secure: cookie.secure,
+        sameSite: cookie.sameSite || null,
+        hostOnly: cookie.hostOnly
+      });
+    } catch (error) {
+      console.error('Error updating cookie:', error);
+      res.status(500).json({ error: 'Failed to update cookie' });
+    }
+  } else if (req.method === 'DELETE') {
+    try {
+      const deleted = await withORM(async (em) => {
+        const cookie = await em.findOne(Cookie, { id: cookieId, user });
+
+        if (!cookie) {
+          return false;
+        }
+
+        await em.removeAndFlush(cookie);
+        return true;
+      });
+
+      if (!deleted) {
+        return res.status(404).json({ error: 'Cookie not found' });
+      }
+
+      res.status(204).end();
+    } catch (error) {
+      console.error('Error deleting cookie:', error);
+      res.status(500).json({ error: 'Failed to delete cookie' });
+    }
+  } else {
+    res.setHeader('Allow', ['PUT', 'DELETE']);
+    res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+}
@@ -0,0 +1,117 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { withORM } from '../../../lib/db';
+import { Cookie } from '../../../entities/Cookie';
+import { User } from '../../../entities/User.entity';
+import jwt from 'jsonwebtoken';
+
+const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key';
+
+async function getUserFromToken(token: string) {
+  try {
+    const decoded = jwt.verify(token, JWT_SECRET) as { userId: number };
+    return await withORM(async (em) => {
+      return em.findOne(User, { id: decoded.userId });
+    });
+  } catch {
+    return null;
+  }
+}
+
+function formatCookie(cookie: Cookie) {
+  return {
+    id: cookie.id.toString(),
+    name: cookie.name,
+    value: cookie.value,
+    domain: cookie.domain,
+    path: cookie.path,
+    expires: cookie.expires ? cookie.expires.getTime() : null,
+    httpOnly: cookie.httpOnly,
+    secure: cookie.secure,
+    sameSite: cookie.sameSite || null,
+    hostOnly: cookie.hostOnly
+  };
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const token = req.headers.authorization?.replace('Bearer ', '');
+  if (!token) {
+    return res.status(401).json({ error: 'No token provided' });
+  }
+
+  const user = await getUserFromToken(token);
+  if (!user) {
+    return res.status(401).json({ error: 'Invalid token' });
+  }
+
+  const domain = typeof req.query.domain === 'string' ? req.query.domain.toLowerCase() : undefined;
+
+  if (req.method === 'GET') {
+    try {
+      const cookies = await withORM(async (em) => {
+        return em.find(Cookie, domain ? { user, domain } : { user }, { orderBy: { domain: 'ASC', path: 'ASC', name: 'ASC' } });
+      });
+
+      res.json(cookies.map(formatCookie));
+    } catch (error) {
+      console.error('Error fetching cookies:', error);
+      res.status(500).json({ error: 'Failed to fetch cookies' });
+    }
+  } else if (req.method === 'POST') {
+    try {
+      const { name, value, domain: cookieDomain, path, expires, httpOnly, secure, sameSite, hostOnly } = req.body;
+
+      if (!name || !cookieDomain) {
+        return res.status(400).json({ error: 'Cookie name and domain are required' });
+      }
+
+      const cookie = await withORM(async (em) => {
+        const normalizedDomain = (cookieDomain as string).replace(/^\./, '').toLowerCase();
+        const cookiePath = (path as string) || '/';
+
+        const fields = {
+          value: (value as string) || '',
+          expires: expires ? new Date(expires) : undefined,
+          httpOnly: !!httpOnly,
+          secure: !!secure,
+          sameSite: sameSite || undefined,
+          hostOnly: hostOnly !== undefined ? !!hostOnly : true
+        };
+
+        // Setting an existing name/domain/path replaces it, as a Set-Cookie would
+        const existing = await em.findOne(Cookie, { user, domain: normalizedDomain, path: cookiePath, name: name as string });
+        const target = existing ? Object.assign(existing, fields) : em.create(Cookie, {
+          ...fields,
+          name: name as string,
+          domain: normalizedDomain,
+          path: cookiePath,
+          user,
+          createdAt: new Date(),
+          updatedAt: new Date()
+        });
+
+        await em.persistAndFlush(target);
+        return target;
+      });
+
+      res.status(201).json(formatCookie(cookie));
+    } catch (error) {
+      console.error('Error saving cookie:', error);
+      res.status(500).json({ error: 'Failed to save cookie' });
+    }
+  } else if (req.method === 'DELETE') {
+    // Clears the whole jar, or a single domain with ?domain=
+    try {
+      await withORM(async (em) => {
+        await em.nativeDelete(Cookie, domain ? { user, domain } : { user });
+      });
+
+      res.status(204).end();
+    } catch (error) {
+      console.error('Error clearing cookies:', error);
+      res.status(500).json({ error: 'Failed to clear cookies' });
+    }
+  } else {
+    res.setHeader('Allow', ['GET', 'POST', 'DELETE']);
+    res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+}
@@ -2,6 +2,9 @@ import { NextApiRequest, NextApiResponse } from 'next';
 import { withORM } from '../../../lib/db';
 import { Environment } from '../../../entities/Environment';
 import { User } from '../../../entities/User.entity';
+import { publicProxySettings, storeProxySettings } from '../../../lib/upstreamProxy';
+import { readVariables, storeVariables } from '../../../lib/secretVariables';
+import { validateProxyUrl } from '../../../utils/proxySettings';
 import jwt from 'jsonwebtoken';
 
 const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key';
@@ -33,7 +36,12 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
   if (req.method === 'PUT') {
     try {
-      const { name, variables = [] } = req.body;
+      const { name, variables = [], proxy } = req.body;
+
+      const proxyError = proxy?.mode === 'custom' ? validateProxyUrl(proxy.url || '') : null;
+      if (proxyError) {
+        return res.status(400).json({ error: proxyError });
+      }
 
       const environment = await withORM(async (em) => {
         const existingEnvironment = await em.findOne(Environment, { id: environmentId, user });
@@ -43,7 +51,11 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         }
 
         existingEnvironment.name = name;
-        existingEnvironment.variables = variables;
+        existingEnvironment.variables = storeVariables(variables, existingEnvironment.variables);
+        // Left out when only the variables change, e.g. when a script sets one
+        if (proxy !== undefined) {
+          existingEnvironment.proxy = storeProxySettings(proxy, existingEnvironment.proxy);
+        }
 
         await em.flush();
         return existingEnvironment;
@@ -56,7 +68,8 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       const formattedEnvironment = {
         id: environment.id.toString(),
         name: environment.name,
-        variables: environment.variables
+        variables: readVariables(environment.variables),
+        proxy: publicProxySettings(environment.proxy)
       };
 
       res.json(formattedEnvironment);
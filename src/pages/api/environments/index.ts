@@ -2,6 +2,9 @@ import { NextApiRequest, NextApiResponse } from 'next';
 import { withORM } from '../../../lib/db';
 import { Environment } from '../../../entities/Environment';
 import { User } from '../../../entities/User.entity';
+import { publicProxySettings, storeProxySettings } from '../../../lib/upstreamProxy';
+import { readVariables, storeVariables } from '../../../lib/secretVariables';
+import { validateProxyUrl } from '../../../utils/proxySettings';
 import jwt from 'jsonwebtoken';
 
 const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key';
@@ -37,7 +40,8 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       const formattedEnvironments = environments.map(env => ({
         id: env.id.toString(),
         name: env.name,
-        variables: env.variables
+        variables: readVariables(env.variables),
+        proxy: publicProxySettings(env.proxy)
       }));
 
       res.json(formattedEnvironments);
@@ -47,16 +51,22 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     }
   } else if (req.method === 'POST') {
     try {
-      const { name, variables = [] } = req.body;
+      const { name, variables = [], proxy } = req.body;
 
       if (!name) {
         return res.status(400).json({ error: 'Environment name is required' });
       }
 
+      const proxyError = proxy?.mode === 'custom' ? validateProxyUrl(proxy.url || '') : null;
+      if (proxyError) {
+        return res.status(400).json({ error: proxyError });
+      }
+
       const environment = await withORM(async (em) => {
         const newEnvironment = em.create(Environment, {
           name: name as string,
-          variables: variables as { key: string; value: string; enabled: boolean }[],
+          variables: storeVariables(variables),
+          proxy: proxy ? storeProxySettings(proxy) : undefined,
           user,
           createdAt: new Date(),
           updatedAt: new Date()
@@ -69,7 +79,8 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       const formattedEnvironment = {
         id: environment.id.toString(),
         name: environment.name,
-        variables: environment.variables
+        variables: readVariables(environment.variables),
+        proxy: publicProxySettings(environment.proxy)
       };
 
       res.status(201).json(formattedEnvironment);
@@ -0,0 +1,119 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { createHash } from 'crypto';
+import { withORM } from '../../../lib/db';
+import { StoredFile } from '../../../entities/StoredFile';
+import { User } from '../../../entities/User.entity';
+import { MAX_FILE_SIZE, formatFileSize } from '../../../utils/storedFiles';
+import jwt from 'jsonwebtoken';
+
+const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key';
+
+// Uploads are the raw file bytes, with the file name in the query string and its type in Content-Type
+export const config = {
+  api: {
+    bodyParser: false,
+  },
+};
+
+async function getUserFromToken(token: string) {
+  try {
+    const decoded = jwt.verify(token, JWT_SECRET) as { userId: number };
+    return await withORM(async (em) => {
+      return em.findOne(User, { id: decoded.userId });
+    });
+  } catch {
+    return null;
+  }
+}
+
+function formatFile(file: StoredFile) {
+  return {
+    id: file.id.toString(),
+    name: file.name,
+    contentType: file.contentType,
+    size: file.size,
+    sha256: file.sha256,
+    createdAt: file.createdAt.getTime()
+  };
+}
+
+/**
+ * Read the request body, giving up as soon as it grows past the size limit
+ */
+async function readUpload(req: NextApiRequest): Promise<Buffer | null> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_FILE_SIZE) {
+      return null;
+    }
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const token = req.headers.authorization?.replace('Bearer ', '');
+  if (!token) {
+    return res.status(401).json({ error: 'No token provided' });
+  }
+
+  const user = await getUserFromToken(token);
+  if (!user) {
+    return res.status(401).json({ error: 'Invalid token' });
+  }
+
+  if (req.method === 'GET') {
+    try {
+      const files = await withORM(async (em) => {
+        return em.find(StoredFile, { user }, { orderBy: { createdAt: 'DESC' } });
+      });
+
+      res.json(files.map(formatFile));
+    } catch (error) {
+      console.error('Error fetching files:', error);
+      res.status(500).json({ error: 'Failed to fetch files' });
+    }
+  } else if (req.method === 'POST') {
+    const name = typeof req.query.name === 'string' ? req.query.name.trim() : '';
+    if (!name) {
+      return res.status(400).json({ error: 'File name is required' });
+    }
+
+    if (Number(req.headers['content-length']) > MAX_FILE_SIZE) {
+      return res.status(413).json({ error: `Files can be at most ${formatFileSize(MAX_FILE_SIZE)}` });
+    }
+
+    try {
+      const data = await readUpload(req);
+      if (!data) {
+        return res.status(413).json({ error: `Files can be at most ${formatFileSize(MAX_FILE_SIZE)}` });
+      }
+
+      const file = await withORM(async (em) => {
+        const created = em.create(StoredFile, {
+          name,
+          contentType: req.headers['content-type'] || 'application/octet-stream',
+          size: data.length,
+          sha256: createHash('sha256').update(data).digest('hex'),
+          data,
+          user,
+          createdAt: new Date(),
+          updatedAt: new Date()
+        });
+
+        await em.persistAndFlush(created);
+        return created;
+      });
+
+      res.status(201).json(formatFile(file));
+    } catch (error) {
+      console.error('Error saving file:', error);
+      res.status(500).json({ error: 'Failed to save file' });
+    }
+  } else {
+    res.setHeader('Allow', ['GET', 'POST']);
+    res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+}
@@ -0,0 +1,90 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { withORM } from '../../../lib/db';
+import { GlobalVariables } from '../../../entities/GlobalVariables';
+import { User } from '../../../entities/User.entity';
+import jwt from 'jsonwebtoken';
+
+const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key';
+
+interface GlobalVariable {
+  key: string;
+  value: string;
+  enabled: boolean;
+}
+
+const isGlobalVariable = (variable: unknown): variable is GlobalVariable => {
+  const entry = variable as Partial<GlobalVariable> | null;
+  return typeof entry === 'object' && entry !== null &&
+    typeof entry.key === 'string' && typeof entry.value === 'string' && typeof entry.enabled === 'boolean';
+};
+
+async function getUserFromToken(token: string) {
+  try {
+    const decoded = jwt.verify(token, JWT_SECRET) as { userId: number };
+    return await withORM(async (em) => {
+      return em.findOne(User, { id: decoded.userId });
+    });
+  } catch {
+    return null;
+  }
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const token = req.headers.authorization?.replace('Bearer ', '');
+  if (!token) {
+    return res.status(401).json({ error: 'No token provided' });
+  }
+
+  const user = await getUserFromToken(token);
+  if (!user) {
+    return res.status(401).json({ error: 'Invalid token' });
+  }
+
+  if (req.method === 'GET') {
+    try {
+      const globals = await withORM(async (em) => {
+        return em.findOne(GlobalVariables, { user });
+      });
+
+      res.json({ variables: globals?.variables || [] });
+    } catch (error) {
+      console.error('Error fetching global variables:', error);
+      res.status(500).json({ error: 'Failed to fetch global variables' });
+    }
+  } else if (req.method === 'PUT') {
+    try {
+      const { variables } = req.body;
+
+      if (!Array.isArray(variables)) {
+        return res.status(400).json({ error: 'Variables must be an array' });
+      }
+      if (!variables.every(isGlobalVariable)) {
+        return res.status(400).json({ error: 'Each variable needs a string key and value and a boolean enabled' });
+      }
+
+      // A user has a single set of globals, created on first save
+      const globals = await withORM(async (em) => {
+        const existingGlobals = await em.findOne(GlobalVariables, { user });
+        const saved = existingGlobals || em.create(GlobalVariables, {
+          variables: [],
+          user,
+          createdAt: new Date(),
+          updatedAt: new Date()
+        });
+        // Only the known fields are kept; globals have no secret values
+        saved.variables = variables.map(({ key, value, enabled }) => ({ key, value, enabled }));
+
+        await em.persistAndFlush(saved);
+        return saved;
+      });
+
+      res.json({ variables: globals.variables });
+    } catch (error) {
+      console.error('Error updating global variables:', error);
+      res.status(500).json({ error: 'Failed to update global variables' });
+    }
+  } else {
+    res.setHeader('Allow', ['GET', 'PUT']);
+    res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+}
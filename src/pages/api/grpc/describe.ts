@@ -0,0 +1,49 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { NetworkPolicyError, assertHostAllowed } from '../../../lib/networkPolicy';
+import { listServices, loadDefinitions, parseGrpcUrl, toMetadata, GrpcTarget, ProtoFile } from '../../../lib/grpc';
+
+interface DescribeRequestBody {
+  url?: string;
+  source: 'reflection' | 'proto';
+  protoFiles?: ProtoFile[];
+  metadata?: Record<string, string>;
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  res.setHeader('X-Content-Type-Options', 'nosniff');
+  res.setHeader('X-Frame-Options', 'DENY');
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { url, source, protoFiles, metadata = {} }: DescribeRequestBody = req.body;
+
+  // .proto files describe services on their own; only reflection needs to reach the server
+  let target: GrpcTarget = { address: '', hostname: '', port: '', secure: false };
+  if (source === 'reflection') {
+    try {
+      target = parseGrpcUrl(url || '');
+    } catch (error: Error | unknown) {
+      return res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid URL' });
+    }
+
+    // Security: same network policy as /api/proxy, checked ahead of the connection. The client then
+    // connects to the checked address, since grpc-js would otherwise resolve the name again
+    try {
+      target = { ...target, pinnedAddress: await assertHostAllowed(target.hostname) };
+    } catch (error: Error | unknown) {
+      if (error instanceof NetworkPolicyError) {
+        return res.status(error.status).json({ error: error.message, code: error.code });
+      }
+      throw error;
+    }
+  }
+
+  try {
+    const root = await loadDefinitions(source, target, protoFiles, toMetadata(metadata));
+    res.status(200).json({ services: listServices(root) });
+  } catch (error: Error | unknown) {
+    res.status(400).json({ error: error instanceof Error ? error.message : 'Failed to load service definitions' });
+  }
+}
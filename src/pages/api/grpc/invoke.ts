@@ -0,0 +1,143 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import * as grpc from '@grpc/grpc-js';
+import { NetworkPolicyError, assertHostAllowed } from '../../../lib/networkPolicy';
+import {
+  createClient,
+  loadDefinitions,
+  metadataToRecord,
+  parseGrpcUrl,
+  resolveMethod,
+  toMetadata,
+  GrpcTarget,
+  ProtoFile,
+} from '../../../lib/grpc';
+
+// Browsers cannot speak HTTP/2 gRPC framing, so calls are made here and relayed back as NDJSON:
+// one line for the response metadata, one per response message and a final status line with trailers.
+
+interface InvokeRequestBody {
+  url: string;
+  source: 'reflection' | 'proto';
+  protoFiles?: ProtoFile[];
+  service: string;
+  method: string;
+  message?: Record<string, unknown>;
+  metadata?: Record<string, string>;
+}
+
+type CallEvent =
+  | { type: 'metadata'; metadata: Record<string, string> }
+  | { type: 'message'; data: unknown; time: number }
+  | { type: 'status'; code: number; name: string; details: string; trailers: Record<string, string>; time: number };
+
+// Unary calls time out like /api/proxy; server-streaming calls run until the server finishes or the browser cancels
+const UNARY_TIMEOUT = 30000;
+
+export const config = {
+  api: {
+    responseLimit: false,
+  },
+};
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  res.setHeader('X-Content-Type-Options', 'nosniff');
+  res.setHeader('X-Frame-Options', 'DENY');
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { url, source, protoFiles, service, method, message = {}, metadata: headers = {} }: InvokeRequestBody = req.body;
+
+  if (!service || !method) {
+    return res.status(400).json({ error: 'Select a service and method' });
+  }
+
+  let target: GrpcTarget;
+  try {
+    target = parseGrpcUrl(url || '');
+  } catch (error: Error | unknown) {
+    return res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid URL' });
+  }
+
+  // Security: same network policy as /api/proxy, checked ahead of the connection. The client then
+  // connects to the checked address, since grpc-js would otherwise resolve the name again
+  try {
+    target = { ...target, pinnedAddress: await assertHostAllowed(target.hostname) };
+  } catch (error: Error | unknown) {
+    if (error instanceof NetworkPolicyError) {
+      return res.status(error.status).json({ error: error.message, code: error.code });
+    }
+    throw error;
+  }
+
+  let metadata: grpc.Metadata;
+  let resolved: ReturnType<typeof resolveMethod>;
+  let request: Buffer;
+  try {
+    metadata = toMetadata(headers);
+    const root = await loadDefinitions(source, target, protoFiles, metadata);
+    resolved = resolveMethod(root, service, method);
+    if (resolved.clientStreaming) {
+      return res.status(400).json({ error: 'Client-streaming and bidirectional methods are not supported yet' });
+    }
+    request = resolved.encode(message);
+  } catch (error: Error | unknown) {
+    return res.status(400).json({ error: error instanceof Error ? error.message : 'Failed to prepare the call' });
+  }
+
+  res.setHeader('Content-Type', 'application/x-ndjson');
+  res.setHeader('Cache-Control', 'no-store');
+  res.status(200);
+  res.flushHeaders();
+
+  const send = (event: CallEvent) => {
+    if (!res.writableEnded) res.write(`${JSON.stringify(event)}\n`);
+  };
+
+  const client = createClient(target);
+  const startTime = Date.now();
+  const options: grpc.CallOptions = resolved.serverStreaming ? {} : { deadline: startTime + UNARY_TIMEOUT };
+  // Messages are already encoded, so the call only has to pass the bytes through
+  const serialize = (value: Buffer) => value;
+
+  const call = resolved.serverStreaming
+    ? client.makeServerStreamRequest(resolved.path, serialize, resolved.decode, request, metadata, options)
+    : client.makeUnaryRequest(resolved.path, serialize, resolved.decode, request, metadata, options, (error, response) => {
+        if (!error) send({ type: 'message', data: response, time: Date.now() - startTime });
+      });
+
+  call.on('metadata', (responseMetadata: grpc.Metadata) => {
+    send({ type: 'metadata', metadata: metadataToRecord(responseMetadata) });
+  });
+
+  if (resolved.serverStreaming) {
+    call.on('data', (data: unknown) => send({ type: 'message', data, time: Date.now() - startTime }));
+    // Errors also arrive as a status event; without a listener the stream would throw
+    call.on('error', () => undefined);
+  }
+
+  call.on('status', (status: grpc.StatusObject) => {
+    // The unary callback runs before the status event, so the message is already written
+    setImmediate(() => {
+      send({
+        type: 'status',
+        code: status.code,
+        name: grpc.status[status.code] || 'UNKNOWN',
+        details: status.details,
+        trailers: metadataToRecord(status.metadata),
+        time: Date.now() - startTime,
+      });
+      res.end();
+      client.close();
+    });
+  });
+
+  // Stop the call when the browser cancels or disconnects
+  res.on('close', () => {
+    if (!res.writableEnded) {
+      call.cancel();
+      client.close();
+    }
+  });
+}
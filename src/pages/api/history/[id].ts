@@ -31,7 +31,34 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   const { id } = req.query;
   const historyId = parseInt(id as string);
 
-  if (req.method === 'DELETE') {
+  if (req.method === 'GET') {
+    try {
+      const historyItem = await withORM(async (em) => {
+        return em.findOne(History, { id: historyId, user });
+      });
+
+      if (!historyItem) {
+        return res.status(404).json({ error: 'History item not found' });
+      }
+
+      res.json({
+        id: historyItem.id.toString(),
+        method: historyItem.method,
+        url: historyItem.url,
+        status: historyItem.status,
+        duration: historyItem.duration,
+        headers: historyItem.headers || {},
+        body: historyItem.body || '',
+        bodyTruncated: historyItem.bodyTruncated || false,
+        bodyType: historyItem.bodyType,
+        response: historyItem.response && { ...historyItem.response, timings: historyItem.timings },
+        timestamp: historyItem.createdAt.getTime()
+      });
+    } catch (error) {
+      console.error('Error fetching history item:', error);
+      res.status(500).json({ error: 'Failed to fetch history item' });
+    }
+  } else if (req.method === 'DELETE') {
     try {
       const deleted = await withORM(async (em) => {
         const historyItem = await em.findOne(History, { id: historyId, user });
@@ -54,7 +81,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       res.status(500).json({ error: 'Failed to delete history item' });
     }
   } else {
-    res.setHeader('Allow', ['DELETE']);
+    res.setHeader('Allow', ['GET', 'DELETE']);
     res.status(405).end(`Method ${req.method} Not Allowed`);
   }
 }
\ No newline at end of file
@@ -2,10 +2,36 @@ import { NextApiRequest, NextApiResponse } from 'next';
 import { withORM } from '../../../lib/db';
 import { History } from '../../../entities/History';
 import { User } from '../../../entities/User.entity';
+import { capHistoryBody } from '../../../utils/historyBody';
 import jwt from 'jsonwebtoken';
 
 const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key';
 
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 100;
+
+// useHistory caps both bodies before posting; this leaves room for two capped bodies with JSON escaping
+// and multi-byte characters, so an exchange near the cap is not refused
+export const config = {
+  api: {
+    bodyParser: {
+      sizeLimit: '16mb',
+    },
+  },
+};
+
+function formatHistoryItem(item: Pick<History, 'id' | 'method' | 'url' | 'status' | 'duration' | 'timings' | 'createdAt'>) {
+  return {
+    id: item.id.toString(),
+    method: item.method,
+    url: item.url,
+    status: item.status,
+    duration: item.duration,
+    timings: item.timings,
+    timestamp: item.createdAt.getTime()
+  };
+}
+
 async function getUserFromToken(token: string) {
   try {
     const decoded = jwt.verify(token, JWT_SECRET) as { userId: number };
@@ -30,38 +56,63 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
   if (req.method === 'GET') {
     try {
+      const cursor = parseInt(req.query.cursor as string);
+      const requestedLimit = parseInt(req.query.limit as string);
+      const limit = Math.min(Number.isNaN(requestedLimit) ? DEFAULT_PAGE_SIZE : Math.max(requestedLimit, 1), MAX_PAGE_SIZE);
+
       const history = await withORM(async (em) => {
-        return em.find(History, { user }, { orderBy: { createdAt: 'DESC' }, limit: 100 });
+        return em.find(
+          History,
+          Number.isNaN(cursor) ? { user } : { user, id: { $lt: cursor } },
+          {
+            orderBy: { id: 'DESC' },
+            // Fetch one extra row to know whether another page exists
+            limit: limit + 1,
+            fields: ['id', 'method', 'url', 'status', 'duration', 'timings', 'createdAt']
+          }
+        );
       });
 
-      const formattedHistory = history.map(item => ({
-        id: item.id.toString(),
-        method: item.method,
-        url: item.url,
-        status: item.status,
-        duration: item.duration,
-        timestamp: item.createdAt.getTime()
-      }));
+      const items = history.slice(0, limit);
+      const nextCursor = history.length > limit ? items[items.length - 1].id.toString() : null;
 
-      res.json(formattedHistory);
+      res.json({ items: items.map(formatHistoryItem), nextCursor });
     } catch (error) {
       console.error('Error fetching history:', error);
       res.status(500).json({ error: 'Failed to fetch history' });
     }
   } else if (req.method === 'POST') {
     try {
-      const { method, url, status, duration } = req.body;
+      const { method, url, status, duration, headers, body, bodyType, bodyTruncated, response } = req.body;
 
       if (!method || !url) {
         return res.status(400).json({ error: 'Method and URL are required' });
       }
 
+      const storedBody = capHistoryBody(body);
+      const storedResponseData = capHistoryBody(response?.data);
+
       const historyItem = await withORM(async (em) => {
         const newHistoryItem = em.create(History, {
           method: method as string,
           url: url as string,
           status: status as number | undefined,
           duration: duration as number | undefined,
+          timings: response?.timings,
+          headers: headers as Record<string, string> | undefined,
+          body: storedBody.value,
+          bodyTruncated: storedBody.truncated || bodyTruncated === true,
+          bodyType,
+          response: response ? {
+            status: response.status,
+            statusText: response.statusText,
+            headers: response.headers || {},
+            data: storedResponseData.value || '',
+            time: response.time,
+            size: response.size,
+            contentType: response.contentType,
+            truncated: storedResponseData.truncated || response.truncated === true
+          } : undefined,
           user,
           createdAt: new Date()
         });
@@ -70,16 +121,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         return newHistoryItem;
       });
 
-      const formattedHistoryItem = {
-        id: historyItem.id.toString(),
-        method: historyItem.method,
-        url: historyItem.url,
-        status: historyItem.status,
-        duration: historyItem.duration,
-        timestamp: historyItem.createdAt.getTime()
-      };
-
-      res.status(201).json(formattedHistoryItem);
+      res.status(201).json(formatHistoryItem(historyItem));
     } catch (error) {
       console.error('Error creating history item:', error);
       res.status(500).json({ error: 'Failed to create history item' });
@@ -1,4 +1,27 @@
 import { NextApiRequest, NextApiResponse } from 'next';
+import { pipeline } from 'stream/promises';
+import { Transform } from 'stream';
+import { applyAuth, RequestAuth } from '../../utils/requestAuth';
+import { resolveRequestSettings, RequestSettings, AppliedSettings } from '../../utils/requestSettings';
+import { activeFormDataFields, parseFormDataBody, FormDataField } from '../../utils/formData';
+import type { BinaryFileBody } from '../../utils/storedFiles';
+import type { RequestBodySize } from '../../utils/transferSize';
+import { BODY_FRAME, encodeFrameHeader, encodeSizeFrame } from '../../utils/proxyStream';
+import { buildDigestAuthorization, parseDigestChallenge } from '../../lib/digestAuth';
+import { cookieMatchesUrl, mergeCookieHeader, parseSetCookie, ParsedCookie } from '../../lib/cookieJar';
+import { withORM } from '../../lib/db';
+import { NetworkPolicyError, policyLookup } from '../../lib/networkPolicy';
+import { bodyLength, compressBody, encodeMultipart, readBody, sendHttpRequest, HttpRequestOptions, HttpResponse, MultipartPart } from '../../lib/httpClient';
+import { buildTlsOptions } from '../../lib/certificates';
+import { createProxySelector, describeProxy } from '../../lib/upstreamProxy';
+import { Cookie } from '../../entities/Cookie';
+import { Certificate } from '../../entities/Certificate';
+import { Environment } from '../../entities/Environment';
+import { StoredFile } from '../../entities/StoredFile';
+import { User } from '../../entities/User.entity';
+import jwt from 'jsonwebtoken';
+
+const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key';
 
 interface ProxyRequestBody {
   method: string;
@@ -6,6 +29,165 @@ interface ProxyRequestBody {
   headers?: Record<string, string>;
   body?: string;
   bodyType?: 'json' | 'form-data' | 'x-www-form-urlencoded' | 'raw' | 'binary';
+  // Fields of a form-data body; file fields refer to the user's uploaded files
+  formData?: FormDataField[];
+  // Uploaded file sent as the body of a binary request
+  binary?: BinaryFileBody;
+  auth?: RequestAuth;
+  settings?: Partial<RequestSettings>;
+  // Active environment, whose upstream proxy settings apply; without it the instance-wide proxy is used
+  environmentId?: string;
+  // Pipe the upstream body back as-is, with status and headers in the X-Proxy-Response header
+  stream?: boolean;
+}
+
+// Streamed downloads can be far larger than the default API response limit
+export const config = {
+  api: {
+    responseLimit: false,
+  },
+};
+
+async function getUserFromToken(token: string) {
+  try {
+    const decoded = jwt.verify(token, JWT_SECRET) as { userId: number };
+    return await withORM(async (em) => {
+      return em.findOne(User, { id: decoded.userId });
+    });
+  } catch {
+    return null;
+  }
+}
+
+const redirectOptions = ({ followRedirects, maxRedirects, keepMethodOnRedirect }: RequestSettings) =>
+  ({ followRedirects, maxRedirects, keepMethodOnRedirect });
+
+// Certificate problems that turning off TLS verification gets past
+const TLS_VERIFY_ERRORS = [
+  'DEPTH_ZERO_SELF_SIGNED_CERT',
+  'SELF_SIGNED_CERT_IN_CHAIN',
+  'UNABLE_TO_VERIFY_LEAF_SIGNATURE',
+  'UNABLE_TO_GET_ISSUER_CERT_LOCALLY',
+  'CERT_HAS_EXPIRED',
+  'ERR_TLS_CERT_ALTNAME_INVALID',
+];
+
+/**
+ * Load the CA bundle and client certificate the settings refer to
+ */
+async function loadCertificates(user: User | null, settings: RequestSettings): Promise<{ ca: Certificate | null; client: Certificate | null }> {
+  if (!settings.caCertificateId && !settings.clientCertificateId) {
+    return { ca: null, client: null };
+  }
+  if (!user) {
+    throw new Error('Sign in to use certificates');
+  }
+
+  return withORM(async (em) => {
+    const find = async (id: string | null) => id ? em.findOne(Certificate, { id: parseInt(id), user }) : null;
+    const ca = await find(settings.caCertificateId);
+    const client = await find(settings.clientCertificateId);
+    if ((settings.caCertificateId && !ca) || (settings.clientCertificateId && !client)) {
+      throw new Error('Certificate not found; it may have been deleted');
+    }
+    return { ca, client };
+  });
+}
+
+/**
+ * Load the proxy settings of the environment a request is sent with
+ */
+async function loadEnvironmentProxy(user: User | null, environmentId: string | undefined): Promise<Environment['proxy'] | null> {
+  if (!user || !environmentId) {
+    return null;
+  }
+
+  const environment = await withORM(async (em) => {
+    return em.findOne(Environment, { id: parseInt(environmentId), user });
+  });
+  return environment?.proxy || null;
+}
+
+/**
+ * Load uploaded files with their content; they can only be used by the user who uploaded them
+ */
+async function loadStoredFiles(user: User | null, ids: string[]): Promise<StoredFile[]> {
+  if (ids.length === 0) {
+    return [];
+  }
+  if (!user) {
+    throw new Error('Sign in to send files');
+  }
+
+  return withORM(async (em) => {
+    return em.find(StoredFile, { id: { $in: ids.map(id => parseInt(id)) }, user }, { populate: ['data'] });
+  });
+}
+
+/**
+ * Turn form-data fields into multipart parts, loading the uploaded files that file fields refer to
+ */
+async function loadMultipartParts(user: User | null, fields: FormDataField[]): Promise<MultipartPart[]> {
+  const files = await loadStoredFiles(user, fields.filter(field => field.type === 'file').map(field => field.fileId || ''));
+
+  return fields.map(field => {
+    if (field.type === 'text') {
+      return { name: field.key, content: field.value, contentType: field.contentType || undefined };
+    }
+    const file = files.find(stored => stored.id.toString() === field.fileId);
+    if (!file) {
+      throw new Error(`File for "${field.key}" not found; it may have been deleted`);
+    }
+    return {
+      name: field.key,
+      content: file.data,
+      fileName: field.fileName || file.name,
+      contentType: field.contentType || file.contentType,
+    };
+  });
+}
+
+const withoutContentType = (headers: Record<string, string>) =>
+  Object.fromEntries(Object.entries(headers).filter(([key]) => key.toLowerCase() !== 'content-type'));
+
+/**
+ * Load the user's jar cookies that apply to a URL
+ */
+async function loadCookies(user: User, url: URL): Promise<Cookie[]> {
+  // The host itself and each parent domain a cookie could have been set on
+  const labels = url.hostname.toLowerCase().split('.');
+  const domains = labels.map((_, index) => labels.slice(index).join('.'));
+
+  const cookies = await withORM(async (em) => {
+    return em.find(Cookie, { user, domain: { $in: domains } });
+  });
+  return cookies.filter(cookie => cookieMatchesUrl(cookie, url));
+}
+
+/**
+ * Parse Set-Cookie headers and store them in the user's jar; cookies that arrive already expired are removed
+ */
+async function storeCookies(user: User | null, url: URL, setCookieHeaders: string[]): Promise<ParsedCookie[]> {
+  const now = new Date();
+  const parsed = setCookieHeaders
+    .map(header => parseSetCookie(header, url, now))
+    .filter((cookie): cookie is ParsedCookie => cookie !== null);
+  if (!user || parsed.length === 0) return parsed;
+
+  await withORM(async (em) => {
+    for (const cookie of parsed) {
+      const existing = await em.findOne(Cookie, { user, domain: cookie.domain, path: cookie.path, name: cookie.name });
+      if (cookie.expires && cookie.expires.getTime() <= now.getTime()) {
+        if (existing) em.remove(existing);
+      } else if (existing) {
+        Object.assign(existing, cookie);
+      } else {
+        em.persist(em.create(Cookie, { ...cookie, user, createdAt: now, updatedAt: now }));
+      }
+    }
+    await em.flush();
+  });
+  return parsed;
 }
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
@@ -19,58 +201,116 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 
   try {
-    const { method, url, headers = {}, body, bodyType }: ProxyRequestBody = req.body;
+    const { method, url: requestUrl, headers: requestHeaders = {}, body, bodyType, formData, binary, auth, settings, environmentId, stream }: ProxyRequestBody = req.body;
 
-    if (!url) {
+    if (!requestUrl) {
       return res.status(400).json({ error: 'URL is required' });
     }
 
     // Validate URL
-    let parsedUrl: URL;
     try {
-      parsedUrl = new URL(url);
+      new URL(requestUrl);
     } catch {
       return res.status(400).json({ error: 'Invalid URL' });
     }
 
-    // Security: Block requests to private/local networks
-    const hostname = parsedUrl.hostname.toLowerCase();
-    if (
-      hostname === 'localhost' ||
-      hostname === '127.0.0.1' ||
-      hostname === '0.0.0.0' ||
-      hostname.startsWith('192.168.') ||
-      hostname.startsWith('10.') ||
-      hostname.startsWith('172.16.') ||
-      hostname.startsWith('172.17.') ||
-      hostname.startsWith('172.18.') ||
-      hostname.startsWith('172.19.') ||
-      hostname.startsWith('172.2') ||
-      hostname.startsWith('172.30.') ||
-      hostname.startsWith('172.31.') ||
-      hostname === '::1' ||
-      hostname.startsWith('fc00:') ||
-      hostname.startsWith('fe80:')
-    ) {
-      return res.status(400).json({ error: 'Requests to private networks are not allowed' });
+    // Basic, bearer and API key auth are applied the same way as in the request editor
+    const { url, headers } = auth ? applyAuth({ url: requestUrl, headers: requestHeaders }, auth) : { url: requestUrl, headers: requestHeaders };
+
+    // Signed-in users get a cookie jar; anonymous proxy calls send only the cookies they were given
+    const token = req.headers.authorization?.replace('Bearer ', '');
+    const user = token ? await getUserFromToken(token) : null;
+
+    const requestSettings = resolveRequestSettings(settings);
+    let certificates: { ca: Certificate | null; client: Certificate | null };
+    try {
+      certificates = await loadCertificates(user, requestSettings);
+    } catch (error: Error | unknown) {
+      return res.status(400).json({ error: error instanceof Error ? error.message : 'Failed to load certificates' });
     }
 
-    const startTime = Date.now();
+    // Reported back so the response shows what the request was actually sent with
+    const appliedSettings: AppliedSettings = {
+      followRedirects: requestSettings.followRedirects,
+      maxRedirects: requestSettings.maxRedirects,
+      keepMethodOnRedirect: requestSettings.keepMethodOnRedirect,
+      timeout: requestSettings.timeout,
+      verifyTls: requestSettings.verifyTls,
+      compressBody: requestSettings.compressBody,
+      caCertificate: certificates.ca?.name || null,
+      clientCertificate: certificates.client?.name || null,
+      // Filled in once the request has been sent, as redirects can go through another proxy or none
+      proxy: null,
+    };
 
     // Prepare request options
     // Create a clean headers object without 'host'
-    const cleanHeaders: HeadersInit = { ...headers };
+    const cleanHeaders: Record<string, string> = { ...headers };
     if ('host' in cleanHeaders) {
-      delete (cleanHeaders as Record<string, string>).host;
+      delete cleanHeaders.host;
     }
 
-    const requestOptions: RequestInit = {
+    // Cookies set by every hop, redirects and a digest challenge included, each stored against the URL of
+    // the hop that set it
+    const cookies: ParsedCookie[] = [];
+
+    const requestOptions: HttpRequestOptions = {
       method,
-      headers: cleanHeaders
+      url,
+      headers: cleanHeaders,
+      // Security: every hop, redirects included, is resolved and checked against the network policy
+      lookup: policyLookup,
+      ...redirectOptions(requestSettings),
+      tls: buildTlsOptions(requestSettings.verifyTls, certificates.ca, certificates.client),
+      // Environment proxies are held to the network policy too; the instance-wide one is trusted
+      proxyFor: createProxySelector(await loadEnvironmentProxy(user, environmentId), policyLookup),
+      // Jar cookies that match each hop are sent along with the ones in the request
+      cookieHeader: async (hopUrl, requestCookie) => {
+        if (!user) return requestCookie;
+        const jarCookies = await loadCookies(user, hopUrl);
+        return jarCookies.length > 0 ? mergeCookieHeader(requestCookie, jarCookies) : requestCookie;
+      },
+      onSetCookies: async (hopUrl, hopSetCookies) => {
+        cookies.push(...await storeCookies(user, hopUrl, hopSetCookies));
+      },
     };
 
     // Handle request body based on type
-    if (['POST', 'PUT', 'PATCH'].includes(method.toUpperCase()) && body) {
+    const sendsBody = ['POST', 'PUT', 'PATCH'].includes(method.toUpperCase());
+    if (sendsBody && bodyType === 'form-data') {
+      // Requests saved before form-data fields existed still send their key=value lines
+      const fields = activeFormDataFields(formData || parseFormDataBody(body || ''));
+      if (fields.length > 0) {
+        let parts: MultipartPart[];
+        try {
+          parts = await loadMultipartParts(user, fields);
+        } catch (error: Error | unknown) {
+          return res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid form-data fields' });
+        }
+        // The multipart encoding picks the boundary, so it also sets Content-Type
+        const encoded = encodeMultipart(parts);
+        requestOptions.body = encoded.body;
+        requestOptions.headers = {
+          ...withoutContentType(requestOptions.headers),
+          'Content-Type': encoded.contentType,
+        };
+      }
+    } else if (sendsBody && bodyType === 'binary' && binary?.fileId) {
+      let file: StoredFile | undefined;
+      try {
+        [file] = await loadStoredFiles(user, [binary.fileId]);
+      } catch (error: Error | unknown) {
+        return res.status(400).json({ error: error instanceof Error ? error.message : 'Failed to load file' });
+      }
+      if (!file) {
+        return res.status(400).json({ error: `File "${binary.fileName}" not found; it may have been deleted` });
+      }
+      // The exact bytes of the file; a Content-Type header set on the request wins over the file's type
+      requestOptions.body = file.data;
+      if (!Object.keys(requestOptions.headers).some(key => key.toLowerCase() === 'content-type')) {
+        requestOptions.headers = { ...requestOptions.headers, 'Content-Type': binary.contentType || file.contentType };
+      }
+    } else if (sendsBody && body) {
       if (bodyType === 'json') {
         try {
           // Validate JSON
@@ -89,64 +329,151 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
           ...requestOptions.headers,
           'Content-Type': 'application/x-www-form-urlencoded',
         };
-      } else if (bodyType === 'form-data') {
-        // For form-data, we'll need to parse the body and create FormData
-        // This is a simplified implementation - in a real app you might want more sophisticated parsing
-        try {
-          const formData = new FormData();
-          const entries = body.split('\n').filter(line => line.trim());
-          entries.forEach(entry => {
-            const [key, ...valueParts] = entry.split('=');
-            if (key && valueParts.length > 0) {
-              const value = valueParts.join('='); // In case the value contains '='
-              formData.append(decodeURIComponent(key.trim()), decodeURIComponent(value.trim()));
-            }
-          });
-          requestOptions.body = formData;
-          // Don't set Content-Type for FormData - let the browser set it with boundary
-        } catch {
-          return res.status(400).json({ error: 'Invalid form-data format' });
-        }
       } else {
         // raw or binary
         requestOptions.body = body;
       }
     }
 
-    // Make the request with timeout
+    // Compressed last, so form-data and file bodies are covered as well
+    const uncompressedSize = requestOptions.body === undefined ? 0 : bodyLength(requestOptions.body);
+    const compression = requestSettings.compressBody;
+    if (compression !== 'none' && uncompressedSize > 0 && requestOptions.body !== undefined) {
+      try {
+        requestOptions.body = await compressBody(requestOptions.body, compression);
+      } catch (error: Error | unknown) {
+        return res.status(400).json({ error: error instanceof Error ? error.message : 'Failed to compress request body' });
+      }
+      requestOptions.headers = {
+        // A Content-Length typed in for the uncompressed body would no longer match
+        ...Object.fromEntries(Object.entries(requestOptions.headers).filter(([key]) => !['content-encoding', 'content-length'].includes(key.toLowerCase()))),
+        'Content-Encoding': compression,
+      };
+    }
+    const requestSize: RequestBodySize = {
+      body: requestOptions.body === undefined ? 0 : bodyLength(requestOptions.body),
+      uncompressed: uncompressedSize,
+      encoding: compression !== 'none' && uncompressedSize > 0 ? compression : null,
+    };
+
+    // Make the request with timeout. It covers the whole exchange up to the last byte of a buffered body;
+    // a streamed body is handed to the browser, which can cancel it itself.
     const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 30000); // 30 second timeout
+    let timedOut = false;
+    const timeoutId = requestSettings.timeout > 0
+      ? setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, requestSettings.timeout)
+      : undefined;
+
+    // Stop the upstream request when the browser cancels or disconnects
+    res.on('close', () => {
+      if (!res.writableEnded) controller.abort();
+    });
 
     try {
-      const response = await fetch(url, {
+      let response: HttpResponse = await sendHttpRequest({
         ...requestOptions,
         signal: controller.signal,
       });
-      clearTimeout(timeoutId);
-      const endTime = Date.now();
+
+      // Digest auth: answer the server's challenge and retry once
+      if (auth?.type === 'digest' && auth.digest && response.status === 401) {
+        const challenge = parseDigestChallenge(response.headers['www-authenticate'] || null);
+        if (challenge) {
+          await readBody(response.body).catch(() => undefined);
+          const target = new URL(url);
+          response = await sendHttpRequest({
+            ...requestOptions,
+            headers: {
+              ...requestOptions.headers,
+              Authorization: buildDigestAuthorization({
+                username: auth.digest.username,
+                password: auth.digest.password,
+                method,
+                uri: `${target.pathname}${target.search}`,
+                challenge,
+              }),
+            },
+            signal: controller.signal,
+          });
+        }
+      }
+
+      appliedSettings.proxy = response.proxy ? { url: describeProxy(response.proxy), source: response.proxy.source } : null;
 
       // Extract response headers
-      const responseHeaders: Record<string, string> = {};
-      response.headers.forEach((value, key) => {
-        responseHeaders[key] = value;
-      });
+      const responseHeaders: Record<string, string> = { ...response.headers };
+
+      // Set-Cookie can repeat, so it is kept one cookie per line instead of being flattened. Redirect hops
+      // show their own in the redirect chain.
+      if (response.setCookies.length > 0) {
+        responseHeaders['set-cookie'] = response.setCookies.join('\n');
+      }
+      const contentType = response.headers['content-type'] || '';
+      // Time until the response headers arrived, as before the per-phase timings existed
+      const time = Math.round(response.timings.total);
+
+      if (stream) {
+        // The timeout only covers waiting for the response headers. The body has not been
+        // downloaded yet, so the client measures the download phase itself.
+        clearTimeout(timeoutId);
+        const metadata = {
+          status: response.status,
+          statusText: response.statusText,
+          headers: { ...responseHeaders, 'x-original-url': url },
+          time,
+          timings: response.timings,
+          redirects: response.redirects,
+          appliedSettings,
+          // The response body sizes follow in a frame of their own once the body has been read
+          transfer: { request: requestSize, response: response.size },
+          contentType,
+          cookies: cookies.map(cookie => ({ ...cookie, expires: cookie.expires ? cookie.expires.getTime() : null })),
+        };
+        res.setHeader('X-Proxy-Response', encodeURIComponent(JSON.stringify(metadata)));
+        res.setHeader('Content-Type', 'application/octet-stream');
+        res.setHeader('Cache-Control', 'no-store');
+        res.status(200);
+        res.flushHeaders();
+
+        try {
+          // Each chunk goes out in a body frame as soon as it arrives
+          const frames = new Transform({
+            transform(chunk: Buffer, _encoding, callback) {
+              if (chunk.byteLength > 0) this.push(encodeFrameHeader(BODY_FRAME, chunk.byteLength));
+              callback(null, chunk);
+            },
+          });
+          await pipeline(response.body, frames, res, { end: false });
+          res.end(encodeSizeFrame(response.size));
+        } catch {
+          // Cancelled by the browser or the upstream connection dropped; the client sees a truncated body
+          controller.abort();
+          res.destroy();
+        }
+        return;
+      }
 
       // Get response body
-      const contentType = response.headers.get('content-type') || '';
       let responseData: string;
 
+      // A body that stalls is cut off by the timeout like a server that never answers
+      const buffer = await readBody(response.body);
+      clearTimeout(timeoutId);
+
       try {
         if (contentType.includes('application/json')) {
-          const jsonData = await response.json();
+          const jsonData = JSON.parse(buffer.toString('utf8'));
           responseData = JSON.stringify(jsonData, null, 2);
         } else if (contentType.includes('text/') || 
                    contentType.includes('application/xml') || 
                    contentType.includes('application/javascript') ||
                    contentType.includes('application/xhtml+xml')) {
-          responseData = await response.text();
+          responseData = buffer.toString('utf8');
         } else {
           // For binary data, convert to base64 for download capability
-          const buffer = await response.arrayBuffer();
           const sizeInMB = buffer.byteLength / (1024 * 1024);
           
           if (sizeInMB > 10) { // 10MB limit for base64 encoding
@@ -160,9 +487,6 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         responseData = 'Unable to parse response body';
       }
 
-      // Calculate response size
-      const responseSize = new Blob([responseData]).size;
-
       // Return the response data
       res.status(200).json({
         status: response.status,
@@ -172,19 +496,37 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
           'x-original-url': url, // Add original URL for filename generation
         },
         data: responseData,
-        time: endTime - startTime,
-        size: responseSize,
+        time,
+        timings: response.timings,
+        redirects: response.redirects,
+        appliedSettings,
+        // Bytes of the decoded body, not of the text above (which may be pretty-printed or base64)
+        size: response.size.decoded,
+        transfer: { request: requestSize, response: response.size },
         contentType: contentType,
+        cookies: cookies.map(cookie => ({ ...cookie, expires: cookie.expires ? cookie.expires.getTime() : null })),
       });
     } catch (fetchError: Error | unknown) {
       clearTimeout(timeoutId);
-      if (fetchError instanceof Error && fetchError.name === 'AbortError') {
-        throw new Error('Request timeout (30 seconds)');
+      if (timedOut) {
+        throw new Error(`Request timeout (${requestSettings.timeout / 1000} seconds)`);
+      }
+      if (controller.signal.aborted) {
+        // Cancelled by the user or the browser went away; nobody is waiting for an answer
+        if (!res.headersSent) res.status(499).json({ error: 'Request cancelled' });
+        return;
+      }
+      const code = (fetchError as NodeJS.ErrnoException | undefined)?.code;
+      if (fetchError instanceof Error && code && TLS_VERIFY_ERRORS.includes(code)) {
+        throw new Error(`${fetchError.message} (TLS verification can be turned off in the request settings)`);
       }
       throw fetchError;
     }
 
   } catch (error: Error | unknown) {
+    if (error instanceof NetworkPolicyError) {
+      return res.status(error.status).json({ error: error.message, code: error.code });
+    }
     console.error('Proxy request failed:', error);
     res.status(500).json({ 
       error: error instanceof Error ? error.message : 'Request failed',
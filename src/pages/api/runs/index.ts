@@ -0,0 +1,99 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { withORM } from '../../../lib/db';
+import { CollectionRun } from '../../../entities/CollectionRun';
+import { User } from '../../../entities/User.entity';
+import jwt from 'jsonwebtoken';
+
+const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key';
+
+async function getUserFromToken(token: string) {
+  try {
+    const decoded = jwt.verify(token, JWT_SECRET) as { userId: number };
+    return await withORM(async (em) => {
+      return em.findOne(User, { id: decoded.userId });
+    });
+  } catch {
+    return null;
+  }
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const token = req.headers.authorization?.replace('Bearer ', '');
+  if (!token) {
+    return res.status(401).json({ error: 'No token provided' });
+  }
+
+  const user = await getUserFromToken(token);
+  if (!user) {
+    return res.status(401).json({ error: 'Invalid token' });
+  }
+
+  if (req.method === 'GET') {
+    try {
+      const runs = await withORM(async (em) => {
+        return em.find(CollectionRun, { user }, { orderBy: { createdAt: 'DESC' }, limit: 50 });
+      });
+
+      const formattedRuns = runs.map(run => ({
+        id: run.id.toString(),
+        collectionName: run.collectionName,
+        environmentName: run.environmentName,
+        startedAt: run.startedAt.getTime(),
+        duration: run.duration,
+        total: run.total,
+        passed: run.passed,
+        failed: run.failed,
+        results: run.results
+      }));
+
+      res.json(formattedRuns);
+    } catch (error) {
+      console.error('Error fetching runs:', error);
+      res.status(500).json({ error: 'Failed to fetch runs' });
+    }
+  } else if (req.method === 'POST') {
+    try {
+      const { collectionName, environmentName, startedAt, duration, total, passed, failed, results } = req.body;
+
+      if (!collectionName || !Array.isArray(results)) {
+        return res.status(400).json({ error: 'Collection name and results are required' });
+      }
+
+      const run = await withORM(async (em) => {
+        const newRun = em.create(CollectionRun, {
+          collectionName: collectionName as string,
+          environmentName: environmentName as string | undefined,
+          startedAt: new Date(startedAt || Date.now()),
+          duration: Number(duration) || 0,
+          total: Number(total) || results.length,
+          passed: Number(passed) || 0,
+          failed: Number(failed) || 0,
+          results,
+          user,
+          createdAt: new Date()
+        });
+
+        await em.persistAndFlush(newRun);
+        return newRun;
+      });
+
+      res.status(201).json({
+        id: run.id.toString(),
+        collectionName: run.collectionName,
+        environmentName: run.environmentName,
+        startedAt: run.startedAt.getTime(),
+        duration: run.duration,
+        total: run.total,
+        passed: run.passed,
+        failed: run.failed,
+        results: run.results
+      });
+    } catch (error) {
+      console.error('Error saving run:', error);
+      res.status(500).json({ error: 'Failed to save run' });
+    }
+  } else {
+    res.setHeader('Allow', ['GET', 'POST']);
+    res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+}
@@ -0,0 +1,181 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import type { IncomingMessage, Server as HttpServer } from 'http';
+import type { Socket } from 'net';
+import WebSocket, { RawData, WebSocketServer } from 'ws';
+import { checkIpLiteral, policyLookup } from '../../lib/networkPolicy';
+
+// Browsers cannot set handshake headers and /api/proxy cannot hold a socket open, so WebSocket
+// requests are relayed: the browser connects here and sends a "connect" message with the target.
+// Every frame in both directions is wrapped in a JSON envelope so binary data and close/error
+// events survive the hop.
+
+// Must not match a page or API route: Next.js closes upgrade requests for its own routes
+const RELAY_PATH = '/ws-relay';
+
+// Headers the WebSocket handshake manages itself
+const RESERVED_HEADERS = ['host', 'upgrade', 'connection', 'sec-websocket-key', 'sec-websocket-version', 'sec-websocket-extensions', 'sec-websocket-protocol'];
+
+type ClientMessage =
+  | { type: 'connect'; url: string; headers?: Record<string, string>; protocols?: string[] }
+  | { type: 'send'; data: string; binary?: boolean }
+  | { type: 'close'; code?: number; reason?: string };
+
+type RelayMessage =
+  | { type: 'open'; protocol: string; headers: Record<string, string> }
+  | { type: 'message'; data: string; binary: boolean }
+  | { type: 'close'; code: number; reason: string }
+  | { type: 'error'; message: string };
+
+type ServerWithRelay = HttpServer & { wsRelay?: WebSocketServer };
+
+function sendToClient(client: WebSocket, message: RelayMessage) {
+  if (client.readyState === WebSocket.OPEN) {
+    client.send(JSON.stringify(message));
+  }
+}
+
+function toBuffer(data: RawData): Buffer {
+  if (Array.isArray(data)) return Buffer.concat(data);
+  return Buffer.isBuffer(data) ? data : Buffer.from(data);
+}
+
+function connectUpstream(client: WebSocket, message: Extract<ClientMessage, { type: 'connect' }>): WebSocket | null {
+  let target: URL;
+  try {
+    target = new URL(message.url);
+  } catch {
+    sendToClient(client, { type: 'error', message: 'Invalid URL' });
+    return null;
+  }
+
+  if (target.protocol !== 'ws:' && target.protocol !== 'wss:') {
+    sendToClient(client, { type: 'error', message: 'Only ws:// and wss:// URLs are supported' });
+    return null;
+  }
+
+  // Security: same network policy as /api/proxy. IP literals are checked here, names when they are resolved
+  try {
+    checkIpLiteral(target.hostname);
+  } catch (error: Error | unknown) {
+    sendToClient(client, { type: 'error', message: error instanceof Error ? error.message : 'Connection not allowed' });
+    return null;
+  }
+
+  const headers: Record<string, string> = {};
+  Object.entries(message.headers || {}).forEach(([key, value]) => {
+    if (!RESERVED_HEADERS.includes(key.toLowerCase())) headers[key] = value;
+  });
+
+  // ws throws right away for a repeated subprotocol or a header value it cannot send, e.g. one with a newline
+  let upstream: WebSocket;
+  try {
+    upstream = new WebSocket(target, message.protocols?.filter(Boolean) || [], {
+      headers,
+      handshakeTimeout: 30000,
+      lookup: policyLookup,
+    });
+  } catch (error: Error | unknown) {
+    sendToClient(client, { type: 'error', message: error instanceof Error ? error.message : 'Failed to connect' });
+    return null;
+  }
+
+  let handshakeHeaders: Record<string, string> = {};
+  upstream.on('upgrade', (response: IncomingMessage) => {
+    handshakeHeaders = Object.fromEntries(
+      Object.entries(response.headers).map(([key, value]) => [key, Array.isArray(value) ? value.join(', ') : value || ''])
+    );
+  });
+
+  upstream.on('open', () => {
+    sendToClient(client, { type: 'open', protocol: upstream.protocol, headers: handshakeHeaders });
+  });
+
+  upstream.on('message', (data: RawData, isBinary: boolean) => {
+    const buffer = toBuffer(data);
+    sendToClient(client, {
+      type: 'message',
+      data: isBinary ? buffer.toString('base64') : buffer.toString('utf8'),
+      binary: isBinary,
+    });
+  });
+
+  upstream.on('error', (error: Error) => {
+    sendToClient(client, { type: 'error', message: error.message });
+  });
+
+  upstream.on('close', (code: number, reason: Buffer) => {
+    sendToClient(client, { type: 'close', code, reason: reason.toString() });
+    client.close();
+  });
+
+  return upstream;
+}
+
+function handleRelayConnection(client: WebSocket) {
+  let upstream: WebSocket | null = null;
+
+  client.on('message', (raw: RawData) => {
+    let message: ClientMessage;
+    try {
+      message = JSON.parse(toBuffer(raw).toString('utf8'));
+    } catch {
+      sendToClient(client, { type: 'error', message: 'Invalid relay message' });
+      return;
+    }
+
+    if (message.type === 'connect') {
+      if (upstream) {
+        sendToClient(client, { type: 'error', message: 'Already connected' });
+        return;
+      }
+      upstream = connectUpstream(client, message);
+      if (!upstream) client.close();
+      return;
+    }
+
+    if (!upstream || upstream.readyState !== WebSocket.OPEN) {
+      sendToClient(client, { type: 'error', message: 'Not connected' });
+      return;
+    }
+
+    try {
+      if (message.type === 'send') {
+        upstream.send(message.binary ? Buffer.from(message.data, 'base64') : message.data, { binary: !!message.binary });
+      } else if (message.type === 'close') {
+        upstream.close(message.code || 1000, message.reason);
+      }
+    } catch (error: Error | unknown) {
+      sendToClient(client, { type: 'error', message: error instanceof Error ? error.message : 'Relay error' });
+    }
+  });
+
+  client.on('close', () => {
+    if (upstream && upstream.readyState !== WebSocket.CLOSED) {
+      upstream.terminate();
+    }
+  });
+}
+
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Attach the upgrade handler to the underlying HTTP server once; clients call this route before connecting
+  const server = (res.socket as Socket & { server: ServerWithRelay }).server;
+  if (!server.wsRelay) {
+    const relay = new WebSocketServer({ noServer: true });
+    relay.on('connection', handleRelayConnection);
+
+    server.on('upgrade', (request: IncomingMessage, socket: Socket, head: Buffer) => {
+      // Leave other upgrades (such as Next.js hot reloading) alone
+      const { pathname } = new URL(request.url || '/', 'http://localhost');
+      if (pathname !== RELAY_PATH) return;
+
+      relay.handleUpgrade(request, socket, head, client => relay.emit('connection', client, request));
+    });
+    server.wsRelay = relay;
+  }
+
+  res.status(200).json({ path: RELAY_PATH });
+}
@@ -0,0 +1,31 @@
+import React, { useEffect, useState } from "react";
+
+// Redirect target for the OAuth 2.0 authorization code flow. Hands the result back to the
+// window that opened the sign-in popup.
+export default function OAuthCallback() {
+  const [message, setMessage] = useState('Completing sign-in...');
+
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+
+    if (!window.opener) {
+      setMessage('This page should be opened from the AnMost sign-in popup.');
+      return;
+    }
+
+    window.opener.postMessage({
+      type: 'oauth2-callback',
+      code: params.get('code'),
+      state: params.get('state'),
+      error: params.get('error'),
+      errorDescription: params.get('error_description'),
+    }, window.location.origin);
+    setMessage('Sign-in complete. You can close this window.');
+  }, []);
+
+  return (
+    <div className="h-screen flex items-center justify-center bg-gradient-to-br from-slate-50 via-white to-cyan-50 dark:from-slate-900 dark:via-slate-800 dark:to-cyan-950">
+      <p className="text-slate-600 dark:text-slate-400 text-lg">{message}</p>
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+// Response assertion utilities used by the collection runner
+
+import { evaluateJsonPath } from './jsonPath';
+
+export type AssertionOperator = 'equals' | 'notEquals' | 'contains' | 'exists' | 'lessThan' | 'greaterThan' | 'matches';
+
+export interface Assertion {
+  type: 'status' | 'header' | 'jsonPath';
+  property?: string; // Header name or JSONPath expression
+  operator: AssertionOperator;
+  expected: string;
+  enabled: boolean;
+}
+
+export interface AssertionResult {
+  assertion: Assertion;
+  passed: boolean;
+  actual?: string;
+  message: string;
+}
+
+interface AssertableResponse {
+  status: number;
+  headers: Record<string, string>;
+  data: string;
+}
+
+export const ASSERTION_OPERATORS: { value: AssertionOperator; label: string }[] = [
+  { value: 'equals', label: 'equals' },
+  { value: 'notEquals', label: 'does not equal' },
+  { value: 'contains', label: 'contains' },
+  { value: 'exists', label: 'exists' },
+  { value: 'lessThan', label: 'less than' },
+  { value: 'greaterThan', label: 'greater than' },
+  { value: 'matches', label: 'matches regex' },
+];
+
+const stringify = (value: unknown): string =>
+  typeof value === 'string' ? value : JSON.stringify(value);
+
+/**
+ * Describe an assertion in a human readable way
+ */
+export function describeAssertion(assertion: Assertion): string {
+  const subject = assertion.type === 'status'
+    ? 'Status'
+    : assertion.type === 'header'
+      ? `Header ${assertion.property}`
+      : `JSON ${assertion.property}`;
+  const operator = ASSERTION_OPERATORS.find(o => o.value === assertion.operator)?.label || assertion.operator;
+
+  return assertion.operator === 'exists' ? `${subject} exists` : `${subject} ${operator} ${assertion.expected}`;
+}
+
+const compare = (actual: unknown, operator: AssertionOperator, expected: string): boolean => {
+  const actualString = stringify(actual);
+
+  switch (operator) {
+    case 'equals':
+      return actualString === expected;
+    case 'notEquals':
+      return actualString !== expected;
+    case 'contains':
+      return actualString.includes(expected);
+    case 'exists':
+      return actual !== undefined;
+    case 'lessThan':
+      return Number(actual) < Number(expected);
+    case 'greaterThan':
+      return Number(actual) > Number(expected);
+    case 'matches':
+      return new RegExp(expected).test(actualString);
+    default:
+      return false;
+  }
+};
+
+/**
+ * Evaluate a single assertion against a response
+ */
+export function evaluateAssertion(assertion: Assertion, response: AssertableResponse): AssertionResult {
+  const description = describeAssertion(assertion);
+
+  try {
+    let actual: unknown;
+
+    if (assertion.type === 'status') {
+      actual = String(response.status);
+    } else if (assertion.type === 'header') {
+      actual = Object.entries(response.headers).find(
+        ([key]) => key.toLowerCase() === (assertion.property || '').toLowerCase()
+      )?.[1];
+    } else {
+      const matches = evaluateJsonPath(JSON.parse(response.data), assertion.property || '$');
+      actual = matches.length === 0 ? undefined : matches.length === 1 ? matches[0] : matches;
+    }
+
+    const passed = (actual !== undefined || assertion.operator === 'exists' || assertion.operator === 'notEquals')
+      && compare(actual, assertion.operator, assertion.expected);
+
+    return {
+      assertion,
+      passed,
+      actual: actual === undefined ? undefined : stringify(actual),
+      message: passed
+        ? description
+        : `${description} (actual: ${actual === undefined ? 'missing' : stringify(actual)})`,
+    };
+  } catch (error: Error | unknown) {
+    return {
+      assertion,
+      passed: false,
+      message: `${description} (${error instanceof Error ? error.message : 'evaluation failed'})`,
+    };
+  }
+}
+
+/**
+ * Evaluate every enabled assertion against a response
+ */
+export function evaluateAssertions(assertions: Assertion[] = [], response: AssertableResponse): AssertionResult[] {
+  return assertions.filter(a => a.enabled).map(assertion => evaluateAssertion(assertion, response));
+}
@@ -0,0 +1,168 @@
+// Collection runner: executes every request of a collection in order
+
+import { executeRequest, ExecutableRequest, ExecutionContext, Variable } from './requestExecutor';
+import { evaluateAssertions, Assertion, AssertionResult } from './assertions';
+import { ScriptTestResult } from './scriptSandbox';
+import { isWebSocketRequest } from './websocket';
+import { isGrpcRequest } from './grpc';
+import { redactSecrets } from './variables';
+
+export interface RunnableRequest extends ExecutableRequest {
+  id: string;
+  name: string;
+  assertions?: Assertion[];
+}
+
+export interface RequestRunResult {
+  requestId: string;
+  name: string;
+  method: string;
+  url: string;
+  status?: number;
+  statusText?: string;
+  time?: number;
+  passed: boolean;
+  assertions: AssertionResult[];
+  tests: ScriptTestResult[];
+  error?: string;
+}
+
+export interface RunReport {
+  id?: string;
+  collectionName: string;
+  environmentName?: string;
+  startedAt: number;
+  duration: number;
+  total: number;
+  passed: number;
+  failed: number;
+  results: RequestRunResult[];
+}
+
+interface RunOptions {
+  collectionName: string;
+  environmentName?: string;
+  environmentId?: string;
+  variables: Variable[];
+  // Global and collection variables under the environment's
+  scopes?: ExecutionContext['scopes'];
+  send: ExecutionContext['send'];
+  onVariablesChange?: ExecutionContext['onVariablesChange'];
+  onProgress?: (results: RequestRunResult[]) => void;
+  shouldStop?: () => boolean;
+}
+
+/**
+ * Execute a single request and check its response against its assertions and tests
+ */
+async function runRequest(
+  request: RunnableRequest,
+  variables: Variable[],
+  options: RunOptions
+): Promise<{ result: RequestRunResult; variables: Variable[] }> {
+  const execution = await executeRequest(request, {
+    variables,
+    scopes: options.scopes,
+    environmentId: options.environmentId,
+    send: options.send,
+    onVariablesChange: options.onVariablesChange,
+  });
+
+  const assertions = execution.response ? evaluateAssertions(request.assertions, execution.response) : [];
+  const tests = execution.tests || [];
+  const error = execution.urlError || execution.error;
+
+  return {
+    variables: execution.variables,
+    result: {
+      requestId: request.id,
+      name: request.name,
+      method: execution.request?.method || request.method,
+      // Reports are saved, so secret values are put back as placeholders
+      url: execution.request ? redactSecrets(execution.request.url, execution.variables) : request.url,
+      status: execution.response?.status,
+      statusText: execution.response?.statusText,
+      time: execution.response?.time,
+      passed: !error && assertions.every(a => a.passed) && tests.every(t => t.passed),
+      assertions,
+      tests,
+      error,
+    },
+  };
+}
+
+/**
+ * Run every request of a collection in order and build a pass/fail report
+ */
+export async function runCollection(requests: RunnableRequest[], options: RunOptions): Promise<RunReport> {
+  const startedAt = Date.now();
+  const results: RequestRunResult[] = [];
+  let variables = options.variables;
+
+  for (const request of requests) {
+    if (options.shouldStop?.()) break;
+    // WebSocket and gRPC requests do not go through /api/proxy and have no HTTP response to assert against
+    if (isWebSocketRequest(request) || isGrpcRequest(request)) continue;
+
+    const { result, variables: updatedVariables } = await runRequest(request, variables, options);
+    // Variables set by scripts are visible to the requests that follow
+    variables = updatedVariables;
+    results.push(result);
+    options.onProgress?.([...results]);
+  }
+
+  const passed = results.filter(r => r.passed).length;
+
+  return {
+    collectionName: options.collectionName,
+    environmentName: options.environmentName,
+    startedAt,
+    duration: Date.now() - startedAt,
+    total: results.length,
+    passed,
+    failed: results.length - passed,
+    results,
+  };
+}
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+/**
+ * Serialize a run report as JUnit XML, one test case per request
+ */
+export function toJUnitXml(report: RunReport): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${escapeXml(report.collectionName)}" tests="${report.total}" failures="${report.failed}" time="${(report.duration / 1000).toFixed(3)}">`,
+    `  <testsuite name="${escapeXml(report.collectionName)}" tests="${report.total}" failures="${report.failed}" timestamp="${new Date(report.startedAt).toISOString()}" time="${(report.duration / 1000).toFixed(3)}">`,
+  ];
+
+  report.results.forEach(result => {
+    const time = ((result.time || 0) / 1000).toFixed(3);
+    const caseName = escapeXml(`${result.method} ${result.name}`);
+
+    if (result.passed) {
+      lines.push(`    <testcase classname="${escapeXml(report.collectionName)}" name="${caseName}" time="${time}"/>`);
+      return;
+    }
+
+    const failures = [
+      ...(result.error ? [result.error] : []),
+      ...result.assertions.filter(a => !a.passed).map(a => a.message),
+      ...result.tests.filter(t => !t.passed).map(t => `${t.name}: ${t.error || 'failed'}`),
+    ];
+
+    lines.push(`    <testcase classname="${escapeXml(report.collectionName)}" name="${caseName}" time="${time}">`);
+    lines.push(`      <failure message="${escapeXml(failures[0] || 'Request failed')}">${escapeXml(failures.join('\n'))}</failure>`);
+    lines.push('    </testcase>');
+  });
+
+  lines.push('  </testsuite>', '</testsuites>');
+  return lines.join('\n');
+}
@@ -0,0 +1,376 @@
+// cURL command parsing for requests copied from browser devtools or docs
+
+import type { FormDataField } from './formData';
+
+export interface ParsedCurlRequest {
+  method: string;
+  url: string;
+  queryParams: { key: string; value: string; enabled: boolean }[];
+  headers: { key: string; value: string; enabled: boolean }[];
+  body: string;
+  bodyType: 'json' | 'form-data' | 'x-www-form-urlencoded' | 'raw' | 'binary';
+  // Set instead of body for -F fields
+  formData?: FormDataField[];
+  warnings: string[];
+}
+
+// Options that take a value; everything else is treated as a boolean flag
+const SHORT_OPTIONS_WITH_VALUE = new Set(['X', 'H', 'd', 'F', 'u', 'A', 'b', 'e', 'o', 'm', 'x', 'E', 'T', 'w', 'c', 'r', 'y', 'Y', 'z', 'C', 'K', 'U', 'D']);
+
+const LONG_OPTIONS_WITH_VALUE = new Set([
+  'request', 'header', 'data', 'data-raw', 'data-binary', 'data-ascii', 'data-urlencode', 'json',
+  'form', 'form-string', 'user', 'user-agent', 'cookie', 'referer', 'url', 'output', 'max-time',
+  'connect-timeout', 'proxy', 'cert', 'key', 'cacert', 'upload-file', 'write-out', 'cookie-jar',
+  'range', 'retry', 'max-redirs', 'resolve', 'interface', 'limit-rate', 'config', 'proxy-user',
+  'oauth2-bearer', 'dump-header', 'header-file',
+]);
+
+// Flags that change how the request is sent and cannot be represented in a saved request
+const UNSUPPORTED_FLAGS: Record<string, string> = {
+  x: '--proxy', proxy: '--proxy',
+  E: '--cert', cert: '--cert', key: '--key', cacert: '--cacert',
+  T: '--upload-file', 'upload-file': '--upload-file',
+  resolve: '--resolve', 'proxy-user': '--proxy-user',
+};
+
+const ANSI_C_ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t', '\\': '\\', "'": "'", '"': '"', a: '\x07', b: '\b', e: '\x1b', f: '\f', v: '\v' };
+
+/**
+ * Check whether text looks like a cURL command
+ */
+export function isCurlCommand(text: string): boolean {
+  return /^\s*curl(\.exe)?\s/i.test(text);
+}
+
+/**
+ * Split a shell command line into arguments, honouring quotes, escapes and line continuations
+ */
+export function tokenizeShellCommand(command: string): string[] {
+  // Windows cmd copies (Chrome's "Copy as cURL (cmd)") escape every special character with ^
+  const isCmd = /\^\r?\n/.test(command) || command.includes('^"');
+  const input = isCmd
+    ? command.replace(/\^\r?\n/g, ' ').replace(/\^([\s\S])/g, '$1')
+    : command.replace(/\\\r?\n/g, ' ');
+  const tokens: string[] = [];
+  let current = '';
+  let inToken = false;
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (/\s/.test(char)) {
+      if (inToken) {
+        tokens.push(current);
+        current = '';
+        inToken = false;
+      }
+      i++;
+      continue;
+    }
+
+    inToken = true;
+
+    if (char === '$' && input[i + 1] === "'") {
+      // ANSI-C quoting, used by Chrome's "Copy as cURL" for bodies with special characters
+      i += 2;
+      while (i < input.length && input[i] !== "'") {
+        if (input[i] === '\\' && i + 1 < input.length) {
+          const next = input[i + 1];
+          if (next === 'x' && /^[0-9a-fA-F]{2}$/.test(input.slice(i + 2, i + 4))) {
+            current += String.fromCharCode(parseInt(input.slice(i + 2, i + 4), 16));
+            i += 4;
+          } else if (next === 'u' && /^[0-9a-fA-F]{4}$/.test(input.slice(i + 2, i + 6))) {
+            current += String.fromCharCode(parseInt(input.slice(i + 2, i + 6), 16));
+            i += 6;
+          } else {
+            current += ANSI_C_ESCAPES[next] ?? `\\${next}`;
+            i += 2;
+          }
+        } else {
+          current += input[i++];
+        }
+      }
+      i++;
+    } else if (char === "'") {
+      const end = input.indexOf("'", i + 1);
+      current += input.slice(i + 1, end === -1 ? undefined : end);
+      i = end === -1 ? input.length : end + 1;
+    } else if (char === '"') {
+      i++;
+      while (i < input.length && input[i] !== '"') {
+        if (input[i] === '\\' && ['"', '\\', '$', '`'].includes(input[i + 1])) {
+          current += input[i + 1];
+          i += 2;
+        } else {
+          current += input[i++];
+        }
+      }
+      i++;
+    } else if (char === '\\' && i + 1 < input.length && !isCmd) {
+      current += input[i + 1];
+      i += 2;
+    } else {
+      current += char;
+      i++;
+    }
+  }
+
+  if (inToken) tokens.push(current);
+  return tokens;
+}
+
+const splitHeader = (header: string) => {
+  const separator = header.indexOf(':');
+  return separator === -1
+    ? { key: header.replace(/;$/, '').trim(), value: '' }
+    : { key: header.slice(0, separator).trim(), value: header.slice(separator + 1).trim() };
+};
+
+const encodeDataUrlencode = (value: string, warnings: string[]): string | null => {
+  const equals = value.indexOf('=');
+  const at = value.indexOf('@');
+
+  if (at !== -1 && (equals === -1 || at < equals)) {
+    warnings.push(`--data-urlencode "${value}" reads a file and was skipped`);
+    return null;
+  }
+  if (equals === -1) return encodeURIComponent(value);
+  if (equals === 0) return encodeURIComponent(value.slice(1));
+  return `${value.slice(0, equals)}=${encodeURIComponent(value.slice(equals + 1))}`;
+};
+
+// Split curl's trailing ";type=..." and ";filename=..." options off a -F value
+const splitFormOptions = (value: string): { content: string; type?: string; filename?: string } => {
+  const segments = value.split(';');
+  const options: Record<string, string> = {};
+  while (segments.length > 1 && /^\s*(type|filename)=/.test(segments[segments.length - 1])) {
+    const [option, ...optionValue] = segments.pop()!.trim().split('=');
+    options[option] = optionValue.join('=').replace(/^"(.*)"$/, '$1');
+  }
+  return { content: segments.join(';'), type: options.type, filename: options.filename };
+};
+
+/**
+ * Parse a cURL command into method, URL, query params, headers and body
+ */
+export function parseCurlCommand(command: string): ParsedCurlRequest {
+  const tokens = tokenizeShellCommand(command.trim());
+  if (tokens.length === 0 || !/^curl(\.exe)?$/i.test(tokens[0])) {
+    throw new Error('Not a cURL command');
+  }
+
+  const warnings: string[] = [];
+  const headers: ParsedCurlRequest['headers'] = [];
+  const dataParts: string[] = [];
+  const formFields: FormDataField[] = [];
+  let method = '';
+  let url = '';
+  let useGet = false;
+  let headOnly = false;
+  let jsonData = false;
+  // Any data flag makes curl POST, including ones whose data was skipped
+  let hasData = false;
+
+  const options: { name: string; value?: string }[] = [];
+
+  // Normalise -X POST, -XPOST, combined flags like -sSL and bare URLs into name/value pairs
+  for (let i = 1; i < tokens.length; i++) {
+    const token = tokens[i];
+
+    if (token.startsWith('--') && token.length > 2) {
+      const name = token.slice(2);
+      options.push(LONG_OPTIONS_WITH_VALUE.has(name) ? { name, value: tokens[++i] } : { name });
+    } else if (token.startsWith('-') && token.length > 1) {
+      for (let j = 1; j < token.length; j++) {
+        const flag = token[j];
+        if (SHORT_OPTIONS_WITH_VALUE.has(flag)) {
+          const attached = token.slice(j + 1);
+          options.push({ name: flag, value: attached || tokens[++i] });
+          break;
+        }
+        options.push({ name: flag });
+      }
+    } else {
+      options.push({ name: 'url', value: token });
+    }
+  }
+
+  options.forEach(({ name, value = '' }) => {
+    switch (name) {
+      case 'X':
+      case 'request':
+        method = value.toUpperCase();
+        break;
+      case 'url':
+        if (!url) url = value;
+        else warnings.push(`Additional URL "${value}" was ignored`);
+        break;
+      case 'H':
+      case 'header': {
+        const header = splitHeader(value);
+        if (header.key) headers.push({ ...header, enabled: true });
+        break;
+      }
+      case 'A':
+      case 'user-agent':
+        headers.push({ key: 'User-Agent', value, enabled: true });
+        break;
+      case 'e':
+      case 'referer':
+        headers.push({ key: 'Referer', value, enabled: true });
+        break;
+      case 'b':
+      case 'cookie':
+        if (value.includes('=')) headers.push({ key: 'Cookie', value, enabled: true });
+        else warnings.push(`Cookie file "${value}" was ignored`);
+        break;
+      case 'u':
+      case 'user': {
+        const credentials = value.includes(':') ? value : `${value}:`;
+        headers.push({ key: 'Authorization', value: `Basic ${btoa(credentials)}`, enabled: true });
+        break;
+      }
+      case 'oauth2-bearer':
+        headers.push({ key: 'Authorization', value: `Bearer ${value}`, enabled: true });
+        break;
+      case 'd':
+      case 'data':
+      case 'data-ascii':
+      case 'data-binary':
+      case 'data-raw':
+      case 'json':
+        hasData = true;
+        if (name !== 'data-raw' && value.startsWith('@')) {
+          warnings.push(`Body file "${value.slice(1)}" cannot be read and was skipped`);
+        } else {
+          // curl strips newlines from -d/--data but keeps them for --data-binary/--data-raw/--json
+          dataParts.push(name === 'd' || name === 'data' || name === 'data-ascii' ? value.replace(/\r?\n/g, '') : value);
+        }
+        if (name === 'json') jsonData = true;
+        break;
+      case 'data-urlencode': {
+        hasData = true;
+        const encoded = encodeDataUrlencode(value, warnings);
+        if (encoded !== null) dataParts.push(encoded);
+        break;
+      }
+      case 'F':
+      case 'form':
+      case 'form-string': {
+        const equals = value.indexOf('=');
+        if (equals === -1) {
+          warnings.push(`Form field "${value}" has no value and was skipped`);
+          break;
+        }
+        const key = value.slice(0, equals);
+        if (name === 'form-string') {
+          formFields.push({ key, type: 'text', value: value.slice(equals + 1), enabled: true });
+          break;
+        }
+        const { content, type, filename } = splitFormOptions(value.slice(equals + 1));
+        if (content.startsWith('@') || content.startsWith('<')) {
+          warnings.push(`Form file field "${key}" needs to be attached manually`);
+          const path = content.slice(1).replace(/^"(.*)"$/, '$1');
+          formFields.push({ key, type: 'file', value: '', enabled: true, fileName: filename || path.split(/[\\/]/).pop(), contentType: type });
+        } else {
+          formFields.push({ key, type: 'text', value: content, enabled: true, contentType: type });
+        }
+        break;
+      }
+      case 'G':
+      case 'get':
+        useGet = true;
+        break;
+      case 'I':
+      case 'head':
+        headOnly = true;
+        break;
+      default:
+        if (UNSUPPORTED_FLAGS[name]) {
+          warnings.push(`${UNSUPPORTED_FLAGS[name]} is not supported and was ignored`);
+        }
+        // Output, verbosity, redirect and compression flags do not change the request itself
+    }
+  });
+
+  if (!url) {
+    throw new Error('The cURL command has no URL');
+  }
+
+  if (jsonData) {
+    if (!headers.some(h => h.key.toLowerCase() === 'content-type')) {
+      headers.push({ key: 'Content-Type', value: 'application/json', enabled: true });
+    }
+    if (!headers.some(h => h.key.toLowerCase() === 'accept')) {
+      headers.push({ key: 'Accept', value: 'application/json', enabled: true });
+    }
+  }
+
+  let data = dataParts.join('&');
+
+  // The fragment never leaves curl, so it is dropped before the query is split off or -G data is added
+  url = url.replace(/#.*$/, '');
+
+  // -G sends the data as query parameters instead of a body
+  if (useGet && data) {
+    url += `${url.includes('?') ? '&' : '?'}${data}`;
+    data = '';
+  }
+
+  if (!/^[a-z][a-z0-9+.-]*:\/\//i.test(url)) {
+    url = `http://${url}`;
+  }
+
+  const [baseUrl, ...queryParts] = url.split('?');
+  const query = queryParts.join('?');
+  const queryParams = query
+    ? query.split('&').filter(Boolean).map(pair => {
+      const [key, ...valueParts] = pair.split('=');
+      const decode = (text: string) => {
+        try {
+          return decodeURIComponent(text.replace(/\+/g, ' '));
+        } catch {
+          return text;
+        }
+      };
+      return { key: decode(key), value: decode(valueParts.join('=')), enabled: true };
+    })
+    : [];
+
+  const contentType = headers.find(h => h.key.toLowerCase() === 'content-type')?.value.toLowerCase() || '';
+  let body = '';
+  let bodyType: ParsedCurlRequest['bodyType'] = 'json';
+
+  if (formFields.length > 0) {
+    bodyType = 'form-data';
+    // The client sets the multipart boundary itself
+    const index = headers.findIndex(h => h.key.toLowerCase() === 'content-type');
+    if (index !== -1) headers.splice(index, 1);
+  } else if (data) {
+    body = data;
+    if (contentType.includes('json')) {
+      bodyType = 'json';
+    } else if (contentType.includes('x-www-form-urlencoded')) {
+      bodyType = 'x-www-form-urlencoded';
+    } else if (contentType) {
+      bodyType = 'raw';
+    } else {
+      let isJson = false;
+      try {
+        const parsed = JSON.parse(data);
+        isJson = typeof parsed === 'object' && parsed !== null;
+      } catch {
+        isJson = false;
+      }
+      // curl sends -d data as application/x-www-form-urlencoded unless told otherwise
+      bodyType = isJson ? 'json' : 'x-www-form-urlencoded';
+    }
+  }
+
+  if (!method) {
+    method = headOnly ? 'HEAD' : (hasData && !useGet) || formFields.length > 0 ? 'POST' : 'GET';
+  }
+
+  return { method, url: baseUrl, queryParams, headers, body, bodyType, ...(formFields.length > 0 ? { formData: formFields } : {}), warnings };
+}
@@ -0,0 +1,152 @@
+// Incremental parsing of Server-Sent Events and newline-delimited JSON response bodies
+
+export interface StreamEvent {
+  index: number;
+  receivedAt: number;
+  data: string;
+  // Server-Sent Events fields; NDJSON lines only have data
+  id?: string;
+  event?: string;
+  retry?: number;
+}
+
+export type StreamFormat = 'sse' | 'ndjson';
+
+const NDJSON_CONTENT_TYPES = ['application/x-ndjson', 'application/ndjson', 'application/jsonl', 'application/x-jsonlines', 'application/stream+json'];
+
+/**
+ * Pick the event format for a response, or null if it should be shown as a plain body.
+ * Chunked JSON responses count as NDJSON once their first two lines each parse as JSON.
+ */
+export function detectStreamFormat(contentType: string, headers: Record<string, string>, textSoFar = ''): StreamFormat | null {
+  const type = contentType.toLowerCase();
+  if (type.includes('text/event-stream')) return 'sse';
+  if (NDJSON_CONTENT_TYPES.some(ndjsonType => type.includes(ndjsonType))) return 'ndjson';
+
+  const chunked = (headers['transfer-encoding'] || '').toLowerCase().includes('chunked');
+  if (chunked && type.includes('json')) {
+    const lines = textSoFar.split('\n').filter(line => line.trim());
+    if (lines.length >= 2 && lines.slice(0, 2).every(isJson)) return 'ndjson';
+  }
+  return null;
+}
+
+function isJson(text: string): boolean {
+  try {
+    JSON.parse(text);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Create a parser that turns body text, fed in arbitrary chunks, into events as soon as they are complete
+ */
+export function createStreamParser(format: StreamFormat) {
+  let buffer = '';
+  let index = 0;
+  // Fields of the SSE event currently being built
+  let dataLines: string[] = [];
+  let eventName: string | undefined;
+  let eventId: string | undefined;
+  let retry: number | undefined;
+
+  const dispatchSse = (receivedAt: number, events: StreamEvent[]) => {
+    if (dataLines.length > 0 || eventName !== undefined || retry !== undefined) {
+      events.push({ index: index++, receivedAt, data: dataLines.join('\n'), id: eventId, event: eventName, retry });
+    }
+    dataLines = [];
+    eventName = undefined;
+    retry = undefined;
+    // The last event ID persists across events, as in EventSource
+  };
+
+  const processLine = (line: string, receivedAt: number, events: StreamEvent[]) => {
+    if (format === 'ndjson') {
+      if (line.trim()) events.push({ index: index++, receivedAt, data: line });
+      return;
+    }
+
+    if (line === '') {
+      dispatchSse(receivedAt, events);
+      return;
+    }
+    if (line.startsWith(':')) return; // comment / keep-alive
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    switch (field) {
+      case 'data':
+        dataLines.push(value);
+        break;
+      case 'event':
+        eventName = value;
+        break;
+      case 'id':
+        if (!value.includes('\0')) eventId = value;
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) retry = parseInt(value, 10);
+        break;
+    }
+  };
+
+  return {
+    /**
+     * Feed decoded text; returns the events completed by it
+     */
+    push(text: string, receivedAt = Date.now()): StreamEvent[] {
+      const events: StreamEvent[] = [];
+      buffer += text;
+      // A trailing "\r" may be the first half of "\r\n", so it stays with the incomplete last line
+      const lines = buffer.split(/\r\n|\n|\r(?=[^\n])/);
+      buffer = lines.pop() || '';
+      lines.forEach(line => processLine(line, receivedAt, events));
+      return events;
+    },
+
+    /**
+     * Flush whatever is left when the body ends
+     */
+    end(receivedAt = Date.now()): StreamEvent[] {
+      const events: StreamEvent[] = [];
+      const rest = buffer.replace(/\r$/, '');
+      buffer = '';
+      if (format === 'ndjson') {
+        processLine(rest, receivedAt, events);
+      } else {
+        // An unterminated final SSE event is discarded, as browsers do
+        dataLines = [];
+      }
+      return events;
+    },
+  };
+}
+
+/**
+ * Serialize a captured event log for export: SSE as a JSON array, NDJSON as one record per line, both with receive times
+ */
+export function exportStreamEvents(events: StreamEvent[], format: StreamFormat): string {
+  if (format === 'ndjson') {
+    return events.map(event => JSON.stringify({ receivedAt: new Date(event.receivedAt).toISOString(), data: parseJsonOrText(event.data) })).join('\n') + '\n';
+  }
+  return JSON.stringify(events.map(event => ({
+    receivedAt: new Date(event.receivedAt).toISOString(),
+    ...(event.id !== undefined && { id: event.id }),
+    ...(event.event !== undefined && { event: event.event }),
+    ...(event.retry !== undefined && { retry: event.retry }),
+    data: event.data,
+  })), null, 2);
+}
+
+function parseJsonOrText(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
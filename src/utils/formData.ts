@@ -0,0 +1,62 @@
+// multipart/form-data request bodies as a table of text and file fields
+
+export interface FormDataField {
+  key: string;
+  type: 'text' | 'file';
+  // Text value; unused for file fields
+  value: string;
+  enabled: boolean;
+  // Content-Type of the part; file parts fall back to the uploaded file's type
+  contentType?: string;
+  // Uploaded file sent as the part's content (see /api/files)
+  fileId?: string;
+  fileName?: string;
+}
+
+export const EMPTY_FORM_DATA_FIELD: FormDataField = { key: '', type: 'text', value: '', enabled: true };
+
+const decode = (text: string) => {
+  try {
+    return decodeURIComponent(text);
+  } catch {
+    return text;
+  }
+};
+
+/**
+ * Parse the older `key=value` per line form-data body into text fields
+ */
+export function parseFormDataBody(body: string): FormDataField[] {
+  return body
+    .split('\n')
+    .filter(line => line.trim())
+    .map(line => {
+      const [key, ...valueParts] = line.split('=');
+      return { ...EMPTY_FORM_DATA_FIELD, key: decode(key.trim()), value: decode(valueParts.join('=').trim()) };
+    })
+    .filter(field => field.key);
+}
+
+/**
+ * Write text fields back as `key=value` lines, e.g. for history entries; file fields cannot be kept
+ */
+export function serializeFormDataBody(fields: FormDataField[]): string {
+  return fields
+    .filter(field => field.type === 'text')
+    .map(field => `${encodeURIComponent(field.key)}=${encodeURIComponent(field.value)}`)
+    .join('\n');
+}
+
+/**
+ * Form-data fields of a request, falling back to its body for requests saved before fields existed
+ */
+export function formDataFields(request: { body: string; formData?: FormDataField[] }): FormDataField[] {
+  return request.formData || parseFormDataBody(request.body);
+}
+
+/**
+ * Fields that are sent: enabled, named, and with a file chosen for file fields
+ */
+export function activeFormDataFields(fields: FormDataField[]): FormDataField[] {
+  return fields.filter(field => field.enabled && field.key && (field.type === 'text' || field.fileId));
+}
@@ -0,0 +1,351 @@
+// GraphQL request bodies, schema introspection and query editor support (validation, autocomplete)
+
+import {
+  buildClientSchema,
+  getIntrospectionQuery,
+  getNamedType,
+  isEnumType,
+  isInputType,
+  isInterfaceType,
+  isObjectType,
+  isUnionType,
+  parse,
+  validate,
+  GraphQLError,
+  GraphQLNamedType,
+  GraphQLSchema,
+  IntrospectionQuery,
+  Kind,
+} from 'graphql';
+
+export interface GraphQLRequestBody {
+  query: string;
+  // Raw JSON text from the variables editor
+  variables: string;
+  // Operation to run when the document defines several
+  operationName?: string;
+}
+
+export interface GraphQLDiagnostic {
+  message: string;
+  line?: number;
+  column?: number;
+}
+
+export interface GraphQLCompletion {
+  label: string;
+  detail?: string;
+  description?: string;
+  kind: 'field' | 'argument' | 'type' | 'keyword' | 'value';
+}
+
+export const DEFAULT_GRAPHQL_BODY: GraphQLRequestBody = {
+  query: '',
+  variables: '',
+};
+
+export const INTROSPECTION_OPERATION_NAME = 'IntrospectionQuery';
+export const INTROSPECTION_QUERY = getIntrospectionQuery({ descriptions: true });
+
+const ROOT_KEYWORDS = ['query', 'mutation', 'subscription', 'fragment'];
+
+/**
+ * Names of the operations defined in a document; empty when it does not parse
+ */
+export function getOperationNames(query: string): string[] {
+  try {
+    return parse(query).definitions
+      .filter(definition => definition.kind === Kind.OPERATION_DEFINITION && definition.name)
+      .map(definition => (definition.kind === Kind.OPERATION_DEFINITION && definition.name?.value) || '');
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Serialize the editor state into the JSON payload GraphQL servers expect
+ */
+export function buildGraphQLPayload(body: GraphQLRequestBody, transform: (text: string) => string = text => text): string {
+  let variables: unknown;
+  const variablesText = transform(body.variables).trim();
+  if (variablesText) {
+    try {
+      variables = JSON.parse(variablesText);
+    } catch {
+      throw new Error('GraphQL variables are not valid JSON');
+    }
+  }
+
+  // Only send an operation name the document actually defines, otherwise servers reject the request
+  const operationNames = getOperationNames(body.query);
+  const operationName = body.operationName && operationNames.includes(body.operationName) ? body.operationName : undefined;
+
+  return JSON.stringify({
+    query: transform(body.query),
+    ...(variables !== undefined ? { variables } : {}),
+    ...(operationName ? { operationName } : {}),
+  });
+}
+
+/**
+ * Build a schema from an introspection response body
+ */
+export function parseIntrospectionResponse(data: string): GraphQLSchema {
+  let result: { data?: IntrospectionQuery; errors?: { message: string }[] };
+  try {
+    result = JSON.parse(data);
+  } catch {
+    throw new Error('Introspection response is not JSON');
+  }
+
+  if (!result.data?.__schema) {
+    const message = result.errors?.map(error => error.message).join('; ');
+    throw new Error(message ? `Introspection failed: ${message}` : 'Response does not contain a GraphQL schema');
+  }
+  return buildClientSchema(result.data);
+}
+
+const toDiagnostic = (error: GraphQLError): GraphQLDiagnostic => ({
+  message: error.message,
+  line: error.locations?.[0]?.line,
+  column: error.locations?.[0]?.column,
+});
+
+/**
+ * Syntax errors, plus schema validation errors once a schema is known
+ */
+export function validateGraphQLQuery(query: string, schema?: GraphQLSchema | null): GraphQLDiagnostic[] {
+  if (!query.trim()) return [];
+
+  try {
+    const document = parse(query);
+    return schema ? validate(schema, document).map(toDiagnostic) : [];
+  } catch (error: Error | unknown) {
+    return [error instanceof GraphQLError ? toDiagnostic(error) : { message: 'Invalid GraphQL document' }];
+  }
+}
+
+/**
+ * Human-readable type reference such as [User!]!
+ */
+export function formatTypeRef(type: { toString(): string }): string {
+  return type.toString();
+}
+
+type Token = { kind: 'name' | 'punct' | 'spread' | 'variable' | 'value'; value: string };
+
+// Tokens before the cursor, skipping comments
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /"""[\s\S]*?(?:"""|$)|"(?:[^"\\\n]|\\.)*(?:"|$)|#[^\n]*|\.\.\.|\$[_A-Za-z][_0-9A-Za-z]*|-?\d[\d.eE+-]*|[_A-Za-z][_0-9A-Za-z]*|[{}()[\]:!=@]/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text))) {
+    const value = match[0];
+    if (value.startsWith('#')) continue;
+    if (value === '...') tokens.push({ kind: 'spread', value });
+    else if (value.startsWith('$')) tokens.push({ kind: 'variable', value });
+    else if (value.startsWith('"') || /^-?\d/.test(value)) tokens.push({ kind: 'value', value });
+    else if (/^[_A-Za-z]/.test(value)) tokens.push({ kind: 'name', value });
+    else tokens.push({ kind: 'punct', value });
+  }
+  return tokens;
+}
+
+interface CursorContext {
+  // Selection set path: the root or fragment type first, then field names
+  path: string[];
+  rootType?: string;
+  argumentsOf?: string;
+  // Set when the cursor is on the value of this argument
+  argumentName?: string;
+  inVariableDefinitions: boolean;
+  afterSpread: boolean;
+}
+
+function getCursorContext(textBeforeCursor: string): CursorContext {
+  const tokens = tokenize(textBeforeCursor);
+  const stack: { type?: string; operation?: string; field?: string }[] = [];
+  let operation = 'query';
+  let pendingType: string | undefined;
+  let lastField: string | undefined;
+  let argumentsOf: string | undefined;
+  let argumentName: string | undefined;
+  let parenDepth = 0;
+  let afterSpread = false;
+
+  tokens.forEach((token, index) => {
+    const previous = tokens[index - 1];
+
+    if (parenDepth > 0) {
+      if (token.value === '(') parenDepth++;
+      else if (token.value === ')') parenDepth--;
+      else if (token.kind === 'name' && parenDepth === 1 && tokens[index + 1]?.value === ':') argumentName = token.value;
+      if (parenDepth === 0) argumentsOf = undefined;
+      return;
+    }
+
+    afterSpread = token.kind === 'spread';
+    if (token.kind === 'name') {
+      if (previous?.value === 'on') {
+        pendingType = token.value;
+      } else if (previous?.value === '@' || previous?.kind === 'spread' || token.value === 'on') {
+        // Directive names, fragment spreads and type conditions are not fields
+        if (previous?.kind === 'spread' && token.value !== 'on') lastField = undefined;
+      } else if (stack.length === 0) {
+        if (['query', 'mutation', 'subscription'].includes(token.value)) operation = token.value;
+      } else {
+        // With an alias ("alias: field") the field name comes last
+        lastField = token.value;
+      }
+    } else if (token.value === '(') {
+      parenDepth = 1;
+      argumentsOf = stack.length > 0 ? lastField : undefined;
+    } else if (token.value === '{') {
+      if (pendingType) stack.push({ type: pendingType });
+      else if (stack.length === 0) stack.push({ operation });
+      else stack.push({ field: lastField });
+      pendingType = undefined;
+      lastField = undefined;
+    } else if (token.value === '}') {
+      stack.pop();
+      lastField = undefined;
+      if (stack.length === 0) operation = 'query';
+    }
+  });
+
+  const [root, ...rest] = stack;
+  // Directly after "name:" the cursor is on an argument value
+  const afterColon = tokens[tokens.length - 1]?.value === ':';
+  return {
+    path: rest.map(entry => entry.type ? `on:${entry.type}` : entry.field || ''),
+    rootType: root?.type || root?.operation,
+    argumentsOf: parenDepth > 0 ? argumentsOf : undefined,
+    argumentName: parenDepth > 0 && afterColon ? argumentName : undefined,
+    inVariableDefinitions: parenDepth > 0 && stack.length === 0,
+    afterSpread,
+  };
+}
+
+function rootTypeFor(schema: GraphQLSchema, root: string): GraphQLNamedType | null | undefined {
+  if (root === 'query') return schema.getQueryType();
+  if (root === 'mutation') return schema.getMutationType();
+  if (root === 'subscription') return schema.getSubscriptionType();
+  return schema.getType(root);
+}
+
+// Walk the selection path down from the root to the type at the cursor
+function resolvePathType(schema: GraphQLSchema, context: CursorContext): GraphQLNamedType | null | undefined {
+  if (!context.rootType) return null;
+  let type = rootTypeFor(schema, context.rootType);
+
+  for (const segment of context.path) {
+    if (!type) return null;
+    if (segment.startsWith('on:')) {
+      type = schema.getType(segment.slice(3));
+    } else if (isObjectType(type) || isInterfaceType(type)) {
+      const field = type.getFields()[segment];
+      type = field ? getNamedType(field.type) : null;
+    } else {
+      return null;
+    }
+  }
+  return type;
+}
+
+/**
+ * Suggestions for the word being typed at the cursor
+ */
+export function getGraphQLCompletions(schema: GraphQLSchema | null, query: string, cursor: number): { from: number; items: GraphQLCompletion[] } {
+  const before = query.slice(0, cursor);
+  const prefix = /[_A-Za-z][_0-9A-Za-z]*$/.exec(before)?.[0] || '';
+  const from = cursor - prefix.length;
+  const context = getCursorContext(before.slice(0, from));
+  const matches = (items: GraphQLCompletion[]) => ({
+    from,
+    items: items.filter(item => item.label.toLowerCase().startsWith(prefix.toLowerCase()) && item.label !== prefix),
+  });
+
+  if (context.inVariableDefinitions) {
+    if (!schema || !/:\s*\[?\s*$/.test(before.slice(0, from))) return { from, items: [] };
+    return matches(Object.values(schema.getTypeMap())
+      .filter(type => !type.name.startsWith('__') && isInputType(type))
+      .map(type => ({ label: type.name, kind: 'type', description: type.description || undefined })));
+  }
+
+  if (!context.rootType) {
+    return matches(ROOT_KEYWORDS.map(keyword => ({ label: keyword, kind: 'keyword' })));
+  }
+  if (!schema) return { from, items: [] };
+
+  const type = resolvePathType(schema, context);
+  if (!type) return { from, items: [] };
+
+  if (context.afterSpread) {
+    return matches([{ label: 'on', kind: 'keyword' }]);
+  }
+
+  if (context.argumentsOf) {
+    if (!isObjectType(type) && !isInterfaceType(type)) return { from, items: [] };
+    const field = type.getFields()[context.argumentsOf];
+    if (!field) return { from, items: [] };
+
+    // After "name:" offer enum values for enum arguments
+    if (context.argumentName) {
+      const argument = field.args.find(arg => arg.name === context.argumentName);
+      const argumentType = argument && getNamedType(argument.type);
+      if (argumentType && isEnumType(argumentType)) {
+        return matches(argumentType.getValues().map(value => ({
+          label: value.name,
+          kind: 'value',
+          description: value.description || undefined,
+        })));
+      }
+      return { from, items: [] };
+    }
+
+    return matches(field.args.map(arg => ({
+      label: arg.name,
+      detail: formatTypeRef(arg.type),
+      description: arg.description || undefined,
+      kind: 'argument',
+    })));
+  }
+
+  const items: GraphQLCompletion[] = [];
+  if (isObjectType(type) || isInterfaceType(type)) {
+    Object.values(type.getFields()).forEach(field => {
+      items.push({
+        label: field.name,
+        detail: formatTypeRef(field.type),
+        description: field.description || undefined,
+        kind: 'field',
+      });
+    });
+  }
+  if (isObjectType(type) || isInterfaceType(type) || isUnionType(type)) {
+    items.push({ label: '__typename', detail: 'String!', kind: 'field' });
+    if (!isObjectType(type)) {
+      schema.getPossibleTypes(type).forEach(possible => {
+        items.push({ label: `... on ${possible.name}`, kind: 'type', description: possible.description || undefined });
+      });
+    }
+  }
+  return matches(items);
+}
+
+/**
+ * Read a hand-written {"query": ...} JSON payload into the GraphQL editor fields
+ */
+export function graphqlBodyFromJson(text: string): GraphQLRequestBody | null {
+  try {
+    const payload = JSON.parse(text);
+    if (!payload || typeof payload.query !== 'string') return null;
+    return {
+      query: payload.query,
+      variables: payload.variables && Object.keys(payload.variables).length > 0 ? JSON.stringify(payload.variables, null, 2) : '',
+      ...(typeof payload.operationName === 'string' ? { operationName: payload.operationName } : {}),
+    };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,87 @@
+// gRPC request model for the gRPC tabs and the /api/grpc relay
+
+// Stored as the request method so gRPC requests sit next to HTTP ones in collections
+export const GRPC_METHOD = 'GRPC';
+
+export type GrpcDefinitionSource = 'reflection' | 'proto';
+
+export interface GrpcProtoFile {
+  name: string;
+  content: string;
+}
+
+export interface GrpcSettings {
+  source: GrpcDefinitionSource;
+  // Uploaded .proto files, kept with the request so it can be invoked again without re-uploading
+  protoFiles: GrpcProtoFile[];
+  // Fully qualified service name, e.g. helloworld.Greeter
+  service: string;
+  method: string;
+  // Request message as JSON text
+  message: string;
+}
+
+export interface GrpcMethodInfo {
+  name: string;
+  requestType: string;
+  responseType: string;
+  clientStreaming: boolean;
+  serverStreaming: boolean;
+  example: Record<string, unknown>;
+}
+
+export interface GrpcServiceInfo {
+  name: string;
+  methods: GrpcMethodInfo[];
+}
+
+// Lines of the NDJSON stream returned by /api/grpc/invoke
+export type GrpcCallEvent =
+  | { type: 'metadata'; metadata: Record<string, string> }
+  | { type: 'message'; data: unknown; time: number }
+  | { type: 'status'; code: number; name: string; details: string; trailers: Record<string, string>; time: number };
+
+export const DEFAULT_GRPC_SETTINGS: GrpcSettings = {
+  source: 'reflection',
+  protoFiles: [],
+  service: '',
+  method: '',
+  message: '{}',
+};
+
+export const GRPC_SOURCE_LABELS: Record<GrpcDefinitionSource, string> = {
+  reflection: 'Server reflection',
+  proto: '.proto files',
+};
+
+/**
+ * Whether a saved or edited request is a gRPC request
+ */
+export function isGrpcRequest(request: { method: string }): boolean {
+  return request.method === GRPC_METHOD;
+}
+
+/**
+ * Find the selected method among the loaded services
+ */
+export function findGrpcMethod(services: GrpcServiceInfo[], service: string, method: string): GrpcMethodInfo | undefined {
+  return services.find(candidate => candidate.name === service)?.methods.find(candidate => candidate.name === method);
+}
+
+/**
+ * Parse the request message editor; an empty editor sends an empty message
+ */
+export function parseGrpcMessage(message: string): Record<string, unknown> {
+  if (!message.trim()) return {};
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(message);
+  } catch {
+    throw new Error('Request message is not valid JSON');
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('Request message must be a JSON object');
+  }
+  return parsed as Record<string, unknown>;
+}
@@ -0,0 +1,13 @@
+// Size cap for the request and response bodies kept in history, shared by useHistory and /api/history
+
+export const MAX_STORED_BODY_SIZE = 1024 * 1024; // 1MB per stored request or response body
+
+/**
+ * Cap a stored body, reporting whether it had to be cut
+ */
+export function capHistoryBody(value: string | undefined): { value?: string; truncated: boolean } {
+  if (typeof value !== 'string' || value.length <= MAX_STORED_BODY_SIZE) {
+    return { value, truncated: false };
+  }
+  return { value: value.slice(0, MAX_STORED_BODY_SIZE), truncated: true };
+}
@@ -0,0 +1,136 @@
+// Import format detection and conversion into AnMost collections and environments
+
+import { parse as parseYaml } from 'yaml';
+import { importPostmanCollection, importPostmanEnvironment, isPostmanCollection, isPostmanEnvironment } from './postman';
+import { importInsomniaExport, isInsomniaExport } from './insomnia';
+import { importOpenApiDocument, isOpenApiDocument } from './openApi';
+import type { GraphQLRequestBody } from './graphql';
+import type { FormDataField } from './formData';
+import type { BinaryFileBody } from './storedFiles';
+import type { RequestAuth } from './requestAuth';
+
+export type ImportFormat = 'anmost' | 'postman-collection' | 'postman-environment' | 'insomnia' | 'openapi';
+
+export type ImportWarnings = Set<string>;
+
+export interface ImportedRequest {
+  name: string;
+  folder?: string;
+  method: string;
+  url: string;
+  headers: { key: string; value: string; enabled: boolean }[];
+  body: string;
+  bodyType: 'json' | 'form-data' | 'x-www-form-urlencoded' | 'raw' | 'binary' | 'graphql';
+  preRequestScript?: string;
+  testScript?: string;
+  graphql?: GraphQLRequestBody;
+  formData?: FormDataField[];
+  binary?: BinaryFileBody;
+  auth?: RequestAuth;
+}
+
+export interface ImportedCollection {
+  name: string;
+  requests: ImportedRequest[];
+  auth?: RequestAuth;
+  variables?: { key: string; value: string; enabled: boolean }[];
+}
+
+export interface ImportedEnvironment {
+  name: string;
+  variables: { key: string; value: string; enabled: boolean; secret?: boolean }[];
+}
+
+export interface ImportPreview {
+  format: ImportFormat;
+  collections: ImportedCollection[];
+  environments: ImportedEnvironment[];
+  warnings: string[];
+}
+
+export const IMPORT_FORMAT_LABELS: Record<ImportFormat, string> = {
+  anmost: 'AnMost JSON',
+  'postman-collection': 'Postman Collection v2.1',
+  'postman-environment': 'Postman Environment',
+  insomnia: 'Insomnia v4',
+  openapi: 'OpenAPI 3 / Swagger 2',
+};
+
+const isAnMostExport = (data: unknown): data is { collections?: ImportedCollection[]; environments?: ImportedEnvironment[] } => {
+  const candidate = data as { collections?: unknown; environments?: unknown };
+  return !!candidate && typeof candidate === 'object' &&
+    (Array.isArray(candidate.collections) || Array.isArray(candidate.environments));
+};
+
+// OpenAPI documents are often YAML; every other format is JSON, which YAML also accepts
+const parseDocument = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    try {
+      return parseYaml(text);
+    } catch {
+      throw new Error('Invalid JSON or YAML format. Please check your data and try again.');
+    }
+  }
+};
+
+/**
+ * Detect the format of an import document and convert it into a preview.
+ * Throws when the text is not JSON/YAML or the format is not recognised.
+ */
+export function parseImportData(text: string): ImportPreview {
+  const data = parseDocument(text);
+
+  const warnings: ImportWarnings = new Set();
+
+  if (isPostmanCollection(data)) {
+    const collection = importPostmanCollection(data, warnings);
+    return { format: 'postman-collection', collections: [collection], environments: [], warnings: Array.from(warnings) };
+  }
+
+  if (isInsomniaExport(data)) {
+    const { collections, environments } = importInsomniaExport(data, warnings);
+    return { format: 'insomnia', collections, environments, warnings: Array.from(warnings) };
+  }
+
+  if (isOpenApiDocument(data)) {
+    const { collection, environments } = importOpenApiDocument(data, warnings);
+    return { format: 'openapi', collections: [collection], environments, warnings: Array.from(warnings) };
+  }
+
+  if (isAnMostExport(data)) {
+    return {
+      format: 'anmost',
+      collections: data.collections || [],
+      environments: data.environments || [],
+      warnings: [],
+    };
+  }
+
+  if (isPostmanEnvironment(data)) {
+    const environment = importPostmanEnvironment(data, warnings);
+    return { format: 'postman-environment', collections: [], environments: [environment], warnings: Array.from(warnings) };
+  }
+
+  throw new Error('Unrecognised format. Supported formats: AnMost JSON, Postman Collection v2.1, Postman Environment, Insomnia v4, OpenAPI 3 / Swagger 2.');
+}
+
+/**
+ * Requests that bring pre-request or test scripts along, so they can be shown before the import
+ */
+export function importedScripts(collections: ImportedCollection[]): { collection: string; request: ImportedRequest }[] {
+  return collections.flatMap(collection => collection.requests
+    .filter(request => request.preRequestScript?.trim() || request.testScript?.trim())
+    .map(request => ({ collection: collection.name, request })));
+}
+
+/**
+ * Drop the scripts of imported requests; they run on every send, so they are only kept when the user agrees
+ */
+export function withoutScripts(collections: ImportedCollection[]): ImportedCollection[] {
+  return collections.map(collection => ({
+    ...collection,
+    requests: collection.requests.map(request => ({ ...request, preRequestScript: undefined, testScript: undefined })),
+  }));
+}
@@ -0,0 +1,348 @@
+// Insomnia v4 export import/export utilities
+
+import type { ImportedCollection, ImportedEnvironment, ImportedRequest, ImportWarnings } from './importFormats';
+import { graphqlBodyFromJson, GraphQLRequestBody } from './graphql';
+import { formDataFields, FormDataField } from './formData';
+import type { BinaryFileBody } from './storedFiles';
+
+interface InsomniaResource {
+  _id: string;
+  _type: 'workspace' | 'request_group' | 'request' | 'environment' | 'cookie_jar' | 'api_spec' | string;
+  parentId?: string | null;
+  name?: string;
+  method?: string;
+  url?: string;
+  headers?: { name: string; value: string; disabled?: boolean }[];
+  parameters?: { name: string; value: string; disabled?: boolean }[];
+  body?: {
+    mimeType?: string;
+    text?: string;
+    params?: { name: string; value: string; disabled?: boolean; type?: string; fileName?: string }[];
+    fileName?: string;
+  };
+  authentication?: { type?: string; disabled?: boolean; [key: string]: unknown };
+  data?: Record<string, unknown>;
+}
+
+export interface InsomniaExport {
+  _type: 'export';
+  __export_format: number;
+  __export_date?: string;
+  __export_source?: string;
+  resources: InsomniaResource[];
+}
+
+interface ExportableRequest {
+  name: string;
+  folder?: string;
+  method: string;
+  url: string;
+  headers: { key: string; value: string; enabled: boolean }[];
+  body: string;
+  bodyType: 'json' | 'form-data' | 'x-www-form-urlencoded' | 'raw' | 'binary' | 'graphql';
+  graphql?: GraphQLRequestBody;
+  formData?: FormDataField[];
+  binary?: BinaryFileBody;
+}
+
+const BODY_MIME_TYPES: Record<ExportableRequest['bodyType'], string> = {
+  json: 'application/json',
+  'form-data': 'multipart/form-data',
+  'x-www-form-urlencoded': 'application/x-www-form-urlencoded',
+  raw: 'text/plain',
+  binary: 'application/octet-stream',
+  graphql: 'application/graphql',
+};
+
+// Insomnia templates reference variables as {{ _.name }}
+const fromInsomniaTemplate = (text: string | undefined): string =>
+  (text || '').replace(/{{\s*_\.([\w.-]+)\s*}}/g, '{{$1}}');
+
+const toInsomniaTemplate = (text: string): string =>
+  text.replace(/{{\s*([\w.-]+)\s*}}/g, '{{ _.$1 }}');
+
+/**
+ * Detect an Insomnia v4 export document
+ */
+export function isInsomniaExport(data: unknown): data is InsomniaExport {
+  const candidate = data as InsomniaExport;
+  return !!candidate && typeof candidate === 'object' && candidate._type === 'export' &&
+    Array.isArray(candidate.resources);
+}
+
+const flattenVariables = (data: Record<string, unknown>, prefix = ''): ImportedEnvironment['variables'] =>
+  Object.entries(data).flatMap(([key, value]) => {
+    const name = prefix ? `${prefix}.${key}` : key;
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      return flattenVariables(value as Record<string, unknown>, name);
+    }
+    return [{ key: name, value: typeof value === 'string' ? value : JSON.stringify(value), enabled: true }];
+  });
+
+const applyAuth = (
+  auth: InsomniaResource['authentication'],
+  request: ImportedRequest,
+  warnings: ImportWarnings,
+  context: string
+) => {
+  if (!auth || !auth.type || auth.type === 'none' || auth.disabled) return;
+
+  const field = (key: string) => fromInsomniaTemplate(typeof auth[key] === 'string' ? auth[key] as string : '');
+
+  switch (auth.type) {
+    case 'bearer':
+      request.headers.push({ key: 'Authorization', value: `${field('prefix') || 'Bearer'} ${field('token')}`, enabled: true });
+      break;
+    case 'basic': {
+      const credentials = `${field('username')}:${field('password')}`;
+      request.headers.push({
+        key: 'Authorization',
+        value: `Basic ${/{{.+}}/.test(credentials) ? credentials : btoa(credentials)}`,
+        enabled: true,
+      });
+      break;
+    }
+    case 'apikey':
+      if (field('addTo') === 'queryParams') {
+        request.url += `${request.url.includes('?') ? '&' : '?'}${encodeURIComponent(field('key'))}=${encodeURIComponent(field('value'))}`;
+      } else {
+        request.headers.push({ key: field('key'), value: field('value'), enabled: true });
+      }
+      break;
+    default:
+      warnings.add(`${context}: "${auth.type}" authentication is not supported and was skipped`);
+  }
+};
+
+const applyBody = (body: InsomniaResource['body'], request: ImportedRequest, warnings: ImportWarnings, context: string) => {
+  if (!body || (!body.mimeType && !body.text && !body.params)) return;
+
+  const mimeType = body.mimeType || '';
+  if (mimeType === 'application/x-www-form-urlencoded') {
+    request.bodyType = 'x-www-form-urlencoded';
+    request.body = (body.params || [])
+      .filter(p => !p.disabled)
+      .map(p => `${encodeURIComponent(p.name)}=${encodeURIComponent(fromInsomniaTemplate(p.value))}`)
+      .join('&');
+  } else if (mimeType === 'multipart/form-data') {
+    request.bodyType = 'form-data';
+    request.formData = (body.params || []).map((p): FormDataField => {
+      if (p.type === 'file') {
+        warnings.add(`${context}: file field "${p.name}" was imported without its file; choose the file again`);
+        return { key: p.name, type: 'file', value: '', enabled: !p.disabled };
+      }
+      return { key: p.name, type: 'text', value: fromInsomniaTemplate(p.value), enabled: !p.disabled };
+    });
+  } else if (mimeType === 'application/octet-stream' || body.fileName) {
+    request.bodyType = 'binary';
+    warnings.add(`${context}: binary file body "${body.fileName || 'unknown'}" cannot be imported`);
+  } else if (mimeType === 'application/graphql') {
+    const graphql = graphqlBodyFromJson(fromInsomniaTemplate(body.text));
+    if (graphql) {
+      request.bodyType = 'graphql';
+      request.graphql = graphql;
+    } else {
+      request.bodyType = 'json';
+      request.body = fromInsomniaTemplate(body.text);
+    }
+  } else {
+    request.bodyType = mimeType.includes('json') ? 'json' : 'raw';
+    request.body = fromInsomniaTemplate(body.text);
+  }
+};
+
+/**
+ * Convert an Insomnia v4 export into collections (one per workspace) and environments
+ */
+export function importInsomniaExport(data: InsomniaExport, warnings: ImportWarnings): {
+  collections: ImportedCollection[];
+  environments: ImportedEnvironment[];
+} {
+  if (data.__export_format !== 4) {
+    warnings.add(`Insomnia export format ${data.__export_format} is not v4; some fields may not map correctly`);
+  }
+
+  const byId = new Map(data.resources.map(resource => [resource._id, resource]));
+  const workspaces = data.resources.filter(r => r._type === 'workspace');
+  const collections = new Map<string, ImportedCollection>(
+    workspaces.map(w => [w._id, { name: w.name || 'Insomnia Workspace', requests: [] }])
+  );
+  const environments: ImportedEnvironment[] = [];
+
+  // Walk up the parent chain to find the folder path and owning workspace
+  const locate = (resource: InsomniaResource) => {
+    const folders: string[] = [];
+    let parent = resource.parentId ? byId.get(resource.parentId) : undefined;
+    while (parent && parent._type === 'request_group') {
+      folders.unshift(parent.name || 'Folder');
+      parent = parent.parentId ? byId.get(parent.parentId) : undefined;
+    }
+    return { folder: folders.join('/'), workspaceId: parent?._type === 'workspace' ? parent._id : undefined };
+  };
+
+  data.resources.forEach(resource => {
+    switch (resource._type) {
+      case 'request': {
+        const { folder, workspaceId } = locate(resource);
+        const context = `Request "${[folder, resource.name].filter(Boolean).join('/')}"`;
+        const request: ImportedRequest = {
+          name: resource.name || 'Untitled',
+          folder,
+          method: (resource.method || 'GET').toUpperCase(),
+          url: fromInsomniaTemplate(resource.url),
+          headers: (resource.headers || []).map(h => ({
+            key: h.name,
+            value: fromInsomniaTemplate(h.value),
+            enabled: !h.disabled,
+          })),
+          body: '',
+          bodyType: 'json',
+        };
+
+        const query = (resource.parameters || [])
+          .filter(p => !p.disabled)
+          .map(p => `${encodeURIComponent(p.name)}=${encodeURIComponent(fromInsomniaTemplate(p.value))}`)
+          .join('&');
+        if (query) {
+          request.url += `${request.url.includes('?') ? '&' : '?'}${query}`;
+        }
+
+        applyAuth(resource.authentication, request, warnings, context);
+        applyBody(resource.body, request, warnings, context);
+
+        let collection = workspaceId ? collections.get(workspaceId) : undefined;
+        if (!collection) {
+          collection = { name: 'Insomnia Import', requests: [] };
+          collections.set('', collection);
+        }
+        collection.requests.push(request);
+        break;
+      }
+      case 'environment': {
+        const variables = flattenVariables(resource.data || {});
+        if (variables.length > 0) {
+          environments.push({ name: resource.name || 'Insomnia Environment', variables });
+        }
+        break;
+      }
+      case 'workspace':
+      case 'request_group':
+      case 'cookie_jar':
+        break;
+      default:
+        warnings.add(`Insomnia resource type "${resource._type}" is not supported and was skipped`);
+    }
+  });
+
+  return { collections: Array.from(collections.values()), environments };
+}
+
+const exportBody = (request: ExportableRequest): InsomniaResource['body'] => {
+  const mimeType = BODY_MIME_TYPES[request.bodyType];
+  if (request.bodyType === 'graphql') {
+    let variables: unknown;
+    try {
+      variables = request.graphql?.variables.trim() ? JSON.parse(request.graphql.variables) : undefined;
+    } catch {
+      // Insomnia stores variables as JSON; drop ones that do not parse
+    }
+    return { mimeType, text: toInsomniaTemplate(JSON.stringify({ query: request.graphql?.query || '', variables }, null, 2)) };
+  }
+  if (request.bodyType === 'binary') {
+    return { mimeType: request.binary?.contentType || mimeType, fileName: request.binary?.fileName || '' };
+  }
+  if (request.bodyType === 'form-data') {
+    // Insomnia file params point at a local path; the file name is the closest there is
+    const params = formDataFields(request).map(field => ({
+      name: field.key,
+      value: field.type === 'text' ? toInsomniaTemplate(field.value) : '',
+      ...(field.type === 'file' ? { type: 'file', fileName: field.fileName || '' } : {}),
+      ...(field.enabled ? {} : { disabled: true }),
+    }));
+    return { mimeType, params };
+  }
+  if (request.bodyType !== 'x-www-form-urlencoded') {
+    return { mimeType, text: toInsomniaTemplate(request.body) };
+  }
+
+  const params = request.body
+    .split(/[&\n]/)
+    .filter(part => part.trim())
+    .map(part => {
+      const [name, ...valueParts] = part.split('=');
+      const value = valueParts.join('=').trim();
+      return { name: decodeURIComponent(name.trim()), value: toInsomniaTemplate(decodeURIComponent(value)) };
+    });
+
+  return { mimeType, params };
+};
+
+/**
+ * Convert collections and environments into an Insomnia v4 export document
+ */
+export function exportInsomnia(
+  collections: { name: string; requests: ExportableRequest[] }[],
+  environments: ImportedEnvironment[]
+): InsomniaExport {
+  const resources: InsomniaResource[] = [];
+  let counter = 0;
+  const nextId = (prefix: string) => `${prefix}_${Date.now().toString(36)}${(counter++).toString(36)}`;
+
+  collections.forEach(collection => {
+    const workspaceId = nextId('wrk');
+    resources.push({ _id: workspaceId, _type: 'workspace', parentId: null, name: collection.name });
+
+    const folderIds = new Map<string, string>();
+    const folderId = (folder: string | undefined): string => {
+      let parentId = workspaceId;
+      let path = '';
+      (folder || '').split('/').filter(Boolean).forEach(segment => {
+        path = path ? `${path}/${segment}` : segment;
+        let id = folderIds.get(path);
+        if (!id) {
+          id = nextId('fld');
+          folderIds.set(path, id);
+          resources.push({ _id: id, _type: 'request_group', parentId, name: segment });
+        }
+        parentId = id;
+      });
+      return parentId;
+    };
+
+    collection.requests.forEach(request => {
+      const hasBody = request.bodyType === 'form-data'
+        ? formDataFields(request).length > 0
+        : request.bodyType === 'binary' ? !!request.binary?.fileId : !!request.body;
+      resources.push({
+        _id: nextId('req'),
+        _type: 'request',
+        parentId: folderId(request.folder),
+        name: request.name,
+        method: request.method,
+        url: toInsomniaTemplate(request.url),
+        headers: request.headers
+          .filter(h => h.key)
+          .map(h => ({ name: h.key, value: toInsomniaTemplate(h.value), ...(h.enabled ? {} : { disabled: true }) })),
+        body: hasBody ? exportBody(request) : {},
+      });
+    });
+  });
+
+  environments.forEach(environment => {
+    resources.push({
+      _id: nextId('env'),
+      _type: 'environment',
+      parentId: null,
+      name: environment.name,
+      data: Object.fromEntries(environment.variables.filter(v => v.enabled && v.key).map(v => [v.key, v.value])),
+    });
+  });
+
+  return {
+    _type: 'export',
+    __export_format: 4,
+    __export_date: new Date().toISOString(),
+    __export_source: 'anmost',
+    resources,
+  };
+}
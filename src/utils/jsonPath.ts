@@ -0,0 +1,70 @@
+// Minimal JSONPath evaluation utilities
+
+type PathSegment = { type: 'key'; key: string } | { type: 'index'; index: number } | { type: 'wildcard' };
+
+/**
+ * Split a JSONPath expression such as $.items[0].name or $['a b'][*] into segments
+ */
+export function parseJsonPath(path: string): PathSegment[] {
+  const segments: PathSegment[] = [];
+  let expression = path.trim();
+
+  if (expression.startsWith('$')) {
+    expression = expression.slice(1);
+  }
+
+  const pattern = /\.([^.[\]]+)|\[\s*(\d+)\s*\]|\[\s*\*\s*\]|\[\s*'([^']*)'\s*\]|\[\s*"([^"]*)"\s*\]/y;
+  let position = 0;
+
+  while (position < expression.length) {
+    pattern.lastIndex = position;
+    const match = pattern.exec(expression);
+    if (!match) {
+      throw new Error(`Invalid JSONPath near "${expression.slice(position)}"`);
+    }
+
+    if (match[1] !== undefined) {
+      segments.push(match[1] === '*' ? { type: 'wildcard' } : { type: 'key', key: match[1] });
+    } else if (match[2] !== undefined) {
+      segments.push({ type: 'index', index: parseInt(match[2], 10) });
+    } else if (match[3] !== undefined || match[4] !== undefined) {
+      segments.push({ type: 'key', key: (match[3] ?? match[4]) as string });
+    } else {
+      segments.push({ type: 'wildcard' });
+    }
+
+    position = pattern.lastIndex;
+  }
+
+  return segments;
+}
+
+/**
+ * Evaluate a JSONPath expression and return every matching value
+ */
+export function evaluateJsonPath(data: unknown, path: string): unknown[] {
+  let current: unknown[] = [data];
+
+  for (const segment of parseJsonPath(path)) {
+    const next: unknown[] = [];
+
+    current.forEach(value => {
+      if (value === null || typeof value !== 'object') return;
+
+      if (segment.type === 'wildcard') {
+        next.push(...(Array.isArray(value) ? value : Object.values(value)));
+      } else if (segment.type === 'index') {
+        if (Array.isArray(value) && segment.index < value.length) {
+          next.push(value[segment.index]);
+        }
+      } else if (Object.prototype.hasOwnProperty.call(value, segment.key)) {
+        // Own properties only, so names like constructor or __proto__ do not match inherited members
+        next.push((value as Record<string, unknown>)[segment.key]);
+      }
+    });
+
+    current = next;
+  }
+
+  return current;
+}
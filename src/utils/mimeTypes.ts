@@ -148,6 +148,29 @@ export function detectMimeType(contentType: string): MimeTypeInfo {
   }
 }
 
+// Extensions that are not the one listed in MIME_TYPE_MAP for their type
+const EXTENSION_ALIASES: Record<string, string> = {
+  jpeg: 'image/jpeg',
+  htm: 'text/html',
+  tif: 'image/tiff',
+  mjs: 'text/javascript',
+  yaml: 'application/yaml',
+  yml: 'application/yaml',
+  tgz: 'application/gzip',
+};
+
+/**
+ * Guess a file's MIME type from its extension, e.g. for uploads the browser gave no type for
+ */
+export function mimeTypeFromFileName(fileName: string): string {
+  const extension = fileName.includes('.') ? fileName.split('.').pop()!.toLowerCase() : '';
+  if (!extension) return 'application/octet-stream';
+  if (EXTENSION_ALIASES[extension]) return EXTENSION_ALIASES[extension];
+
+  const match = Object.values(MIME_TYPE_MAP).find(info => info.extension === extension);
+  return match ? match.type : 'application/octet-stream';
+}
+
 /**
  * Generate a filename for download based on URL and MIME type
  */
@@ -0,0 +1,295 @@
+// OAuth 2.0 token acquisition, caching and refresh. Token requests go through /api/proxy.
+
+import type { ProxyRequestOptions, ProxyResponse } from './requestExecutor';
+import { encodeBase64, OAuth2Config } from './requestAuth';
+
+export interface OAuth2Token {
+  accessToken: string;
+  tokenType: string;
+  refreshToken?: string;
+  scope?: string;
+  expiresAt?: number;
+}
+
+type SendRequest = (options: ProxyRequestOptions) => Promise<ProxyResponse>;
+
+// Tokens are cached per signed-in user, under the user's id, and the cache is cleared on logout
+const CACHE_STORAGE_PREFIX = 'oauth2Tokens';
+const USER_STORAGE_KEY = 'rest-client-user';
+
+// Refresh a little before the server-side expiry to avoid sending a token that expires in flight
+const EXPIRY_MARGIN_MS = 30 * 1000;
+
+const AUTHORIZATION_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Nothing is cached while no user is signed in
+const cacheStorageKey = (): string | null => {
+  if (typeof window === 'undefined') return null;
+  try {
+    const user = JSON.parse(localStorage.getItem(USER_STORAGE_KEY) || 'null');
+    return user?.id !== undefined ? `${CACHE_STORAGE_PREFIX}:${user.id}` : null;
+  } catch {
+    return null;
+  }
+};
+
+const readCache = (): Record<string, OAuth2Token> => {
+  const key = cacheStorageKey();
+  if (!key) return {};
+  try {
+    return JSON.parse(localStorage.getItem(key) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+const writeCache = (cache: Record<string, OAuth2Token>) => {
+  const key = cacheStorageKey();
+  if (!key) return;
+  localStorage.setItem(key, JSON.stringify(cache));
+};
+
+/**
+ * Remove every cached token, for all users
+ */
+export function clearOAuth2TokenCache(): void {
+  if (typeof window === 'undefined') return;
+  Object.keys(localStorage)
+    .filter(key => key === CACHE_STORAGE_PREFIX || key.startsWith(`${CACHE_STORAGE_PREFIX}:`))
+    .forEach(key => localStorage.removeItem(key));
+}
+
+// 53-bit string hash (cyrb53). Keys have to be computed synchronously, so SubtleCrypto is not an option;
+// it only has to tell credentials apart without writing them to storage as they are
+const hashString = (text: string): string => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let index = 0; index < text.length; index++) {
+    const code = text.charCodeAt(index);
+    h1 = Math.imul(h1 ^ code, 2654435761);
+    h2 = Math.imul(h2 ^ code, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+};
+
+/**
+ * Tokens are cached per token endpoint, client, grant, scope and resource owner, and per credentials:
+ * a changed client secret or password fetches a new token. Credentials only go into the key hashed.
+ */
+export function oauth2CacheKey(config: OAuth2Config): string {
+  const credentials = hashString(JSON.stringify([config.clientSecret || '', config.password || '']));
+  return [config.tokenUrl, config.clientId, config.grantType, config.scope || '', config.username || '', credentials].join('|');
+}
+
+/**
+ * Get the cached token for a configuration, expired or not
+ */
+export function getCachedOAuth2Token(config: OAuth2Config): OAuth2Token | null {
+  return readCache()[oauth2CacheKey(config)] || null;
+}
+
+/**
+ * Remove the cached token for a configuration
+ */
+export function clearCachedOAuth2Token(config: OAuth2Config): void {
+  const cache = readCache();
+  delete cache[oauth2CacheKey(config)];
+  writeCache(cache);
+}
+
+const storeToken = (config: OAuth2Config, token: OAuth2Token) => {
+  writeCache({ ...readCache(), [oauth2CacheKey(config)]: token });
+};
+
+const isExpired = (token: OAuth2Token) =>
+  token.expiresAt !== undefined && token.expiresAt - EXPIRY_MARGIN_MS <= Date.now();
+
+const postTokenRequest = async (
+  config: OAuth2Config,
+  params: Record<string, string | undefined>,
+  send: SendRequest
+): Promise<OAuth2Token> => {
+  const headers: Record<string, string> = { Accept: 'application/json' };
+  const form: Record<string, string | undefined> = { ...params };
+
+  if (config.clientAuthentication === 'header') {
+    headers.Authorization = `Basic ${encodeBase64(`${encodeURIComponent(config.clientId)}:${encodeURIComponent(config.clientSecret || '')}`)}`;
+  } else {
+    form.client_id = config.clientId;
+    form.client_secret = config.clientSecret || undefined;
+  }
+
+  const body = Object.entries(form)
+    .filter(([, value]) => value)
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(value!)}`)
+    .join('&');
+
+  const response = await send({ method: 'POST', url: config.tokenUrl, headers, body, bodyType: 'x-www-form-urlencoded' });
+
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(response.data);
+  } catch {
+    // Some older providers answer with a form-encoded body
+    data = Object.fromEntries(new URLSearchParams(response.data));
+  }
+
+  if (response.status >= 400 || !data.access_token) {
+    const description = data.error_description || data.error || `HTTP ${response.status}`;
+    throw new Error(`OAuth 2.0 token request failed: ${description}`);
+  }
+
+  const expiresIn = Number(data.expires_in);
+  return {
+    accessToken: String(data.access_token),
+    tokenType: String(data.token_type || 'Bearer'),
+    refreshToken: data.refresh_token ? String(data.refresh_token) : undefined,
+    scope: data.scope ? String(data.scope) : config.scope,
+    expiresAt: Number.isFinite(expiresIn) && expiresIn > 0 ? Date.now() + expiresIn * 1000 : undefined,
+  };
+};
+
+/**
+ * Fetch a new token with the client credentials or password grant, or exchange an authorization code
+ */
+export async function requestOAuth2Token(
+  config: OAuth2Config,
+  send: SendRequest,
+  authorization?: { code: string; codeVerifier?: string }
+): Promise<OAuth2Token> {
+  if (!config.tokenUrl) throw new Error('OAuth 2.0 token URL is required');
+
+  let params: Record<string, string | undefined>;
+  switch (config.grantType) {
+    case 'client_credentials':
+      params = { grant_type: 'client_credentials', scope: config.scope };
+      break;
+    case 'password':
+      params = { grant_type: 'password', username: config.username, password: config.password, scope: config.scope };
+      break;
+    case 'authorization_code':
+      if (!authorization) throw new Error('Authorization required: use "Get New Access Token" to sign in');
+      params = {
+        grant_type: 'authorization_code',
+        code: authorization.code,
+        redirect_uri: config.redirectUri,
+        code_verifier: authorization.codeVerifier,
+      };
+      break;
+  }
+
+  const token = await postTokenRequest(config, params, send);
+  storeToken(config, token);
+  return token;
+}
+
+/**
+ * Use a refresh token to get a new access token. Keeps the old refresh token if none is returned.
+ */
+export async function refreshOAuth2Token(config: OAuth2Config, refreshToken: string, send: SendRequest): Promise<OAuth2Token> {
+  const token = await postTokenRequest(config, { grant_type: 'refresh_token', refresh_token: refreshToken, scope: config.scope }, send);
+  const refreshed = { ...token, refreshToken: token.refreshToken || refreshToken };
+  storeToken(config, refreshed);
+  return refreshed;
+}
+
+/**
+ * Return a valid access token: the cached one, a refreshed one, or a newly fetched one.
+ * The authorization code grant needs an interactive sign-in and cannot be fetched here.
+ */
+export async function getOAuth2AccessToken(config: OAuth2Config, send: SendRequest): Promise<string> {
+  const cached = getCachedOAuth2Token(config);
+  if (cached && !isExpired(cached)) return cached.accessToken;
+
+  if (cached?.refreshToken) {
+    try {
+      return (await refreshOAuth2Token(config, cached.refreshToken, send)).accessToken;
+    } catch (error) {
+      clearCachedOAuth2Token(config);
+      if (config.grantType === 'authorization_code') throw error;
+    }
+  }
+
+  return (await requestOAuth2Token(config, send)).accessToken;
+}
+
+const randomString = (bytes: number) => {
+  const values = crypto.getRandomValues(new Uint8Array(bytes));
+  return Array.from(values, value => value.toString(16).padStart(2, '0')).join('');
+};
+
+const base64Url = (buffer: ArrayBuffer) =>
+  btoa(String.fromCharCode(...Array.from(new Uint8Array(buffer)))).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+/**
+ * Default redirect URI: the app's own callback page, which hands the code back to this window
+ */
+export function defaultOAuth2RedirectUri(): string {
+  return typeof window === 'undefined' ? '' : `${window.location.origin}/oauth/callback`;
+}
+
+/**
+ * Run the authorization code flow in a popup window (with PKCE when enabled) and exchange the code
+ */
+export async function authorizeWithPopup(config: OAuth2Config, send: SendRequest): Promise<OAuth2Token> {
+  if (!config.authUrl) throw new Error('OAuth 2.0 authorization URL is required');
+
+  const redirectUri = config.redirectUri || defaultOAuth2RedirectUri();
+  const state = randomString(16);
+  const codeVerifier = config.usePkce ? randomString(32) : undefined;
+
+  const authUrl = new URL(config.authUrl);
+  authUrl.searchParams.set('response_type', 'code');
+  authUrl.searchParams.set('client_id', config.clientId);
+  authUrl.searchParams.set('redirect_uri', redirectUri);
+  authUrl.searchParams.set('state', state);
+  if (config.scope) authUrl.searchParams.set('scope', config.scope);
+  if (codeVerifier) {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(codeVerifier));
+    authUrl.searchParams.set('code_challenge', base64Url(digest));
+    authUrl.searchParams.set('code_challenge_method', 'S256');
+  }
+
+  const popup = window.open(authUrl.toString(), 'oauth2-authorize', 'width=600,height=700');
+  if (!popup) throw new Error('The sign-in popup was blocked by the browser');
+
+  const code = await new Promise<string>((resolve, reject) => {
+    const cleanup = () => {
+      window.removeEventListener('message', onMessage);
+      clearInterval(closedPoll);
+      clearTimeout(timeout);
+    };
+
+    const onMessage = (event: MessageEvent) => {
+      if (event.origin !== window.location.origin || event.data?.type !== 'oauth2-callback') return;
+      cleanup();
+      popup.close();
+      if (event.data.state !== state) {
+        reject(new Error('OAuth 2.0 state mismatch'));
+      } else if (event.data.error) {
+        reject(new Error(`OAuth 2.0 authorization failed: ${event.data.errorDescription || event.data.error}`));
+      } else {
+        resolve(event.data.code);
+      }
+    };
+
+    const closedPoll = setInterval(() => {
+      if (popup.closed) {
+        cleanup();
+        reject(new Error('The sign-in window was closed'));
+      }
+    }, 500);
+
+    const timeout = setTimeout(() => {
+      cleanup();
+      popup.close();
+      reject(new Error('OAuth 2.0 authorization timed out'));
+    }, AUTHORIZATION_TIMEOUT_MS);
+
+    window.addEventListener('message', onMessage);
+  });
+
+  return requestOAuth2Token({ ...config, redirectUri }, send, { code, codeVerifier });
+}
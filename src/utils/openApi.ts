@@ -0,0 +1,440 @@
+// OpenAPI 3.x and Swagger 2.0 import: one request per operation
+
+import type { ImportedCollection, ImportedEnvironment, ImportedRequest, ImportWarnings } from './importFormats';
+
+type JsonObject = Record<string, unknown>;
+
+interface SchemaObject {
+  $ref?: string;
+  type?: string | string[];
+  format?: string;
+  example?: unknown;
+  examples?: unknown[];
+  default?: unknown;
+  enum?: unknown[];
+  const?: unknown;
+  properties?: Record<string, SchemaObject>;
+  additionalProperties?: boolean | SchemaObject;
+  items?: SchemaObject;
+  allOf?: SchemaObject[];
+  oneOf?: SchemaObject[];
+  anyOf?: SchemaObject[];
+  minimum?: number;
+}
+
+interface ParameterObject {
+  $ref?: string;
+  name: string;
+  in: 'path' | 'query' | 'header' | 'cookie' | 'body' | 'formData';
+  required?: boolean;
+  schema?: SchemaObject;
+  type?: string;
+  example?: unknown;
+  examples?: Record<string, { value?: unknown }>;
+  default?: unknown;
+  enum?: unknown[];
+}
+
+interface MediaTypeObject {
+  schema?: SchemaObject;
+  example?: unknown;
+  examples?: Record<string, { $ref?: string; value?: unknown }>;
+}
+
+interface OperationObject {
+  summary?: string;
+  operationId?: string;
+  tags?: string[];
+  parameters?: ParameterObject[];
+  requestBody?: { $ref?: string; content?: Record<string, MediaTypeObject> };
+  consumes?: string[];
+  security?: Record<string, string[]>[];
+  deprecated?: boolean;
+}
+
+interface SecuritySchemeObject {
+  type: string;
+  scheme?: string;
+  name?: string;
+  in?: string;
+}
+
+export interface OpenApiDocument {
+  openapi?: string;
+  swagger?: string;
+  info?: { title?: string; version?: string };
+  servers?: { url: string; description?: string; variables?: Record<string, { default: string }> }[];
+  host?: string;
+  basePath?: string;
+  schemes?: string[];
+  consumes?: string[];
+  paths?: Record<string, Record<string, unknown>>;
+  security?: Record<string, string[]>[];
+  components?: { securitySchemes?: Record<string, SecuritySchemeObject> };
+  securityDefinitions?: Record<string, SecuritySchemeObject>;
+}
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+
+// Deeply nested or recursive schemas stop producing example values past this depth
+const MAX_EXAMPLE_DEPTH = 8;
+
+/**
+ * Detect an OpenAPI 3.x or Swagger 2.0 document
+ */
+export function isOpenApiDocument(data: unknown): data is OpenApiDocument {
+  const candidate = data as OpenApiDocument;
+  return !!candidate && typeof candidate === 'object' &&
+    ((typeof candidate.openapi === 'string' && candidate.openapi.startsWith('3')) || candidate.swagger === '2.0') &&
+    !!candidate.paths && typeof candidate.paths === 'object';
+}
+
+const createRefResolver = (document: OpenApiDocument, warnings: ImportWarnings) => {
+  return function resolve<T>(value: T | { $ref?: string } | undefined): T | undefined {
+    let current = value as { $ref?: string } | undefined;
+    const seen = new Set<string>();
+
+    while (current && typeof current.$ref === 'string') {
+      const ref = current.$ref;
+      if (!ref.startsWith('#/')) {
+        warnings.add(`External reference "${ref}" cannot be resolved`);
+        return undefined;
+      }
+      if (seen.has(ref)) return undefined;
+      seen.add(ref);
+
+      current = ref
+        .slice(2)
+        .split('/')
+        .map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+        .reduce<unknown>((node, segment) => (node as JsonObject | undefined)?.[segment], document) as { $ref?: string } | undefined;
+
+      if (current === undefined) {
+        warnings.add(`Reference "${ref}" was not found in the document`);
+      }
+    }
+
+    return current as T | undefined;
+  };
+};
+
+const exampleForFormat = (format: string | undefined): string => {
+  switch (format) {
+    case 'date-time': return new Date(0).toISOString();
+    case 'date': return '1970-01-01';
+    case 'email': return 'user@example.com';
+    case 'uuid': return '00000000-0000-0000-0000-000000000000';
+    case 'uri':
+    case 'url': return 'https://example.com';
+    case 'byte': return 'c3RyaW5n';
+    default: return 'string';
+  }
+};
+
+/**
+ * Build an example value from a schema, preferring explicit examples and defaults
+ */
+const createExampleBuilder = (resolve: ReturnType<typeof createRefResolver>) => {
+  const build = (schemaOrRef: SchemaObject | undefined, depth: number, refs: Set<string>): unknown => {
+    if (!schemaOrRef || depth > MAX_EXAMPLE_DEPTH) return undefined;
+
+    // Recursive schemas (a tree node referencing itself) stop at the first repeat
+    const ref = schemaOrRef.$ref;
+    if (ref && refs.has(ref)) return undefined;
+    const nextRefs = ref ? new Set([...refs, ref]) : refs;
+
+    const schema = resolve<SchemaObject>(schemaOrRef);
+    if (!schema) return undefined;
+
+    if (schema.example !== undefined) return schema.example;
+    if (Array.isArray(schema.examples) && schema.examples.length > 0) return schema.examples[0];
+    if (schema.default !== undefined) return schema.default;
+    if (schema.const !== undefined) return schema.const;
+    if (Array.isArray(schema.enum) && schema.enum.length > 0) return schema.enum[0];
+
+    if (schema.allOf) {
+      return schema.allOf.reduce<unknown>((merged, part) => {
+        const value = build(part, depth + 1, nextRefs);
+        return value && typeof value === 'object' && !Array.isArray(value)
+          ? { ...(merged as JsonObject || {}), ...(value as JsonObject) }
+          : merged ?? value;
+      }, undefined);
+    }
+    if (schema.oneOf?.length) return build(schema.oneOf[0], depth + 1, nextRefs);
+    if (schema.anyOf?.length) return build(schema.anyOf[0], depth + 1, nextRefs);
+
+    const type = Array.isArray(schema.type) ? schema.type.find(t => t !== 'null') : schema.type;
+
+    switch (type || (schema.properties ? 'object' : schema.items ? 'array' : undefined)) {
+      case 'object': {
+        const result: JsonObject = {};
+        Object.entries(schema.properties || {}).forEach(([key, property]) => {
+          const value = build(property, depth + 1, nextRefs);
+          if (value !== undefined) result[key] = value;
+        });
+        return result;
+      }
+      case 'array': {
+        const item = build(schema.items, depth + 1, nextRefs);
+        return item === undefined ? [] : [item];
+      }
+      case 'integer':
+      case 'number':
+        return schema.minimum ?? 0;
+      case 'boolean':
+        return true;
+      case 'string':
+        return exampleForFormat(schema.format);
+      default:
+        return undefined;
+    }
+  };
+
+  return (schema: SchemaObject | undefined) => build(schema, 0, new Set());
+};
+
+const toVariableName = (name: string) => name.replace(/[^\w.-]/g, '_');
+
+const stringify = (value: unknown): string =>
+  value === undefined || value === null ? '' : typeof value === 'string' ? value : JSON.stringify(value);
+
+const resolveServers = (document: OpenApiDocument, warnings: ImportWarnings): { url: string; description?: string }[] => {
+  if (document.swagger) {
+    if (!document.host) {
+      warnings.add('The document has no host; set baseUrl in the generated environment');
+      return [{ url: document.basePath || '' }];
+    }
+    const schemes = document.schemes?.length ? document.schemes : ['https'];
+    return schemes.map(scheme => ({ url: `${scheme}://${document.host}${document.basePath || ''}` }));
+  }
+
+  if (!document.servers?.length) {
+    warnings.add('The document has no servers; set baseUrl in the generated environment');
+    return [{ url: '' }];
+  }
+
+  return document.servers.map(server => {
+    const url = Object.entries(server.variables || {}).reduce(
+      (result, [name, variable]) => result.split(`{${name}}`).join(variable.default),
+      server.url
+    );
+    if (url.startsWith('/')) {
+      warnings.add(`Server "${url}" is relative; prefix it with the API host in the generated environment`);
+    }
+    return { url, description: server.description };
+  });
+};
+
+/**
+ * Convert an OpenAPI 3.x or Swagger 2.0 document into a collection and one environment per server
+ */
+export function importOpenApiDocument(document: OpenApiDocument, warnings: ImportWarnings): {
+  collection: ImportedCollection;
+  environments: ImportedEnvironment[];
+} {
+  const resolve = createRefResolver(document, warnings);
+  const buildExample = createExampleBuilder(resolve);
+  const title = document.info?.title || 'Imported API';
+  const securitySchemes = document.swagger ? document.securityDefinitions || {} : document.components?.securitySchemes || {};
+  const requests: ImportedRequest[] = [];
+  const sharedVariables = new Map<string, string>();
+
+  const parameterExample = (parameter: ParameterObject): unknown => {
+    if (parameter.example !== undefined) return parameter.example;
+    const firstExample = parameter.examples && Object.values(parameter.examples)[0];
+    if (firstExample?.value !== undefined) return firstExample.value;
+    if (parameter.schema) return buildExample(parameter.schema);
+    // Swagger 2 non-body parameters carry their type inline
+    return buildExample({ type: parameter.type, default: parameter.default, enum: parameter.enum });
+  };
+
+  const applySecurity = (
+    requirements: Record<string, string[]>[] | undefined,
+    request: ImportedRequest,
+    context: string
+  ) => {
+    // Any one requirement object satisfies the operation; use the first
+    const requirement = requirements?.[0];
+    if (!requirement) return;
+
+    Object.keys(requirement).forEach(schemeName => {
+      const scheme = resolve<SecuritySchemeObject>(securitySchemes[schemeName]);
+      if (!scheme) return;
+
+      const variable = toVariableName(schemeName);
+      if (scheme.type === 'apiKey' && scheme.name) {
+        sharedVariables.set(variable, sharedVariables.get(variable) || '');
+        if (scheme.in === 'query') {
+          request.url += `${request.url.includes('?') ? '&' : '?'}${scheme.name}={{${variable}}}`;
+        } else if (scheme.in === 'header') {
+          request.headers.push({ key: scheme.name, value: `{{${variable}}}`, enabled: true });
+        } else {
+          warnings.add(`${context}: API key in ${scheme.in} is not supported and was skipped`);
+        }
+      } else if ((scheme.type === 'http' && scheme.scheme?.toLowerCase() === 'bearer') || scheme.type === 'oauth2') {
+        sharedVariables.set(variable, sharedVariables.get(variable) || '');
+        request.headers.push({ key: 'Authorization', value: `Bearer {{${variable}}}`, enabled: true });
+        if (scheme.type === 'oauth2') {
+          warnings.add(`Security scheme "${schemeName}": OAuth 2 was imported as a bearer token variable`);
+        }
+      } else if ((scheme.type === 'http' && scheme.scheme?.toLowerCase() === 'basic') || scheme.type === 'basic') {
+        sharedVariables.set(variable, sharedVariables.get(variable) || '');
+        request.headers.push({ key: 'Authorization', value: `Basic {{${variable}}}`, enabled: true });
+        warnings.add(`Security scheme "${schemeName}": set {{${variable}}} to base64("username:password")`);
+      } else {
+        warnings.add(`Security scheme "${schemeName}" (${scheme.type}) is not supported and was skipped`);
+      }
+    });
+  };
+
+  const applyOpenApiBody = (operation: OperationObject, request: ImportedRequest, context: string) => {
+    const requestBody = resolve<NonNullable<OperationObject['requestBody']>>(operation.requestBody);
+    const content = requestBody?.content;
+    if (!content) return;
+
+    const mediaTypes = Object.keys(content);
+    const mediaType = mediaTypes.find(type => /json/i.test(type)) ||
+      mediaTypes.find(type => type === 'application/x-www-form-urlencoded') ||
+      mediaTypes.find(type => type === 'multipart/form-data') ||
+      mediaTypes[0];
+    const media = content[mediaType];
+
+    const firstExample = media.examples && Object.values(media.examples)[0];
+    const example = media.example ?? resolve<{ value?: unknown }>(firstExample)?.value ?? buildExample(media.schema);
+    applyExampleBody(mediaType, example, request, context);
+  };
+
+  const applyExampleBody = (mediaType: string, example: unknown, request: ImportedRequest, context: string) => {
+    if (/json/i.test(mediaType)) {
+      request.bodyType = 'json';
+      request.body = example === undefined ? '' : JSON.stringify(example, null, 2);
+    } else if (mediaType === 'application/x-www-form-urlencoded' || mediaType === 'multipart/form-data') {
+      const fields = example && typeof example === 'object' ? Object.entries(example as JsonObject) : [];
+      if (mediaType === 'multipart/form-data') {
+        request.bodyType = 'form-data';
+        request.body = fields.map(([key, value]) => `${key}=${stringify(value)}`).join('\n');
+      } else {
+        request.bodyType = 'x-www-form-urlencoded';
+        request.body = fields.map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(stringify(value))}`).join('&');
+      }
+    } else if (/octet-stream|image\/|pdf/i.test(mediaType)) {
+      request.bodyType = 'binary';
+      warnings.add(`${context}: binary request body (${mediaType}) has no example`);
+    } else {
+      request.bodyType = 'raw';
+      request.body = stringify(example);
+    }
+
+    if (!/json/i.test(mediaType) && !request.headers.some(h => h.key.toLowerCase() === 'content-type')) {
+      request.headers.push({ key: 'Content-Type', value: mediaType, enabled: true });
+    }
+  };
+
+  Object.entries(document.paths || {}).forEach(([path, pathItem]) => {
+    const pathParameters = (pathItem.parameters as ParameterObject[] | undefined) || [];
+
+    HTTP_METHODS.forEach(method => {
+      const operation = pathItem[method] as OperationObject | undefined;
+      if (!operation) return;
+
+      const name = operation.summary || operation.operationId || `${method.toUpperCase()} ${path}`;
+      const context = `Operation "${method.toUpperCase()} ${path}"`;
+
+      // Operation parameters override path-level parameters with the same name and location
+      const parameters = new Map<string, ParameterObject>();
+      [...pathParameters, ...(operation.parameters || [])].forEach(parameterOrRef => {
+        const parameter = resolve<ParameterObject>(parameterOrRef);
+        if (parameter) parameters.set(`${parameter.in}:${parameter.name}`, parameter);
+      });
+
+      const request: ImportedRequest = {
+        name: operation.deprecated ? `${name} (deprecated)` : name,
+        folder: operation.tags?.[0] || '',
+        method: method.toUpperCase(),
+        url: `{{baseUrl}}${path.replace(/{([^}]+)}/g, (_match, param: string) => `{{${toVariableName(param)}}}`)}`,
+        headers: [],
+        body: '',
+        bodyType: 'json',
+      };
+
+      const query: string[] = [];
+      const formFields: JsonObject = {};
+
+      parameters.forEach(parameter => {
+        const example = parameterExample(parameter);
+        switch (parameter.in) {
+          case 'path': {
+            const variable = toVariableName(parameter.name);
+            if (!sharedVariables.get(variable)) sharedVariables.set(variable, stringify(example));
+            break;
+          }
+          case 'query': {
+            // Optional query parameters are only included when the spec gives a value for them
+            const schema = resolve<SchemaObject>(parameter.schema);
+            const documented = parameter.example !== undefined || parameter.examples !== undefined ||
+              parameter.default !== undefined || schema?.example !== undefined || schema?.default !== undefined;
+            if (parameter.required || documented) {
+              query.push(`${encodeURIComponent(parameter.name)}=${encodeURIComponent(stringify(example))}`);
+            }
+            break;
+          }
+          case 'header':
+            request.headers.push({ key: parameter.name, value: stringify(example), enabled: !!parameter.required });
+            break;
+          case 'cookie':
+            warnings.add(`${context}: cookie parameter "${parameter.name}" was skipped`);
+            break;
+          case 'body':
+            applyExampleBody(
+              operation.consumes?.[0] || document.consumes?.[0] || 'application/json',
+              buildExample(parameter.schema),
+              request,
+              context
+            );
+            break;
+          case 'formData':
+            if (parameter.type === 'file') {
+              warnings.add(`${context}: file field "${parameter.name}" needs to be attached manually`);
+            } else {
+              formFields[parameter.name] = example;
+            }
+            break;
+        }
+      });
+
+      if (Object.keys(formFields).length > 0) {
+        const consumes = operation.consumes || document.consumes || [];
+        applyExampleBody(
+          consumes.includes('multipart/form-data') ? 'multipart/form-data' : 'application/x-www-form-urlencoded',
+          formFields,
+          request,
+          context
+        );
+      }
+
+      if (query.length > 0) {
+        request.url += `?${query.join('&')}`;
+      }
+
+      if (!document.swagger) {
+        applyOpenApiBody(operation, request, context);
+      }
+
+      applySecurity(operation.security ?? document.security, request, context);
+      requests.push(request);
+    });
+  });
+
+  const servers = resolveServers(document, warnings);
+  const variables = Array.from(sharedVariables.entries()).map(([key, value]) => ({ key, value, enabled: true }));
+  const environments = servers.map(server => ({
+    name: servers.length === 1 ? title : `${title} - ${server.description || server.url}`,
+    variables: [{ key: 'baseUrl', value: server.url, enabled: true }, ...variables],
+  }));
+
+  if (requests.length === 0) {
+    warnings.add('The document has no operations');
+  }
+
+  return { collection: { name: title, requests }, environments };
+}
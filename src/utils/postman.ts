@@ -0,0 +1,567 @@
+// Postman Collection v2.1 and environment import/export utilities
+
+import type { ImportedCollection, ImportedEnvironment, ImportedRequest, ImportWarnings } from './importFormats';
+import type { GraphQLRequestBody } from './graphql';
+import { formDataFields, FormDataField } from './formData';
+import type { BinaryFileBody } from './storedFiles';
+import type { OAuth2GrantType, RequestAuth } from './requestAuth';
+
+type KeyValue = { key: string; value?: unknown; disabled?: boolean; type?: string; src?: unknown; contentType?: string };
+
+interface PostmanAuth {
+  type: string;
+  [mode: string]: unknown;
+}
+
+interface PostmanEvent {
+  listen: 'prerequest' | 'test';
+  script?: { exec?: string | string[] };
+}
+
+interface PostmanUrl {
+  raw?: string;
+  protocol?: string;
+  host?: string | string[];
+  path?: string | string[];
+  query?: KeyValue[];
+  variable?: KeyValue[];
+}
+
+interface PostmanBody {
+  mode?: 'raw' | 'urlencoded' | 'formdata' | 'file' | 'graphql';
+  raw?: string;
+  urlencoded?: KeyValue[];
+  formdata?: KeyValue[];
+  file?: { src?: unknown };
+  graphql?: { query?: string; variables?: string };
+  options?: { raw?: { language?: string } };
+  disabled?: boolean;
+}
+
+interface PostmanRequest {
+  method?: string;
+  header?: KeyValue[] | string;
+  url?: string | PostmanUrl;
+  body?: PostmanBody;
+  auth?: PostmanAuth;
+}
+
+interface PostmanItem {
+  name?: string;
+  item?: PostmanItem[];
+  request?: PostmanRequest | string;
+  event?: PostmanEvent[];
+  auth?: PostmanAuth;
+  variable?: KeyValue[];
+}
+
+export interface PostmanCollection {
+  info: { name: string; schema: string; _postman_id?: string; description?: string };
+  item: PostmanItem[];
+  auth?: PostmanAuth;
+  event?: PostmanEvent[];
+  variable?: KeyValue[];
+}
+
+export interface PostmanEnvironment {
+  name: string;
+  values: { key: string; value: string; enabled: boolean; type?: string }[];
+  _postman_variable_scope?: string;
+}
+
+interface ExportableRequest {
+  name: string;
+  folder?: string;
+  method: string;
+  url: string;
+  headers: { key: string; value: string; enabled: boolean }[];
+  body: string;
+  bodyType: 'json' | 'form-data' | 'x-www-form-urlencoded' | 'raw' | 'binary' | 'graphql';
+  preRequestScript?: string;
+  testScript?: string;
+  graphql?: GraphQLRequestBody;
+  formData?: FormDataField[];
+  binary?: BinaryFileBody;
+  auth?: RequestAuth;
+}
+
+interface ExportableCollection {
+  name: string;
+  requests: ExportableRequest[];
+  auth?: RequestAuth;
+  variables?: { key: string; value: string; enabled: boolean }[];
+}
+
+const POSTMAN_SCHEMA_V21 = 'https://schema.getpostman.com/json/collection/v2.1.0/collection.json';
+
+// Postman OAuth 2.0 grant types; the implicit grant has no counterpart
+const OAUTH2_GRANT_TYPES: Record<string, { grantType: OAuth2GrantType; usePkce?: boolean }> = {
+  client_credentials: { grantType: 'client_credentials' },
+  password_credentials: { grantType: 'password' },
+  authorization_code: { grantType: 'authorization_code' },
+  authorization_code_with_pkce: { grantType: 'authorization_code', usePkce: true },
+};
+
+const RAW_LANGUAGE_CONTENT_TYPES: Record<string, string> = {
+  json: 'application/json',
+  xml: 'application/xml',
+  html: 'text/html',
+  javascript: 'application/javascript',
+  text: 'text/plain',
+};
+
+const asString = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+};
+
+const authParam = (auth: PostmanAuth, key: string): string => {
+  const params = auth[auth.type];
+  if (Array.isArray(params)) {
+    return asString((params as KeyValue[]).find(p => p.key === key)?.value);
+  }
+  if (params && typeof params === 'object') {
+    return asString((params as Record<string, unknown>)[key]);
+  }
+  return '';
+};
+
+/**
+ * Detect a Postman v2.x collection document
+ */
+export function isPostmanCollection(data: unknown): data is PostmanCollection {
+  const candidate = data as PostmanCollection;
+  return !!candidate && typeof candidate === 'object' && !!candidate.info &&
+    typeof candidate.info.schema === 'string' && candidate.info.schema.includes('schema.getpostman.com') &&
+    Array.isArray(candidate.item);
+}
+
+/**
+ * Detect a Postman environment export
+ */
+export function isPostmanEnvironment(data: unknown): data is PostmanEnvironment {
+  const candidate = data as PostmanEnvironment;
+  return !!candidate && typeof candidate === 'object' && typeof candidate.name === 'string' &&
+    Array.isArray(candidate.values) &&
+    (candidate._postman_variable_scope === 'environment' || candidate._postman_variable_scope === 'globals' ||
+      candidate.values.every(v => v && typeof v.key === 'string'));
+}
+
+// Postman scripts use the pm.* API. Ours exposes the same basics as am.*
+const fromPostmanScript = (exec: string | string[] | undefined): string =>
+  (Array.isArray(exec) ? exec.join('\n') : exec || '').replace(/\bpm\./g, 'am.');
+
+const toPostmanScript = (script: string): string[] => script.replace(/\bam\./g, 'pm.').split('\n');
+
+const scriptFor = (events: PostmanEvent[] | undefined, listen: PostmanEvent['listen']): string =>
+  (events || [])
+    .filter(e => e.listen === listen)
+    .map(e => fromPostmanScript(e.script?.exec))
+    .filter(script => script.trim())
+    .join('\n\n');
+
+const resolveUrl = (url: PostmanRequest['url']): string => {
+  if (!url) return '';
+  if (typeof url === 'string') return url;
+  if (url.raw) return url.raw;
+
+  const host = Array.isArray(url.host) ? url.host.join('.') : url.host || '';
+  const path = Array.isArray(url.path) ? url.path.join('/') : url.path || '';
+  const query = (url.query || [])
+    .filter(q => !q.disabled)
+    .map(q => `${q.key}=${asString(q.value)}`)
+    .join('&');
+
+  return `${url.protocol ? `${url.protocol}://` : ''}${host}${path ? `/${path}` : ''}${query ? `?${query}` : ''}`;
+};
+
+// Postman path variables (:id) become {{id}} placeholders
+const convertPathVariables = (url: string, variables: KeyValue[] | undefined, warnings: ImportWarnings, context: string): {
+  url: string;
+  variables: ImportedEnvironment['variables'];
+} => {
+  const collected: ImportedEnvironment['variables'] = [];
+  const [base, query] = url.split('?');
+  const converted = base.replace(/\/:([A-Za-z_][\w-]*)/g, (_match, name: string) => {
+    const variable = (variables || []).find(v => v.key === name);
+    if (variable && asString(variable.value)) {
+      collected.push({ key: name, value: asString(variable.value), enabled: true });
+    } else if (!variable) {
+      warnings.add(`${context}: path variable ":${name}" was converted to {{${name}}}`);
+    }
+    return `/{{${name}}}`;
+  });
+
+  return { url: query !== undefined ? `${converted}?${query}` : converted, variables: collected };
+};
+
+/**
+ * Map Postman auth onto the auth model; unsupported types are skipped with a warning (undefined)
+ */
+const importAuth = (auth: PostmanAuth, warnings: ImportWarnings, context: string): RequestAuth | undefined => {
+  const param = (key: string) => authParam(auth, key);
+
+  switch (auth.type) {
+    case 'noauth':
+      return { type: 'none' };
+    case 'inherit':
+      return { type: 'inherit' };
+    case 'bearer':
+      return { type: 'bearer', bearer: { token: param('token') } };
+    case 'basic':
+      return { type: 'basic', basic: { username: param('username'), password: param('password') } };
+    case 'digest':
+      return { type: 'digest', digest: { username: param('username'), password: param('password') } };
+    case 'apikey':
+      return { type: 'apikey', apikey: { key: param('key'), value: param('value'), in: param('in') === 'query' ? 'query' : 'header' } };
+    case 'oauth2': {
+      const grant = OAUTH2_GRANT_TYPES[param('grant_type') || 'authorization_code'];
+      if (!grant) {
+        warnings.add(`${context}: OAuth 2.0 grant type "${param('grant_type')}" is not supported and was skipped`);
+        return undefined;
+      }
+      return {
+        type: 'oauth2',
+        oauth2: {
+          grantType: grant.grantType,
+          tokenUrl: param('accessTokenUrl'),
+          authUrl: param('authUrl') || undefined,
+          redirectUri: param('redirect_uri') || undefined,
+          clientId: param('clientId'),
+          clientSecret: param('clientSecret') || undefined,
+          scope: param('scope') || undefined,
+          username: param('username') || undefined,
+          password: param('password') || undefined,
+          clientAuthentication: param('client_authentication') === 'header' ? 'header' : 'body',
+          ...(grant.usePkce ? { usePkce: true } : {}),
+        },
+      };
+    }
+    default:
+      warnings.add(`${context}: "${auth.type}" authorization is not supported and was skipped`);
+      return undefined;
+  }
+};
+
+// Postman lists auth settings as typed key/value pairs
+const authParams = (params: Record<string, string | undefined>) =>
+  Object.entries(params)
+    .filter(([, value]) => value)
+    .map(([key, value]) => ({ key, value, type: 'string' }));
+
+/**
+ * Map the auth model onto Postman auth; inherit is left out, which is how Postman marks it
+ */
+const exportAuth = (auth: RequestAuth | undefined): PostmanAuth | undefined => {
+  if (!auth || auth.type === 'inherit') return undefined;
+
+  switch (auth.type) {
+    case 'none':
+      return { type: 'noauth' };
+    case 'bearer':
+      return { type: 'bearer', bearer: authParams({ token: auth.bearer?.token }) };
+    case 'basic':
+      return { type: 'basic', basic: authParams({ username: auth.basic?.username, password: auth.basic?.password }) };
+    case 'digest':
+      return { type: 'digest', digest: authParams({ username: auth.digest?.username, password: auth.digest?.password }) };
+    case 'apikey':
+      return { type: 'apikey', apikey: authParams({ key: auth.apikey?.key, value: auth.apikey?.value, in: auth.apikey?.in }) };
+    case 'oauth2': {
+      const oauth2 = auth.oauth2;
+      const grantType = Object.entries(OAUTH2_GRANT_TYPES).find(([, grant]) =>
+        grant.grantType === oauth2?.grantType && !!grant.usePkce === !!oauth2?.usePkce)?.[0];
+      return {
+        type: 'oauth2',
+        oauth2: authParams({
+          grant_type: grantType,
+          accessTokenUrl: oauth2?.tokenUrl,
+          authUrl: oauth2?.authUrl,
+          redirect_uri: oauth2?.redirectUri,
+          clientId: oauth2?.clientId,
+          clientSecret: oauth2?.clientSecret,
+          scope: oauth2?.scope,
+          username: oauth2?.username,
+          password: oauth2?.password,
+          client_authentication: oauth2?.clientAuthentication,
+        }),
+      };
+    }
+  }
+};
+
+const applyBody = (body: PostmanBody | undefined, request: ImportedRequest, warnings: ImportWarnings, context: string) => {
+  if (!body || !body.mode || body.disabled) return;
+
+  const hasContentType = () => request.headers.some(h => h.key.toLowerCase() === 'content-type');
+
+  switch (body.mode) {
+    case 'raw': {
+      const language = body.options?.raw?.language || 'text';
+      request.body = body.raw || '';
+      request.bodyType = language === 'json' ? 'json' : 'raw';
+      if (language !== 'json' && !hasContentType() && RAW_LANGUAGE_CONTENT_TYPES[language]) {
+        request.headers.push({ key: 'Content-Type', value: RAW_LANGUAGE_CONTENT_TYPES[language], enabled: true });
+      }
+      break;
+    }
+    case 'urlencoded':
+      request.bodyType = 'x-www-form-urlencoded';
+      request.body = (body.urlencoded || [])
+        .filter(field => !field.disabled)
+        .map(field => `${encodeURIComponent(field.key)}=${encodeURIComponent(asString(field.value))}`)
+        .join('&');
+      break;
+    case 'formdata':
+      request.bodyType = 'form-data';
+      request.formData = (body.formdata || []).map((field): FormDataField => {
+        const common = { key: field.key, enabled: !field.disabled, ...(field.contentType ? { contentType: field.contentType } : {}) };
+        if (field.type === 'file') {
+          warnings.add(`${context}: file field "${field.key}" was imported without its file; choose the file again`);
+          return { ...common, type: 'file', value: '' };
+        }
+        return { ...common, type: 'text', value: asString(field.value) };
+      });
+      break;
+    case 'file':
+      request.bodyType = 'binary';
+      request.body = '';
+      warnings.add(`${context}: binary file body "${asString(body.file?.src) || 'unknown'}" cannot be imported`);
+      break;
+    case 'graphql':
+      request.bodyType = 'graphql';
+      request.body = '';
+      request.graphql = { query: body.graphql?.query || '', variables: body.graphql?.variables || '' };
+      break;
+    default:
+      warnings.add(`${context}: body mode "${body.mode}" is not supported`);
+  }
+};
+
+/**
+ * Convert a Postman v2.1 collection, with its auth and variables
+ */
+export function importPostmanCollection(data: PostmanCollection, warnings: ImportWarnings): ImportedCollection {
+  const requests: ImportedRequest[] = [];
+  const collectedVariables: ImportedEnvironment['variables'] = [];
+
+  if (!data.info.schema.includes('v2.1') && !data.info.schema.includes('v2.0')) {
+    warnings.add(`Collection schema "${data.info.schema}" is not v2.1; some fields may not map correctly`);
+  }
+
+  const walk = (
+    items: PostmanItem[],
+    folderPath: string[],
+    inheritedAuth: PostmanAuth | undefined,
+    inheritedEvents: PostmanEvent[]
+  ) => {
+    items.forEach(item => {
+      const name = item.name || 'Untitled';
+
+      if (Array.isArray(item.item)) {
+        if (item.variable?.length) {
+          warnings.add(`Folder "${name}": folder variables were merged into the collection variables`);
+          collectedVariables.push(...item.variable.map(v => ({ key: v.key, value: asString(v.value), enabled: !v.disabled })));
+        }
+        walk(item.item, [...folderPath, name], item.auth && item.auth.type !== 'inherit' ? item.auth : inheritedAuth, [...inheritedEvents, ...(item.event || [])]);
+        return;
+      }
+
+      const context = `Request "${[...folderPath, name].join('/')}"`;
+      const source: PostmanRequest = typeof item.request === 'string' ? { method: 'GET', url: item.request } : item.request || {};
+      const path = convertPathVariables(
+        resolveUrl(source.url),
+        typeof source.url === 'object' ? source.url.variable : undefined,
+        warnings,
+        context
+      );
+      collectedVariables.push(...path.variables);
+
+      const headers = Array.isArray(source.header)
+        ? source.header.map(h => ({ key: h.key, value: asString(h.value), enabled: !h.disabled }))
+        : [];
+
+      const request: ImportedRequest = {
+        name,
+        folder: folderPath.join('/'),
+        method: (source.method || 'GET').toUpperCase(),
+        url: path.url,
+        headers,
+        body: '',
+        bodyType: 'json',
+      };
+
+      // Collections have auth of their own; a folder's is copied onto the requests that inherit it
+      const auth = source.auth && source.auth.type !== 'inherit' ? source.auth : inheritedAuth;
+      request.auth = auth ? importAuth(auth, warnings, context) ?? { type: 'none' } : { type: 'inherit' };
+      applyBody(source.body, request, warnings, context);
+
+      // Folder and collection scripts run before the request's own scripts, as in Postman
+      const events = [...inheritedEvents, ...(item.event || [])];
+      request.preRequestScript = scriptFor(events, 'prerequest');
+      request.testScript = scriptFor(events, 'test');
+      if (request.preRequestScript || request.testScript) {
+        warnings.add('Scripts were converted from pm.* to am.*; chai-style assertions may need changes');
+      }
+
+      requests.push(request);
+    });
+  };
+
+  walk(data.item, [], undefined, data.event || []);
+
+  const variables = [
+    ...(data.variable || []).map(v => ({ key: v.key, value: asString(v.value), enabled: !v.disabled })),
+    ...collectedVariables,
+  ].filter((variable, index, all) => variable.key && all.findIndex(v => v.key === variable.key) === index);
+
+  const auth = data.auth && importAuth(data.auth, warnings, `Collection "${data.info.name}"`);
+  return {
+    name: data.info.name || 'Imported Collection',
+    requests,
+    // A collection cannot inherit auth
+    ...(auth && auth.type !== 'inherit' ? { auth } : {}),
+    ...(variables.length > 0 ? { variables } : {}),
+  };
+}
+
+/**
+ * Convert a Postman environment export
+ */
+export function importPostmanEnvironment(data: PostmanEnvironment, warnings: ImportWarnings): ImportedEnvironment {
+  if (data.values.some(v => v.type === 'secret' && !v.value)) {
+    warnings.add(`Environment "${data.name}": some secret variables were exported without their values`);
+  }
+
+  return {
+    name: data.name,
+    variables: data.values.map(v => ({
+      key: v.key,
+      value: asString(v.value),
+      enabled: v.enabled !== false,
+      ...(v.type === 'secret' ? { secret: true } : {}),
+    })),
+  };
+}
+
+const parseKeyValueBody = (body: string, separator: RegExp): KeyValue[] =>
+  body
+    .split(separator)
+    .filter(part => part.trim())
+    .map(part => {
+      const [key, ...valueParts] = part.split('=');
+      return { key: key.trim(), value: valueParts.join('=').trim() };
+    });
+
+const exportBody = (request: ExportableRequest): PostmanBody | undefined => {
+  if (!['POST', 'PUT', 'PATCH', 'DELETE'].includes(request.method)) return undefined;
+  if (request.bodyType === 'graphql') {
+    return request.graphql?.query
+      ? { mode: 'graphql', graphql: { query: request.graphql.query, variables: request.graphql.variables } }
+      : undefined;
+  }
+  if (request.bodyType === 'binary' && request.binary?.fileId) {
+    return { mode: 'file', file: { src: request.binary.fileName } };
+  }
+  if (request.bodyType === 'form-data') {
+    const fields = formDataFields(request);
+    if (fields.length === 0) return undefined;
+    // Postman file fields reference a local path; the file name is the closest there is
+    return {
+      mode: 'formdata',
+      formdata: fields.map(field => ({
+        key: field.key,
+        ...(field.type === 'file' ? { type: 'file', src: field.fileName || '' } : { type: 'text', value: field.value }),
+        ...(field.contentType ? { contentType: field.contentType } : {}),
+        ...(field.enabled ? {} : { disabled: true }),
+      })),
+    };
+  }
+  if (!request.body) return undefined;
+
+  switch (request.bodyType) {
+    case 'json':
+      return { mode: 'raw', raw: request.body, options: { raw: { language: 'json' } } };
+    case 'x-www-form-urlencoded':
+      return {
+        mode: 'urlencoded',
+        urlencoded: parseKeyValueBody(request.body, /[&\n]/).map(field => ({
+          key: decodeURIComponent(field.key),
+          value: decodeURIComponent(asString(field.value)),
+        })),
+      };
+    default:
+      return { mode: 'raw', raw: request.body };
+  }
+};
+
+const exportRequest = (request: ExportableRequest): PostmanItem => {
+  const events: PostmanEvent[] = [];
+  if (request.preRequestScript?.trim()) {
+    events.push({ listen: 'prerequest', script: { exec: toPostmanScript(request.preRequestScript) } });
+  }
+  if (request.testScript?.trim()) {
+    events.push({ listen: 'test', script: { exec: toPostmanScript(request.testScript) } });
+  }
+
+  return {
+    name: request.name,
+    request: {
+      method: request.method,
+      header: request.headers
+        .filter(h => h.key)
+        .map(h => ({ key: h.key, value: h.value, ...(h.enabled ? {} : { disabled: true }) })),
+      url: { raw: request.url },
+      body: exportBody(request),
+      auth: exportAuth(request.auth),
+    },
+    ...(events.length > 0 ? { event: events } : {}),
+  };
+};
+
+/**
+ * Convert a collection into a Postman v2.1 collection document, rebuilding folders
+ */
+export function exportPostmanCollection(collection: ExportableCollection): PostmanCollection {
+  const root: PostmanItem[] = [];
+
+  const folderItems = (folder: string | undefined): PostmanItem[] => {
+    let items = root;
+    (folder || '').split('/').filter(Boolean).forEach(segment => {
+      let folderItem = items.find(item => item.item && item.name === segment);
+      if (!folderItem) {
+        folderItem = { name: segment, item: [] };
+        items.push(folderItem);
+      }
+      items = folderItem.item!;
+    });
+    return items;
+  };
+
+  collection.requests.forEach(request => {
+    folderItems(request.folder).push(exportRequest(request));
+  });
+
+  const auth = exportAuth(collection.auth);
+  const variables = (collection.variables || []).filter(v => v.key);
+  return {
+    info: { name: collection.name, schema: POSTMAN_SCHEMA_V21 },
+    item: root,
+    ...(auth ? { auth } : {}),
+    ...(variables.length > 0
+      ? { variable: variables.map(v => ({ key: v.key, value: v.value, ...(v.enabled ? {} : { disabled: true }) })) }
+      : {}),
+  };
+}
+
+/**
+ * Convert an environment into a Postman environment document
+ */
+export function exportPostmanEnvironment(environment: ImportedEnvironment): PostmanEnvironment {
+  return {
+    name: environment.name,
+    values: environment.variables
+      .filter(v => v.key)
+      .map(v => ({ key: v.key, value: v.value, enabled: v.enabled, type: v.secret ? 'secret' : 'default' })),
+    _postman_variable_scope: 'environment',
+  };
+}
@@ -0,0 +1,55 @@
+// Upstream (egress) proxy settings of an environment, applied by /api/proxy to requests sent with it active
+
+export interface EnvironmentProxySettings {
+  // inherit: the instance-wide proxy from HTTP_PROXY/HTTPS_PROXY, if any; none: connect directly; custom: the URL below
+  mode: 'inherit' | 'none' | 'custom';
+  url: string;
+  username: string;
+  // Only sent when it changes; the API never returns it, only whether one is stored
+  password?: string;
+  hasPassword?: boolean;
+  // Hosts that bypass the proxy, comma-separated in NO_PROXY syntax
+  noProxy: string;
+}
+
+// Proxy a request went through, as reported in the response metadata (credentials left out)
+export interface AppliedProxy {
+  url: string;
+  source: 'instance' | 'environment';
+}
+
+export const DEFAULT_PROXY_SETTINGS: EnvironmentProxySettings = {
+  mode: 'inherit',
+  url: '',
+  username: '',
+  noProxy: '',
+};
+
+export const PROXY_PROTOCOLS = ['http:', 'https:', 'socks5:', 'socks5h:'];
+
+/**
+ * Check a proxy URL typed into an environment; returns an error message, or null when it can be used
+ */
+export function validateProxyUrl(text: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(text.trim());
+  } catch {
+    return 'Enter a proxy URL such as http://proxy.example.com:3128';
+  }
+  if (!PROXY_PROTOCOLS.includes(url.protocol)) {
+    return 'Proxy URLs must start with http://, https://, socks5:// or socks5h://';
+  }
+  if (url.username || url.password) {
+    // Kept out of the URL so the password can be stored encrypted
+    return 'Enter the username and password in their own fields';
+  }
+  if (!url.hostname) {
+    return 'Enter the proxy host';
+  }
+  // socks5:// URLs have an empty path rather than "/"
+  if ((url.pathname && url.pathname !== '/') || url.search || url.hash) {
+    return 'Proxy URLs have no path, only a host and port';
+  }
+  return null;
+}
@@ -0,0 +1,213 @@
+// Client side of the proxy's streaming mode: the upstream body is read progressively as it arrives.
+// The proxy sends it in frames: each chunk of the body as it came from upstream, then, once the body has
+// been read in full, one frame with its transfer size, which the proxy only knows at that point.
+// A frame is a 1-byte type and a 4-byte big-endian payload length, followed by the payload.
+
+import type { ProxyResponse } from './requestExecutor';
+import type { ResponseSize } from './transferSize';
+import { createStreamParser, detectStreamFormat, StreamEvent } from './eventStream';
+
+export const BODY_FRAME = 0;
+export const SIZE_FRAME = 1;
+
+const FRAME_HEADER_LENGTH = 5;
+
+// How often partial responses are reported while a body is still arriving
+const PROGRESS_INTERVAL_MS = 100;
+
+// Chunked JSON is only sniffed for NDJSON at the start of the body
+const STREAM_SNIFF_LIMIT = 64 * 1024;
+
+/**
+ * Whether a body with this content type is shown as text rather than offered as a download
+ */
+export function isTextContentType(contentType: string): boolean {
+  const type = contentType.toLowerCase();
+  return type.includes('application/json') ||
+    type.includes('text/') ||
+    type.includes('application/xml') ||
+    type.includes('application/javascript') ||
+    type.includes('application/xhtml+xml') ||
+    type.includes('ndjson') ||
+    type.includes('jsonl') ||
+    type.includes('+json') ||
+    type.includes('+xml');
+}
+
+/**
+ * Placeholder body text for binary responses, which are kept as a Blob instead
+ */
+export function describeBinaryBody(size: number): string {
+  const sizeInMB = size / (1024 * 1024);
+  return `[Binary data - ${size} bytes (${sizeInMB.toFixed(2)}MB)]\n\nUse the download button to save the file.`;
+}
+
+/**
+ * Header of a frame; the payload is written right after it
+ */
+export function encodeFrameHeader(type: number, length: number): Uint8Array {
+  const header = new Uint8Array(FRAME_HEADER_LENGTH);
+  header[0] = type;
+  new DataView(header.buffer).setUint32(1, length);
+  return header;
+}
+
+/**
+ * Encode the frame written after a streamed body, with its transfer size
+ */
+export function encodeSizeFrame(size: ResponseSize): Uint8Array {
+  const payload = new TextEncoder().encode(JSON.stringify(size));
+  const frame = new Uint8Array(FRAME_HEADER_LENGTH + payload.byteLength);
+  frame.set(encodeFrameHeader(SIZE_FRAME, payload.byteLength));
+  frame.set(payload, FRAME_HEADER_LENGTH);
+  return frame;
+}
+
+function decodeSizeFrame(bytes: Uint8Array): ResponseSize | null {
+  try {
+    return JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read a streamed /api/proxy response. Status and headers come from the X-Proxy-Response header;
+ * onProgress receives partial responses while the body is arriving, including a final one
+ * marked incomplete if the transfer is cancelled or fails.
+ */
+export async function readProxyStream(
+  response: Response,
+  onProgress?: (partial: ProxyResponse) => void
+): Promise<ProxyResponse> {
+  const metadataHeader = response.headers.get('X-Proxy-Response');
+  if (!metadataHeader) {
+    throw new Error('Proxy response is missing its metadata');
+  }
+  const metadata: Omit<ProxyResponse, 'data' | 'size'> = JSON.parse(decodeURIComponent(metadataHeader));
+  // The proxy sends its headers before downloading the body, so the download phase is timed here
+  const downloadStart = performance.now();
+  const contentType = metadata.contentType || '';
+  const isText = isTextContentType(contentType);
+
+  const chunks: BlobPart[] = [];
+  const decoder = new TextDecoder();
+  let text = '';
+  let size = 0;
+  let lastProgress = 0;
+
+  // Server-Sent Events and NDJSON bodies are also split into timestamped events as they arrive
+  let streamFormat = isText ? detectStreamFormat(contentType, metadata.headers) : null;
+  let parser = streamFormat ? createStreamParser(streamFormat) : null;
+  const events: StreamEvent[] = [];
+
+  const snapshot = (): ProxyResponse => ({
+    ...metadata,
+    data: isText ? text : describeBinaryBody(size),
+    size,
+    ...(streamFormat && { streamFormat, events: [...events] }),
+  });
+
+  const consume = (value: Uint8Array<ArrayBuffer>) => {
+    if (value.byteLength === 0) return;
+    chunks.push(value);
+    size += value.byteLength;
+    if (isText) {
+      const decoded = decoder.decode(value, { stream: true });
+      text += decoded;
+
+      if (parser) {
+        events.push(...parser.push(decoded));
+      } else if (text.length <= STREAM_SNIFF_LIMIT) {
+        streamFormat = detectStreamFormat(contentType, metadata.headers, text);
+        if (streamFormat) {
+          parser = createStreamParser(streamFormat);
+          events.push(...parser.push(text));
+        }
+      }
+    }
+  };
+
+  // Frame being read: body bytes are passed on as they arrive, the size frame is collected until complete
+  let header = new Uint8Array(0);
+  let frameType = BODY_FRAME;
+  let remaining = 0;
+  let sizeBytes = new Uint8Array(0);
+  let responseSize: ResponseSize | null = null;
+
+  const receive = (value: Uint8Array<ArrayBuffer>) => {
+    let offset = 0;
+    while (offset < value.byteLength) {
+      if (remaining === 0 && header.byteLength < FRAME_HEADER_LENGTH) {
+        const take = value.subarray(offset, offset + FRAME_HEADER_LENGTH - header.byteLength);
+        const joined = new Uint8Array(header.byteLength + take.byteLength);
+        joined.set(header);
+        joined.set(take, header.byteLength);
+        header = joined;
+        offset += take.byteLength;
+        if (header.byteLength < FRAME_HEADER_LENGTH) break;
+        frameType = header[0];
+        remaining = new DataView(header.buffer).getUint32(1);
+        if (remaining === 0) header = new Uint8Array(0);
+        continue;
+      }
+
+      const payload = value.subarray(offset, offset + remaining);
+      offset += payload.byteLength;
+      remaining -= payload.byteLength;
+      if (frameType === BODY_FRAME) {
+        consume(payload);
+      } else if (frameType === SIZE_FRAME) {
+        const joined = new Uint8Array(sizeBytes.byteLength + payload.byteLength);
+        joined.set(sizeBytes);
+        joined.set(payload, sizeBytes.byteLength);
+        sizeBytes = joined;
+        if (remaining === 0) responseSize = decodeSizeFrame(sizeBytes);
+      }
+      if (remaining === 0) header = new Uint8Array(0);
+    }
+  };
+
+  try {
+    if (response.body) {
+      const reader = response.body.getReader();
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        receive(value);
+
+        if (onProgress && Date.now() - lastProgress >= PROGRESS_INTERVAL_MS) {
+          lastProgress = Date.now();
+          onProgress({ ...snapshot(), streaming: true });
+        }
+      }
+    }
+  } catch (err: Error | unknown) {
+    // An interrupted transfer has no size frame
+    onProgress?.({ ...snapshot(), incomplete: true });
+    throw err;
+  }
+
+  if (isText) {
+    const rest = decoder.decode();
+    text += rest;
+    if (parser) events.push(...parser.push(rest), ...parser.end());
+    // Match the buffered proxy, which pretty-prints JSON bodies
+    if (contentType.includes('application/json')) {
+      try {
+        text = JSON.stringify(JSON.parse(text), null, 2);
+      } catch {
+        // Leave invalid JSON as received
+      }
+    }
+  }
+
+  const download = performance.now() - downloadStart;
+  return {
+    ...snapshot(),
+    ...(metadata.timings && { timings: { ...metadata.timings, download, total: metadata.timings.total + download } }),
+    // Without its size frame the body sizes are unknown
+    transfer: metadata.transfer && responseSize ? { ...metadata.transfer, response: responseSize } : undefined,
+    blob: new Blob(chunks, { type: contentType || 'application/octet-stream' }),
+  };
+}
@@ -0,0 +1,133 @@
+// Request authorization model shared by the request editor, /api/proxy and the code generator
+
+export type AuthType = 'inherit' | 'none' | 'basic' | 'bearer' | 'apikey' | 'digest' | 'oauth2';
+
+export type OAuth2GrantType = 'client_credentials' | 'password' | 'authorization_code';
+
+export interface OAuth2Config {
+  grantType: OAuth2GrantType;
+  tokenUrl: string;
+  authUrl?: string;
+  redirectUri?: string;
+  clientId: string;
+  clientSecret?: string;
+  scope?: string;
+  username?: string;
+  password?: string;
+  // Send client credentials as a Basic header instead of in the form body
+  clientAuthentication?: 'body' | 'header';
+  usePkce?: boolean;
+}
+
+export interface RequestAuth {
+  type: AuthType;
+  basic?: { username: string; password: string };
+  bearer?: { token: string; prefix?: string };
+  apikey?: { key: string; value: string; in: 'header' | 'query' };
+  digest?: { username: string; password: string };
+  oauth2?: OAuth2Config;
+}
+
+export const AUTH_TYPE_LABELS: Record<AuthType, string> = {
+  inherit: 'Inherit from collection',
+  none: 'No Auth',
+  basic: 'Basic Auth',
+  bearer: 'Bearer Token',
+  apikey: 'API Key',
+  digest: 'Digest Auth',
+  oauth2: 'OAuth 2.0',
+};
+
+/**
+ * Base64-encode UTF-8 text in both the browser and Node
+ */
+export function encodeBase64(text: string): string {
+  return btoa(Array.from(new TextEncoder().encode(text), byte => String.fromCharCode(byte)).join(''));
+}
+
+/**
+ * Resolve "inherit" against the collection's auth; a collection cannot inherit further
+ */
+export function resolveAuth(requestAuth: RequestAuth | undefined, collectionAuth?: RequestAuth): RequestAuth {
+  const auth = requestAuth || { type: 'inherit' };
+  if (auth.type !== 'inherit') return auth;
+  if (!collectionAuth || collectionAuth.type === 'inherit') return { type: 'none' };
+  return collectionAuth;
+}
+
+/**
+ * Apply a text transform (e.g. variable substitution) to every string field of the auth settings
+ */
+export function mapAuthValues(auth: RequestAuth, transform: (value: string) => string): RequestAuth {
+  const mapSection = <T extends object>(section: T | undefined): T | undefined => {
+    if (!section) return section;
+    return Object.fromEntries(
+      Object.entries(section).map(([key, value]) => [key, typeof value === 'string' ? transform(value) : value])
+    ) as T;
+  };
+
+  return {
+    type: auth.type,
+    basic: mapSection(auth.basic),
+    bearer: mapSection(auth.bearer),
+    apikey: mapSection(auth.apikey),
+    digest: mapSection(auth.digest),
+    oauth2: mapSection(auth.oauth2),
+  };
+}
+
+const hasHeader = (headers: Record<string, string>, name: string) =>
+  Object.keys(headers).some(key => key.toLowerCase() === name.toLowerCase());
+
+/**
+ * Add the credentials for basic, bearer, API key and (with a fetched token) OAuth 2.0 auth.
+ * An explicit header in the request wins over the auth settings. Digest needs a server
+ * challenge and is handled by the proxy.
+ */
+export function applyAuth(
+  request: { url: string; headers: Record<string, string> },
+  auth: RequestAuth,
+  oauth2AccessToken?: string
+): { url: string; headers: Record<string, string> } {
+  const headers = { ...request.headers };
+  let url = request.url;
+
+  const setAuthorization = (value: string) => {
+    if (!hasHeader(headers, 'Authorization')) headers.Authorization = value;
+  };
+
+  switch (auth.type) {
+    case 'basic':
+      if (auth.basic?.username || auth.basic?.password) {
+        setAuthorization(`Basic ${encodeBase64(`${auth.basic.username}:${auth.basic.password}`)}`);
+      }
+      break;
+    case 'bearer':
+      if (auth.bearer?.token) {
+        setAuthorization(`${auth.bearer.prefix || 'Bearer'} ${auth.bearer.token}`);
+      }
+      break;
+    case 'apikey':
+      if (auth.apikey?.key) {
+        if (auth.apikey.in === 'query') {
+          try {
+            const parsed = new URL(url);
+            parsed.searchParams.set(auth.apikey.key, auth.apikey.value);
+            url = parsed.toString();
+          } catch {
+            url += `${url.includes('?') ? '&' : '?'}${encodeURIComponent(auth.apikey.key)}=${encodeURIComponent(auth.apikey.value)}`;
+          }
+        } else if (!hasHeader(headers, auth.apikey.key)) {
+          headers[auth.apikey.key] = auth.apikey.value;
+        }
+      }
+      break;
+    case 'oauth2':
+      if (oauth2AccessToken) {
+        setAuthorization(`Bearer ${oauth2AccessToken}`);
+      }
+      break;
+  }
+
+  return { url, headers };
+}
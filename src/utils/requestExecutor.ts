@@ -0,0 +1,410 @@
+// Request execution pipeline shared by the request editor and the collection runner
+
+import { validateUrl, validateWebSocketUrl, validateGrpcUrl } from './validation';
+import { runPreRequestScript, runTestScript, hasScript, ScriptTestResult } from './scriptSandbox';
+import { applyAuth, AuthType, mapAuthValues, RequestAuth } from './requestAuth';
+import { getOAuth2AccessToken } from './oauth2';
+import type { StreamEvent, StreamFormat } from './eventStream';
+import { isWebSocketRequest } from './websocket';
+import { isGrpcRequest } from './grpc';
+import { buildGraphQLPayload, DEFAULT_GRAPHQL_BODY, GraphQLRequestBody } from './graphql';
+import { activeFormDataFields, formDataFields, FormDataField } from './formData';
+import type { BinaryFileBody } from './storedFiles';
+import type { RequestTimings } from './timings';
+import type { RequestSettings, RedirectHop, AppliedSettings } from './requestSettings';
+import type { TransferSize } from './transferSize';
+import { createVariableResolver, trackUnresolvedVariables, Variable, VariableResolver, VariableScopes } from './variables';
+
+export type { Variable } from './variables';
+
+export interface ExecutableRequest {
+  method: string;
+  url: string;
+  headers: { key: string; value: string; enabled: boolean }[];
+  body: string;
+  bodyType: 'json' | 'form-data' | 'x-www-form-urlencoded' | 'raw' | 'binary' | 'graphql';
+  preRequestScript?: string;
+  testScript?: string;
+  // Already resolved against the collection (never "inherit")
+  auth?: RequestAuth;
+  graphql?: GraphQLRequestBody;
+  formData?: FormDataField[];
+  binary?: BinaryFileBody;
+  // Already layered over the collection's settings
+  settings?: Partial<RequestSettings>;
+  // Request-local variables, which override every other scope
+  variables?: Variable[];
+}
+
+export interface ProxyRequestOptions {
+  method: string;
+  url: string;
+  headers?: Record<string, string>;
+  body?: string;
+  bodyType?: 'json' | 'form-data' | 'x-www-form-urlencoded' | 'raw' | 'binary';
+  // Sent instead of body for form-data; the proxy builds the multipart body and attaches the files
+  formData?: FormDataField[];
+  // Sent instead of body for binary requests with a file; the proxy sends the file's bytes
+  binary?: BinaryFileBody;
+  // Only digest auth is left for the proxy; other schemes are already applied to the headers/URL
+  auth?: RequestAuth;
+  // Redirects, timeout and TLS; the proxy falls back to its defaults for anything unset
+  settings?: Partial<RequestSettings>;
+  // Environment whose upstream proxy settings apply
+  environmentId?: string;
+}
+
+export interface ResponseCookie {
+  name: string;
+  value: string;
+  domain: string;
+  path: string;
+  expires: number | null;
+  httpOnly: boolean;
+  secure: boolean;
+  sameSite?: 'Strict' | 'Lax' | 'None';
+  hostOnly: boolean;
+}
+
+export interface ProxyResponse {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  data: string;
+  time: number;
+  // DNS, connect, TLS, first byte and download phases as measured by the proxy
+  timings?: RequestTimings;
+  // Redirects the proxy followed before the final response
+  redirects?: RedirectHop[];
+  // Transport settings the proxy sent the request with
+  appliedSettings?: AppliedSettings;
+  size: number;
+  // Bytes on the wire, before compression and Content-Encoding are undone
+  transfer?: TransferSize;
+  contentType?: string;
+  // Cookies set by this response (already stored in the user's jar)
+  cookies?: ResponseCookie[];
+  // Streaming mode only: the raw body for downloads, and the state of the transfer
+  blob?: Blob;
+  streaming?: boolean;
+  incomplete?: boolean;
+  // Server-Sent Events or NDJSON lines, split out of the body as they arrived
+  streamFormat?: StreamFormat;
+  events?: StreamEvent[];
+}
+
+export interface ExecutionContext {
+  // Environment variables; scripts read and set these
+  variables: Variable[];
+  // Lower-precedence scopes, read-only during a run
+  scopes?: Pick<VariableScopes, 'global' | 'collection'>;
+  // Active environment, passed on to the proxy for its upstream proxy settings
+  environmentId?: string;
+  queryParams?: { key: string; value: string; enabled: boolean }[];
+  send: (options: ProxyRequestOptions) => Promise<ProxyResponse>;
+  // Sends the request itself when set (e.g. in streaming mode); helper calls such as OAuth 2.0 token requests keep using send
+  sendRequest?: (options: ProxyRequestOptions) => Promise<ProxyResponse>;
+  onVariablesChange?: (variables: Variable[]) => Promise<void> | void;
+  onLogs?: (logs: string[]) => void;
+  // Asked after the pre-request script when placeholders in the request are left that no scope defines;
+  // the request is only sent if it resolves to true. Without it the placeholders go out as written.
+  confirmUnresolved?: (names: string[]) => Promise<boolean>;
+}
+
+export interface ExecutionResult {
+  request?: ProxyRequestOptions;
+  response?: ProxyResponse;
+  variables: Variable[];
+  tests: ScriptTestResult[] | null;
+  logs: string[];
+  urlError?: string;
+  error?: string;
+}
+
+/**
+ * Resolver over every scope of a request, with the given environment variables
+ */
+export function requestResolver(
+  request: Pick<ExecutableRequest, 'variables'>,
+  context: Pick<ExecutionContext, 'scopes'>,
+  environment: Variable[]
+): VariableResolver {
+  return createVariableResolver({ ...context.scopes, environment, request: request.variables });
+}
+
+// The parts of a request that hold {{variables}}, besides its auth and query parameters
+type SubstitutableRequest = Pick<ExecutableRequest, 'url' | 'headers' | 'body' | 'graphql' | 'formData'> & { bodyType?: string };
+
+/**
+ * Substitute variables in the URL, header names and values, and the body of a request: JSON, raw and
+ * binary text as written, urlencoded bodies with each value encoded, and form-data field names and values.
+ * Sending and code generation both go through this so they substitute the same parts.
+ */
+export function resolveRequestVariables<T extends SubstitutableRequest>(request: T, variables: VariableResolver): T {
+  const resolved: T = {
+    ...request,
+    url: variables.resolve(request.url),
+    headers: request.headers.map(header => ({
+      ...header,
+      key: variables.resolve(header.key),
+      value: variables.resolve(header.value),
+    })),
+  };
+
+  if (request.bodyType === 'json' || request.bodyType === 'raw' || request.bodyType === 'binary') {
+    resolved.body = variables.resolve(request.body);
+  } else if (request.bodyType === 'x-www-form-urlencoded') {
+    resolved.body = variables.resolve(request.body, encodeURIComponent);
+  } else if (request.bodyType === 'form-data') {
+    resolved.formData = formDataFields(request).map(field => ({
+      ...field,
+      key: variables.resolve(field.key),
+      value: field.type === 'text' ? variables.resolve(field.value) : field.value,
+    }));
+  } else if (request.bodyType === 'graphql') {
+    const graphql = request.graphql || DEFAULT_GRAPHQL_BODY;
+    resolved.graphql = { ...graphql, query: variables.resolve(graphql.query), variables: variables.resolve(graphql.variables) };
+  }
+  return resolved;
+}
+
+/**
+ * Names of the {{variables}} in the parts of a request that are sent which no scope defines, in order.
+ * Used to warn before a request goes out with placeholders in it.
+ */
+export function findUnresolvedVariables(
+  request: ExecutableRequest,
+  variables: VariableResolver,
+  queryParams: { key: string; value: string; enabled: boolean }[] = []
+): string[] {
+  const { tracker, unresolved } = trackUnresolvedVariables(variables);
+  // Bodies of other methods are not sent
+  resolveRequestVariables(['POST', 'PUT', 'PATCH'].includes(request.method) ? request : { ...request, bodyType: undefined }, tracker);
+  buildUrlWithParams('', queryParams, tracker);
+  // Only the settings of the chosen auth type are used
+  const auth = request.auth?.[request.auth.type as Exclude<AuthType, 'inherit' | 'none'>];
+  Object.values(auth || {}).forEach(value => {
+    if (typeof value === 'string') tracker.resolve(value);
+  });
+  return unresolved();
+}
+
+/**
+ * Append enabled query parameters to a URL
+ */
+export function buildUrlWithParams(
+  baseUrl: string,
+  queryParams: { key: string; value: string; enabled: boolean }[],
+  variables: VariableResolver
+): string {
+  const enabledParams = queryParams.filter(p => p.enabled && p.key && p.value);
+  if (enabledParams.length === 0) return baseUrl;
+
+  try {
+    // Names and values both take variables; resolved before parsing, so the tracking resolver sees them
+    const resolvedParams = enabledParams.map(param => [variables.resolve(param.key), variables.resolve(param.value)]);
+    const url = new URL(baseUrl);
+    resolvedParams.forEach(([key, value]) => {
+      url.searchParams.set(key, value);
+    });
+    return url.toString();
+  } catch {
+    return baseUrl; // Return original if URL parsing fails
+  }
+}
+
+/**
+ * Substitute variables and build the payload sent to /api/proxy
+ */
+export function prepareProxyRequest(
+  request: ExecutableRequest,
+  variables: VariableResolver,
+  queryParams: { key: string; value: string; enabled: boolean }[] = [],
+  oauth2AccessToken?: string
+): { options?: ProxyRequestOptions; urlError?: string } {
+  // Every part of the request takes the variables of every scope
+  const resolved = resolveRequestVariables(request, variables);
+  const baseUrl = resolved.url;
+
+  // Validate URL before processing
+  const urlValidation = isWebSocketRequest(request)
+    ? validateWebSocketUrl(baseUrl)
+    : isGrpcRequest(request) ? validateGrpcUrl(baseUrl) : validateUrl(baseUrl);
+  if (!urlValidation.canBeUsed) {
+    return { urlError: urlValidation.error || 'Invalid URL' };
+  }
+
+  // Use corrected URL if available
+  const validatedUrl = urlValidation.correctedUrl || baseUrl;
+  const processedUrl = buildUrlWithParams(validatedUrl, queryParams, variables);
+  const processedHeaders: Record<string, string> = {};
+
+  resolved.headers.forEach(header => {
+    if (header.enabled && header.key && header.value) {
+      processedHeaders[header.key] = header.value;
+    }
+  });
+
+  // Process body
+  let processedBody: string | undefined;
+  let processedFormData: FormDataField[] | undefined;
+  let processedBinary: BinaryFileBody | undefined;
+  if (['POST', 'PUT', 'PATCH'].includes(request.method)) {
+    if (request.bodyType === 'json') {
+      try {
+        // Parse and re-stringify to validate JSON, after substitution so unquoted {{placeholders}} work
+        const jsonBody = JSON.parse(resolved.body);
+        processedBody = JSON.stringify(jsonBody);
+      } catch {
+        throw new Error('Invalid JSON in request body');
+      }
+    } else if (request.bodyType === 'form-data') {
+      processedFormData = activeFormDataFields(resolved.formData || []);
+    } else if (request.bodyType === 'x-www-form-urlencoded') {
+      processedBody = resolved.body;
+    } else if (request.bodyType === 'binary' && request.binary?.fileId) {
+      processedBinary = request.binary;
+    } else if (request.bodyType === 'raw' || request.bodyType === 'binary') {
+      processedBody = resolved.body;
+    } else if (request.bodyType === 'graphql') {
+      processedBody = buildGraphQLPayload(resolved.graphql || DEFAULT_GRAPHQL_BODY);
+      if (!Object.keys(processedHeaders).some(key => key.toLowerCase() === 'content-type')) {
+        processedHeaders['Content-Type'] = 'application/json';
+      }
+    }
+  }
+
+  const auth = request.auth ? mapAuthValues(request.auth, variables.resolve) : undefined;
+  const authorized = auth ? applyAuth({ url: processedUrl, headers: processedHeaders }, auth, oauth2AccessToken) : null;
+
+  return {
+    options: {
+      method: request.method,
+      url: authorized?.url || processedUrl,
+      headers: authorized?.headers || processedHeaders,
+      body: processedBody,
+      ...(processedFormData ? { formData: processedFormData } : {}),
+      ...(processedBinary ? { binary: processedBinary } : {}),
+      // GraphQL goes over the wire as a JSON payload
+      bodyType: request.bodyType === 'graphql' ? 'json' : request.bodyType,
+      ...(auth?.type === 'digest' ? { auth } : {}),
+      ...(request.settings ? { settings: request.settings } : {}),
+    },
+  };
+}
+
+/**
+ * Resolve variables, query parameters and auth for a WebSocket handshake or a gRPC call.
+ * Scripts do not run for these requests.
+ */
+export async function prepareConnection(
+  request: ExecutableRequest,
+  context: Pick<ExecutionContext, 'variables' | 'scopes' | 'queryParams' | 'send' | 'environmentId'>
+): Promise<{ url?: string; headers?: Record<string, string>; urlError?: string; error?: string }> {
+  const kind = isGrpcRequest(request) ? 'gRPC' : 'WebSocket';
+  if (request.auth?.type === 'digest') {
+    return { error: `Digest auth is not supported for ${kind} requests` };
+  }
+  // A gRPC target is only host and port, so API keys have to travel as metadata
+  if (kind === 'gRPC' && request.auth?.type === 'apikey' && request.auth.apikey?.in === 'query') {
+    return { error: 'API keys for gRPC requests must be sent in a header (metadata)' };
+  }
+
+  try {
+    const resolver = requestResolver(request, context, context.variables);
+    let oauth2AccessToken: string | undefined;
+    if (request.auth?.type === 'oauth2' && request.auth.oauth2) {
+      const config = mapAuthValues(request.auth, resolver.resolve).oauth2!;
+      oauth2AccessToken = await getOAuth2AccessToken(config, withEnvironment(context.send, context.environmentId));
+    }
+
+    const prepared = prepareProxyRequest(request, resolver, context.queryParams, oauth2AccessToken);
+    if (!prepared.options) {
+      return { urlError: prepared.urlError };
+    }
+    return { url: prepared.options.url, headers: prepared.options.headers };
+  } catch (error: Error | unknown) {
+    return { error: error instanceof Error ? error.message : 'Failed to prepare connection' };
+  }
+}
+
+/**
+ * Send through the proxy with the environment's upstream proxy settings, token requests included
+ */
+function withEnvironment(send: ExecutionContext['send'], environmentId?: string): ExecutionContext['send'] {
+  return environmentId ? options => send({ ...options, environmentId }) : send;
+}
+
+/**
+ * Run a request end to end: pre-request script, substitution, proxy call and test script
+ */
+export async function executeRequest(request: ExecutableRequest, context: ExecutionContext): Promise<ExecutionResult> {
+  let variables = context.variables;
+  const logs: string[] = [];
+  const emitLogs = () => context.onLogs?.([...logs]);
+
+  try {
+    let scriptRequest = {
+      method: request.method,
+      url: request.url,
+      headers: request.headers,
+      body: request.body,
+    };
+
+    // Run the pre-request script before any variable substitution
+    if (hasScript(request.preRequestScript)) {
+      const scriptResult = await runPreRequestScript(request.preRequestScript, scriptRequest, variables);
+      logs.push(...scriptResult.logs);
+      emitLogs();
+      if (scriptResult.error) {
+        return { variables, tests: null, logs, error: `Pre-request script error: ${scriptResult.error}` };
+      }
+      scriptRequest = scriptResult.request;
+      variables = scriptResult.variables;
+      if (scriptResult.variablesChanged) {
+        await context.onVariablesChange?.(variables);
+      }
+    }
+
+    // Resolved after the pre-request script, so variables it sets are used
+    const resolver = requestResolver(request, context, variables);
+    if (context.confirmUnresolved) {
+      const unresolved = findUnresolvedVariables({ ...request, ...scriptRequest }, resolver, context.queryParams);
+      if (unresolved.length > 0 && !(await context.confirmUnresolved(unresolved))) {
+        return { variables, tests: null, logs };
+      }
+    }
+    let oauth2AccessToken: string | undefined;
+    if (request.auth?.type === 'oauth2' && request.auth.oauth2) {
+      const config = mapAuthValues(request.auth, resolver.resolve).oauth2!;
+      oauth2AccessToken = await getOAuth2AccessToken(config, withEnvironment(context.send, context.environmentId));
+    }
+
+    const prepared = prepareProxyRequest({ ...request, ...scriptRequest }, resolver, context.queryParams, oauth2AccessToken);
+    if (!prepared.options) {
+      return { variables, tests: null, logs, urlError: prepared.urlError };
+    }
+
+    const response = await withEnvironment(context.sendRequest || context.send, context.environmentId)(prepared.options);
+
+    // Run the test script against the response
+    let tests: ScriptTestResult[] | null = null;
+    if (hasScript(request.testScript)) {
+      const scriptResult = await runTestScript(request.testScript, scriptRequest, response, variables);
+      logs.push(...scriptResult.logs);
+      if (scriptResult.error) {
+        logs.push(`[error] Test script error: ${scriptResult.error}`);
+      }
+      emitLogs();
+      tests = scriptResult.tests;
+      if (scriptResult.variablesChanged) {
+        variables = scriptResult.variables;
+        await context.onVariablesChange?.(variables);
+      }
+    }
+
+    return { request: prepared.options, response, variables, tests, logs };
+  } catch (err: Error | unknown) {
+    return { variables, tests: null, logs, error: err instanceof Error ? err.message : 'Request failed' };
+  }
+}
@@ -0,0 +1,104 @@
+// Per-request transport settings, stored with saved requests and collections and applied by /api/proxy
+
+import type { AppliedProxy } from './proxySettings';
+
+// Content-Encoding the request body is compressed with before sending
+export type BodyCompression = 'none' | 'gzip' | 'br' | 'deflate';
+
+export const BODY_COMPRESSIONS: { value: BodyCompression; label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'gzip', label: 'gzip' },
+  { value: 'br', label: 'Brotli (br)' },
+  { value: 'deflate', label: 'deflate' },
+];
+
+export interface RequestSettings {
+  // When off, a 3xx response is returned as is instead of being followed
+  followRedirects: boolean;
+  maxRedirects: number;
+  // Resend the original method and body on 307/308 as the spec requires; when off they switch to GET like 301/302
+  keepMethodOnRedirect: boolean;
+  // Milliseconds to wait for the response headers; 0 waits indefinitely
+  timeout: number;
+  // Reject invalid, expired and self-signed server certificates
+  verifyTls: boolean;
+  // Certificates uploaded to /api/certificates; null uses the system CAs and no client certificate
+  caCertificateId: string | null;
+  clientCertificateId: string | null;
+  // Compress the body and send it with a matching Content-Encoding header, for servers that accept compressed uploads
+  compressBody: BodyCompression;
+}
+
+export const DEFAULT_REQUEST_SETTINGS: RequestSettings = {
+  followRedirects: true,
+  maxRedirects: 20,
+  keepMethodOnRedirect: true,
+  timeout: 30000,
+  verifyTls: true,
+  caCertificateId: null,
+  clientCertificateId: null,
+  compressBody: 'none',
+};
+
+export const MAX_REDIRECTS_LIMIT = 50;
+
+// Settings as the proxy applied them, with certificates by name and the upstream proxy that was used
+export type AppliedSettings = Omit<RequestSettings, 'caCertificateId' | 'clientCertificateId'> & {
+  caCertificate: string | null;
+  clientCertificate: string | null;
+  proxy?: AppliedProxy | null;
+};
+
+// One followed redirect, as reported by the proxy
+export interface RedirectHop {
+  url: string;
+  method: string;
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  // Milliseconds from sending the request to receiving this response
+  time: number;
+}
+
+/**
+ * Layer saved settings over the defaults (collection first, then request) and keep numbers in range.
+ * Settings only hold the fields that were changed, so older saves pick up new defaults.
+ */
+export function resolveRequestSettings(...layers: (Partial<RequestSettings> | undefined)[]): RequestSettings {
+  const resolved: RequestSettings = Object.assign({ ...DEFAULT_REQUEST_SETTINGS }, ...layers);
+  const maxRedirects = Math.floor(Number(resolved.maxRedirects));
+  const timeout = Math.floor(Number(resolved.timeout));
+  return {
+    ...resolved,
+    maxRedirects: Number.isFinite(maxRedirects) ? Math.min(Math.max(maxRedirects, 1), MAX_REDIRECTS_LIMIT) : DEFAULT_REQUEST_SETTINGS.maxRedirects,
+    timeout: Number.isFinite(timeout) ? Math.max(timeout, 0) : DEFAULT_REQUEST_SETTINGS.timeout,
+    compressBody: BODY_COMPRESSIONS.some(option => option.value === resolved.compressBody) ? resolved.compressBody : 'none',
+  };
+}
+
+/**
+ * Whether any setting differs from the defaults, for the dot on the settings tab
+ */
+export function hasCustomSettings(settings?: Partial<RequestSettings>): boolean {
+  return (Object.keys(settings || {}) as (keyof RequestSettings)[])
+    .some(key => settings?.[key] !== undefined && settings[key] !== DEFAULT_REQUEST_SETTINGS[key]);
+}
+
+/**
+ * Short descriptions of the applied settings that differ from the defaults
+ */
+export function describeAppliedSettings(applied: AppliedSettings): string[] {
+  const notes: string[] = [];
+  if (!applied.followRedirects) notes.push('Redirects not followed');
+  else if (applied.maxRedirects !== DEFAULT_REQUEST_SETTINGS.maxRedirects) notes.push(`Max ${applied.maxRedirects} redirects`);
+  if (applied.followRedirects && !applied.keepMethodOnRedirect) notes.push('307/308 followed with GET');
+  if (applied.timeout !== DEFAULT_REQUEST_SETTINGS.timeout) {
+    notes.push(applied.timeout === 0 ? 'No timeout' : `Timeout ${applied.timeout / 1000} s`);
+  }
+  if (applied.compressBody && applied.compressBody !== 'none') notes.push(`Body compressed with ${applied.compressBody}`);
+  if (!applied.verifyTls) notes.push('TLS verification off');
+  if (applied.caCertificate) notes.push(`CA: ${applied.caCertificate}`);
+  if (applied.clientCertificate) notes.push(`Client certificate: ${applied.clientCertificate}`);
+  if (applied.proxy) notes.push(`Proxy: ${applied.proxy.url}${applied.proxy.source === 'environment' ? ' (environment)' : ''}`);
+  return notes;
+}
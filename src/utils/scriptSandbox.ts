@@ -0,0 +1,170 @@
+// Pre-request and test script execution. Scripts run isolated from the page, in public/script-sandbox.html.
+
+export interface ScriptVariable {
+  key: string;
+  value: string;
+  enabled: boolean;
+}
+
+export interface ScriptRequest {
+  method: string;
+  url: string;
+  headers: { key: string; value: string; enabled: boolean }[];
+  body: string;
+}
+
+export interface ScriptResponse {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  data: string;
+  time: number;
+  size: number;
+  contentType?: string;
+}
+
+export interface ScriptTestResult {
+  name: string;
+  passed: boolean;
+  error?: string;
+}
+
+export interface ScriptResult {
+  request: ScriptRequest;
+  variables: ScriptVariable[];
+  variablesChanged: boolean;
+  tests: ScriptTestResult[];
+  logs: string[];
+  error?: string;
+}
+
+interface ScriptContext {
+  request: ScriptRequest;
+  variables: ScriptVariable[];
+  response?: ScriptResponse;
+}
+
+// The page that runs scripts; see the comment at its top
+const SANDBOX_URL = '/script-sandbox.html';
+
+// A script that has not finished by then is stopped, whether it loops or waits on a promise that never settles.
+// The frame enforces this by terminating the script's Worker; the page gives up a little later in case the
+// frame itself never answers.
+const SCRIPT_TIMEOUT_MS = 30000;
+const SANDBOX_GRACE_MS = 5000;
+
+type ScriptEntry = ScriptVariable & { secret?: boolean; unreadable?: boolean };
+
+// Key/value lists from the sandbox, which is not trusted to send well-formed data
+const readEntries = (value: unknown): ScriptEntry[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  return value
+    .filter((entry): entry is ScriptEntry => !!entry && typeof entry.key === 'string' && typeof entry.value === 'string')
+    .map(entry => ({
+      key: entry.key,
+      value: entry.value,
+      enabled: entry.enabled !== false,
+      ...(entry.secret === true ? { secret: true } : {}),
+      ...(entry.unreadable === true ? { unreadable: true } : {}),
+    }));
+};
+
+/**
+ * Check the result posted by the sandbox, falling back to the unchanged request and variables
+ */
+function readResult(data: unknown, context: ScriptContext): ScriptResult {
+  const result = (data && typeof data === 'object' ? data : {}) as Record<string, unknown>;
+  const request = (result.request && typeof result.request === 'object' ? result.request : {}) as Record<string, unknown>;
+  const tests = Array.isArray(result.tests) ? result.tests : [];
+
+  return {
+    request: {
+      method: typeof request.method === 'string' ? request.method : context.request.method,
+      url: typeof request.url === 'string' ? request.url : context.request.url,
+      headers: readEntries(request.headers) || context.request.headers,
+      body: typeof request.body === 'string' ? request.body : context.request.body,
+    },
+    variables: readEntries(result.variables) || context.variables,
+    variablesChanged: result.variablesChanged === true,
+    tests: tests
+      .filter(test => test && typeof test.name === 'string')
+      .map(test => ({ name: test.name, passed: test.passed === true, error: typeof test.error === 'string' ? test.error : undefined })),
+    logs: Array.isArray(result.logs) ? result.logs.map(String) : [],
+    error: typeof result.error === 'string' ? result.error : undefined,
+  };
+}
+
+/**
+ * Run a user script against a request (and optionally a response) in an <iframe sandbox="allow-scripts">.
+ * The frame has an opaque origin and no network access, so the script cannot read the login token, the
+ * page or its storage, or send anything anywhere; data goes in and out with postMessage.
+ */
+function runScript(script: string, context: ScriptContext): Promise<ScriptResult> {
+  if (typeof document === 'undefined') {
+    return Promise.resolve(readResult({ error: 'Scripts can only run in the browser' }, context));
+  }
+
+  return new Promise(resolve => {
+    const frame = document.createElement('iframe');
+    frame.setAttribute('sandbox', 'allow-scripts');
+    frame.style.display = 'none';
+    frame.src = SANDBOX_URL;
+    let started = false;
+
+    const finish = (data: unknown) => {
+      window.clearTimeout(timeout);
+      window.removeEventListener('message', onMessage);
+      frame.remove();
+      resolve(readResult(data, context));
+    };
+
+    const onMessage = (event: MessageEvent) => {
+      if (event.source !== frame.contentWindow) return;
+      if (event.data?.type === 'ready' && !started) {
+        started = true;
+        // The frame's origin is opaque, so it cannot be named as the target
+        frame.contentWindow?.postMessage({ type: 'run', script, context, timeout: SCRIPT_TIMEOUT_MS }, '*');
+      } else if (event.data?.type === 'result' && started) {
+        finish(event.data.result);
+      }
+    };
+
+    const timeout = window.setTimeout(
+      () => finish({ error: `Script did not finish within ${SCRIPT_TIMEOUT_MS / 1000} seconds` }),
+      SCRIPT_TIMEOUT_MS + SANDBOX_GRACE_MS
+    );
+
+    window.addEventListener('message', onMessage);
+    document.body.append(frame);
+  });
+}
+
+/**
+ * Run a pre-request script. It may change the request and environment variables.
+ */
+export function runPreRequestScript(
+  script: string,
+  request: ScriptRequest,
+  variables: ScriptVariable[]
+): Promise<ScriptResult> {
+  return runScript(script, { request, variables });
+}
+
+/**
+ * Run a test script against the response of a request
+ */
+export function runTestScript(
+  script: string,
+  request: ScriptRequest,
+  response: ScriptResponse,
+  variables: ScriptVariable[]
+): Promise<ScriptResult> {
+  return runScript(script, { request, response, variables });
+}
+
+/**
+ * Check whether a script contains anything worth executing
+ */
+export function hasScript(script?: string): script is string {
+  return !!script && script.trim().length > 0;
+}
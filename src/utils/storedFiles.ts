@@ -0,0 +1,31 @@
+// Files uploaded to the server for use in request bodies
+
+export interface StoredFileInfo {
+  id: string;
+  name: string;
+  contentType: string;
+  size: number;
+  // Hex SHA-256 of the content, to tell apart files with the same name
+  sha256: string;
+  createdAt: number;
+}
+
+// A stored file sent as the whole body of a "binary" request
+export interface BinaryFileBody {
+  fileId: string;
+  fileName: string;
+  // Filled in from the file when it is chosen and can be changed; the file's own type is used when empty
+  contentType?: string;
+}
+
+// Largest file /api/files accepts
+export const MAX_FILE_SIZE = 20 * 1024 * 1024;
+
+/**
+ * Human-readable byte count, e.g. "1.5 MB"
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
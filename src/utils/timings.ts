@@ -0,0 +1,45 @@
+// Per-phase timing of proxied requests, shown as a waterfall in the response viewer and history
+
+export interface RequestTimings {
+  // Time spent on earlier hops when redirects were followed
+  redirect: number;
+  dns: number;
+  tcp: number;
+  tls: number;
+  // From the request being sent to the first response byte
+  ttfb: number;
+  download: number;
+  total: number;
+}
+
+export type TimingPhase = Exclude<keyof RequestTimings, 'total'>;
+
+export const TIMING_PHASES: { phase: TimingPhase; label: string; color: string }[] = [
+  { phase: 'redirect', label: 'Redirects', color: 'bg-gray-400' },
+  { phase: 'dns', label: 'DNS lookup', color: 'bg-teal-500' },
+  { phase: 'tcp', label: 'TCP connect', color: 'bg-orange-500' },
+  { phase: 'tls', label: 'TLS handshake', color: 'bg-purple-500' },
+  { phase: 'ttfb', label: 'Waiting (TTFB)', color: 'bg-green-500' },
+  { phase: 'download', label: 'Content download', color: 'bg-blue-500' },
+];
+
+/**
+ * Phases in order with their offset from the start of the request, for drawing a waterfall
+ */
+export function getTimingWaterfall(timings: RequestTimings): { phase: TimingPhase; label: string; color: string; start: number; duration: number }[] {
+  let start = 0;
+  return TIMING_PHASES.map(({ phase, label, color }) => {
+    const entry = { phase, label, color, start, duration: timings[phase] };
+    start += timings[phase];
+    return entry;
+  });
+}
+
+/**
+ * Format a phase duration; sub-millisecond phases keep one decimal
+ */
+export function formatTiming(ms: number): string {
+  if (ms >= 1000) return `${(ms / 1000).toFixed(2)} s`;
+  if (ms >= 10) return `${Math.round(ms)} ms`;
+  return `${ms.toFixed(1)} ms`;
+}
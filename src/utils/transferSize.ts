@@ -0,0 +1,44 @@
+// Bytes on the wire for proxied requests, as measured by the proxy rather than from the displayed body
+
+import { formatFileSize } from './storedFiles';
+
+export interface ResponseSize {
+  // Status line and header block as received
+  headers: number;
+  // Body as transferred, before its Content-Encoding is decoded
+  body: number;
+  // Body after decoding; the same as body when no encoding was applied
+  decoded: number;
+  // Content-Encoding the server chose, e.g. "br"; null when the body was not encoded
+  encoding: string | null;
+}
+
+export interface RequestBodySize {
+  // Body as sent, after compression
+  body: number;
+  // Body before compression
+  uncompressed: number;
+  // Content-Encoding the body was compressed with; null when it was sent as is
+  encoding: string | null;
+}
+
+export interface TransferSize {
+  request: RequestBodySize;
+  response: ResponseSize;
+}
+
+/**
+ * Share of the uncompressed size saved by an encoding, e.g. "72% smaller"; empty when nothing was saved
+ */
+export function describeCompression(compressed: number, uncompressed: number): string {
+  if (uncompressed <= 0 || compressed >= uncompressed) return '';
+  return `${Math.round((1 - compressed / uncompressed) * 100)}% smaller`;
+}
+
+/**
+ * One-line summary for the response status bar, e.g. "12.0 KB (3.1 KB br)"
+ */
+export function summarizeResponseSize(size: ResponseSize): string {
+  const decoded = formatFileSize(size.decoded);
+  return size.encoding ? `${decoded} (${formatFileSize(size.body)} ${size.encoding})` : decoded;
+}
@@ -105,4 +105,66 @@ export function formatUrl(url: string): string {
     return validation.correctedUrl;
   }
   return url;
-}
\ No newline at end of file
+}
+export function validateWebSocketUrl(url: string): UrlValidationResult {
+  const trimmedUrl = url.trim();
+  const toHttp = trimmedUrl.replace(/^ws(s?):\/\//i, 'http$1://');
+  const validation = validateUrl(toHttp);
+
+  if (!validation.canBeUsed) {
+    return {
+      ...validation,
+      error: validation.error === 'Only HTTP and HTTPS protocols are supported'
+        ? 'Only WS and WSS protocols are supported'
+        : validation.error
+    };
+  }
+
+  // Bare hosts and http(s) URLs are corrected to the matching ws(s) scheme
+  const correctedUrl = (validation.correctedUrl || toHttp).replace(/^http(s?):\/\//i, 'ws$1://');
+  if (correctedUrl === trimmedUrl) {
+    return { isValid: true, canBeUsed: true };
+  }
+
+  return {
+    isValid: false,
+    canBeUsed: true,
+    correctedUrl
+  };
+}
+
+export function validateGrpcUrl(url: string): UrlValidationResult {
+  const trimmedUrl = url.trim();
+  const toHttp = trimmedUrl.replace(/^grpc(s?):\/\//i, 'http$1://');
+  const validation = validateUrl(toHttp);
+
+  if (!validation.canBeUsed) {
+    return {
+      ...validation,
+      error: validation.error === 'Only HTTP and HTTPS protocols are supported'
+        ? 'Only GRPC and GRPCS protocols are supported'
+        : validation.error
+    };
+  }
+
+  // Bare hosts and http(s) URLs are corrected to the matching grpc(s) scheme
+  const correctedUrl = (validation.correctedUrl || toHttp).replace(/^http(s?):\/\//i, 'grpc$1://');
+  const parsedUrl = new URL(correctedUrl.replace(/^grpc(s?):\/\//i, 'http$1://'));
+  if (parsedUrl.pathname !== '/' || parsedUrl.search || parsedUrl.hash) {
+    return {
+      isValid: false,
+      canBeUsed: false,
+      error: 'gRPC URLs only name the server; pick the method separately'
+    };
+  }
+
+  if (correctedUrl === trimmedUrl) {
+    return { isValid: true, canBeUsed: true };
+  }
+
+  return {
+    isValid: false,
+    canBeUsed: true,
+    correctedUrl
+  };
+}
@@ -0,0 +1,172 @@
+// Variable scopes and the resolver that substitutes {{name}} placeholders.
+// Shared by sending, code generation and the collection runner so they all agree on the values.
+
+export interface Variable {
+  key: string;
+  value: string;
+  enabled: boolean;
+  // Environment variables only: the value is encrypted at rest, masked in the UI and redacted from history
+  secret?: boolean;
+  // Set on secret values that no longer decrypt; they come back empty and saving keeps the stored value
+  // until a new one is entered
+  unreadable?: boolean;
+}
+
+export type VariableScope = 'global' | 'collection' | 'environment' | 'request';
+
+// Lowest precedence first: a request variable overrides an environment variable of the same name, and so on
+export const VARIABLE_SCOPES: VariableScope[] = ['global', 'collection', 'environment', 'request'];
+
+export const SCOPE_LABELS: Record<ResolvedVariable['scope'], string> = {
+  global: 'Global',
+  collection: 'Collection',
+  environment: 'Environment',
+  request: 'Request',
+  dynamic: 'Built-in',
+};
+
+export type VariableScopes = Partial<Record<VariableScope, Variable[]>>;
+
+export interface ResolvedVariable {
+  name: string;
+  value: string;
+  // "dynamic" for built-ins such as {{$guid}}, whose value is generated again for every placeholder
+  scope: VariableScope | 'dynamic';
+  secret?: boolean;
+}
+
+export interface VariableResolver {
+  // The value a placeholder resolves to and the scope it comes from; undefined when no scope defines it
+  lookup: (name: string) => ResolvedVariable | undefined;
+  // Replace every defined placeholder; undefined ones are left as they are. Values are passed through
+  // encode first where the text needs it, e.g. encodeURIComponent in a urlencoded body.
+  resolve: (text: string, encode?: (value: string) => string) => string;
+}
+
+export interface VariableReference {
+  name: string;
+  // Offsets of the whole "{{name}}" placeholder in the text
+  start: number;
+  end: number;
+}
+
+export interface VariableResolverOptions {
+  // Leave the placeholders of secret variables as they are, e.g. in generated code
+  keepSecrets?: boolean;
+}
+
+const PLACEHOLDER = /{{([^{}]+)}}/g;
+
+const randomHex = (bytes: number) =>
+  Array.from(crypto.getRandomValues(new Uint8Array(bytes)), byte => byte.toString(16).padStart(2, '0')).join('');
+
+// crypto.randomUUID is missing from pages served over plain http, so the version 4 UUID is built by hand
+const randomUuid = () => {
+  const hex = randomHex(16);
+  const variant = ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16);
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-4${hex.slice(13, 16)}-${variant}${hex.slice(17, 20)}-${hex.slice(20)}`;
+};
+
+const randomInt = (args: string[]): string | undefined => {
+  if (args.length !== 0 && args.length !== 2) return undefined;
+  const [min, max] = args.length === 2 ? args.map(Number) : [0, 1000];
+  if (!Number.isSafeInteger(min) || !Number.isSafeInteger(max) || min > max) return undefined;
+  return String(min + Math.floor(Math.random() * (max - min + 1)));
+};
+
+// Built-in {{$name}} variables; a generator returns undefined when its arguments are invalid
+const DYNAMIC_VARIABLES: Record<string, (args: string[]) => string | undefined> = {
+  $guid: args => args.length === 0 ? randomUuid() : undefined,
+  $randomUUID: args => args.length === 0 ? randomUuid() : undefined,
+  $timestamp: args => args.length === 0 ? String(Math.floor(Date.now() / 1000)) : undefined,
+  $isoTimestamp: args => args.length === 0 ? new Date().toISOString() : undefined,
+  $randomInt: randomInt,
+  $randomEmail: args => args.length === 0 ? `user.${randomHex(4)}@example.com` : undefined,
+};
+
+/**
+ * Generate a value for a built-in variable such as "$guid" or "$randomInt 1 100"; undefined when the
+ * name is not a built-in or its arguments are invalid
+ */
+export function evaluateDynamicVariable(placeholder: string): string | undefined {
+  const [name, ...args] = placeholder.trim().split(/\s+/);
+  return Object.prototype.hasOwnProperty.call(DYNAMIC_VARIABLES, name) ? DYNAMIC_VARIABLES[name](args) : undefined;
+}
+
+/**
+ * Find the {{name}} placeholders in a text, in order
+ */
+export function findVariableReferences(text: string): VariableReference[] {
+  return Array.from(text.matchAll(PLACEHOLDER), match => ({
+    name: match[1],
+    start: match.index!,
+    end: match.index! + match[0].length,
+  }));
+}
+
+/**
+ * Build a resolver over the given scopes; enabled variables of a higher scope win.
+ * Names no scope defines fall back to the built-in {{$name}} variables.
+ */
+export function createVariableResolver(scopes: VariableScopes, options: VariableResolverOptions = {}): VariableResolver {
+  const resolved = new Map<string, ResolvedVariable>();
+  VARIABLE_SCOPES.forEach(scope => {
+    (scopes[scope] || []).forEach(variable => {
+      if (variable.enabled && variable.key) {
+        resolved.set(variable.key, { name: variable.key, value: variable.value, scope, secret: variable.secret });
+      }
+    });
+  });
+
+  const lookup = (name: string): ResolvedVariable | undefined => {
+    const variable = resolved.get(name);
+    if (variable || !name.trim().startsWith('$')) return variable;
+    const value = evaluateDynamicVariable(name);
+    return value === undefined ? undefined : { name, value, scope: 'dynamic' };
+  };
+  return {
+    lookup,
+    // A single pass, so values that contain placeholders are sent as they are. Built-ins are looked up
+    // once per placeholder, so two {{$guid}} in one request get different values.
+    resolve: (text, encode = value => value) => text.replace(PLACEHOLDER, (placeholder, name: string) => {
+      const variable = lookup(name);
+      return !variable || (variable.secret && options.keepSecrets) ? placeholder : encode(variable.value);
+    }),
+  };
+}
+
+/**
+ * Wrap a resolver so it records the placeholders no scope defines, in the order they are met, instead of
+ * substituting anything
+ */
+export function trackUnresolvedVariables(resolver: VariableResolver): { tracker: VariableResolver; unresolved: () => string[] } {
+  const unresolved = new Set<string>();
+  return {
+    tracker: {
+      lookup: resolver.lookup,
+      resolve: text => {
+        findVariableReferences(text).forEach(({ name }) => {
+          if (!resolver.lookup(name)) unresolved.add(name);
+        });
+        return text;
+      },
+    },
+    unresolved: () => Array.from(unresolved),
+  };
+}
+
+/**
+ * Put the {{name}} placeholder back wherever the value of a secret variable appears in a text, also in its
+ * URL-encoded form, so it can be kept in history
+ */
+export function redactSecrets(text: string, variables: Variable[]): string {
+  const replacements = variables
+    .filter(variable => variable.secret && variable.key && variable.value)
+    .flatMap(variable => Array.from(new Set([variable.value, encodeURIComponent(variable.value)]), value => ({
+      value,
+      placeholder: `{{${variable.key}}}`,
+    })))
+    // Longest first, so a secret that contains another is replaced whole
+    .sort((a, b) => b.value.length - a.value.length);
+  return replacements.reduce((result, { value, placeholder }) => result.split(value).join(placeholder), text);
+}
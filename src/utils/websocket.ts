@@ -0,0 +1,95 @@
+// WebSocket request model and message encoding for the WebSocket tab
+
+// Stored as the request method so WebSocket requests sit next to HTTP ones in collections
+export const WEBSOCKET_METHOD = 'WS';
+
+export type WebSocketMessageFormat = 'text' | 'json' | 'base64' | 'hex';
+
+export interface WebSocketSettings {
+  // Comma-separated Sec-WebSocket-Protocol values
+  protocols: string;
+  // Draft message in the composer
+  message: string;
+  messageFormat: WebSocketMessageFormat;
+}
+
+export const DEFAULT_WEBSOCKET_SETTINGS: WebSocketSettings = {
+  protocols: '',
+  message: '',
+  messageFormat: 'text',
+};
+
+export const WEBSOCKET_MESSAGE_FORMAT_LABELS: Record<WebSocketMessageFormat, string> = {
+  text: 'Text',
+  json: 'JSON',
+  base64: 'Binary (base64)',
+  hex: 'Binary (hex)',
+};
+
+/**
+ * Whether a saved or edited request is a WebSocket request
+ */
+export function isWebSocketRequest(request: { method: string }): boolean {
+  return request.method === WEBSOCKET_METHOD;
+}
+
+/**
+ * Split the comma-separated subprotocol list
+ */
+export function parseProtocols(protocols: string): string[] {
+  return protocols.split(',').map(protocol => protocol.trim()).filter(Boolean);
+}
+
+/**
+ * Turn composer input into a frame for the relay: text frames as-is, binary frames as base64
+ */
+export function encodeWebSocketMessage(message: string, format: WebSocketMessageFormat): { data: string; binary: boolean } {
+  switch (format) {
+    case 'json':
+      try {
+        return { data: JSON.stringify(JSON.parse(message)), binary: false };
+      } catch {
+        throw new Error('Message is not valid JSON');
+      }
+    case 'base64': {
+      const data = message.replace(/\s+/g, '');
+      if (!/^[A-Za-z0-9+/]*={0,2}$/.test(data) || data.length % 4 !== 0) {
+        throw new Error('Message is not valid base64');
+      }
+      return { data, binary: true };
+    }
+    case 'hex': {
+      const hex = message.replace(/0x|[\s,:]/gi, '');
+      if (!/^([0-9a-f]{2})*$/i.test(hex)) {
+        throw new Error('Message is not valid hex; use pairs of hex digits');
+      }
+      const bytes = hex.match(/../g) || [];
+      return { data: btoa(bytes.map(byte => String.fromCharCode(parseInt(byte, 16))).join('')), binary: true };
+    }
+    default:
+      return { data: message, binary: false };
+  }
+}
+
+/**
+ * Size in bytes of a logged frame
+ */
+export function frameSize(data: string, binary: boolean): number {
+  return binary ? atob(data).length : new TextEncoder().encode(data).length;
+}
+
+/**
+ * Hex dump of a binary frame for the message log, truncated for large frames
+ */
+export function formatBinaryFrame(base64: string, maxBytes = 256): string {
+  const bytes = atob(base64);
+  const shown = Array.from(bytes.slice(0, maxBytes), char => char.charCodeAt(0).toString(16).padStart(2, '0'));
+  const lines: string[] = [];
+  for (let i = 0; i < shown.length; i += 16) {
+    lines.push(shown.slice(i, i + 16).join(' '));
+  }
+  if (bytes.length > maxBytes) {
+    lines.push(`... ${bytes.length - maxBytes} more bytes`);
+  }
+  return lines.join('\n');
+}